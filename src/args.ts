@@ -0,0 +1,31 @@
+/**
+ * args.ts — command-line parsing shared by the CLI and the npm scripts
+ *
+ * `--name value` sets a flag, a bare `--name` sets it to "true" and
+ * everything else is positional. Switches — the names in `booleanFlags` —
+ * never swallow the next token (`--json fills` keeps "fills" positional),
+ * except an explicit true/false (`--opposite false`).
+ */
+
+export interface ParsedArgs {
+  flags: Record<string, string>;
+  positional: string[];
+}
+
+export function parseArgs(argv: string[], booleanFlags: ReadonlySet<string> = new Set()): ParsedArgs {
+  const flags: Record<string, string> = {};
+  const positional: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a.startsWith('--')) {
+      const name = a.slice(2);
+      const next = argv[i + 1];
+      const takesValue = booleanFlags.has(name) ? next === 'true' || next === 'false' : next !== undefined && !next.startsWith('--');
+      if (takesValue) { flags[name] = next; i++; }
+      else flags[name] = 'true';
+    } else {
+      positional.push(a);
+    }
+  }
+  return { flags, positional };
+}
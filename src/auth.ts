@@ -2,10 +2,15 @@
 import WebSocket from 'ws';
 (globalThis as any).WebSocket = WebSocket;
 
+import { EventEmitter } from 'events';
 import { createSDK, CryptoUtils } from 'gdex.pro-sdk';
 import { ethers } from 'ethers';
 import { loadConfig, Config, REQUIRED_HEADERS } from './config';
 import { generateEVMWallet, saveWalletToEnv } from './wallet';
+import { hasKeystore, unlockKeystore, saveKeystore, resolvePassphrase, getKeystoreDir, UnlockedWallet } from './keystore';
+import { enablePaperTrading, PaperEngine } from './paper-trading';
+import { usePaperJournal } from './journal';
+import { routeHlAccountToPaper } from './hyperliquid';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -29,6 +34,8 @@ export interface GDEXSession {
   apiKey: string;
   /** Chain ID used during login */
   chainId: number;
+  /** Simulated fill engine — set when paper trading is on; orders never reach the API */
+  paper?: PaperEngine;
 }
 
 export interface CreateSessionOptions {
@@ -40,10 +47,59 @@ export interface CreateSessionOptions {
   walletAddress?: string;
   /** EVM wallet private key (for login signing only) */
   privateKey?: string;
+  /** Encrypted keystore wallet to log in with. Defaults to WALLET_NAME when PRIVATE_KEY is unset */
+  walletName?: string;
+  /** Keystore passphrase. Defaults to KEYSTORE_PASSWORD / KEYSTORE_PASSWORD_FILE */
+  passphrase?: string;
   /** Chain ID. Defaults to Solana (622112261) */
   chainId?: number;
   /** Referral code */
   refCode?: string;
+  /** Simulate all orders instead of sending them. Defaults to PAPER_TRADING in .env */
+  paperTrading?: boolean;
+}
+
+export interface SessionManagerOptions extends Omit<CreateSessionOptions, 'chainId'> {
+  /** Chains to log in on, in order of preference — the first that succeeds is used. Default Solana, then Arbitrum */
+  chainIds?: number[];
+  /** Re-login this long after the last login, before the server-side TTL (default 25 min) */
+  refreshAfterMs?: number;
+  /** Schedule proactive refreshes in the background (default true) */
+  autoRefresh?: boolean;
+}
+
+export interface SessionRefreshEvent {
+  session: GDEXSession;
+  /** Chain the login went through */
+  chainId: number;
+  /** 'start' | 'scheduled' | 'stale' | 'auth-error' | 'manual' */
+  reason: string;
+  /** Chains tried before this one that failed */
+  failedChains: { chainId: number; error: string }[];
+}
+
+/**
+ * Owns one logged-in GDEXSession and keeps it valid. The login is shared by
+ * every chain: `get(chainId)` returns the same session keys with that
+ * chain's ID and custodial address filled in.
+ */
+export interface SessionManager {
+  /** Log in (if not already) and start the refresh timer */
+  start(): Promise<GDEXSession>;
+  /** A valid session for `chainId` (default: login chain); refreshes first if stale */
+  get(chainId?: number): Promise<GDEXSession>;
+  /** The current session without refreshing — throws before start() */
+  current(): GDEXSession;
+  /** Force a re-login. Concurrent calls share one login */
+  refresh(reason?: string): Promise<GDEXSession>;
+  /** Run `fn` with a valid session, refreshing and retrying once if it fails on auth */
+  withSession<T>(fn: (session: GDEXSession) => Promise<T>, chainId?: number): Promise<T>;
+  /** ms since the last successful login (Infinity before start) */
+  age(): number;
+  on(event: 'refresh', listener: (e: SessionRefreshEvent) => void): void;
+  on(event: 'refresh-error', listener: (err: Error) => void): void;
+  /** Stop the refresh timer */
+  stop(): void;
 }
 
 // ---------------------------------------------------------------------------
@@ -83,15 +139,47 @@ function patchSDKHeaders(sdk: ReturnType<typeof createSDK>): void {
 /**
  * Create and return an initialized SDK instance.
  * Handles comma-separated API key extraction and injects required
- * Origin/Referer headers automatically.
+ * Origin/Referer headers automatically. With GDEX_MOCK_URL set, apiUrl is
+ * ignored for `<mock>/v1`; the namespace calls reach the mock server once
+ * routeSdkToMock() (mock-api.ts) is applied, as createAuthenticatedSession()
+ * does.
  */
 export function initSDK(apiUrl: string, apiKey?: string): ReturnType<typeof createSDK> {
   const effectiveKey = apiKey ? getEffectiveApiKey(apiKey) : undefined;
-  const sdk = createSDK(apiUrl, { apiKey: effectiveKey });
+  const { mockUrl } = loadConfig();
+  const sdk = createSDK(mockUrl ? `${mockUrl}/v1` : apiUrl, { apiKey: effectiveKey });
   patchSDKHeaders(sdk);
   return sdk;
 }
 
+// Decrypted keystore wallets, so periodic re-logins don't pay for scrypt again
+const unlockedWallets = new Map<string, UnlockedWallet>();
+
+function unlockWallet(name: string, passphrase?: string): UnlockedWallet {
+  const key = `${getKeystoreDir()}:${name}`;
+  let wallet = unlockedWallets.get(key);
+  if (!wallet) {
+    wallet = unlockKeystore(name, passphrase);
+    unlockedWallets.set(key, wallet);
+  }
+  return wallet;
+}
+
+/**
+ * Pick the login key: an explicit privateKey wins, then an explicitly named
+ * keystore wallet, then PRIVATE_KEY from .env, then the WALLET_NAME keystore.
+ */
+function resolveLoginWallet(opts: CreateSessionOptions, envConfig: Config): { walletAddress: string; privateKey: string } {
+  if (opts.privateKey) return { walletAddress: opts.walletAddress ?? envConfig.walletAddress, privateKey: opts.privateKey };
+  if (!opts.walletName && envConfig.privateKey) {
+    return { walletAddress: opts.walletAddress ?? envConfig.walletAddress, privateKey: envConfig.privateKey };
+  }
+  const name = opts.walletName ?? envConfig.walletName;
+  if (!hasKeystore(name)) return { walletAddress: opts.walletAddress ?? envConfig.walletAddress, privateKey: '' };
+  const unlocked = unlockWallet(name, opts.passphrase);
+  return { walletAddress: opts.walletAddress ?? unlocked.address, privateKey: unlocked.privateKey };
+}
+
 // ---------------------------------------------------------------------------
 // Session creation
 // ---------------------------------------------------------------------------
@@ -122,19 +210,19 @@ export async function createAuthenticatedSession(
   const envConfig = loadConfig();
   const apiUrl = opts.apiUrl ?? envConfig.apiUrl;
   const rawApiKey = opts.apiKey ?? envConfig.apiKey;
-  const walletAddress = opts.walletAddress ?? envConfig.walletAddress;
-  const privateKey = opts.privateKey ?? envConfig.privateKey;
+  const { walletAddress, privateKey } = resolveLoginWallet(opts, envConfig);
   const chainId = opts.chainId ?? envConfig.defaultChainId;
   const refCode = opts.refCode ?? '';
 
   if (!rawApiKey) throw new Error('API key is required. Set GDEX_API_KEY in .env or pass apiKey option.');
   if (!walletAddress) throw new Error('Wallet address is required. Set WALLET_ADDRESS in .env or pass walletAddress option.');
-  if (!privateKey) throw new Error('Private key is required for login. Set PRIVATE_KEY in .env or pass privateKey option.');
+  if (!privateKey) throw new Error('Private key is required for login. Set PRIVATE_KEY in .env, create a keystore wallet (npm run wallet:keystore) or pass privateKey option.');
 
   const apiKey = getEffectiveApiKey(rawApiKey);
 
-  // 1. Initialise SDK
+  // 1. Initialise SDK — the mock server module only loads when GDEX_MOCK_URL is set
   const sdk = initSDK(apiUrl, apiKey);
+  if (envConfig.mockUrl) (await import('./mock-api')).routeSdkToMock(sdk, envConfig.mockUrl);
 
   // 2. Generate session key pair
   const sessionKeyPair = CryptoUtils.getSessionKey();
@@ -169,7 +257,7 @@ export async function createAuthenticatedSession(
   // 7. The session key's private key is used for trading POST requests
   const tradingPrivateKey = sessionKeyPair.privateKey.toString('hex');
 
-  return {
+  const session: GDEXSession = {
     sdk,
     walletAddress,
     custodialAddress: (userInfo as any).address as string,
@@ -179,13 +267,27 @@ export async function createAuthenticatedSession(
     apiKey,
     chainId,
   };
+
+  // 8. Paper mode: login stays real (quotes, holdings reads) but orders are simulated
+  if (opts.paperTrading ?? envConfig.paperTrading) {
+    session.paper = enablePaperTrading(session);
+    usePaperJournal();
+  }
+
+  return session;
 }
 
 /**
  * Ensure the config has a valid EVM wallet, auto-generating one if needed.
  * Returns updated config. Useful for CLI/test-suite bootstrap.
  */
-export function ensureEVMWallet(config: Config): Config {
+export function ensureEVMWallet(config: Config, opts: { passphrase?: string } = {}): Config {
+  // Encrypted keystore takes over when .env has no plaintext key
+  if (!config.privateKey && hasKeystore(config.walletName)) {
+    const unlocked = unlockWallet(config.walletName, opts.passphrase);
+    return { ...config, walletAddress: unlocked.address, privateKey: unlocked.privateKey };
+  }
+
   const needsNewWallet =
     !config.privateKey ||
     !config.walletAddress ||
@@ -202,10 +304,168 @@ export function ensureEVMWallet(config: Config): Config {
   }
 
   const wallet = generateEVMWallet();
-  const saved = saveWalletToEnv(wallet);
-  if (saved) {
-    console.log('  Wallet saved to .env file.\n');
+  const passphrase = opts.passphrase ?? resolvePassphrase();
+  if (passphrase) {
+    saveKeystore(config.walletName, wallet.privateKey, passphrase);
+    console.log(`  Wallet saved to encrypted keystore "${config.walletName}" (${getKeystoreDir()}).\n`);
+  } else {
+    const saved = saveWalletToEnv(wallet);
+    if (saved) {
+      console.log('  Wallet saved to .env file.');
+      console.log('  ⚠️  The private key is stored in plaintext — run `npm run wallet:keystore -- migrate` to encrypt it.\n');
+    }
   }
 
   return { ...config, walletAddress: wallet.address, privateKey: wallet.privateKey };
 }
+
+// ---------------------------------------------------------------------------
+// Session manager
+// ---------------------------------------------------------------------------
+
+const SOLANA = 622112261;
+const ARBITRUM = 42161;
+// Server-side session TTL is ~30 min — refresh with margin to spare
+const DEFAULT_REFRESH_AFTER_MS = 25 * 60 * 1000;
+/**
+ * Server answers to a stale or invalid session, matched as the whole message
+ * (case and trailing punctuation aside) — "transaction expired" or "blockhash
+ * expired" are trade failures, and resending those would double the order.
+ */
+const AUTH_ERROR_MESSAGES = new Set([
+  'unauthorized',
+  'unauthorised',
+  'session expired',
+  'invalid session',
+  'not logged in',
+  'please login',
+  'invalid signature',
+  'invalid token',
+  'jwt expired',
+]);
+
+/** True when an error or failed TradeResult is HTTP 401 or one of AUTH_ERROR_MESSAGES. */
+export function isAuthError(errOrResult: any): boolean {
+  if (!errOrResult) return false;
+  const status = errOrResult.response?.status ?? errOrResult.status;
+  if (status === 401) return true;
+  if (errOrResult.isSuccess === true) return false;
+  const message = errOrResult.response?.data?.message ?? errOrResult.response?.data?.error
+    ?? errOrResult.message ?? errOrResult.error;
+  return typeof message === 'string' && AUTH_ERROR_MESSAGES.has(message.trim().replace(/[.!]+$/, '').toLowerCase());
+}
+
+/**
+ * Create a SessionManager. Nothing happens until start() or the first get().
+ *
+ * @example
+ * ```ts
+ * const sessions = createSessionManager();
+ * sessions.on('refresh', e => console.log(`re-login on ${e.chainId} (${e.reason})`));
+ * await sessions.start();
+ * const result = await sessions.withSession(s => sellToken(s, { tokenAddress, amount }));
+ * const hl = await sessions.get(42161); // same login, Arbitrum custodial address
+ * ```
+ */
+export function createSessionManager(opts: SessionManagerOptions = {}): SessionManager {
+  const { chainIds = [SOLANA, ARBITRUM], refreshAfterMs = DEFAULT_REFRESH_AFTER_MS, autoRefresh = true, ...loginOpts } = opts;
+  if (chainIds.length === 0) throw new Error('SessionManager needs at least one chain ID');
+
+  const events = new EventEmitter();
+  let base: GDEXSession | null = null;
+  let loggedInAt = 0;
+  let inflight: Promise<GDEXSession> | null = null;
+  let timer: NodeJS.Timeout | null = null;
+  // Per-chain views of the current login, rebuilt after every refresh
+  let views = new Map<number, Promise<GDEXSession>>();
+
+  function schedule() {
+    if (!autoRefresh) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      refresh('scheduled').catch(() => { /* reported via refresh-error; next get() retries */ });
+    }, refreshAfterMs);
+    timer.unref?.();
+  }
+
+  async function login(reason: string): Promise<GDEXSession> {
+    const failedChains: SessionRefreshEvent['failedChains'] = [];
+    for (const chainId of chainIds) {
+      try {
+        const session = await createAuthenticatedSession({ ...loginOpts, chainId });
+        base = session;
+        loggedInAt = Date.now();
+        views = new Map([[chainId, Promise.resolve(session)]]);
+        schedule();
+        events.emit('refresh', { session, chainId, reason, failedChains });
+        return session;
+      } catch (err: any) {
+        failedChains.push({ chainId, error: err?.message ?? String(err) });
+      }
+    }
+    const err = new Error(`Login failed on every chain: ${failedChains.map(f => `${f.chainId} (${f.error})`).join(', ')}`);
+    events.emit('refresh-error', err);
+    if (base) schedule(); // keep the old session and try again later
+    throw err;
+  }
+
+  function refresh(reason = 'manual'): Promise<GDEXSession> {
+    if (!inflight) {
+      inflight = login(reason).finally(() => { inflight = null; });
+    }
+    return inflight;
+  }
+
+  function viewFor(session: GDEXSession, chainId: number): Promise<GDEXSession> {
+    let view = views.get(chainId);
+    if (!view) {
+      view = (async () => {
+        const info = await session.sdk.user.getUserInfo(session.walletAddress, session.encryptedSessionKey, chainId);
+        const custodialAddress: string = (info as any)?.address ?? session.custodialAddress;
+        // The chain's custodial address may be the HL account — keep its reads simulated too
+        if (session.paper && custodialAddress) routeHlAccountToPaper(custodialAddress, session.paper.hlAccount);
+        return { ...session, chainId, custodialAddress };
+      })();
+      // Don't cache a failed lookup
+      view.catch(() => { if (views.get(chainId) === view) views.delete(chainId); });
+      views.set(chainId, view);
+    }
+    return view;
+  }
+
+  async function get(chainId?: number): Promise<GDEXSession> {
+    let session = base;
+    if (!session) session = await refresh('start');
+    else if (Date.now() - loggedInAt >= refreshAfterMs) session = await refresh('stale');
+    return chainId === undefined || chainId === session.chainId ? session : viewFor(session, chainId);
+  }
+
+  return {
+    start: () => get(),
+    get,
+    current() {
+      if (!base) throw new Error('SessionManager not started — call start() first');
+      return base;
+    },
+    refresh,
+    async withSession<T>(fn: (session: GDEXSession) => Promise<T>, chainId?: number): Promise<T> {
+      const session = await get(chainId);
+      try {
+        const result = await fn(session);
+        if (!isAuthError(result)) return result;
+      } catch (err) {
+        if (!isAuthError(err)) throw err;
+      }
+      await refresh('auth-error');
+      return fn(await get(chainId));
+    },
+    age: () => (loggedInAt ? Date.now() - loggedInAt : Infinity),
+    on(event: string, listener: (...args: any[]) => void) {
+      events.on(event, listener);
+    },
+    stop() {
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+  };
+}
@@ -9,8 +9,10 @@ import { createAuthenticatedSession } from './auth';
 import { CryptoUtils } from 'gdex.pro-sdk';
 import { createHash, createCipheriv } from 'crypto';
 import axios from 'axios';
+import { getOpenOrders } from './hyperliquid';
 
 const API_URL = 'https://trade-api.gemach.io/v1';
+const HL_CUSTODIAL = '0x886e83feb8d1774afab4a32047a083434354c6f0';
 const GDEX_HEADERS = {
   'Origin': 'https://gdex.pro',
   'Referer': 'https://gdex.pro/',
@@ -60,14 +62,10 @@ async function main() {
 
   // Check current open orders via HL directly
   console.log('\n📋 Fetching open orders from HyperLiquid...');
-  const hlRes = await axios.post('https://api.hyperliquid.xyz/info', {
-    type: 'openOrders',
-    user: '0x886e83feb8d1774afab4a32047a083434354c6f0',
-  });
-  const orders: any[] = hlRes.data || [];
+  const orders = await getOpenOrders(HL_CUSTODIAL);
   console.log(`Found ${orders.length} open order(s):`);
   for (const o of orders) {
-    console.log(`  oid:${o.oid}  ${o.coin} ${o.side === 'B' ? 'BUY' : 'SELL'}  sz:${o.sz}  @ $${o.limitPx}`);
+    console.log(`  oid:${o.oid}  ${o.coin} ${o.isBuy ? 'BUY' : 'SELL'}  sz:${o.sz}  @ $${o.limitPx}`);
   }
 
   if (orders.length === 0) {
@@ -95,11 +93,7 @@ async function main() {
   // Verify
   console.log('\n🔍 Verifying — checking HL open orders again...');
   await new Promise(r => setTimeout(r, 2000));
-  const verifyRes = await axios.post('https://api.hyperliquid.xyz/info', {
-    type: 'openOrders',
-    user: '0x886e83feb8d1774afab4a32047a083434354c6f0',
-  });
-  const remaining: any[] = verifyRes.data || [];
+  const remaining = await getOpenOrders(HL_CUSTODIAL);
   if (remaining.length === 0) {
     console.log('✅ All orders cleared!');
   } else {
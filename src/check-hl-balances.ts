@@ -58,7 +58,7 @@ async function checkHLBalances() {
   console.log(`Control Wallet:    $${controlBalance ?? 0}`);
   console.log(`Custodial Address: $${custodialBalance ?? 0}`);
   console.log('\n💡 For HyperLiquid trading, deposit to the custodial address!');
-  console.log('   Run: npm run deposit:correct [amount]');
+  console.log('   Run: npm run deposit:hl -- --amount <usd>');
   console.log('='.repeat(70));
 }
 
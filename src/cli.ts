@@ -0,0 +1,803 @@
+#!/usr/bin/env node
+/**
+ * gdex — one CLI for the everyday trading tasks
+ *
+ * Thin wrapper over the library (trading.ts, market.ts, hyperliquid.ts,
+ * auth.ts): every subcommand takes its inputs as arguments instead of
+ * constants edited into a script, and `--json` prints one machine-readable
+ * object on stdout (progress and errors go to stderr).
+ *
+ * Usage:
+ *   gdex buy <token> --amount 0.01 [--chain solana] [--slippage-bps 2000] [--tip 0] [--client-order-id <id>]
+ *   gdex sell <token> (--amount <raw units> | --percent 100) [--chain solana] [--client-order-id <id>]
+ *   gdex orders [pending|failed|filled|all] | orders reconcile [--chain solana] | orders fail <id>
+ *   gdex balance [--chain base|solana|hl|...]
+ *   gdex deposit hl --amount 10 [--wait]
+ *   gdex withdraw hl --amount 10 [--to <address>] [--wait]
+ *   gdex transfers [pending|credited|failed|expired|all] | transfers check
+ *   gdex topups [--days 7]
+ *   gdex copy list | leaders [--window week] [--min-account N] [--min-roi PCT] [--max-drawdown PCT] [--limit 10]
+ *   gdex copy create <leader> --amount 5 [--name N] [--proportional] [--sl 10] [--tp 20] [--opposite]
+ *   gdex copy edit <id> [--amount N] [--sl PCT] [--tp PCT] [--name N] | pause <id> | resume <id> | delete <id>
+ *   gdex copy rotate [--dry-run] | report [--days 7] [--fills]
+ *   gdex hl order <coin> <long|short> (--usd 12 | --size 0.01) [--limit <px>] [--tp <px>] [--sl <px>]
+ *                                    [--slippage 0.2] [--reduce-only]
+ *   gdex hl close <coin> [--size <contracts>]
+ *   gdex hl cancel [coin] [--oid <id>]
+ *   gdex hl positions | orders
+ *   gdex hl fills [--hours 24] [--coin BTC]
+ *   gdex risk [status] | risk kill <reason> | risk resume
+ *
+ * Global flags: --json, --wallet <keystore name>, --paper
+ * From the repo: npm run gdex -- hl positions --json
+ */
+
+import WebSocket from 'ws';
+(globalThis as any).WebSocket = WebSocket;
+
+import { parseUnits } from 'ethers';
+import { parseArgs as parseArgv } from './args';
+import { createAuthenticatedSession, GDEXSession } from './auth';
+import { loadConfig, CHAIN_NAMES } from './config';
+import { findHolding, getHoldings, getUserInfo } from './market';
+import {
+  buyToken,
+  sellToken,
+  formatSolAmount,
+  formatEthAmount,
+  placePerpOrder,
+  closePerpPosition,
+  cancelPerpOrder,
+  cancelAllPerpOrders,
+  getHlAddress,
+  reconcilePendingOrders,
+  TradeResult,
+} from './trading';
+import { getClearinghouseState, getOpenOrders, getUserFills, Position } from './hyperliquid';
+import { getRiskStatus, setKillSwitch, getKillSwitch } from './portfolio-risk';
+import { getClientOrder, listClientOrders, updateClientOrder, ClientOrder } from './order-registry';
+import { describeFill } from './fills';
+import {
+  depositToHyperliquid,
+  withdrawFromHyperliquid,
+  waitForTransfer,
+  checkPendingTransfers,
+  listHlTransfers,
+  HlTransfer,
+  HlTransferResult,
+} from './hl-funding';
+import { listTopUps, HlTopUp } from './hl-topup';
+import {
+  listCopyTrades,
+  createCopyTrade,
+  editCopyTrade,
+  pauseCopyTrade,
+  resumeCopyTrade,
+  deleteCopyTrade,
+  findLeaders,
+  loadRotationConfig,
+  rotateLeaders,
+  CopyTrade,
+  CopyTradeResult,
+  CopyTradeSettings,
+  Leader,
+  LeaderWindow,
+} from './hl-copytrade';
+import { attributeHlFills, AttributionReport } from './hl-attribution';
+
+const SOLANA = 622112261;
+const ARBITRUM = 42161;
+// Chains whose native coin has 9 decimals (SOL, SUI) — everything else is 18
+const NINE_DECIMAL_CHAINS = [SOLANA, 1313131213];
+// --wait gives up after this; the transfer stays pending for `gdex transfers check`
+const TRANSFER_WAIT_MS = 10 * 60_000;
+
+const USAGE = `Usage: gdex <command> [args] [--json] [--wallet <name>] [--paper]
+
+  buy <token> --amount <native> [--chain <name|id>] [--slippage-bps N] [--tip SOL] [--client-order-id ID]
+  sell <token> (--amount <raw units> | --percent N) [--chain <name|id>] [--client-order-id ID]
+  orders [pending|failed|filled|all]   registered spot orders (default pending)
+  orders reconcile [--chain <name|id>] settle pending orders via trade status / holdings
+  orders fail <id>              mark a pending order you checked never landed — it may be sent again
+  balance [--chain <name|id|hl>]
+  deposit hl --amount <usdc> [--wait]
+  withdraw hl --amount <usdc> [--to ADDR] [--wait]   HL → Arbitrum, less HL's $1 fee
+  transfers [pending|credited|failed|expired|all]    HL deposits/withdrawals (default pending)
+  transfers check                      look for the credit of pending transfers
+  topups [--days 7]                    automatic HL margin top-ups (npm run hl:topup)
+  copy list                            HL copy trades
+  copy leaders [--window week] [--min-account USD] [--min-roi PCT] [--max-drawdown PCT] [--limit 10]
+  copy create <leader> --amount N [--name NAME] [--proportional] [--sl PCT] [--tp PCT] [--opposite]
+  copy edit <id> [--amount N] [--sl PCT] [--tp PCT] [--name NAME] [--opposite true|false]
+  copy pause <id> | resume <id> | delete <id>
+  copy rotate [--dry-run]              one leader rotation pass (npm run hl:copytrader)
+  copy report [--days 7] [--fills]     HL P&L per leader vs scalper vs manual, slippage, fees
+  hl order <coin> <long|short> (--usd N | --size N) [--limit PX] [--tp PX] [--sl PX] [--slippage PCT] [--reduce-only]
+  hl close <coin> [--size N]
+  hl cancel [coin] [--oid ID]
+  hl positions
+  hl orders
+  hl fills [--hours 24] [--coin C]
+  risk [status]                 portfolio limits, exposure, kill switch
+  risk kill <reason>            refuse new entries from every bot until resumed
+  risk resume`;
+
+// ─── Args ────────────────────────────────────────────────────────────────────
+
+class UsageError extends Error {}
+
+interface Args {
+  flags: Record<string, string>;
+  positional: string[];
+  json: boolean;
+}
+
+// Switches — never take the next token as their value (args.ts)
+const BOOLEAN_FLAGS = new Set(['json', 'paper', 'wait', 'fills', 'proportional', 'dry-run', 'reduce-only', 'opposite']);
+
+function parseArgs(argv: string[]): Args {
+  const { flags, positional } = parseArgv(argv, BOOLEAN_FLAGS);
+  return { flags, positional, json: flags.json === 'true' };
+}
+
+function num(args: Args, name: string): number | undefined {
+  const raw = args.flags[name];
+  if (raw === undefined) return undefined;
+  const v = parseFloat(raw);
+  if (isNaN(v)) throw new UsageError(`--${name} must be a number (got "${raw}")`);
+  return v;
+}
+
+/** Chain by name ("base"), numeric id, or the config default. */
+function resolveChain(raw: string | undefined, fallback: number): number {
+  if (!raw) return fallback;
+  if (/^\d+$/.test(raw)) return parseInt(raw, 10);
+  const id = Object.entries(CHAIN_NAMES).find(([, name]) => name.toLowerCase() === raw.toLowerCase())?.[0];
+  if (!id) throw new UsageError(`Unknown chain "${raw}" (${Object.values(CHAIN_NAMES).join(', ')})`);
+  return parseInt(id, 10);
+}
+
+function chainName(chainId: number): string {
+  return CHAIN_NAMES[chainId] ?? String(chainId);
+}
+
+// ─── Output ──────────────────────────────────────────────────────────────────
+
+/** Print `data` as JSON, or run the human-readable printer. */
+function emit(args: Args, data: unknown, human: () => void): void {
+  if (args.json) console.log(JSON.stringify(data, null, 2));
+  else human();
+}
+
+/** Progress lines stay off stdout so --json output can be piped. */
+function info(msg: string): void {
+  console.error(msg);
+}
+
+function emitResult(args: Args, result: TradeResult, label: string): void {
+  emit(args, result, () => {
+    if (result.isSuccess) {
+      console.log(`✅ ${label}${result.hash ? `  tx ${result.hash}` : ''}${result.duplicate ? ' (already filled — not sent again)' : ''}`);
+      const fill = describeFill(result);
+      if (fill) console.log(`   Fill${fill}${result.nativeAmount !== undefined ? ` | ${result.nativeAmount} native` : ''}`);
+    } else if (result.pending) {
+      console.log(`⏳ ${label} pending: ${result.message}`);
+      console.log(`   Check it with \`gdex orders reconcile\` — retry only with --client-order-id ${result.clientOrderId}`);
+    } else {
+      console.log(`❌ ${label} failed: ${result.message ?? 'unknown error'}`);
+    }
+  });
+  if (!result.isSuccess) process.exitCode = 1;
+}
+
+// ─── Session ─────────────────────────────────────────────────────────────────
+
+async function openSession(args: Args, chainId: number): Promise<GDEXSession> {
+  info(`🔐 Authenticating (${chainName(chainId)})...`);
+  return createAuthenticatedSession({
+    chainId,
+    walletName: args.flags.wallet,
+    paperTrading: args.flags.paper === 'true' ? true : undefined,
+  });
+}
+
+// ─── Spot ────────────────────────────────────────────────────────────────────
+
+async function cmdBuy(args: Args, defaultChain: number) {
+  const token = args.positional[1];
+  const amount = num(args, 'amount');
+  if (!token || !amount || amount <= 0) throw new UsageError('gdex buy <token> --amount <native>');
+  const chainId = resolveChain(args.flags.chain, defaultChain);
+
+  const session = await openSession(args, chainId);
+  const result = await buyToken(session, {
+    tokenAddress: token,
+    amount: NINE_DECIMAL_CHAINS.includes(chainId) ? formatSolAmount(amount) : formatEthAmount(amount),
+    chainId,
+    slippageBps: num(args, 'slippage-bps'),
+    tip: num(args, 'tip'),
+    clientOrderId: args.flags['client-order-id'],
+  });
+  emitResult(args, result, `Bought ${token} for ${amount} native on ${chainName(chainId)}`);
+}
+
+/** Raw sell amount for `percent` of the held balance, from the holdings list. */
+async function percentOfHolding(session: GDEXSession, token: string, chainId: number, percent: number): Promise<string> {
+  const holdings = await getHoldings(session, chainId);
+  const h = findHolding(holdings ?? [], token);
+  if (!h) throw new Error(`No ${token} holding on ${chainName(chainId)}`);
+  if (h.decimals === undefined) throw new Error(`Holding for ${token} has no decimals — pass --amount in raw units`);
+  const decimals = Number(h.decimals);
+  let balance = String(h.balance ?? h.amount ?? '0');
+  // parseUnits rejects exponent notation (tiny balances stringified by JS)
+  if (/e/i.test(balance)) balance = Number(balance).toFixed(decimals);
+  // …and more fractional digits than the token has, which float balances can carry
+  const [whole, fraction = ''] = balance.split('.');
+  const digits = fraction.slice(0, decimals);
+  const raw = (parseUnits(digits ? `${whole}.${digits}` : whole, decimals) * BigInt(Math.round(percent * 100))) / 10000n;
+  if (raw <= 0n) throw new Error(`Nothing to sell — ${token} balance is ${balance}`);
+  return raw.toString();
+}
+
+async function cmdSell(args: Args, defaultChain: number) {
+  const token = args.positional[1];
+  const percent = num(args, 'percent');
+  const rawAmount = args.flags.amount;
+  if (!token || (!rawAmount && percent === undefined)) {
+    throw new UsageError('gdex sell <token> (--amount <raw units> | --percent N)');
+  }
+  if (rawAmount && !/^\d+$/.test(rawAmount)) throw new UsageError('--amount is in raw token units (integer)');
+  if (percent !== undefined && (percent <= 0 || percent > 100)) throw new UsageError('--percent must be in (0, 100]');
+  const chainId = resolveChain(args.flags.chain, defaultChain);
+
+  const session = await openSession(args, chainId);
+  const amount = rawAmount ?? await percentOfHolding(session, token, chainId, percent!);
+  const result = await sellToken(session, {
+    tokenAddress: token,
+    amount,
+    chainId,
+    slippageBps: num(args, 'slippage-bps'),
+    tip: num(args, 'tip'),
+    clientOrderId: args.flags['client-order-id'],
+  });
+  emitResult(args, result, `Sold ${amount} units of ${token} on ${chainName(chainId)}`);
+}
+
+// ─── Balance ─────────────────────────────────────────────────────────────────
+
+async function hlBalance(args: Args) {
+  const session = await openSession(args, ARBITRUM);
+  const address = await getHlAddress(session);
+  const usdc = await session.sdk.hyperLiquid.getHyperliquidUsdcBalance(address);
+  const state = await getClearinghouseState(address);
+  const data = {
+    chain: 'HyperLiquid',
+    address,
+    usdc: usdc ?? 0,
+    accountValue: state.marginSummary.accountValue,
+    withdrawable: state.withdrawable,
+    marginUsed: state.marginSummary.totalMarginUsed,
+  };
+  emit(args, data, () => {
+    console.log(`HyperLiquid  ${address}`);
+    console.log(`  USDC          $${data.usdc.toFixed(2)}`);
+    console.log(`  Account value $${data.accountValue.toFixed(2)}`);
+    console.log(`  Withdrawable  $${data.withdrawable.toFixed(2)}`);
+    console.log(`  Margin used   $${data.marginUsed.toFixed(2)}`);
+  });
+}
+
+async function cmdBalance(args: Args, defaultChain: number) {
+  if (['hl', 'hyperliquid'].includes((args.flags.chain ?? '').toLowerCase())) return hlBalance(args);
+  const chainId = resolveChain(args.flags.chain, defaultChain);
+
+  const session = await openSession(args, chainId);
+  const [userInfo, holdings] = await Promise.all([getUserInfo(session, chainId), getHoldings(session, chainId)]);
+  const data = {
+    chain: chainName(chainId),
+    chainId,
+    address: userInfo?.address ?? null,
+    balance: userInfo?.balance ?? null,
+    holdings: holdings ?? [],
+  };
+  emit(args, data, () => {
+    console.log(`${data.chain}  ${data.address ?? '(no custodial address)'}`);
+    if (data.balance !== null) console.log(`  Native balance  ${data.balance}`);
+    if (data.holdings.length === 0) console.log('  No holdings');
+    for (const h of data.holdings) {
+      const sym = h.symbol ?? h.name ?? h.address ?? '?';
+      const bal = h.balance ?? h.amount ?? h.nativeBalance ?? '0';
+      const usd = h.valueUsd ?? h.usdValue ?? h.value;
+      console.log(`  ${String(sym).padEnd(12)} ${String(bal).padStart(20)}${usd !== undefined ? `  $${Number(usd).toFixed(2)}` : ''}`);
+    }
+  });
+}
+
+// ─── Deposit / withdraw ──────────────────────────────────────────────────────
+
+function printTransfers(transfers: HlTransfer[]): void {
+  if (transfers.length === 0) return console.log('No transfers');
+  for (const t of transfers) {
+    const icon = t.status === 'credited' ? '✅' : t.status === 'pending' ? '⏳' : '❌';
+    const balance = t.balanceAfter !== null ? `  $${t.balanceBefore.toFixed(2)} → $${t.balanceAfter.toFixed(2)}` : '';
+    console.log(
+      `${icon} ${t.id}  ${t.kind} $${t.amountUsd} ${t.kind === 'deposit' ? 'to HL' : `to ${t.arbitrumAddress}`}  ` +
+      `${t.status}${balance}${t.message ? `  — ${t.message}` : ''}`,
+    );
+  }
+}
+
+/** Deposit/withdraw result, after waiting for the credit with --wait */
+async function emitTransfer(args: Args, session: GDEXSession, result: HlTransferResult, label: string) {
+  if ((!result.isSuccess && !result.pending) || !result.transfer) {
+    emitResult(args, result, label);
+    return;
+  }
+  if (args.flags.wait !== 'true') {
+    if (!result.pending) return emitResult(args, result, label);
+    emit(args, result, () => {
+      console.log(`⏳ ${label} pending: ${result.message}`);
+      console.log(`   Don't resend — \`gdex transfers check\` settles it from the balance`);
+    });
+    process.exitCode = 1;
+    return;
+  }
+  info(`⏳ ${result.pending ? 'Outcome unknown' : 'Accepted'} — waiting for the balance to rise above $${result.transfer.balanceBefore.toFixed(2)}...`);
+  const transfer = await waitForTransfer(session, result.transfer, {
+    timeoutMs: TRANSFER_WAIT_MS,
+    onPoll: (t) => info(`   $${(t.balanceAfter ?? t.balanceBefore).toFixed(2)} (waiting...)`),
+  });
+  const credited = transfer.status === 'credited';
+  emitResult(
+    args,
+    {
+      ...result, transfer, isSuccess: credited,
+      ...(credited ? {} : { message: transfer.message ?? `Not credited yet — check again with \`gdex transfers check\`` }),
+    },
+    label,
+  );
+}
+
+async function cmdDeposit(args: Args) {
+  const target = args.positional[1];
+  const amount = num(args, 'amount');
+  if (target !== 'hl' || !amount) throw new UsageError('gdex deposit hl --amount <usdc> [--wait]');
+
+  const session = await openSession(args, ARBITRUM);
+  const result = await depositToHyperliquid(session, amount);
+  await emitTransfer(args, session, result, `Deposit of $${amount} USDC to HyperLiquid`);
+}
+
+async function cmdWithdraw(args: Args) {
+  const target = args.positional[1];
+  const amount = num(args, 'amount');
+  if (target !== 'hl' || !amount) throw new UsageError('gdex withdraw hl --amount <usdc> [--to <address>] [--wait]');
+
+  const session = await openSession(args, ARBITRUM);
+  const result = await withdrawFromHyperliquid(session, amount, args.flags.to);
+  await emitTransfer(args, session, result, `Withdrawal of $${amount} USDC from HyperLiquid`);
+}
+
+function printTopUps(topUps: HlTopUp[]): void {
+  if (topUps.length === 0) return console.log('No top-ups');
+  const icons: Record<HlTopUp['status'], string> = { 'dry-run': '🧪', capped: '⛔', pending: '⏳', credited: '✅', failed: '❌' };
+  for (const t of topUps) {
+    const swap = t.swapUsd > 0 ? `  swap ${t.ethIn?.toFixed(5)} ETH → $${t.swapUsd.toFixed(2)}${t.swapTx ? ` (${t.swapTx})` : ''}` : '';
+    console.log(
+      `${icons[t.status]} ${t.createdAt}  ${t.status.padEnd(8)} $${t.amountUsd}  ${t.reason}${swap}` +
+      `${t.message ? `  — ${t.message}` : ''}`,
+    );
+  }
+}
+
+async function cmdTopUps(args: Args) {
+  const days = num(args, 'days') ?? 7;
+  const topUps = listTopUps(new Date(Date.now() - days * 24 * 3600_000).toISOString());
+  emit(args, { topUps }, () => printTopUps(topUps));
+}
+
+async function cmdTransfers(args: Args) {
+  const sub = args.positional[1] ?? 'pending';
+  if (sub === 'check') {
+    if (listHlTransfers('pending').length === 0) return emit(args, { transfers: [] }, () => console.log('No pending transfers'));
+    const session = await openSession(args, ARBITRUM);
+    const transfers = await checkPendingTransfers(session);
+    emit(args, { transfers }, () => printTransfers(transfers));
+    return;
+  }
+  if (!['pending', 'credited', 'failed', 'expired', 'all'].includes(sub)) {
+    throw new UsageError('gdex transfers [pending|credited|failed|expired|all] | transfers check');
+  }
+  const transfers = listHlTransfers(sub === 'all' ? undefined : sub as HlTransfer['status']);
+  emit(args, { transfers }, () => printTransfers(transfers));
+}
+
+// ─── HyperLiquid ─────────────────────────────────────────────────────────────
+
+/** Paper sessions read the simulated account (paper-trading.ts) */
+async function hlPositions(session: GDEXSession): Promise<Position[]> {
+  return (await getClearinghouseState(await getHlAddress(session))).positions;
+}
+
+async function cmdHl(args: Args) {
+  const sub = args.positional[1];
+  const coin = args.positional[2]?.toUpperCase();
+
+  switch (sub) {
+    case 'order': {
+      const side = args.positional[3]?.toLowerCase();
+      if (!coin || !['long', 'short', 'buy', 'sell'].includes(side ?? '')) {
+        throw new UsageError('gdex hl order <coin> <long|short> (--usd N | --size N) [--limit PX]');
+      }
+      const usd = num(args, 'usd');
+      const size = num(args, 'size');
+      if (usd === undefined && size === undefined) throw new UsageError('hl order needs --usd or --size');
+      const limit = num(args, 'limit');
+      const slippagePct = num(args, 'slippage');
+
+      const session = await openSession(args, ARBITRUM);
+      const result = await placePerpOrder(session, {
+        coin,
+        isLong: side === 'long' || side === 'buy',
+        usd,
+        size,
+        type: limit !== undefined ? 'limit' : 'market',
+        price: limit,
+        slippage: slippagePct !== undefined ? slippagePct / 100 : undefined,
+        reduceOnly: args.flags['reduce-only'] === 'true',
+        tpPrice: num(args, 'tp'),
+        slPrice: num(args, 'sl'),
+      });
+      emit(args, result, () => {
+        if (!result.isSuccess) return console.log(`❌ ${coin} order failed: ${result.message}`);
+        const fill = result.avgPx ? ` @ $${result.avgPx}` : ` limit $${result.limitPx}`;
+        console.log(`✅ ${result.isLong ? 'LONG' : 'SHORT'} ${result.size} ${coin}${fill} — ${result.status ?? 'sent'}${result.orderId ? ` (oid ${result.orderId})` : ''}`);
+      });
+      if (!result.isSuccess) process.exitCode = 1;
+      return;
+    }
+
+    case 'close': {
+      if (!coin) throw new UsageError('gdex hl close <coin> [--size N]');
+      const session = await openSession(args, ARBITRUM);
+      const result = await closePerpPosition(session, coin, { size: num(args, 'size') });
+      emitResult(args, result, `Close ${result.size} ${coin}`);
+      return;
+    }
+
+    case 'cancel': {
+      const oid = args.flags.oid;
+      if (oid && !coin) throw new UsageError('gdex hl cancel <coin> --oid <id>');
+      const session = await openSession(args, ARBITRUM);
+      const result = oid ? await cancelPerpOrder(session, coin!, oid) : await cancelAllPerpOrders(session, coin);
+      emitResult(args, result, oid ? `Cancel ${coin} order ${oid}` : `Cancel ${coin ?? 'all'} orders`);
+      return;
+    }
+
+    case 'positions': {
+      const session = await openSession(args, ARBITRUM);
+      const positions = await hlPositions(session);
+      emit(args, positions, () => {
+        if (positions.length === 0) return console.log('No open positions');
+        console.log(`${'COIN'.padEnd(8)} ${'SIDE'.padEnd(5)} ${'SIZE'.padStart(12)} ${'ENTRY'.padStart(12)} ${'VALUE'.padStart(10)} ${'uPnL'.padStart(10)} ${'LIQ'.padStart(10)}`);
+        for (const p of positions) {
+          console.log(
+            `${p.coin.padEnd(8)} ${(p.isLong ? 'LONG' : 'SHORT').padEnd(5)} ${p.size.toString().padStart(12)} ` +
+            `${p.entryPx.toString().padStart(12)} ${('$' + p.positionValue.toFixed(2)).padStart(10)} ` +
+            `${((p.unrealizedPnl >= 0 ? '+$' : '-$') + Math.abs(p.unrealizedPnl).toFixed(2)).padStart(10)} ` +
+            `${(p.liquidationPx?.toString() ?? '-').padStart(10)}`,
+          );
+        }
+      });
+      return;
+    }
+
+    case 'orders': {
+      const session = await openSession(args, ARBITRUM);
+      const orders = await getOpenOrders(await getHlAddress(session));
+      emit(args, orders, () => {
+        if (orders.length === 0) return console.log('No open orders');
+        for (const o of orders) {
+          const kind = o.triggerPx ? `${o.orderType ?? 'trigger'} @ ${o.triggerPx}` : `limit @ ${o.limitPx}`;
+          console.log(`${String(o.oid).padEnd(12)} ${o.coin.padEnd(8)} ${o.isBuy ? 'BUY ' : 'SELL'} ${String(o.sz).padStart(10)}  ${kind}${o.reduceOnly ? '  (reduce-only)' : ''}`);
+        }
+      });
+      return;
+    }
+
+    case 'fills': {
+      const hours = num(args, 'hours') ?? 24;
+      const filterCoin = args.flags.coin?.toUpperCase();
+      const session = await openSession(args, ARBITRUM);
+      const since = Date.now() - hours * 3600_000;
+      const fills = (await getUserFills(await getHlAddress(session), since)).filter(f => !filterCoin || f.coin === filterCoin);
+      emit(args, fills, () => {
+        if (fills.length === 0) return console.log(`No fills in the last ${hours}h`);
+        for (const f of fills) {
+          const pnl = f.closedPnl;
+          console.log(
+            `${new Date(f.time).toISOString().slice(0, 19)}  ${f.coin.padEnd(8)} ${(f.dir || (f.isBuy ? 'BUY' : 'SELL')).padEnd(12)} ` +
+            `${String(f.sz).padStart(10)} @ ${f.px}${pnl ? `  pnl ${pnl >= 0 ? '+' : ''}${pnl.toFixed(2)}` : ''}`,
+          );
+        }
+      });
+      return;
+    }
+
+    default:
+      throw new UsageError('gdex hl <order|close|cancel|positions|orders|fills>');
+  }
+}
+
+// ─── Copy trading ────────────────────────────────────────────────────────────
+
+function printCopyTrades(copyTrades: CopyTrade[]): void {
+  if (copyTrades.length === 0) return console.log('No copy trades');
+  for (const c of copyTrades) {
+    const size = c.mode === 'fixed' ? `$${c.amount}/order` : `${c.amount}% of leader`;
+    console.log(
+      `${c.isActive ? '🟢' : '⏸️ '} ${c.id}  ${c.name}  ${c.leader}  ${size}  SL ${c.stopLossPct}% TP ${c.takeProfitPct}%` +
+      `${c.opposite ? '  opposite' : ''}  ${c.totalTrades} trades, P&L $${c.totalPnl.toFixed(2)}`,
+    );
+  }
+}
+
+function printLeaders(leaders: Leader[], window: LeaderWindow): void {
+  if (leaders.length === 0) return console.log('No leaders pass the filter');
+  for (const l of leaders) {
+    const perf = l.windows[window];
+    console.log(
+      `${l.address}  ${(l.displayName ?? '').padEnd(16)} account $${Math.round(l.accountValue).toLocaleString()}  ` +
+      `${window} P&L $${Math.round(perf?.pnl ?? 0).toLocaleString()} ROI ${(perf?.roiPct ?? 0).toFixed(1)}%` +
+      `${l.drawdownPct !== undefined ? `  drawdown ${l.drawdownPct.toFixed(1)}%` : ''}`,
+    );
+  }
+}
+
+function printAttribution(report: AttributionReport, showFills: boolean): void {
+  const usd = (v: number) => `${v < 0 ? '-' : ''}$${Math.abs(v).toFixed(2)}`;
+  console.log(`HL account ${report.address}  ${report.since} → ${report.until}\n`);
+  for (const s of [...report.sources, { ...report.total, label: 'Total', leader: undefined }]) {
+    const slippage = s.avgSlippageBps !== null ? `  slippage ${s.avgSlippageBps.toFixed(1)} bps (${usd(s.slippageUsd)})` : '';
+    console.log(
+      `${s.label.padEnd(24)} ${String(s.fills).padStart(4)} fills  vol $${Math.round(s.volumeUsd).toLocaleString().padEnd(9)}` +
+      ` P&L ${usd(s.closedPnl).padEnd(9)} fees ${usd(s.fees).padEnd(7)} net ${usd(s.netPnl).padEnd(9)}` +
+      ` win ${s.winRatePct !== null ? `${s.winRatePct.toFixed(0)}% of ${s.closingFills}` : '—'}${slippage}` +
+      `${s.leader ? `  ${s.leader}` : ''}`,
+    );
+  }
+  if (!showFills) return;
+  const labels = new Map(report.sources.map((s) => [s.source, s.label]));
+  console.log();
+  for (const f of report.fills) {
+    console.log(
+      `${new Date(f.time).toISOString()}  ${f.coin.padEnd(6)} ${f.isBuy ? 'BUY ' : 'SELL'} ${f.sz} @ ${f.px}` +
+      `  → ${labels.get(f.source) ?? f.source} (${f.matchedBy})` +
+      `${f.leaderPx !== undefined ? `  leader @ ${f.leaderPx.toPrecision(6)}, ${f.slippageBps?.toFixed(1)} bps` : ''}`,
+    );
+  }
+}
+
+function emitCopyTrade(args: Args, result: CopyTradeResult, label: string): void {
+  emitResult(args, result, label);
+  if (result.isSuccess && result.copyTrade && !args.json) printCopyTrades([result.copyTrade]);
+}
+
+async function cmdCopy(args: Args) {
+  const sub = args.positional[1] ?? 'list';
+  const target = args.positional[2];
+
+  switch (sub) {
+    case 'list': {
+      const session = await openSession(args, ARBITRUM);
+      const copyTrades = await listCopyTrades(session);
+      emit(args, { copyTrades }, () => printCopyTrades(copyTrades));
+      return;
+    }
+
+    case 'leaders': {
+      const window = (args.flags.window ?? 'week') as LeaderWindow;
+      if (!['day', 'week', 'month', 'allTime'].includes(window)) throw new UsageError('--window must be day, week, month or allTime');
+      const session = await openSession(args, ARBITRUM);
+      const leaders = await findLeaders(session, {
+        window,
+        minAccountValue: num(args, 'min-account'),
+        minRoiPct: num(args, 'min-roi'),
+        maxDrawdownPct: num(args, 'max-drawdown'),
+      }, num(args, 'limit') ?? 10);
+      emit(args, { leaders }, () => printLeaders(leaders, window));
+      return;
+    }
+
+    case 'create': {
+      const amount = num(args, 'amount');
+      if (!target || !amount) throw new UsageError('gdex copy create <leader> --amount N [--name NAME] [--proportional] [--sl PCT] [--tp PCT]');
+      const session = await openSession(args, ARBITRUM);
+      const result = await createCopyTrade(session, {
+        leader: target,
+        name: args.flags.name ?? `copy-${target.slice(2, 10).toLowerCase()}`,
+        mode: args.flags.proportional === 'true' ? 'proportional' : 'fixed',
+        amount,
+        stopLossPct: num(args, 'sl') ?? 10,
+        takeProfitPct: num(args, 'tp') ?? 20,
+        opposite: args.flags.opposite === 'true',
+      });
+      emitCopyTrade(args, result, `Copying ${target}`);
+      return;
+    }
+
+    case 'edit': {
+      if (!target) throw new UsageError('gdex copy edit <id> [--amount N] [--sl PCT] [--tp PCT] [--name NAME] [--opposite true|false]');
+      const patch: Partial<CopyTradeSettings> = {};
+      if (args.flags.amount !== undefined) patch.amount = num(args, 'amount');
+      if (args.flags.sl !== undefined) patch.stopLossPct = num(args, 'sl');
+      if (args.flags.tp !== undefined) patch.takeProfitPct = num(args, 'tp');
+      if (args.flags.name !== undefined) patch.name = args.flags.name;
+      if (args.flags.opposite !== undefined) patch.opposite = args.flags.opposite === 'true';
+      if (Object.keys(patch).length === 0) throw new UsageError('copy edit needs at least one of --amount, --sl, --tp, --name, --opposite');
+      const session = await openSession(args, ARBITRUM);
+      emitCopyTrade(args, await editCopyTrade(session, target, patch), `Copy trade ${target} updated`);
+      return;
+    }
+
+    case 'pause':
+    case 'resume':
+    case 'delete': {
+      if (!target) throw new UsageError(`gdex copy ${sub} <id>`);
+      const session = await openSession(args, ARBITRUM);
+      const action = { pause: pauseCopyTrade, resume: resumeCopyTrade, delete: deleteCopyTrade }[sub];
+      const past = { pause: 'paused', resume: 'resumed', delete: 'deleted' }[sub];
+      emitCopyTrade(args, await action(session, target), `Copy trade ${target} ${past}`);
+      return;
+    }
+
+    case 'rotate': {
+      const config = loadRotationConfig();
+      if (args.flags['dry-run'] === 'true') config.dryRun = true;
+      const session = await openSession(args, ARBITRUM);
+      const report = await rotateLeaders(session, config, info);
+      emit(args, report, () => {
+        for (const k of report.kept) {
+          console.log(`✔️  keep   ${k.leader}  ${k.roiPct === null ? k.note : `ROI ${k.roiPct.toFixed(1)}%, drawdown ${k.drawdownPct?.toFixed(1)}%`}`);
+        }
+        for (const a of report.actions) {
+          console.log(`${a.isSuccess ? (a.action === 'add' ? '➕' : '➖') : '❌'} ${a.action.padEnd(6)} ${a.leader}  ${a.reason}${a.message ? `  — ${a.message}` : ''}`);
+        }
+        if (report.actions.length === 0) console.log('No changes');
+      });
+      if (report.actions.some((a) => !a.isSuccess)) process.exitCode = 1;
+      return;
+    }
+
+    case 'report': {
+      const days = num(args, 'days') ?? 7;
+      const session = await openSession(args, ARBITRUM);
+      const report = await attributeHlFills(session, { since: Date.now() - days * 24 * 3600_000 });
+      emit(args, report, () => printAttribution(report, args.flags.fills === 'true'));
+      return;
+    }
+
+    default:
+      throw new UsageError('gdex copy <list|leaders|create|edit|pause|resume|delete|rotate|report>');
+  }
+}
+
+// ─── Client orders ───────────────────────────────────────────────────────────
+
+function printOrders(orders: ClientOrder[]): void {
+  if (orders.length === 0) return console.log('No orders');
+  for (const o of orders) {
+    const icon = o.status === 'filled' ? '✅' : o.status === 'failed' ? '❌' : '⏳';
+    console.log(
+      `${icon} ${o.id}  ${o.side} ${o.token} ${o.amount} on ${chainName(o.chainId)}  ` +
+      `${o.status}${o.hash ? `  tx ${o.hash}` : ''}${o.message ? `  — ${o.message}` : ''}`,
+    );
+  }
+}
+
+async function cmdOrders(args: Args, defaultChain: number) {
+  const sub = args.positional[1] ?? 'pending';
+  if (sub === 'reconcile') {
+    const chainId = args.flags.chain ? resolveChain(args.flags.chain, defaultChain) : undefined;
+    const pending = listClientOrders('pending').filter((o) => chainId === undefined || o.chainId === chainId);
+    if (pending.length === 0) return emit(args, { orders: [] }, () => console.log('No pending orders'));
+    const session = await openSession(args, chainId ?? pending[0].chainId);
+    const orders = await reconcilePendingOrders(session, chainId);
+    emit(args, { orders }, () => printOrders(orders));
+    return;
+  }
+  if (sub === 'fail') {
+    const id = args.positional[2];
+    if (!id) throw new UsageError('gdex orders fail <id>');
+    const order = getClientOrder(id);
+    if (!order) throw new Error(`Unknown client order ${id}`);
+    if (order.status !== 'pending') throw new Error(`Order ${id} is ${order.status}, not pending`);
+    const failed = updateClientOrder(id, { status: 'failed', message: 'marked failed by hand' });
+    emit(args, { orders: [failed] }, () => printOrders([failed]));
+    return;
+  }
+  if (!['pending', 'failed', 'filled', 'all'].includes(sub)) {
+    throw new UsageError('gdex orders [pending|failed|filled|all] | orders reconcile [--chain <name|id>] | orders fail <id>');
+  }
+  const orders = listClientOrders(sub === 'all' ? undefined : sub as ClientOrder['status']);
+  emit(args, { orders }, () => printOrders(orders));
+}
+
+// ─── Risk ────────────────────────────────────────────────────────────────────
+
+function cmdRisk(args: Args) {
+  switch (args.positional[1] ?? 'status') {
+    case 'status': {
+      const status = getRiskStatus();
+      const { limits } = status;
+      emit(args, status, () => {
+        const kill = status.killSwitch;
+        console.log(kill ? `🛑 Kill switch ON since ${kill.since}: ${kill.reason}`
+          : limits.killSwitch ? '🛑 Kill switch ON (RISK_KILL_SWITCH)' : 'Kill switch off');
+        console.log(`Orders last minute: ${status.ordersLastMinute}${limits.maxOrdersPerMin ? ` / ${limits.maxOrdersPerMin}` : ''}`);
+        const cap = (v: number | undefined) => (v === undefined ? '—' : String(v));
+        console.log(`${'chain'.padEnd(10)} ${'exposure'.padStart(12)} ${'chain cap'.padStart(10)} ${'token cap'.padStart(10)} ${'P&L today'.padStart(12)} ${'loss cap'.padStart(9)}`);
+        for (const c of status.chains) {
+          console.log(
+            `${c.chain.padEnd(10)} ${`${c.exposure.toFixed(4)} ${c.unit}`.padStart(12)} ` +
+            `${cap(limits.maxChainExposure[c.chain]).padStart(10)} ${cap(limits.maxTokenExposure[c.chain]).padStart(10)} ` +
+            `${`${c.realizedToday >= 0 ? '+' : ''}${c.realizedToday.toFixed(4)}`.padStart(12)} ${cap(limits.maxDailyLoss[c.chain]).padStart(9)}`,
+          );
+        }
+      });
+      return;
+    }
+
+    case 'kill': {
+      const reason = args.positional.slice(2).join(' ');
+      if (!reason) throw new UsageError('gdex risk kill <reason>');
+      setKillSwitch(reason);
+      emit(args, { killSwitch: getKillSwitch() }, () => console.log(`🛑 Kill switch ON — new entries are refused until \`gdex risk resume\``));
+      return;
+    }
+
+    case 'resume':
+      setKillSwitch(null);
+      emit(args, { killSwitch: null }, () => console.log('✅ Kill switch released'));
+      return;
+
+    default:
+      throw new UsageError('gdex risk [status] | risk kill <reason> | risk resume');
+  }
+}
+
+// ─── Main ────────────────────────────────────────────────────────────────────
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const defaultChain = loadConfig().defaultChainId;
+
+  switch (args.positional[0]) {
+    case 'buy':     return cmdBuy(args, defaultChain);
+    case 'sell':    return cmdSell(args, defaultChain);
+    case 'balance': return cmdBalance(args, defaultChain);
+    case 'deposit': return cmdDeposit(args);
+    case 'withdraw': return cmdWithdraw(args);
+    case 'transfers': return cmdTransfers(args);
+    case 'topups':  return cmdTopUps(args);
+    case 'copy':    return cmdCopy(args);
+    case 'hl':      return cmdHl(args);
+    case 'orders':  return cmdOrders(args, defaultChain);
+    case 'risk':    return cmdRisk(args);
+    case undefined:
+    case 'help':
+      console.log(USAGE);
+      return;
+    default:
+      throw new UsageError(`Unknown command "${args.positional[0]}"`);
+  }
+}
+
+main().catch((err) => {
+  const json = process.argv.includes('--json');
+  const message = err.response?.data?.message ?? err.message;
+  if (json) console.log(JSON.stringify({ isSuccess: false, message }));
+  else console.error(`❌ ${message}`);
+  if (err instanceof UsageError && !json) console.error('\n' + USAGE);
+  process.exit(err instanceof UsageError ? 2 : 1);
+});
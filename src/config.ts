@@ -1,5 +1,6 @@
 import dotenv from 'dotenv';
 import path from 'path';
+import { hasKeystore, DEFAULT_WALLET_NAME } from './keystore';
 
 dotenv.config({ path: path.resolve(__dirname, '..', '.env') });
 
@@ -7,30 +8,43 @@ export interface Config {
   apiUrl: string;
   apiKey: string;
   walletAddress: string;
+  /** Plaintext key from .env — empty when the wallet lives in the encrypted keystore */
   privateKey: string;
+  /** Keystore wallet to unlock when PRIVATE_KEY is not set (WALLET_NAME, default "default") */
+  walletName: string;
   sessionKey: string;
   defaultChainId: number;
+  /** PAPER_TRADING=true routes every order to the simulated fill engine */
+  paperTrading: boolean;
+  /** GDEX_MOCK_URL — local mock API (mock-api.ts) that every GDEX and HL call goes to; null when live */
+  mockUrl: string | null;
 }
 
 export function loadConfig(): Config {
-  const apiUrl = process.env.GDEX_API_URL || 'https://trade-api.gemach.io/v1';
+  const mockUrl = (process.env.GDEX_MOCK_URL || '').replace(/\/+$/, '') || null;
+  const apiUrl = mockUrl ? `${mockUrl}/v1` : process.env.GDEX_API_URL || 'https://trade-api.gemach.io/v1';
   const apiKey = process.env.GDEX_API_KEY || '3f6c9e12-7b41-4c2a-9d5e-1a8f3b7e6c90,8d2a5f47-2e13-4b9c-a6f1-0c9e7d3a5b21';
   const walletAddress = process.env.WALLET_ADDRESS || '';
   const privateKey = process.env.PRIVATE_KEY || '';
+  const walletName = process.env.WALLET_NAME || DEFAULT_WALLET_NAME;
   const sessionKey = process.env.SESSION_KEY || '';
   const defaultChainId = parseInt(process.env.DEFAULT_CHAIN_ID || '622112261', 10);
+  const paperTrading = ['1', 'true', 'yes'].includes((process.env.PAPER_TRADING || '').toLowerCase());
 
-  return { apiUrl, apiKey, walletAddress, privateKey, sessionKey, defaultChainId };
+  return { apiUrl, apiKey, walletAddress, privateKey, walletName, sessionKey, defaultChainId, paperTrading, mockUrl };
 }
 
 export function validateConfig(config: Config): string[] {
   const errors: string[] = [];
 
+  // An encrypted keystore supplies both the address and the key
+  if (!config.privateKey && hasKeystore(config.walletName)) return errors;
+
   if (!config.walletAddress) {
     errors.push('WALLET_ADDRESS is required. Set it in your .env file.');
   }
   if (!config.privateKey) {
-    errors.push('PRIVATE_KEY is required. Set it in your .env file.');
+    errors.push(`PRIVATE_KEY is required. Set it in your .env file or create an encrypted keystore wallet "${config.walletName}" (npm run wallet:keystore).`);
   }
 
   return errors;
@@ -1,5 +1,6 @@
 import { createAuthenticatedSession } from './auth';
 import { loadConfig } from './config';
+import { createCopyTrade, listCopyTrades } from './hl-copytrade';
 import WebSocket from 'ws';
 
 // Polyfill WebSocket for Node.js
@@ -42,7 +43,7 @@ async function copyTradeSelf() {
     console.log('\n❌ Insufficient balance for copy trading');
     console.log('   Minimum recommended: $5 USDC');
     console.log('   Your balance: $' + (balance ?? 0));
-    console.log('\n💡 Deposit funds first: npm run deposit:correct 10');
+    console.log('\n💡 Deposit funds first: npm run deposit:hl -- --amount 10');
     return;
   }
 
@@ -55,27 +56,23 @@ async function copyTradeSelf() {
   console.log('   Take Profit: 10%');
   console.log('   Opposite Copy: No (same direction)\n');
 
-  const copyTradeResult = await session.sdk.hyperLiquid.hlCreate(
-    session.walletAddress,
-    YOUR_WALLET,              // your wallet to copy
-    'Self Copy Test',         // name
-    1,                        // copyMode: 1=fixed amount
-    '5',                      // $5 per order
-    '5',                      // 5% stop loss
-    '10',                     // 10% take profit
-    false,                    // oppositeCopy (false = copy same direction)
-    session.tradingPrivateKey
-  );
+  const copyTradeResult = await createCopyTrade(session, {
+    leader: YOUR_WALLET,
+    name: 'Self Copy Test',
+    mode: 'fixed',
+    amount: 5,
+    stopLossPct: 5,
+    takeProfitPct: 10,
+  });
 
-  if (!copyTradeResult || !copyTradeResult.isSuccess) {
+  if (!copyTradeResult.isSuccess) {
     console.log('❌ Failed to create copy trade');
-    console.log('   Error:', (copyTradeResult as any)?.error || 'Unknown error');
+    console.log('   Error:', copyTradeResult.message ?? 'Unknown error');
     return;
   }
 
   console.log('✅ Copy trade created successfully!');
-  const copyTradeId = (copyTradeResult as any).copyTradeId || 'unknown';
-  console.log(`   Copy Trade ID: ${copyTradeId}`);
+  console.log(`   Copy Trade ID: ${copyTradeResult.copyTrade?.id ?? 'unknown'}`);
 
   // Step 4: Monitor positions in real-time
   console.log('\n[4/5] 📊 Monitoring positions in REAL-TIME...');
@@ -187,14 +184,11 @@ async function copyTradeSelf() {
   // Try to get and display copy trade info
   console.log('\n📋 Copy trade status:');
   try {
-    const copyTrades = await session.sdk.hyperLiquid.getCopyTradeListFutures(
-      session.walletAddress,
-      session.encryptedSessionKey
-    );
+    const copyTrades = (await listCopyTrades(session)).filter((ct) => ct.isActive);
 
-    if (copyTrades && copyTrades.length > 0) {
+    if (copyTrades.length > 0) {
       console.log(`   Active copy trades: ${copyTrades.length}`);
-      console.log('   💡 Copy trade will continue until you delete it');
+      console.log('   💡 Copy trade will continue until you delete it: npm run gdex -- copy delete <id>');
       console.log('   💡 Any future trades from ' + YOUR_WALLET.substring(0, 10) + '... will be copied');
     } else {
       console.log('   No active copy trades found');
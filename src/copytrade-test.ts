@@ -1,5 +1,6 @@
 import { createAuthenticatedSession } from './auth';
 import { loadConfig } from './config';
+import { createCopyTrade, deleteCopyTrade, findLeaders, listCopyTrades } from './hl-copytrade';
 import WebSocket from 'ws';
 
 // Polyfill WebSocket for Node.js
@@ -32,35 +33,28 @@ async function testCopyTrading() {
     console.log('\n❌ Insufficient balance for copy trading');
     console.log('   Minimum recommended: $5 USDC');
     console.log('   Your balance: $' + (balance ?? 0));
-    console.log('\n💡 Deposit funds first: npm run deposit:correct 10');
+    console.log('\n💡 Deposit funds first: npm run deposit:hl -- --amount 10');
     return;
   }
 
   // Step 3: Get top traders
   console.log('\n[3/7] 🏆 Fetching top HyperLiquid traders...');
-  const leaderboard = await session.sdk.hyperLiquid.getHyperliquidLeaderboard(
-    'week',  // period: 'day' | 'week' | 'month' | 'allTime'
-    10,      // limit
-    'desc',  // order
-    'pnl'    // sortBy
-  );
+  const leaders = await findLeaders(session, { window: 'week', minAccountValue: 10_000, minRoiPct: 0 }, 10);
 
-  if (!leaderboard || leaderboard.length === 0) {
+  if (leaders.length === 0) {
     console.log('❌ No traders found on leaderboard');
     return;
   }
 
-  console.log(`✅ Found ${leaderboard.length} top traders\n`);
-  console.log('Top 5 Traders (by Weekly PnL):');
+  console.log(`✅ Found ${leaders.length} top traders\n`);
+  console.log('Top 5 Traders (by Weekly ROI):');
   console.log('─'.repeat(70));
 
-  leaderboard.slice(0, 5).forEach((trader: any, i: number) => {
-    // Extract weekly performance data
-    const weekPerf = trader.windowPerformances?.find((w: any) => w[0] === 'week')?.[1] || {};
-    const pnl = parseFloat(weekPerf.pnl || '0');
-    const roi = parseFloat(weekPerf.roi || '0') * 100;
-    const address = trader.ethAddress || '';
-    const accountValue = parseFloat(trader.accountValue || '0');
+  leaders.slice(0, 5).forEach((trader, i) => {
+    const pnl = trader.windows.week?.pnl ?? 0;
+    const roi = trader.windows.week?.roiPct ?? 0;
+    const address = trader.address;
+    const accountValue = trader.accountValue;
 
     const pnlColor = pnl >= 0 ? '\x1b[32m' : '\x1b[31m';
     const reset = '\x1b[0m';
@@ -74,13 +68,12 @@ async function testCopyTrading() {
   });
 
   // Select trader (top performer)
-  const targetTrader: any = leaderboard[0];
-  const weekPerf = targetTrader.windowPerformances?.find((w: any) => w[0] === 'week')?.[1] || {};
+  const targetTrader = leaders[0];
 
-  console.log(`\n🎯 Selected trader: ${targetTrader.ethAddress}`);
-  console.log(`   Weekly PnL: $${parseFloat(weekPerf.pnl || '0').toLocaleString(undefined, {maximumFractionDigits: 0})}`);
-  console.log(`   Weekly ROI: ${(parseFloat(weekPerf.roi || '0') * 100).toFixed(2)}%`);
-  console.log(`   Account Value: $${parseFloat(targetTrader.accountValue || '0').toLocaleString(undefined, {maximumFractionDigits: 0})}`);
+  console.log(`\n🎯 Selected trader: ${targetTrader.address}`);
+  console.log(`   Weekly PnL: $${(targetTrader.windows.week?.pnl ?? 0).toLocaleString(undefined, {maximumFractionDigits: 0})}`);
+  console.log(`   Weekly ROI: ${(targetTrader.windows.week?.roiPct ?? 0).toFixed(2)}%`);
+  console.log(`   Account Value: $${targetTrader.accountValue.toLocaleString(undefined, {maximumFractionDigits: 0})}`);
 
   // Step 4: Create copy trade
   console.log('\n[4/7] 🚀 Creating copy trade...');
@@ -90,42 +83,35 @@ async function testCopyTrading() {
   console.log('   Take Profit: 20%');
   console.log('   Opposite Copy: No (same direction)\n');
 
-  const copyTradeResult = await session.sdk.hyperLiquid.hlCreate(
-    session.walletAddress,
-    targetTrader.ethAddress,     // trader to copy
-    'Test Copy Trade',            // name
-    1,                            // copyMode: 1=fixed amount
-    '5',                          // $5 per order
-    '10',                         // 10% stop loss
-    '20',                         // 20% take profit
-    false,                        // oppositeCopy (false = copy same direction)
-    session.tradingPrivateKey
-  );
+  const copyTradeResult = await createCopyTrade(session, {
+    leader: targetTrader.address,
+    name: 'Test Copy Trade',
+    mode: 'fixed',
+    amount: 5,
+    stopLossPct: 10,
+    takeProfitPct: 20,
+  });
 
-  if (!copyTradeResult || !copyTradeResult.isSuccess) {
+  if (!copyTradeResult.isSuccess) {
     console.log('❌ Failed to create copy trade');
-    console.log('   Error:', (copyTradeResult as any)?.error || 'Unknown error');
+    console.log('   Error:', copyTradeResult.message ?? 'Unknown error');
     return;
   }
 
   console.log('✅ Copy trade created successfully!');
-  const copyTradeId = (copyTradeResult as any).copyTradeId || 'unknown';
-  console.log(`   Copy Trade ID: ${copyTradeId}`);
+  console.log(`   Copy Trade ID: ${copyTradeResult.copyTrade?.id ?? 'unknown'}`);
 
   // Step 5: Get copy trade list
   console.log('\n[5/7] 📋 Fetching active copy trades...');
-  const copyTrades = await session.sdk.hyperLiquid.getCopyTradeListFutures(
-    session.walletAddress,
-    session.encryptedSessionKey
-  );
+  const copyTrades = await listCopyTrades(session);
 
-  if (copyTrades && copyTrades.length > 0) {
-    console.log(`✅ Found ${copyTrades.length} active copy trade(s)\n`);
-    copyTrades.forEach((ct: any, i: number) => {
+  if (copyTrades.length > 0) {
+    console.log(`✅ Found ${copyTrades.length} copy trade(s)\n`);
+    copyTrades.forEach((ct, i) => {
       console.log(`${i + 1}. ${ct.name || 'Unnamed'}`);
-      console.log(`   Trader: ${ct.targetAddress}`);
-      console.log(`   Mode: ${ct.copyMode === 1 ? 'Fixed Amount' : 'Proportional'}`);
-      console.log(`   Amount: $${ct.fixedAmountCostPerOrder}`);
+      console.log(`   Trader: ${ct.leader}`);
+      console.log(`   Mode: ${ct.mode === 'fixed' ? 'Fixed Amount' : 'Proportional'}`);
+      console.log(`   Amount: $${ct.amount}`);
       console.log(`   Status: ${ct.isActive ? '🟢 Active' : '🔴 Inactive'}`);
     });
   }
@@ -203,33 +189,15 @@ async function testCopyTrading() {
   // Delete the copy trade
   console.log('\n   Deleting copy trade configuration...');
 
-  if (copyTrades && copyTrades.length > 0) {
-    const ct: any = copyTrades[0]; // Get the copy trade we just created
-
-    try {
-      const deleteResult = await session.sdk.hyperLiquid.hlUpdate(
-        session.walletAddress,
-        ct.targetAddress || targetTrader.ethAddress,
-        ct.name || 'Test Copy Trade',
-        ct.copyMode || 1,
-        ct.fixedAmountCostPerOrder?.toString() || '5',
-        ct.lossPercent?.toString() || '10',
-        ct.profitPercent?.toString() || '20',
-        ct.id?.toString() || copyTradeId, // copyTradeId
-        ct.oppositeCopy || false,
-        session.tradingPrivateKey,
-        true, // isDelete = true
-        false // isChangeStatus
-      );
-
-      if (deleteResult?.isSuccess) {
-        console.log('   ✅ Copy trade deleted successfully');
-      } else {
-        console.log('   ⚠️  Failed to delete copy trade:', (deleteResult as any)?.error);
-      }
-    } catch (error: any) {
-      console.log('   ⚠️  Error deleting copy trade:', error.message);
+  if (copyTradeResult.copyTrade) {
+    const deleteResult = await deleteCopyTrade(session, copyTradeResult.copyTrade.id);
+    if (deleteResult.isSuccess) {
+      console.log('   ✅ Copy trade deleted successfully');
+    } else {
+      console.log('   ⚠️  Failed to delete copy trade:', deleteResult.message);
     }
+  } else {
+    console.log('   ⚠️  Copy trade not found in the list — find it with `npm run gdex -- copy list`, then `copy delete <id>`');
   }
 
   // Final balance check
@@ -0,0 +1,280 @@
+/**
+ * fills.ts — what a confirmed spot trade actually did on chain
+ *
+ * buyToken and sellToken (trading.ts) only learn a hash from the GDEX API.
+ * getTradeFill() reads the confirmed transaction — Solana getTransaction
+ * (jsonParsed) or the EVM receipt — and works out, for the wallet that
+ * traded:
+ *   tokenAmount   tokens received (buy) or sent (sell), whole units
+ *   nativeAmount  SOL/ETH that left the wallet on a buy, or arrived on a sell,
+ *                 everything included
+ *   fee           network fee (Solana base + priority fee, EVM gas)
+ *   tip           Jito tip transfers (Solana)
+ *   executedPrice native per token the swap itself got — fee, tip and token
+ *                 account rent left out
+ *   slippagePct   executedPrice vs the quote; positive = worse than quoted
+ *
+ * RPC endpoints: SOLANA_RPC_URL, RPC_URL_<chainId> (e.g. RPC_URL_8453) —
+ * public defaults otherwise. With GDEX_MOCK_URL set, the mock server's
+ * /rpc/<chainId> (mock-api.ts) for every chain.
+ */
+
+import axios from 'axios';
+import { ethers } from 'ethers';
+import { loadConfig } from './config';
+
+const SOLANA = 622112261;
+const LAMPORTS_PER_SOL = 1_000_000_000;
+const WSOL_MINT = 'So11111111111111111111111111111111111111112';
+// A transaction seen as confirmed by the API can take a moment to reach the RPC node
+const FETCH_ATTEMPTS = 5;
+const FETCH_INTERVAL_MS = 1000;
+
+const DEFAULT_RPC: Record<number, string> = {
+  [SOLANA]: 'https://api.mainnet-beta.solana.com',
+  1: 'https://eth.llamarpc.com',
+  8453: 'https://mainnet.base.org',
+  42161: 'https://arb1.arbitrum.io/rpc',
+  56: 'https://bsc-dataseed.binance.org',
+};
+
+/** Jito tip accounts — system transfers to these are the trade's tip */
+const JITO_TIP_ACCOUNTS = new Set([
+  '96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5',
+  'HFqU5x63VTqvQss8hp11i4wVV8bD44PvwucfZ2bU7gRe',
+  'Cw8CFyM9FkoMi7K7Crf6HNQqf4uEMzpKw6QNghXLvLkY',
+  'ADaUMid9yfUytqMBgopwjb2DTLSokTSzL1zt6iGPaS49',
+  'DfXygSm4jCyNCybVYYK6DwvWqjKee8pbDmJGcLWNDXjh',
+  'ADuUkR4vqLUMWXxW9gh6D6L8pMSawimctcNZ5pGwDcEt',
+  'DttWaMuVvTiduZRnguLF7jNxTgiMBZ1hyAumKUiL2KRL',
+  '3AVi9Tg9Uo68tJfuvoKvqKNWKkC5wPdSSdeBnizKZ6jT',
+]);
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Fill fields buyToken/sellToken add to a successful TradeResult. Native amounts in SOL/ETH/BNB. */
+export interface TradeFill {
+  /** Native per whole token, swap only */
+  executedPrice: number;
+  /** Native per whole token when the order was sent — null when no quote was available */
+  quotedPrice: number | null;
+  /** Percent worse (positive) or better (negative) than quotedPrice */
+  slippagePct: number | null;
+  tokenAmount: number;
+  /** Buy: total spent. Sell: net received. */
+  nativeAmount: number;
+  fee: number;
+  tip: number;
+}
+
+export interface FillRequest {
+  chainId: number;
+  hash: string;
+  /** Wallet that sent the trade — the GDEX custodial address */
+  owner: string;
+  token: string;
+  side: 'buy' | 'sell';
+  quotedPrice?: number | null;
+}
+
+// ---------------------------------------------------------------------------
+// Fill lookup
+// ---------------------------------------------------------------------------
+
+export function rpcUrl(chainId: number): string | undefined {
+  const { mockUrl } = loadConfig();
+  if (mockUrl) return `${mockUrl}/rpc/${chainId}`;
+  const override = chainId === SOLANA ? process.env.SOLANA_RPC_URL : process.env[`RPC_URL_${chainId}`];
+  return override || DEFAULT_RPC[chainId];
+}
+
+/** Read a confirmed trade from the chain. Throws when it can't be found or moved no tokens. */
+export async function getTradeFill(req: FillRequest): Promise<TradeFill> {
+  const url = rpcUrl(req.chainId);
+  if (!url) throw new Error(`No RPC for chain ${req.chainId} — set RPC_URL_${req.chainId}`);
+  return req.chainId === SOLANA ? getSolanaFill(url, req) : getEvmFill(url, req);
+}
+
+async function retry<T>(what: string, fetch: () => Promise<T | null>): Promise<T> {
+  for (let attempt = 1; attempt <= FETCH_ATTEMPTS; attempt++) {
+    const found = await fetch();
+    if (found) return found;
+    if (attempt < FETCH_ATTEMPTS) await new Promise((r) => setTimeout(r, FETCH_INTERVAL_MS));
+  }
+  throw new Error(`${what} not found after ${FETCH_ATTEMPTS} attempts`);
+}
+
+async function getSolanaFill(url: string, req: FillRequest): Promise<TradeFill> {
+  const tx = await retry(`Transaction ${req.hash}`, async () => {
+    const res = await axios.post(
+      url,
+      {
+        jsonrpc: '2.0', id: 1, method: 'getTransaction',
+        params: [req.hash, { encoding: 'jsonParsed', maxSupportedTransactionVersion: 0, commitment: 'confirmed' }],
+      },
+      { headers: { 'Content-Type': 'application/json' }, timeout: 8000 },
+    );
+    if (res.data?.error) throw new Error(`getTransaction: ${res.data.error.message ?? JSON.stringify(res.data.error)}`);
+    return res.data?.result ?? null;
+  });
+  return parseSolanaFill(tx, req);
+}
+
+/**
+ * Work out a fill from a jsonParsed getTransaction result. SOL held in the
+ * owner's wrapped-SOL accounts counts as SOL; rent put into (or refunded
+ * from) the owner's account for the token is left out of the price.
+ */
+export function parseSolanaFill(tx: any, req: Pick<FillRequest, 'owner' | 'token' | 'side' | 'quotedPrice'>): TradeFill {
+  const meta = tx?.meta;
+  const keys: string[] = (tx?.transaction?.message?.accountKeys ?? []).map((k: any) => (typeof k === 'string' ? k : k.pubkey));
+  if (!meta) throw new Error('Transaction has no meta');
+  if (meta.err) throw new Error(`Transaction failed: ${JSON.stringify(meta.err)}`);
+
+  const ownerIndex = keys.indexOf(req.owner);
+  if (ownerIndex < 0) throw new Error(`${req.owner} is not part of the transaction`);
+  const lamportsDelta = (i: number) => (meta.postBalances[i] ?? 0) - (meta.preBalances[i] ?? 0);
+
+  // Token accounts owned by the wallet, keyed by account index
+  const owned = new Map<number, { mint: string; pre: bigint; post: bigint; decimals: number }>();
+  for (const [field, balances] of [['pre', meta.preTokenBalances], ['post', meta.postTokenBalances]] as const) {
+    for (const b of balances ?? []) {
+      if (b.owner !== req.owner) continue;
+      const entry = owned.get(b.accountIndex) ?? { mint: b.mint, pre: 0n, post: 0n, decimals: b.uiTokenAmount.decimals };
+      entry[field] = BigInt(b.uiTokenAmount.amount);
+      owned.set(b.accountIndex, entry);
+    }
+  }
+
+  let nativeDelta = lamportsDelta(ownerIndex);
+  let rentDelta = 0;
+  let rawTokens = 0n;
+  let decimals = 0;
+  for (const [index, acct] of owned) {
+    if (acct.mint === WSOL_MINT) nativeDelta += lamportsDelta(index);
+    if (acct.mint !== req.token) continue;
+    rentDelta += lamportsDelta(index);
+    rawTokens += acct.post - acct.pre;
+    decimals = acct.decimals;
+  }
+  if (rawTokens === 0n) throw new Error(`No ${req.token} moved in or out of ${req.owner}`);
+
+  const fee = keys[0] === req.owner ? meta.fee ?? 0 : 0;
+  const instructions = [
+    ...(tx.transaction.message.instructions ?? []),
+    ...(meta.innerInstructions ?? []).flatMap((inner: any) => inner.instructions ?? []),
+  ];
+  const tip = instructions
+    .filter((ix: any) => ix.program === 'system' && ix.parsed?.type === 'transfer'
+      && ix.parsed.info?.source === req.owner && JITO_TIP_ACCOUNTS.has(ix.parsed.info?.destination))
+    .reduce((sum: number, ix: any) => sum + Number(ix.parsed.info.lamports ?? 0), 0);
+
+  const swapLamports = req.side === 'buy'
+    ? -nativeDelta - fee - tip - rentDelta
+    : nativeDelta + fee + tip + rentDelta;
+  const tokenAmount = Math.abs(Number(rawTokens)) / 10 ** decimals;
+  return buildFill(req, {
+    executedPrice: swapLamports / LAMPORTS_PER_SOL / tokenAmount,
+    tokenAmount,
+    nativeAmount: Math.abs(nativeDelta) / LAMPORTS_PER_SOL,
+    fee: fee / LAMPORTS_PER_SOL,
+    tip: tip / LAMPORTS_PER_SOL,
+  });
+}
+
+/**
+ * EVM: token Transfer logs to/from the owner in the receipt, gas from the
+ * receipt, and the native side from the owner's balance before and after
+ * the block (another transaction of the owner's in the same block would be
+ * counted too).
+ */
+async function getEvmFill(url: string, req: FillRequest): Promise<TradeFill> {
+  const provider = new ethers.JsonRpcProvider(url, req.chainId, { staticNetwork: true });
+  try {
+    const receipt = await retry(`Receipt ${req.hash}`, () => provider.getTransactionReceipt(req.hash));
+    if (receipt.status !== 1) throw new Error(`Transaction ${req.hash} reverted`);
+
+    const owner = req.owner.toLowerCase();
+    const topicOwner = ethers.zeroPadValue(owner, 32).toLowerCase();
+    let raw = 0n;
+    for (const l of receipt.logs) {
+      if (l.address.toLowerCase() !== req.token.toLowerCase() || l.topics[0] !== TRANSFER_TOPIC) continue;
+      if (l.topics[2]?.toLowerCase() === topicOwner) raw += BigInt(l.data);
+      if (l.topics[1]?.toLowerCase() === topicOwner) raw -= BigInt(l.data);
+    }
+    if (raw === 0n) throw new Error(`No ${req.token} moved in or out of ${req.owner}`);
+
+    const token = new ethers.Contract(req.token, ['function decimals() view returns (uint8)'], provider);
+    const [decimals, before, after] = await Promise.all([
+      token.decimals().then(Number),
+      provider.getBalance(req.owner, receipt.blockNumber - 1),
+      provider.getBalance(req.owner, receipt.blockNumber),
+    ]);
+    const feeWei = receipt.from.toLowerCase() === owner ? receipt.gasUsed * receipt.gasPrice : 0n;
+    const deltaWei = after - before;
+    const swapWei = req.side === 'buy' ? -deltaWei - feeWei : deltaWei + feeWei;
+
+    const tokenAmount = Math.abs(Number(ethers.formatUnits(raw, decimals)));
+    return buildFill(req, {
+      executedPrice: Number(ethers.formatEther(swapWei)) / tokenAmount,
+      tokenAmount,
+      nativeAmount: Math.abs(Number(ethers.formatEther(deltaWei))),
+      fee: Number(ethers.formatEther(feeWei)),
+      tip: 0,
+    });
+  } finally {
+    provider.destroy();
+  }
+}
+
+function buildFill(
+  req: Pick<FillRequest, 'side' | 'quotedPrice'>,
+  fill: Omit<TradeFill, 'quotedPrice' | 'slippagePct'>,
+): TradeFill {
+  const quotedPrice = req.quotedPrice && req.quotedPrice > 0 ? req.quotedPrice : null;
+  return { ...fill, quotedPrice, slippagePct: quotedPrice === null ? null : slippagePct(req.side, fill.executedPrice, quotedPrice) };
+}
+
+/** How much worse than quoted a fill came in, in percent — paying more on a buy, getting less on a sell. */
+export function slippagePct(side: 'buy' | 'sell', executedPrice: number, quotedPrice: number): number {
+  const ratio = executedPrice / quotedPrice;
+  return (side === 'buy' ? ratio - 1 : 1 - ratio) * 100;
+}
+
+/** ` | 1234.5 tokens @ 2.1e-8 | fee … | slippage +1.2%` for a log line — empty without a fill */
+export function describeFill(fill: Partial<TradeFill> & { fillError?: string }): string {
+  if (fill.executedPrice === undefined) return fill.fillError ? ` | fill unknown: ${fill.fillError}` : '';
+  const parts = [
+    `${fill.tokenAmount?.toPrecision(6)} tokens @ ${fill.executedPrice.toExponential(3)}`,
+    `fee ${(fill.fee ?? 0).toFixed(6)}${fill.tip ? ` + tip ${fill.tip.toFixed(6)}` : ''}`,
+  ];
+  if (fill.slippagePct !== null && fill.slippagePct !== undefined) {
+    parts.push(`slippage ${fill.slippagePct >= 0 ? '+' : ''}${fill.slippagePct.toFixed(2)}%`);
+  }
+  return ` | ${parts.join(' | ')}`;
+}
+
+// ---------------------------------------------------------------------------
+// P&L
+// ---------------------------------------------------------------------------
+
+/**
+ * Realized P&L of an exit that sold `costBasis` worth of a position. With the
+ * sell's fill it is what actually arrived minus what was paid; without one
+ * (the fill lookup failed) it falls back to the price move. Native units.
+ */
+export function exitPnl(
+  costBasis: number,
+  pricePnlPct: number,
+  fill?: Partial<TradeFill>,
+): { pnl: number; pnlPct: number } {
+  if (fill?.nativeAmount === undefined || !(costBasis > 0)) {
+    return { pnl: costBasis * (pricePnlPct / 100), pnlPct: pricePnlPct };
+  }
+  const pnl = fill.nativeAmount - costBasis;
+  return { pnl, pnlPct: (pnl / costBasis) * 100 };
+}
@@ -0,0 +1,86 @@
+/**
+ * fund-hl.ts — fund HyperLiquid from the control wallet
+ *
+ * Sends USDC (and optionally a little ETH for gas) from the control wallet to
+ * the GDEX custodial wallet on Arbitrum, then bridges it into HyperLiquid with
+ * depositToHyperliquid() and waits for the credit (hl-funding.ts).
+ *
+ * Usage:
+ *   npm run hl:fund -- --amount 10 [--gas 0.00006]
+ *
+ * Already have USDC in the custodial wallet? `npm run gdex -- deposit hl --amount 10 --wait`.
+ */
+
+import WebSocket from 'ws';
+(globalThis as any).WebSocket = WebSocket;
+
+import { ethers } from 'ethers';
+import { createAuthenticatedSession } from './auth';
+import { loadConfig } from './config';
+import { rpcUrl } from './fills';
+import { unlockKeystore } from './keystore';
+import { getHlAddress } from './trading';
+import {
+  depositToHyperliquid,
+  getArbitrumUsdcBalance,
+  waitForTransfer,
+  ARBITRUM_USDC,
+  HL_MIN_DEPOSIT_USD,
+} from './hl-funding';
+
+const ARBITRUM = 42161;
+
+function flag(name: string): string | undefined {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+async function main() {
+  const amount = parseFloat(flag('amount') ?? String(HL_MIN_DEPOSIT_USD));
+  const gasEth = flag('gas');
+  if (!(amount >= HL_MIN_DEPOSIT_USD)) throw new Error(`--amount must be at least ${HL_MIN_DEPOSIT_USD} USDC`);
+
+  const config = loadConfig();
+  const privateKey = config.privateKey || unlockKeystore(config.walletName).privateKey;
+  const provider = new ethers.JsonRpcProvider(rpcUrl(ARBITRUM), ARBITRUM, { staticNetwork: true });
+  const wallet = new ethers.Wallet(privateKey, provider);
+
+  console.log('[1/3] 🔐 Authenticating...');
+  const session = await createAuthenticatedSession({ chainId: ARBITRUM });
+  const custodial = await getHlAddress(session);
+  console.log(`      Control wallet:   ${wallet.address}`);
+  console.log(`      Custodial wallet: ${custodial}`);
+
+  const held = await getArbitrumUsdcBalance(custodial);
+  const needed = Math.max(0, amount - held);
+  console.log(`\n[2/3] 💸 Custodial wallet holds $${held.toFixed(2)} USDC — sending $${needed.toFixed(2)}`);
+  if (needed > 0) {
+    const usdc = new ethers.Contract(ARBITRUM_USDC, ['function transfer(address to, uint256 amount) returns (bool)'], wallet);
+    const tx = await usdc.transfer(custodial, ethers.parseUnits(needed.toFixed(6), 6));
+    console.log(`      USDC tx ${tx.hash}`);
+    await tx.wait();
+  }
+  if (gasEth) {
+    const tx = await wallet.sendTransaction({ to: custodial, value: ethers.parseEther(gasEth) });
+    console.log(`      ETH tx ${tx.hash}`);
+    await tx.wait();
+  }
+
+  console.log(`\n[3/3] 🏦 Depositing $${amount} USDC to HyperLiquid...`);
+  const result = await depositToHyperliquid(session, amount);
+  if ((!result.isSuccess && !result.pending) || !result.transfer) throw new Error(result.message ?? 'Deposit refused');
+  console.log(`      ${result.pending ? `Outcome unknown (${result.message})` : 'Accepted'} (${result.transfer.id}) — waiting for the credit, 1-10 min`);
+
+  const transfer = await waitForTransfer(session, result.transfer, {
+    onPoll: (t) => process.stdout.write(`\r      HL balance $${(t.balanceAfter ?? t.balanceBefore).toFixed(2)}...`),
+  });
+  console.log();
+  if (transfer.status !== 'credited') throw new Error(transfer.message ?? `Transfer ${transfer.status}`);
+  console.log(`✅ HL balance $${transfer.balanceBefore.toFixed(2)} → $${transfer.balanceAfter?.toFixed(2)}`);
+  provider.destroy();
+}
+
+main().catch((err) => {
+  console.error(`\n❌ ${err.response?.data?.message ?? err.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,314 @@
+/**
+ * hl-attribution.ts — which strategy made the HyperLiquid P&L
+ *
+ * One HL account trades for several sources at once: the momentum scalper
+ * (hl-momentum-scalper.ts), each copy trade (hl-copytrade.ts) and anything
+ * placed by hand. attributeHlFills() reads the account's fills through
+ * getHyperliquidTradeHistory, groups them into orders, and gives each order
+ * one source:
+ *   scalper   the scalper journaled an entry or exit (book `hl-scalper`) of
+ *             the same coin and side within matchWindowMs
+ *   copy      a copy trade's leader filled the same coin and side (the
+ *             other side for opposite copies) up to matchWindowMs earlier —
+ *             the nearest leader order wins, and its average price is what
+ *             slippage is measured against
+ *   position  otherwise, an order that reduces a position belongs to the
+ *             source that opened it (a copy trade's TP/SL, the scalper's
+ *             exchange-side stop)
+ *   manual    anything left
+ *
+ * Per source it sums volume, realized P&L (HL closedPnl), fees and net P&L,
+ * the win rate over closing fills, and for leader-matched fills the
+ * slippage against the leader's own fill: positive bps are worse than the
+ * leader got. Only copy trades still listed by GDEX are known, so fills of a
+ * deleted copy trade end up as manual.
+ */
+
+import { GDEXSession } from './auth';
+import { listCopyTrades, CopyTrade } from './hl-copytrade';
+import { getUserFills, parseFill, Fill } from './hyperliquid';
+import { sharedJournal, Book, Journal, JournalPosition } from './journal';
+import { getHlAddress } from './trading';
+
+const SCALPER_BOOK: Book = 'hl-scalper';
+const HISTORY_PAGE_SIZE = 500;
+const MAX_HISTORY_PAGES = 20;
+const DEFAULT_MATCH_WINDOW_MS = 60_000;
+// Leader and account timestamps come from the same exchange, but allow for rounding
+const CLOCK_SKEW_MS = 2_000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type FillSourceKind = 'scalper' | 'copy' | 'manual';
+
+export interface AttributedFill extends Fill {
+  /** `scalper`, `manual`, or `copy:<copy trade id>` */
+  source: string;
+  /** fill: matched a scalper/leader fill; position: closes what that source opened */
+  matchedBy: 'fill' | 'position' | 'none';
+  /** Average price of the leader's matching order — leader-matched copy fills only */
+  leaderPx?: number;
+  /** Against leaderPx, positive = worse than the leader */
+  slippageBps?: number;
+}
+
+export interface FillTotals {
+  fills: number;
+  volumeUsd: number;
+  /** Sum of HL closedPnl, before fees */
+  closedPnl: number;
+  fees: number;
+  netPnl: number;
+  /** Fills that realized P&L, and how many of them were profitable */
+  closingFills: number;
+  wins: number;
+  winRatePct: number | null;
+  /** Volume-weighted over leader-matched fills */
+  avgSlippageBps: number | null;
+  /** What slippage cost in USD (negative = saved) */
+  slippageUsd: number;
+}
+
+export interface SourceStats extends FillTotals {
+  source: string;
+  kind: FillSourceKind;
+  label: string;
+  /** Leader address of a copy source */
+  leader?: string;
+}
+
+export interface AttributionReport {
+  /** HL account the fills are from (the custodial address) */
+  address: string;
+  since: string;
+  until: string;
+  fills: AttributedFill[];
+  /** Best net P&L first */
+  sources: SourceStats[];
+  total: FillTotals;
+}
+
+export interface AttributionOptions {
+  /** Epoch ms (default 7 days ago) */
+  since?: number;
+  until?: number;
+  /** Max gap between our order and the scalper/leader fill it is matched to */
+  matchWindowMs?: number;
+}
+
+interface Order {
+  oid: number;
+  coin: string;
+  side: 'B' | 'A';
+  time: number;
+  avgPx: number;
+  fills: Fill[];
+}
+
+interface SourceFill {
+  coin: string;
+  side: 'B' | 'A';
+  time: number;
+}
+
+// ---------------------------------------------------------------------------
+// Inputs
+// ---------------------------------------------------------------------------
+
+function getJournal(): Journal {
+  return sharedJournal();
+}
+
+/** Account fills in [since, until], oldest first, paging through the trade history */
+async function getAccountFills(session: GDEXSession, address: string, since: number, until: number): Promise<Fill[]> {
+  const byTid = new Map<string, Fill>();
+  for (let page = 1; page <= MAX_HISTORY_PAGES; page++) {
+    const res: any = await session.sdk.hyperLiquid.getHyperliquidTradeHistory(
+      address, session.encryptedSessionKey, false, page, HISTORY_PAGE_SIZE,
+    );
+    const batch: Fill[] = (res?.fills ?? []).map(parseFill);
+    for (const f of batch) {
+      if (f.time >= since && f.time <= until) byTid.set(`${f.tid}:${f.oid}`, f);
+    }
+    if (batch.length < HISTORY_PAGE_SIZE || batch.every((f) => f.time < since)) break;
+  }
+  return [...byTid.values()].sort((a, b) => a.time - b.time);
+}
+
+/** Fills of one order share its oid; a copy or scalper decision is one order */
+function groupOrders(fills: Fill[]): Order[] {
+  const byOid = new Map<number, Fill[]>();
+  for (const f of fills) byOid.set(f.oid, [...(byOid.get(f.oid) ?? []), f]);
+  return [...byOid.entries()]
+    .map(([oid, group]) => {
+      const size = group.reduce((s, f) => s + f.sz, 0);
+      return {
+        oid,
+        coin: group[0].coin,
+        side: group[0].side,
+        time: Math.min(...group.map((f) => f.time)),
+        avgPx: size > 0 ? group.reduce((s, f) => s + f.px * f.sz, 0) / size : group[0].px,
+        fills: group,
+      };
+    })
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Entries and exits the scalper journaled, as HL sides. Trades imported from
+ * the old scalper-trades.json have no fills — their exit time stands in.
+ */
+function scalperFills(since: number, until: number): SourceFill[] {
+  const out: SourceFill[] = [];
+  const inRange = (time: number) => time >= since && time <= until;
+  const positions = getJournal().getPositions<JournalPosition & { coin: string; isLong: boolean }>(SCALPER_BOOK);
+  const journaled = new Set(positions.map((p) => p.id));
+
+  for (const p of positions) {
+    for (const f of getJournal().getFills(p.id)) {
+      const time = Date.parse(f.ts);
+      // Entry of a long and exit of a short are buys
+      if (inRange(time)) out.push({ coin: p.coin, side: (f.side === 'buy') === p.isLong ? 'B' : 'A', time });
+    }
+  }
+  for (const t of getJournal().getTrades(SCALPER_BOOK, new Date(since).toISOString())) {
+    const time = Date.parse(t.exitTime ?? '');
+    if (journaled.has(t.id ?? '') || !inRange(time)) continue;
+    out.push({ coin: t.coin, side: t.direction === 'LONG' ? 'A' : 'B', time });
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+function flip(side: 'B' | 'A'): 'B' | 'A' {
+  return side === 'B' ? 'A' : 'B';
+}
+
+function emptyTotals(): FillTotals {
+  return {
+    fills: 0, volumeUsd: 0, closedPnl: 0, fees: 0, netPnl: 0,
+    closingFills: 0, wins: 0, winRatePct: null, avgSlippageBps: null, slippageUsd: 0,
+  };
+}
+
+function emptyStats(source: string, kind: FillSourceKind, label: string, leader?: string): SourceStats {
+  return { source, kind, label, leader, ...emptyTotals() };
+}
+
+function summarize<T extends FillTotals>(stats: T, fills: AttributedFill[]): T {
+  let slippageWeight = 0;
+  let slippageSum = 0;
+  for (const f of fills) {
+    const notional = f.px * f.sz;
+    stats.fills++;
+    stats.volumeUsd += notional;
+    stats.closedPnl += f.closedPnl;
+    stats.fees += f.fee;
+    if (f.closedPnl !== 0) {
+      stats.closingFills++;
+      if (f.closedPnl > 0) stats.wins++;
+    }
+    if (f.slippageBps !== undefined && f.leaderPx !== undefined) {
+      slippageSum += f.slippageBps * notional;
+      slippageWeight += notional;
+      stats.slippageUsd += (f.isBuy ? 1 : -1) * (f.px - f.leaderPx) * f.sz;
+    }
+  }
+  stats.netPnl = stats.closedPnl - stats.fees;
+  stats.winRatePct = stats.closingFills > 0 ? (stats.wins / stats.closingFills) * 100 : null;
+  stats.avgSlippageBps = slippageWeight > 0 ? slippageSum / slippageWeight : null;
+  return stats;
+}
+
+/**
+ * Attribute every HL fill of the session's account in the window to the
+ * scalper, a copy trade, or manual trading, and total them per source.
+ */
+export async function attributeHlFills(session: GDEXSession, opts: AttributionOptions = {}): Promise<AttributionReport> {
+  const until = opts.until ?? Date.now();
+  const since = opts.since ?? until - 7 * 24 * 3600_000;
+  const window = opts.matchWindowMs ?? DEFAULT_MATCH_WINDOW_MS;
+
+  const address = await getHlAddress(session);
+  const orders = groupOrders(await getAccountFills(session, address, since, until));
+  const scalper = scalperFills(since - window, until + window);
+  const copyTrades = await listCopyTrades(session);
+  const leaderOrders = new Map<string, Order[]>();
+  for (const leader of new Set(copyTrades.map((c) => c.leader))) {
+    leaderOrders.set(leader, groupOrders(await getUserFills(leader, since - window, until)));
+  }
+
+  const attributed: AttributedFill[] = [];
+  // Source that opened each coin's current position
+  const owner = new Map<string, string>();
+
+  for (const order of orders) {
+    let source: string | null = null;
+    let matchedBy: AttributedFill['matchedBy'] = 'fill';
+    let leaderPx: number | undefined;
+
+    const claimed = scalper.findIndex((s) => s.coin === order.coin && s.side === order.side && Math.abs(s.time - order.time) <= window);
+    if (claimed >= 0) {
+      scalper.splice(claimed, 1);
+      source = 'scalper';
+    } else {
+      let best: { copyTrade: CopyTrade; order: Order; gap: number } | null = null;
+      for (const copyTrade of copyTrades) {
+        const side = copyTrade.opposite ? flip(order.side) : order.side;
+        for (const led of leaderOrders.get(copyTrade.leader) ?? []) {
+          const gap = order.time - led.time;
+          if (led.coin !== order.coin || led.side !== side || gap < -CLOCK_SKEW_MS || gap > window) continue;
+          if (!best || Math.abs(gap) < Math.abs(best.gap)) best = { copyTrade, order: led, gap };
+        }
+      }
+      if (best) {
+        source = `copy:${best.copyTrade.id}`;
+        leaderPx = best.order.avgPx;
+      }
+    }
+
+    const first = order.fills[0];
+    const sign = order.side === 'B' ? 1 : -1;
+    const reduces = first.startPosition !== 0 && Math.sign(first.startPosition) !== sign;
+    if (!source) {
+      const opener = reduces ? owner.get(order.coin) : undefined;
+      source = opener ?? 'manual';
+      matchedBy = opener ? 'position' : 'none';
+    }
+
+    for (const f of order.fills) {
+      attributed.push({
+        ...f,
+        source,
+        matchedBy,
+        ...(leaderPx !== undefined && { leaderPx, slippageBps: (sign * (f.px - leaderPx) / leaderPx) * 10_000 }),
+      });
+    }
+
+    const last = order.fills[order.fills.length - 1];
+    const after = last.startPosition + sign * last.sz;
+    if (Math.abs(after) < 1e-9) owner.delete(order.coin);
+    else if (!reduces || Math.sign(after) !== Math.sign(first.startPosition)) owner.set(order.coin, source);
+  }
+
+  const sources = new Map<string, SourceStats>([
+    ['scalper', emptyStats('scalper', 'scalper', 'HL scalper')],
+    ...copyTrades.map((c): [string, SourceStats] => [`copy:${c.id}`, emptyStats(`copy:${c.id}`, 'copy', c.name, c.leader)]),
+    ['manual', emptyStats('manual', 'manual', 'Manual / unattributed')],
+  ]);
+  for (const stats of sources.values()) summarize(stats, attributed.filter((f) => f.source === stats.source));
+
+  return {
+    address,
+    since: new Date(since).toISOString(),
+    until: new Date(until).toISOString(),
+    fills: attributed,
+    sources: [...sources.values()].filter((s) => s.fills > 0 || s.kind === 'copy').sort((a, b) => b.netPnl - a.netPnl),
+    total: summarize(emptyTotals(), attributed),
+  };
+}
@@ -0,0 +1,455 @@
+/**
+ * HL SCALPER BACKTEST
+ *
+ * Replays recorded Hyperliquid 1m/15m candles and funding rates through the
+ * exact signal, entry, trailing-stop, timeout and adaptive-parameter logic
+ * used by hl-momentum-scalper.ts (see hl-scalper-strategy.ts), driven by a
+ * simulated clock instead of Date.now(). Portfolio rules (max positions,
+ * per-coin cooldown, correlation guard, notional cap) are applied against
+ * the simulated equity.
+ *
+ * Each 1m candle is expanded into SCAN_MS-spaced mark ticks along an
+ * open → low/high → close path (low first on green candles, high first on
+ * red). At every tick the strategy only sees candles that had closed by then
+ * and the last funding print, so nothing leaks from the future.
+ *
+ * Data layout (one directory, written by the `fetch` subcommand):
+ *   <dir>/<COIN>-1m.json       HL candleSnapshot array
+ *   <dir>/<COIN>-15m.json      HL candleSnapshot array
+ *   <dir>/<COIN>-funding.json  HL fundingHistory array (optional)
+ *   <dir>/meta.json            HL perp meta (szDecimals) keyed by coin
+ *
+ * Usage:
+ *   npm run hl:backtest -- fetch --days 3            # record candles + funding
+ *   npm run hl:backtest                              # replay data/backtest
+ *   npm run hl:backtest -- --coins BTC,ETH --balance 50 --fee-bps 4.5
+ *   npm run hl:backtest -- --data ./my-candles --out ./result.json
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from './args';
+import { AssetMeta, getCandles, getFundingHistory, getMeta } from './hyperliquid';
+import {
+  COINS, SCAN_MS,
+  Candle, Position, ExitReason, TradeRecord, AdaptiveParams, AccountSnapshot,
+  createScalperState, recordPrice, pickSignal, entryBlocker, calcSize, calcTpSl,
+  updateTrailingStop, checkExit, buildTradeRecord, cooldownFor, updateAdaptiveParams,
+  MIN_NOTIONAL, TRADE_USD, MAX_POSITIONS, MAX_ACCOUNT_LEVERAGE,
+} from './hl-scalper-strategy';
+
+// ─── Config ───────────────────────────────────────────────────────────────────
+
+const DATA_DIR        = path.join(__dirname, '../data');
+const DEFAULT_SRC_DIR = path.join(DATA_DIR, 'backtest');
+const DEFAULT_OUT     = path.join(DATA_DIR, 'backtest-result.json');
+
+const CANDLE_WINDOW   = 20;        // same lookback the live scalper fetches
+const DEFAULT_BALANCE = 100;       // starting equity in USDC
+const DEFAULT_FEE_BPS = 4.5;       // HL taker fee per side
+
+const INTERVAL_MS: Record<string, number> = { '1m': 60_000, '15m': 15 * 60_000 };
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface FundingPoint { time: number; rate: number; }
+
+interface CoinSeries {
+  m1: Candle[];
+  m15: Candle[];
+  funding: FundingPoint[];
+}
+
+export interface BacktestOptions {
+  coins: string[];
+  startBalance: number;
+  /** Taker fee per side in basis points, charged on entry and exit notional */
+  feeBps: number;
+  /** Lot sizes per coin — same source the live scalper sizes orders from */
+  assetMeta: Record<string, AssetMeta>;
+  startTime?: number;
+  endTime?: number;
+  verbose?: boolean;
+}
+
+export interface EquityPoint {
+  ts: number;
+  equity: number;
+}
+
+export interface BacktestStats {
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  grossPnl: number;
+  fees: number;
+  netPnl: number;
+  avgWin: number;
+  avgLoss: number;
+  /** Gross win / gross loss; null when no trade lost (unbounded — JSON has no Infinity) */
+  profitFactor: number | null;
+  maxDrawdownUsd: number;
+  maxDrawdownPct: number;
+  byExit: Record<ExitReason, number>;
+  startBalance: number;
+  endBalance: number;
+  from: string;
+  to: string;
+}
+
+export interface BacktestResult {
+  trades: TradeRecord[];
+  equityCurve: EquityPoint[];
+  stats: BacktestStats;
+  finalParams: AdaptiveParams;
+}
+
+// ─── Data loading ─────────────────────────────────────────────────────────────
+
+function readJson<T>(file: string, fallback: T): T {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch {
+    return fallback;
+  }
+}
+
+export function loadSeries(dir: string, coins: string[]): Record<string, CoinSeries> {
+  const out: Record<string, CoinSeries> = {};
+  for (const coin of coins) {
+    const m1 = readJson<Candle[]>(path.join(dir, `${coin}-1m.json`), []);
+    const m15 = readJson<Candle[]>(path.join(dir, `${coin}-15m.json`), []);
+    // Older recordings kept HL's string rates; newer ones are numeric
+    const rawFunding = readJson<{ time: number; fundingRate: number | string }[]>(
+      path.join(dir, `${coin}-funding.json`), [],
+    );
+    if (m1.length === 0) continue;
+    out[coin] = {
+      m1: [...m1].sort((a, b) => a.t - b.t),
+      m15: [...m15].sort((a, b) => a.t - b.t),
+      funding: rawFunding
+        .map(f => ({ time: f.time, rate: Number(f.fundingRate) }))
+        .filter(f => !isNaN(f.rate))
+        .sort((a, b) => a.time - b.time),
+    };
+  }
+  return out;
+}
+
+/** Asset meta saved by `fetch`; falls back to the live meta for older recordings. */
+export async function loadAssetMeta(dir: string): Promise<Record<string, AssetMeta>> {
+  const saved = readJson<Record<string, AssetMeta> | null>(path.join(dir, 'meta.json'), null);
+  if (saved) return saved;
+  console.log(`ℹ️  No meta.json in ${dir} — using current Hyperliquid lot sizes`);
+  return getMeta();
+}
+
+/** Last `count` candles that had fully closed at `now` (index cursor kept by caller). */
+function closedWindow(candles: Candle[], cursor: { i: number }, now: number, count: number): Candle[] {
+  while (cursor.i < candles.length && candles[cursor.i].T < now) cursor.i++;
+  return candles.slice(Math.max(0, cursor.i - count), cursor.i);
+}
+
+// ─── Simulation ───────────────────────────────────────────────────────────────
+
+/** Intrabar mark path for one 1m candle, one tick every SCAN_MS. */
+function candleTicks(c: Candle): { ts: number; price: number }[] {
+  const o = parseFloat(c.o), h = parseFloat(c.h), l = parseFloat(c.l), cl = parseFloat(c.c);
+  const path = cl >= o ? [o, l, h, cl] : [o, h, l, cl];
+  const steps = Math.max(1, Math.floor(INTERVAL_MS['1m'] / SCAN_MS));
+  const ticks: { ts: number; price: number }[] = [];
+  for (let i = 0; i < steps; i++) {
+    const idx = Math.round((i / Math.max(1, steps - 1)) * (path.length - 1));
+    ticks.push({ ts: c.t + i * SCAN_MS, price: path[idx] });
+  }
+  return ticks;
+}
+
+export function runBacktest(series: Record<string, CoinSeries>, opts: BacktestOptions): BacktestResult {
+  const coins = opts.coins.filter(c => series[c]);
+  if (coins.length === 0) throw new Error('No candle data for any requested coin');
+
+  let clock = 0;
+  const log = opts.verbose
+    ? (msg: string) => console.log(`\x1b[2m[${new Date(clock).toISOString()}]\x1b[0m ${msg}`)
+    : () => {};
+  const state = createScalperState(coins, log);
+  state.assetMeta = opts.assetMeta;
+
+  // Merge every coin's ticks onto one simulated timeline
+  const timeline = new Map<number, Record<string, number>>();
+  for (const coin of coins) {
+    for (const c of series[coin].m1) {
+      if (opts.startTime && c.t < opts.startTime) continue;
+      if (opts.endTime && c.t > opts.endTime) continue;
+      for (const tick of candleTicks(c)) {
+        const slot = timeline.get(tick.ts) ?? {};
+        slot[coin] = tick.price;
+        timeline.set(tick.ts, slot);
+      }
+    }
+  }
+  const times = [...timeline.keys()].sort((a, b) => a - b);
+  if (times.length === 0) throw new Error('No candles inside the requested time range');
+
+  const cursors = Object.fromEntries(coins.map(c => [c, { m1: { i: 0 }, m15: { i: 0 }, f: { i: 0 } }]));
+  const feeRate = opts.feeBps / 10_000;
+
+  clock = times[0];
+  const positions: Record<string, Position> = {};
+  const cooldowns: Record<string, number> = {};
+  let equity = opts.startBalance;
+  let fees = 0;
+  const equityCurve: EquityPoint[] = [{ ts: clock, equity }];
+
+  // Simulated clearinghouse figures for the notional/margin cap
+  const accountSnapshot = (): AccountSnapshot => {
+    let unrealized = 0;
+    let totalNtlPos = 0;
+    for (const p of Object.values(positions)) {
+      const mark = state.currentPrices[p.coin] || p.entryPrice;
+      const sz = parseFloat(p.size);
+      unrealized += (mark - p.entryPrice) * sz * (p.isLong ? 1 : -1);
+      totalNtlPos += mark * sz;
+    }
+    const accountValue = equity + unrealized;
+    return { accountValue, totalNtlPos, withdrawable: Math.max(0, accountValue - totalNtlPos / MAX_ACCOUNT_LEVERAGE) };
+  };
+
+  const closePosition = (position: Position, reason: ExitReason) => {
+    const exitPrice = state.currentPrices[position.coin] || position.entryPrice;
+    const trade = buildTradeRecord(position, exitPrice, reason, clock);
+    const size = parseFloat(position.size);
+    const fee = (position.entryPrice * size + exitPrice * size) * feeRate;
+
+    state.tradeHistory.push(trade);
+    updateAdaptiveParams(state, reason, clock);
+
+    fees += fee;
+    equity += trade.pnlUsd - fee;
+    equityCurve.push({ ts: clock, equity });
+
+    delete positions[position.coin];
+    cooldowns[position.coin] = clock + cooldownFor(reason);
+  };
+
+  for (const now of times) {
+    clock = now;
+
+    for (const coin of coins) {
+      const s = series[coin];
+      const cur = cursors[coin];
+      const m1 = closedWindow(s.m1, cur.m1, now, CANDLE_WINDOW);
+      const m15 = closedWindow(s.m15, cur.m15, now, CANDLE_WINDOW);
+      if (m1.length > 0 || m15.length > 0) state.candleCache[coin] = { m1, m15, ts: now };
+
+      while (cur.f.i < s.funding.length && s.funding[cur.f.i].time <= now) {
+        state.fundingRates[coin] = s.funding[cur.f.i].rate;
+        cur.f.i++;
+      }
+    }
+
+    const slot = timeline.get(now)!;
+    for (const coin of coins) {
+      if (slot[coin] !== undefined) recordPrice(state, coin, slot[coin], now);
+    }
+
+    for (const pos of Object.values(positions)) {
+      const mark = state.currentPrices[pos.coin];
+      if (!mark) continue;
+      updateTrailingStop(state, pos, mark);
+      const exitReason = checkExit(state, pos, mark, now);
+      if (exitReason) closePosition(pos, exitReason);
+    }
+
+    const open = Object.values(positions);
+    if (open.length >= MAX_POSITIONS) continue;
+    const account = accountSnapshot();
+    const entry = pickSignal(state, coins, now,
+      (coin, isLong) => !entryBlocker(open, cooldowns, account, coin, isLong, TRADE_USD, now));
+    if (entry) {
+      const price = state.currentPrices[entry.coin];
+      const size = calcSize(state, entry.coin, price);
+      const notional = parseFloat(size) * price;
+      if (notional < MIN_NOTIONAL) continue;
+      if (entryBlocker(open, cooldowns, account, entry.coin, entry.isLong, notional, now)) continue;
+
+      const { tpPrice, slPrice } = calcTpSl(state, entry.coin, price, entry.isLong);
+      positions[entry.coin] = {
+        coin: entry.coin, isLong: entry.isLong, size, entryPrice: price,
+        tpPrice, slPrice,
+        openedAt: now,
+        trailPeak: price,
+        trailActive: false,
+        isResumed: false,
+      };
+    }
+  }
+
+  // Mark-to-market anything still open at the end of the data
+  for (const pos of Object.values(positions)) closePosition(pos, 'TIMEOUT');
+
+  return {
+    trades: state.tradeHistory,
+    equityCurve,
+    stats: summarize(state.tradeHistory, equityCurve, opts.startBalance, fees, times[0], clock),
+    finalParams: state.adaptiveParams,
+  };
+}
+
+// ─── Stats ────────────────────────────────────────────────────────────────────
+
+export function summarize(
+  trades: TradeRecord[],
+  equityCurve: EquityPoint[],
+  startBalance: number,
+  fees: number,
+  from: number,
+  to: number,
+): BacktestStats {
+  const wins = trades.filter(t => t.pnlUsd > 0);
+  const losses = trades.filter(t => t.pnlUsd <= 0);
+  const grossWin = wins.reduce((s, t) => s + t.pnlUsd, 0);
+  const grossLoss = Math.abs(losses.reduce((s, t) => s + t.pnlUsd, 0));
+  const grossPnl = grossWin - grossLoss;
+
+  let peak = startBalance;
+  let maxDdUsd = 0;
+  let maxDdPct = 0;
+  for (const pt of equityCurve) {
+    if (pt.equity > peak) peak = pt.equity;
+    const dd = peak - pt.equity;
+    if (dd > maxDdUsd) maxDdUsd = dd;
+    if (peak > 0 && dd / peak > maxDdPct) maxDdPct = dd / peak;
+  }
+
+  const byExit: Record<ExitReason, number> = { TP: 0, SL: 0, TRAIL: 0, TIMEOUT: 0 };
+  for (const t of trades) byExit[t.exitReason]++;
+
+  return {
+    trades: trades.length,
+    wins: wins.length,
+    losses: losses.length,
+    winRate: trades.length > 0 ? wins.length / trades.length : 0,
+    grossPnl,
+    fees,
+    netPnl: grossPnl - fees,
+    avgWin: wins.length > 0 ? grossWin / wins.length : 0,
+    avgLoss: losses.length > 0 ? -grossLoss / losses.length : 0,
+    profitFactor: grossLoss > 0 ? grossWin / grossLoss : grossWin > 0 ? null : 0,
+    maxDrawdownUsd: maxDdUsd,
+    maxDrawdownPct: maxDdPct * 100,
+    byExit,
+    startBalance,
+    endBalance: equityCurve[equityCurve.length - 1]?.equity ?? startBalance,
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+  };
+}
+
+// ─── Recording (fetch subcommand) ─────────────────────────────────────────────
+
+async function recordData(dir: string, coins: string[], days: number) {
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+  const endTime = Date.now();
+  // Extra 15m warm-up so the first replayed minute already has a full window
+  const startTime = endTime - days * 24 * 60 * 60_000 - CANDLE_WINDOW * INTERVAL_MS['15m'];
+
+  for (const coin of coins) {
+    const [m1, m15, funding] = await Promise.all([
+      getCandles(coin, '1m', startTime, endTime),
+      getCandles(coin, '15m', startTime, endTime),
+      getFundingHistory(coin, startTime, endTime),
+    ]);
+    fs.writeFileSync(path.join(dir, `${coin}-1m.json`), JSON.stringify(m1));
+    fs.writeFileSync(path.join(dir, `${coin}-15m.json`), JSON.stringify(m15));
+    fs.writeFileSync(path.join(dir, `${coin}-funding.json`), JSON.stringify(funding));
+    console.log(`  ${coin.padEnd(5)} 1m:${m1.length}  15m:${m15.length}  funding:${funding.length}`);
+  }
+  const meta = await getMeta();
+  fs.writeFileSync(path.join(dir, 'meta.json'), JSON.stringify(meta));
+  console.log(`\n✅ Saved to ${dir}`);
+}
+
+// ─── Report ───────────────────────────────────────────────────────────────────
+
+function printReport(result: BacktestResult) {
+  const { stats, trades, finalParams } = result;
+  const usd = (u: number) => `${u >= 0 ? '+' : ''}$${u.toFixed(2)}`;
+
+  console.log('═'.repeat(60));
+  console.log('  HL SCALPER BACKTEST');
+  console.log('═'.repeat(60));
+  console.log(`  Range:         ${stats.from} → ${stats.to}`);
+  console.log(`  Trades:        ${stats.trades}  (${stats.wins}W / ${stats.losses}L, ${(stats.winRate * 100).toFixed(1)}%)`);
+  console.log(`  Exits:         TP:${stats.byExit.TP}  SL:${stats.byExit.SL}  TRAIL:${stats.byExit.TRAIL}  TIMEOUT:${stats.byExit.TIMEOUT}`);
+  console.log(`  Gross P&L:     ${usd(stats.grossPnl)}`);
+  console.log(`  Fees:          -$${stats.fees.toFixed(2)}`);
+  console.log(`  Net P&L:       ${usd(stats.netPnl)}`);
+  console.log(`  Avg win/loss:  ${usd(stats.avgWin)} / ${usd(stats.avgLoss)}`);
+  console.log(`  Profit factor: ${stats.profitFactor === null ? '∞ (no losses)' : stats.profitFactor.toFixed(2)}`);
+  console.log(`  Max drawdown:  -$${stats.maxDrawdownUsd.toFixed(2)} (${stats.maxDrawdownPct.toFixed(2)}%)`);
+  console.log(`  Equity:        $${stats.startBalance.toFixed(2)} → $${stats.endBalance.toFixed(2)}`);
+  console.log(`  Final params:  score≥${finalParams.minScore} mom≥${finalParams.momentumPct}% TP:${finalParams.atrTpMult}x SL:${finalParams.atrSlMult}x [${finalParams.reason}]`);
+
+  if (trades.length > 0) {
+    console.log('─'.repeat(60));
+    for (const t of trades.slice(-10)) {
+      console.log(`  ${t.date} ${t.time}  ${t.direction.padEnd(5)} ${t.coin.padEnd(5)} ${t.exitReason.padEnd(7)} ${usd(t.pnlUsd).padStart(8)}  ${t.duration}`);
+    }
+  }
+  console.log('═'.repeat(60));
+}
+
+// ─── CLI ──────────────────────────────────────────────────────────────────────
+
+// Switches — never take the next token as their value (args.ts)
+const BOOLEAN_FLAGS = new Set(['verbose']);
+
+async function main() {
+  const { flags, positional } = parseArgs(process.argv.slice(2), BOOLEAN_FLAGS);
+  const dir = path.resolve(flags.data ?? DEFAULT_SRC_DIR);
+  const coins = flags.coins ? flags.coins.split(',').map(c => c.trim().toUpperCase()) : COINS;
+
+  if (positional[0] === 'fetch') {
+    const days = parseFloat(flags.days ?? '3');
+    if (isNaN(days) || days <= 0) {
+      console.error('Usage: npm run hl:backtest -- fetch [--days 3] [--coins BTC,ETH] [--data dir]');
+      process.exit(1);
+    }
+    console.log(`📥 Recording ${days}d of ${coins.join('/')} candles + funding from Hyperliquid...`);
+    await recordData(dir, coins, days);
+    return;
+  }
+
+  const series = loadSeries(dir, coins);
+  if (Object.keys(series).length === 0) {
+    console.error(`No candle files in ${dir}. Record some first: npm run hl:backtest -- fetch --days 3`);
+    process.exit(1);
+  }
+
+  const result = runBacktest(series, {
+    coins,
+    startBalance: parseFloat(flags.balance ?? String(DEFAULT_BALANCE)),
+    feeBps: parseFloat(flags['fee-bps'] ?? String(DEFAULT_FEE_BPS)),
+    assetMeta: await loadAssetMeta(dir),
+    startTime: flags.start ? Date.parse(flags.start) : undefined,
+    endTime: flags.end ? Date.parse(flags.end) : undefined,
+    verbose: flags.verbose === 'true',
+  });
+
+  printReport(result);
+
+  const out = path.resolve(flags.out ?? DEFAULT_OUT);
+  fs.mkdirSync(path.dirname(out), { recursive: true });
+  fs.writeFileSync(out, JSON.stringify(result, null, 2));
+  console.log(`\n📄 Trades + equity curve written to ${out}`);
+}
+
+if (require.main === module) {
+  main().catch(err => {
+    console.error('FATAL:', err.message || err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,542 @@
+/**
+ * hl-copytrade.ts — HyperLiquid copy trading through GDEX
+ *
+ * A copy config makes GDEX mirror one leader's HL orders into the custodial
+ * account. The SDK takes them as positional arguments (hlCreate, hlUpdate
+ * with isDelete / isChangeStatus flags, getCopyTradeListFutures); this module
+ * wraps them in typed calls:
+ *   listCopyTrades, createCopyTrade, editCopyTrade, pauseCopyTrade,
+ *   resumeCopyTrade, deleteCopyTrade
+ *
+ * findLeaders() picks leaders from getHyperliquidLeaderboard by account
+ * value and ROI over a window, then by max drawdown over the same window —
+ * measured on the leader's HL portfolio P&L history (getPortfolio), so
+ * deposits and withdrawals don't count as gains or losses.
+ *
+ * rotateLeaders() keeps HL_COPY_LEADERS managed configs (named `auto-…`)
+ * running: a leader whose ROI (leaderboard windowPerformances, or its
+ * portfolio when it dropped off the board) falls under HL_COPY_ROTATE_MIN_ROI_PCT
+ * or whose drawdown exceeds HL_COPY_ROTATE_MAX_DRAWDOWN_PCT is removed once
+ * it has been copied for HL_COPY_MIN_HOLD_HOURS, and empty slots are filled
+ * from findLeaders(). Rotated-out leaders aren't picked again for
+ * HL_COPY_COOLDOWN_DAYS. Copy configs created by hand, and paused managed
+ * ones, are left alone. Rotation state lives in the trade journal.
+ */
+
+import { ethers } from 'ethers';
+import { GDEXSession } from './auth';
+import { getPortfolio, PortfolioHistory, PortfolioWindow } from './hyperliquid';
+import { sharedJournal, Journal } from './journal';
+import { TradeResult } from './trading';
+
+const MANAGED_PREFIX = 'auto-';
+const ROTATION_KEY = 'hl.copytrade.rotation';
+const COPY_MODES: Record<CopyMode, number> = { fixed: 1, proportional: 2 };
+const LEADER_WINDOWS: LeaderWindow[] = ['day', 'week', 'month', 'allTime'];
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** fixed: `amount` USD per copied order. proportional: `amount`% of the leader's size. */
+export type CopyMode = 'fixed' | 'proportional';
+
+export type LeaderWindow = PortfolioWindow;
+
+export interface CopyTradeSettings {
+  /** HL address being copied */
+  leader: string;
+  name: string;
+  mode: CopyMode;
+  amount: number;
+  stopLossPct: number;
+  takeProfitPct: number;
+  /** Trade the opposite direction of the leader */
+  opposite: boolean;
+}
+
+export interface CopyTrade extends CopyTradeSettings {
+  id: string;
+  isActive: boolean;
+  totalTrades: number;
+  totalPnl: number;
+}
+
+export interface CopyTradeResult extends TradeResult {
+  /** The config as GDEX lists it after the change — absent when refused or deleted */
+  copyTrade?: CopyTrade;
+}
+
+export interface WindowPerformance {
+  pnl: number;
+  roiPct: number;
+  volume: number;
+}
+
+export interface Leader {
+  address: string;
+  displayName: string | null;
+  accountValue: number;
+  windows: Partial<Record<LeaderWindow, WindowPerformance>>;
+  /** Peak-to-trough drop of equity over the filter window — set when a drawdown filter checked it */
+  drawdownPct?: number;
+}
+
+export interface LeaderFilter {
+  /** Window ROI and drawdown are measured over (default week) */
+  window?: LeaderWindow;
+  minAccountValue?: number;
+  minRoiPct?: number;
+  maxDrawdownPct?: number;
+  /** Leaderboard rows to consider (default 100) */
+  candidates?: number;
+  /** Addresses to skip — current leaders, recently rotated out */
+  exclude?: string[];
+}
+
+export interface RotationConfig {
+  /** Managed copy configs to keep running */
+  leaders: number;
+  /** Settings of every managed config */
+  copy: Omit<CopyTradeSettings, 'leader' | 'name'>;
+  /** How new leaders are picked */
+  filter: LeaderFilter & { window: LeaderWindow };
+  /** Rotate out below this ROI over filter.window */
+  rotateMinRoiPct: number;
+  /** Rotate out above this drawdown over filter.window */
+  rotateMaxDrawdownPct: number;
+  minHoldMs: number;
+  cooldownMs: number;
+  intervalMs: number;
+  dryRun: boolean;
+}
+
+export interface RotationAction {
+  action: 'remove' | 'add';
+  leader: string;
+  reason: string;
+  isSuccess: boolean;
+  message?: string;
+}
+
+export interface RotationReport {
+  actions: RotationAction[];
+  /** Managed leaders checked and kept, with the figures they were judged on */
+  kept: Array<{ leader: string; roiPct: number | null; drawdownPct: number | null; note?: string }>;
+  dryRun: boolean;
+}
+
+interface RotationState {
+  /** When each managed leader was added */
+  added: Record<string, string>;
+  /** When each leader was rotated out */
+  removed: Record<string, string>;
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+function num(v: unknown): number {
+  const n = typeof v === 'number' ? v : parseFloat((v as string) ?? '0');
+  return isNaN(n) ? 0 : n;
+}
+
+function parseCopyTrade(raw: any): CopyTrade {
+  return {
+    id: String(raw.id ?? raw.copyTradeId ?? raw._id ?? ''),
+    leader: String(raw.traderWallet ?? raw.targetAddress ?? '').toLowerCase(),
+    name: raw.copyTradeName ?? raw.name ?? '',
+    mode: Number(raw.copyMode) === COPY_MODES.proportional ? 'proportional' : 'fixed',
+    amount: num(raw.fixedAmountCostPerOrder),
+    stopLossPct: num(raw.lossPercent),
+    takeProfitPct: num(raw.profitPercent),
+    opposite: !!raw.oppositeCopy,
+    isActive: !!raw.isActive,
+    totalTrades: num(raw.totalTrades),
+    totalPnl: num(raw.totalPnl),
+  };
+}
+
+function parseLeader(raw: any): Leader {
+  const windows: Leader['windows'] = {};
+  for (const [window, perf] of (raw.windowPerformances ?? []) as Array<[string, any]>) {
+    if (!LEADER_WINDOWS.includes(window as LeaderWindow)) continue;
+    windows[window as LeaderWindow] = { pnl: num(perf?.pnl), roiPct: num(perf?.roi) * 100, volume: num(perf?.vlm) };
+  }
+  return {
+    address: String(raw.ethAddress ?? '').toLowerCase(),
+    displayName: raw.displayName || null,
+    accountValue: num(raw.accountValue),
+    windows,
+  };
+}
+
+/** Every problem with copy settings; empty when valid. */
+export function validateCopySettings(settings: Partial<CopyTradeSettings>): string[] {
+  const errors: string[] = [];
+  if (!settings.leader || !ethers.isAddress(settings.leader)) errors.push(`leader must be an address, got "${settings.leader ?? ''}"`);
+  if (!settings.name?.trim()) errors.push('name is required');
+  if (settings.mode !== undefined && !(settings.mode in COPY_MODES)) errors.push(`mode must be fixed or proportional, got "${settings.mode}"`);
+  if (!(num(settings.amount) > 0)) errors.push('amount must be > 0');
+  if (settings.mode === 'proportional' && num(settings.amount) > 100) errors.push('amount is a percentage in proportional mode — at most 100');
+  if (!(num(settings.stopLossPct) >= 0)) errors.push('stopLossPct must be >= 0');
+  if (!(num(settings.takeProfitPct) >= 0)) errors.push('takeProfitPct must be >= 0');
+  return errors;
+}
+
+// ---------------------------------------------------------------------------
+// Copy configs
+// ---------------------------------------------------------------------------
+
+/** Copy configs of the session's account, paused ones included. */
+export async function listCopyTrades(session: GDEXSession): Promise<CopyTrade[]> {
+  if (session.paper) return [];
+  const raw: any[] = (await session.sdk.hyperLiquid.getCopyTradeListFutures(session.walletAddress, session.encryptedSessionKey)) ?? [];
+  return raw.map(parseCopyTrade);
+}
+
+async function findCopyTrade(session: GDEXSession, id: string): Promise<CopyTrade | undefined> {
+  return (await listCopyTrades(session)).find((c) => c.id === id);
+}
+
+function errorResult(err: any): CopyTradeResult {
+  return { isSuccess: false, message: err.response?.data?.message ?? err.message };
+}
+
+/** Start copying `settings.leader`. Refused without sending when a config of that name exists. */
+export async function createCopyTrade(
+  session: GDEXSession,
+  settings: Omit<CopyTradeSettings, 'opposite'> & { opposite?: boolean },
+): Promise<CopyTradeResult> {
+  if (session.paper) return { isSuccess: false, message: 'Copy trading is not simulated in paper trading mode' };
+  const full: CopyTradeSettings = { ...settings, opposite: settings.opposite ?? false };
+  const errors = validateCopySettings(full);
+  if (errors.length > 0) return { isSuccess: false, message: errors.join('; ') };
+  if ((await listCopyTrades(session)).some((c) => c.name === full.name)) {
+    return { isSuccess: false, message: `A copy trade named "${full.name}" already exists` };
+  }
+
+  try {
+    const res: any = await session.sdk.hyperLiquid.hlCreate(
+      session.walletAddress,
+      full.leader,
+      full.name,
+      COPY_MODES[full.mode],
+      String(full.amount),
+      String(full.stopLossPct),
+      String(full.takeProfitPct),
+      full.opposite,
+      session.tradingPrivateKey,
+    );
+    if (!res?.isSuccess) return { isSuccess: false, message: res?.message ?? res?.error ?? 'hlCreate returned no result' };
+    const copyTrade = (await listCopyTrades(session)).find((c) => c.name === full.name);
+    return { ...res, isSuccess: true, copyTrade };
+  } catch (err: any) {
+    return errorResult(err);
+  }
+}
+
+/** hlUpdate with the config's full settings — the API takes every field on every call */
+async function sendUpdate(
+  session: GDEXSession,
+  copyTrade: CopyTrade,
+  flags: { isDelete?: boolean; isChangeStatus?: boolean } = {},
+): Promise<CopyTradeResult> {
+  if (session.paper) return { isSuccess: false, message: 'Copy trading is not simulated in paper trading mode' };
+  try {
+    const res: any = await session.sdk.hyperLiquid.hlUpdate(
+      session.walletAddress,
+      copyTrade.leader,
+      copyTrade.name,
+      COPY_MODES[copyTrade.mode],
+      String(copyTrade.amount),
+      String(copyTrade.stopLossPct),
+      String(copyTrade.takeProfitPct),
+      copyTrade.id,
+      copyTrade.opposite,
+      session.tradingPrivateKey,
+      flags.isDelete ?? false,
+      flags.isChangeStatus ?? false,
+    );
+    if (!res?.isSuccess) return { isSuccess: false, message: res?.message ?? res?.error ?? 'hlUpdate returned no result' };
+    const after = flags.isDelete ? undefined : await findCopyTrade(session, copyTrade.id);
+    return { ...res, isSuccess: true, copyTrade: after };
+  } catch (err: any) {
+    return errorResult(err);
+  }
+}
+
+async function withCopyTrade(
+  session: GDEXSession,
+  id: string,
+  fn: (copyTrade: CopyTrade) => Promise<CopyTradeResult>,
+): Promise<CopyTradeResult> {
+  const copyTrade = await findCopyTrade(session, id);
+  if (!copyTrade) return { isSuccess: false, message: `No copy trade with id ${id}` };
+  return fn(copyTrade);
+}
+
+/** Change settings of a copy config; fields not in `patch` keep their value. */
+export async function editCopyTrade(
+  session: GDEXSession,
+  id: string,
+  patch: Partial<CopyTradeSettings>,
+): Promise<CopyTradeResult> {
+  return withCopyTrade(session, id, (current) => {
+    const updated: CopyTrade = { ...current, ...patch };
+    const errors = validateCopySettings(updated);
+    if (errors.length > 0) return Promise.resolve({ isSuccess: false, message: errors.join('; ') });
+    return sendUpdate(session, updated);
+  });
+}
+
+export async function pauseCopyTrade(session: GDEXSession, id: string): Promise<CopyTradeResult> {
+  return withCopyTrade(session, id, async (current) => current.isActive
+    ? sendUpdate(session, current, { isChangeStatus: true })
+    : { isSuccess: true, message: 'Already paused', copyTrade: current });
+}
+
+export async function resumeCopyTrade(session: GDEXSession, id: string): Promise<CopyTradeResult> {
+  return withCopyTrade(session, id, async (current) => current.isActive
+    ? { isSuccess: true, message: 'Already active', copyTrade: current }
+    : sendUpdate(session, current, { isChangeStatus: true }));
+}
+
+/** Stop copying and remove the config. Positions it opened stay open. */
+export async function deleteCopyTrade(session: GDEXSession, id: string): Promise<CopyTradeResult> {
+  return withCopyTrade(session, id, (current) => sendUpdate(session, current, { isDelete: true }));
+}
+
+// ---------------------------------------------------------------------------
+// Leaders
+// ---------------------------------------------------------------------------
+
+/**
+ * Largest peak-to-trough drop of equity in a portfolio window, in %. Equity
+ * is the window's starting account value plus cumulative P&L.
+ */
+export function maxDrawdownPct(history: PortfolioHistory): number {
+  const { accountValueHistory, pnlHistory } = history;
+  if (accountValueHistory.length === 0 || pnlHistory.length === 0) return 0;
+  const start = accountValueHistory[0][1] - pnlHistory[0][1];
+  let peak = -Infinity;
+  let worst = 0;
+  for (const [, pnl] of pnlHistory) {
+    const equity = start + pnl;
+    peak = Math.max(peak, equity);
+    if (peak > 0) worst = Math.max(worst, ((peak - equity) / peak) * 100);
+  }
+  return worst;
+}
+
+/** P&L, ROI and drawdown of any HL address over a window, from its portfolio history. */
+export async function getLeaderPerformance(
+  address: string,
+  window: LeaderWindow,
+): Promise<WindowPerformance & { drawdownPct: number }> {
+  const history = (await getPortfolio(address))[window];
+  const { accountValueHistory: av, pnlHistory: pnl } = history;
+  const gained = pnl.length > 0 ? pnl[pnl.length - 1][1] - pnl[0][1] : 0;
+  const startValue = av.length > 0 ? av[0][1] : 0;
+  return {
+    pnl: gained,
+    roiPct: startValue > 0 ? (gained / startValue) * 100 : 0,
+    volume: history.volume,
+    drawdownPct: maxDrawdownPct(history),
+  };
+}
+
+/**
+ * Leaderboard accounts that pass `filter`, best ROI over the window first.
+ * The drawdown filter costs one portfolio request per candidate, so it is
+ * applied last and stops once `limit` leaders passed.
+ */
+export async function findLeaders(session: GDEXSession, filter: LeaderFilter = {}, limit = 10): Promise<Leader[]> {
+  const window = filter.window ?? 'week';
+  const exclude = new Set((filter.exclude ?? []).map((a) => a.toLowerCase()));
+  const rows: any[] = (await session.sdk.hyperLiquid.getHyperliquidLeaderboard(window, filter.candidates ?? 100, 'desc', 'pnl')) ?? [];
+  const candidates = rows
+    .map(parseLeader)
+    .filter((l) => l.address && !exclude.has(l.address))
+    .filter((l) => l.accountValue >= (filter.minAccountValue ?? 0))
+    .filter((l) => (l.windows[window]?.roiPct ?? -Infinity) >= (filter.minRoiPct ?? -Infinity))
+    .sort((a, b) => (b.windows[window]?.roiPct ?? 0) - (a.windows[window]?.roiPct ?? 0));
+  if (filter.maxDrawdownPct === undefined) return candidates.slice(0, limit);
+
+  const picked: Leader[] = [];
+  for (const leader of candidates) {
+    if (picked.length >= limit) break;
+    leader.drawdownPct = maxDrawdownPct((await getPortfolio(leader.address))[window]);
+    if (leader.drawdownPct <= filter.maxDrawdownPct) picked.push(leader);
+  }
+  return picked;
+}
+
+// ---------------------------------------------------------------------------
+// Rotation
+// ---------------------------------------------------------------------------
+
+function positive(name: string, raw: string | undefined, fallback: number, errors: string[], allowZero = false): number {
+  if (raw === undefined || raw === '') return fallback;
+  const n = Number(raw);
+  if (!(allowZero ? n >= 0 : n > 0)) errors.push(`${name} must be a number ${allowZero ? '>= 0' : '> 0'}, got "${raw}"`);
+  return n;
+}
+
+/** Read the HL_COPY_* variables. Throws with every problem listed. */
+export function loadRotationConfig(env: NodeJS.ProcessEnv = process.env): RotationConfig {
+  const errors: string[] = [];
+  const window = (env.HL_COPY_WINDOW || 'week') as LeaderWindow;
+  if (!LEADER_WINDOWS.includes(window)) errors.push(`HL_COPY_WINDOW must be one of ${LEADER_WINDOWS.join(', ')}, got "${window}"`);
+  const mode = (env.HL_COPY_MODE || 'fixed') as CopyMode;
+  if (!(mode in COPY_MODES)) errors.push(`HL_COPY_MODE must be fixed or proportional, got "${mode}"`);
+  const minRoi = env.HL_COPY_MIN_ROI_PCT ? Number(env.HL_COPY_MIN_ROI_PCT) : 5;
+  if (isNaN(minRoi)) errors.push(`HL_COPY_MIN_ROI_PCT must be a number, got "${env.HL_COPY_MIN_ROI_PCT}"`);
+  const rotateMinRoi = env.HL_COPY_ROTATE_MIN_ROI_PCT ? Number(env.HL_COPY_ROTATE_MIN_ROI_PCT) : 0;
+  if (isNaN(rotateMinRoi)) errors.push(`HL_COPY_ROTATE_MIN_ROI_PCT must be a number, got "${env.HL_COPY_ROTATE_MIN_ROI_PCT}"`);
+
+  const config: RotationConfig = {
+    leaders: positive('HL_COPY_LEADERS', env.HL_COPY_LEADERS, 3, errors),
+    copy: {
+      mode,
+      amount: positive('HL_COPY_AMOUNT', env.HL_COPY_AMOUNT, 5, errors),
+      stopLossPct: positive('HL_COPY_SL_PCT', env.HL_COPY_SL_PCT, 10, errors, true),
+      takeProfitPct: positive('HL_COPY_TP_PCT', env.HL_COPY_TP_PCT, 20, errors, true),
+      opposite: false,
+    },
+    filter: {
+      window,
+      minAccountValue: positive('HL_COPY_MIN_ACCOUNT_VALUE', env.HL_COPY_MIN_ACCOUNT_VALUE, 100_000, errors, true),
+      minRoiPct: minRoi,
+      maxDrawdownPct: positive('HL_COPY_MAX_DRAWDOWN_PCT', env.HL_COPY_MAX_DRAWDOWN_PCT, 20, errors),
+    },
+    rotateMinRoiPct: rotateMinRoi,
+    rotateMaxDrawdownPct: positive('HL_COPY_ROTATE_MAX_DRAWDOWN_PCT', env.HL_COPY_ROTATE_MAX_DRAWDOWN_PCT, 30, errors),
+    minHoldMs: positive('HL_COPY_MIN_HOLD_HOURS', env.HL_COPY_MIN_HOLD_HOURS, 24, errors, true) * 3600_000,
+    cooldownMs: positive('HL_COPY_COOLDOWN_DAYS', env.HL_COPY_COOLDOWN_DAYS, 7, errors, true) * 24 * 3600_000,
+    intervalMs: positive('HL_COPY_ROTATE_INTERVAL_MIN', env.HL_COPY_ROTATE_INTERVAL_MIN, 360, errors) * 60_000,
+    dryRun: ['1', 'true', 'yes'].includes((env.HL_COPY_DRY_RUN ?? '').toLowerCase()),
+  };
+  if (!Number.isInteger(config.leaders)) errors.push('HL_COPY_LEADERS must be a whole number');
+  if (mode === 'proportional' && config.copy.amount > 100) errors.push('HL_COPY_AMOUNT is a percentage with HL_COPY_MODE=proportional — at most 100');
+  if (errors.length > 0) throw new Error(`Invalid copy-trade config:\n  - ${errors.join('\n  - ')}`);
+  return config;
+}
+
+function getJournal(): Journal {
+  return sharedJournal();
+}
+
+function loadRotationState(): RotationState {
+  const raw = getJournal().getSetting(ROTATION_KEY);
+  if (!raw) return { added: {}, removed: {} };
+  try {
+    const parsed = JSON.parse(raw) as RotationState;
+    return { added: parsed.added ?? {}, removed: parsed.removed ?? {} };
+  } catch {
+    return { added: {}, removed: {} };
+  }
+}
+
+function saveRotationState(state: RotationState): void {
+  getJournal().setSetting(ROTATION_KEY, JSON.stringify(state));
+}
+
+export function isManagedCopyTrade(copyTrade: Pick<CopyTrade, 'name'>): boolean {
+  return copyTrade.name.startsWith(MANAGED_PREFIX);
+}
+
+/**
+ * One rotation pass: remove underperforming managed leaders, then fill the
+ * free slots with new ones. With config.dryRun nothing is changed and the
+ * report lists what would have been done.
+ */
+export async function rotateLeaders(
+  session: GDEXSession,
+  config: RotationConfig,
+  log: (msg: string) => void = () => {},
+): Promise<RotationReport> {
+  const { window } = config.filter;
+  const state = loadRotationState();
+  const report: RotationReport = { actions: [], kept: [], dryRun: config.dryRun };
+  const now = Date.now();
+
+  const managed = (await listCopyTrades(session)).filter(isManagedCopyTrade);
+  const rows: any[] = (await session.sdk.hyperLiquid.getHyperliquidLeaderboard(window, 500, 'desc', 'pnl')) ?? [];
+  const board = new Map(rows.map(parseLeader).map((l): [string, Leader] => [l.address, l]));
+
+  let slots = managed.length;
+  for (const copyTrade of managed) {
+    const leader = copyTrade.leader;
+    const addedAt = state.added[leader] ? Date.parse(state.added[leader]) : 0;
+    if (!copyTrade.isActive) {
+      report.kept.push({ leader, roiPct: null, drawdownPct: null, note: 'paused' });
+      continue;
+    }
+    if (now - addedAt < config.minHoldMs) {
+      report.kept.push({ leader, roiPct: null, drawdownPct: null, note: `held until ${new Date(addedAt + config.minHoldMs).toISOString()}` });
+      continue;
+    }
+
+    const perf = await getLeaderPerformance(leader, window);
+    const roiPct = board.get(leader)?.windows[window]?.roiPct ?? perf.roiPct;
+    const reason = roiPct < config.rotateMinRoiPct
+      ? `${window} ROI ${roiPct.toFixed(1)}% < ${config.rotateMinRoiPct}%`
+      : perf.drawdownPct > config.rotateMaxDrawdownPct
+        ? `${window} drawdown ${perf.drawdownPct.toFixed(1)}% > ${config.rotateMaxDrawdownPct}%`
+        : null;
+    if (!reason) {
+      report.kept.push({ leader, roiPct, drawdownPct: perf.drawdownPct });
+      continue;
+    }
+
+    if (config.dryRun) {
+      report.actions.push({ action: 'remove', leader, reason, isSuccess: true, message: 'dry run' });
+      slots--;
+      continue;
+    }
+    const result = await deleteCopyTrade(session, copyTrade.id);
+    report.actions.push({ action: 'remove', leader, reason, isSuccess: result.isSuccess, message: result.message });
+    log(`${result.isSuccess ? '➖' : '❌'} Remove ${leader} (${reason})${result.isSuccess ? '' : `: ${result.message}`}`);
+    if (result.isSuccess) {
+      slots--;
+      delete state.added[leader];
+      state.removed[leader] = new Date().toISOString();
+    }
+  }
+
+  const free = Math.max(0, config.leaders - slots);
+  if (free > 0) {
+    const coolingOff = Object.entries(state.removed)
+      .filter(([, at]) => now - Date.parse(at) < config.cooldownMs)
+      .map(([address]) => address);
+    const exclude = [...managed.map((c) => c.leader), ...coolingOff];
+    const picks = await findLeaders(session, { ...config.filter, exclude }, free);
+    if (picks.length < free) log(`Only ${picks.length} of ${free} leader(s) pass the filter`);
+
+    for (const leader of picks) {
+      const perf = leader.windows[window];
+      const reason = `${window} ROI ${perf?.roiPct.toFixed(1)}%, drawdown ${leader.drawdownPct?.toFixed(1) ?? '?'}%, account $${Math.round(leader.accountValue)}`;
+      if (config.dryRun) {
+        report.actions.push({ action: 'add', leader: leader.address, reason, isSuccess: true, message: 'dry run' });
+        continue;
+      }
+      const result = await createCopyTrade(session, {
+        ...config.copy,
+        leader: leader.address,
+        name: `${MANAGED_PREFIX}${leader.address.slice(2, 10)}`,
+      });
+      report.actions.push({ action: 'add', leader: leader.address, reason, isSuccess: result.isSuccess, message: result.message });
+      log(`${result.isSuccess ? '➕' : '❌'} Add ${leader.address} (${reason})${result.isSuccess ? '' : `: ${result.message}`}`);
+      if (result.isSuccess) state.added[leader.address] = new Date().toISOString();
+    }
+  }
+
+  // Forget cool-offs that are over
+  for (const [address, at] of Object.entries(state.removed)) {
+    if (now - Date.parse(at) >= config.cooldownMs) delete state.removed[address];
+  }
+  if (!config.dryRun) saveRotationState(state);
+  return report;
+}
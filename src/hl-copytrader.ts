@@ -0,0 +1,93 @@
+/**
+ * HL COPY-TRADE LEADER ROTATION
+ *
+ * Keeps HL_COPY_LEADERS managed copy trades running on HyperLiquid: every
+ * HL_COPY_ROTATE_INTERVAL_MIN it rotates out leaders whose recent ROI or
+ * drawdown has turned bad and fills the free slots from the leaderboard
+ * (hl-copytrade.ts). Filters, copy size and dry run come from the HL_COPY_*
+ * variables in .env; every change raises an HL_COPY_ROTATE alert when
+ * notifications.json is configured. Copy trades created by hand are never
+ * touched.
+ *
+ * Usage:
+ *   npm run hl:copytrader                 # run until stopped
+ *   npm run hl:copytrader -- --dry-run    # log what it would change, change nothing
+ *   npm run hl:copytrader -- --once       # one pass, then exit
+ */
+
+import WebSocket from 'ws';
+(globalThis as any).WebSocket = WebSocket;
+
+import { createSessionManager } from './auth';
+import { loadRotationConfig, rotateLeaders } from './hl-copytrade';
+import { createNotifier, loadNotifyConfig } from './notify';
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function log(msg: string) {
+  process.stderr.write(`[HL-COPY ${new Date().toISOString()}] ${msg}\n`);
+}
+
+// ─── Main ─────────────────────────────────────────────────────────────────────
+
+async function main() {
+  const once = process.argv.includes('--once');
+  const config = loadRotationConfig();
+  if (process.argv.includes('--dry-run')) config.dryRun = true;
+
+  const notifyConfig = loadNotifyConfig();
+  const notifier = notifyConfig ? createNotifier(notifyConfig, log) : null;
+
+  const sessions = createSessionManager();
+  sessions.on('refresh-error', (err) => log(`Session refresh failed: ${err.message} — keeping the current session`));
+  await sessions.start();
+
+  const { filter } = config;
+  log(
+    `${config.leaders} leader(s), ${config.copy.mode} ${config.copy.amount}${config.copy.mode === 'fixed' ? ' USD' : '%'}/order` +
+    ` | pick: ${filter.window} ROI ≥ ${filter.minRoiPct}%, drawdown ≤ ${filter.maxDrawdownPct}%, account ≥ $${filter.minAccountValue}` +
+    ` | drop: ROI < ${config.rotateMinRoiPct}% or drawdown > ${config.rotateMaxDrawdownPct}%${config.dryRun ? ' | DRY RUN' : ''}`,
+  );
+
+  const tick = async () => {
+    try {
+      const report = await rotateLeaders(await sessions.get(), config, log);
+      for (const kept of report.kept) {
+        const figures = kept.roiPct === null
+          ? kept.note
+          : `ROI ${kept.roiPct.toFixed(1)}%, drawdown ${kept.drawdownPct?.toFixed(1)}%`;
+        log(`Keep ${kept.leader} (${figures})`);
+      }
+      for (const action of report.actions) {
+        if (report.dryRun) log(`[dry run] Would ${action.action} ${action.leader} (${action.reason})`);
+        else if (action.isSuccess) {
+          notifier?.notify({ type: 'HL_COPY_ROTATE', from: 'HL-COPY', data: { source: 'hl-copytrader', ...action }, ts: Date.now() });
+        }
+      }
+      if (report.actions.length === 0) log('No changes');
+    } catch (err: any) {
+      log(`⚠️  Rotation failed: ${err.response?.data?.message ?? err.message}`);
+    }
+  };
+
+  const shutdown = () => {
+    log('Shutting down copy-trade rotation');
+    clearInterval(timer);
+    sessions.stop();
+    process.exit(0);
+  };
+
+  await tick();
+  if (once) {
+    sessions.stop();
+    return;
+  }
+  const timer = setInterval(tick, config.intervalMs);
+  process.on('SIGTERM', shutdown);
+  process.on('SIGINT', shutdown);
+}
+
+main().catch((err) => {
+  log(`FATAL: ${err.message}`);
+  process.exit(1);
+});
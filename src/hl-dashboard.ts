@@ -1,5 +1,6 @@
 import { createAuthenticatedSession } from './auth';
 import { loadConfig } from './config';
+import { getClearinghouseState, getOpenOrders, parseFill, ClearinghouseState } from './hyperliquid';
 
 async function hlDashboard() {
   console.clear();
@@ -41,17 +42,14 @@ async function hlDashboard() {
   const balance = await session.sdk.hyperLiquid.getHyperliquidUsdcBalance(custodialAddress);
 
   // Get clearinghouse state
-  const state = await session.sdk.hyperLiquid.getHyperliquidClearinghouseState(custodialAddress);
+  const state: ClearinghouseState | null = await getClearinghouseState(custodialAddress).catch(() => null);
 
   console.log('\n💰 ACCOUNT BALANCE');
   console.log('─'.repeat(70));
 
-  if (state && state.crossMarginSummary) {
-    const summary = state.crossMarginSummary;
-    const accountValue = parseFloat(summary.accountValue || '0');
-    const marginUsed = parseFloat(summary.totalMarginUsed || '0');
-    const posValue = parseFloat(summary.totalNtlPos || '0');
-    const withdrawable = parseFloat(state.withdrawable || '0');
+  if (state) {
+    const { accountValue, totalMarginUsed: marginUsed, totalNtlPos: posValue } = state.crossMarginSummary;
+    const withdrawable = state.withdrawable;
 
     console.log(`   Account Value:       $${accountValue.toFixed(2)}`);
     console.log(`   Margin Used:         $${marginUsed.toFixed(2)}`);
@@ -65,21 +63,16 @@ async function hlDashboard() {
   console.log('\n📊 OPEN POSITIONS');
   console.log('─'.repeat(70));
 
-  const positions = state?.assetPositions || [];
+  const positions = state?.positions ?? [];
 
   if (positions.length === 0) {
     console.log('   No open positions');
   } else {
     let totalPnl = 0;
 
-    for (const pos of positions) {
-      const position = pos.position;
-      const szi = parseFloat(position.szi);
-      const isLong = szi > 0;
-      const size = Math.abs(szi);
-      const entryPrice = parseFloat(position.entryPx);
-      const unrealizedPnl = parseFloat(position.unrealizedPnl);
-      const leverage = position.leverage?.value || position.leverage;
+    for (const position of positions) {
+      const { isLong, size, unrealizedPnl, leverage } = position;
+      const entryPrice = position.entryPx;
 
       totalPnl += unrealizedPnl;
 
@@ -102,14 +95,14 @@ async function hlDashboard() {
   console.log('─'.repeat(70));
 
   try {
-    const orders = await session.sdk.hyperLiquid.getHyperliquidOpenOrders(custodialAddress);
+    const orders = await getOpenOrders(custodialAddress);
 
-    if (!orders || orders.length === 0) {
+    if (orders.length === 0) {
       console.log('   No open orders');
     } else {
       for (const order of orders) {
-        const side = order.side === 'B' ? '🟢 BUY' : '🔴 SELL';
-        const price = order.limitPx ? `$${parseFloat(order.limitPx).toLocaleString()}` : 'Market';
+        const side = order.isBuy ? '🟢 BUY' : '🔴 SELL';
+        const price = order.limitPx ? `$${order.limitPx.toLocaleString()}` : 'Market';
         console.log(`   ${order.coin} ${side} ${order.sz} @ ${price}`);
       }
     }
@@ -133,10 +126,9 @@ async function hlDashboard() {
     if (!history || !history.fills || history.fills.length === 0) {
       console.log('   No recent trades');
     } else {
-      for (const fill of history.fills.slice(0, 10)) {
-        const side = fill.side === 'B' ? '🟢 BUY' : '🔴 SELL';
-        const px = parseFloat(fill.px);
-        const sz = parseFloat(fill.sz);
+      for (const fill of history.fills.slice(0, 10).map(parseFill)) {
+        const side = fill.isBuy ? '🟢 BUY' : '🔴 SELL';
+        const { px, sz } = fill;
         const time = new Date(fill.time);
         const timeStr = time.toLocaleTimeString();
 
@@ -0,0 +1,345 @@
+/**
+ * hl-funding.ts — moving USDC into and out of HyperLiquid
+ *
+ * depositToHyperliquid() bridges USDC from the Arbitrum custodial wallet into
+ * the HL account (POST /hl/deposit with a signed hl_deposit payload);
+ * withdrawFromHyperliquid() sends USDC from the HL account to an Arbitrum
+ * address (hlWithdraw). Neither lands at once — GDEX and the bridge take 1-10
+ * minutes — so every request GDEX answers is recorded in the trade journal:
+ *   pending   accepted, not seen on the other side yet
+ *   credited  the receiving balance rose by the amount (less HL's withdrawal fee)
+ *   failed    GDEX refused it
+ *   expired   not credited within TRANSFER_TIMEOUT_MS — check by hand
+ * checkTransfer() looks once, waitForTransfer() polls until it settles. A
+ * balance rise is the only signal, so trading on the HL account while a
+ * deposit is pending can hide or fake its credit.
+ *
+ * swapEthToUsdc() buys the USDC in the first place: ETH from the control
+ * wallet through Uniswap's SwapRouter02, delivered straight to the custodial
+ * wallet.
+ */
+
+import axios from 'axios';
+import { randomUUID } from 'crypto';
+import { ethers } from 'ethers';
+import { CryptoUtils } from 'gdex.pro-sdk';
+import { GDEXSession } from './auth';
+import { REQUIRED_HEADERS } from './config';
+import { rpcUrl } from './fills';
+import { sharedJournal, HlTransferStatus, Journal, JournalHlTransfer } from './journal';
+import { getHlAddress, TradeResult } from './trading';
+
+const ARBITRUM = 42161;
+// Native USDC on Arbitrum — the only asset GDEX bridges into HL
+export const ARBITRUM_USDC = '0xaf88d065e77c8cC2239327C5EDb3A432268e5831';
+// GDEX rejects HL deposits under $10
+export const HL_MIN_DEPOSIT_USD = 10;
+// HyperLiquid keeps $1 of every withdrawal
+export const HL_WITHDRAW_FEE_USD = 1;
+// Rounding slack when matching a balance rise to the amount
+const CREDIT_TOLERANCE_USD = 0.01;
+export const TRANSFER_TIMEOUT_MS = 30 * 60_000;
+const DEFAULT_POLL_MS = 15_000;
+const ARBITRUM_WETH = '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1';
+const UNISWAP_ROUTER = '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45'; // SwapRouter02
+// 0.05% ETH/USDC pool — the deepest on Arbitrum
+const UNISWAP_POOL_FEE = 500;
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface HlTransfer extends JournalHlTransfer {
+  amountUsd: number;
+  /** HL account — the Arbitrum custodial address */
+  hlAddress: string;
+  /** Deposits: the custodial wallet the USDC leaves. Withdrawals: where it goes. */
+  arbitrumAddress: string;
+  /** Receiving balance when the request was sent — HL USDC for deposits, Arbitrum USDC for withdrawals */
+  balanceBefore: number;
+  /** Receiving balance at the last check */
+  balanceAfter: number | null;
+  /** GDEX's answer, or why the transfer failed or expired */
+  message: string | null;
+  creditedAt: string | null;
+  updatedAt: string;
+}
+
+export interface HlTransferResult extends TradeResult {
+  /** The journaled transfer — absent when the request was refused before sending */
+  transfer?: HlTransfer;
+}
+
+export interface SwapResult {
+  hash: string;
+  ethIn: number;
+  /** USDC the recipient received, from the receipt's Transfer logs */
+  usdcOut: number;
+}
+
+export interface WaitOptions {
+  /** Default 15s */
+  intervalMs?: number;
+  /** Stop polling after this long; the transfer stays pending (default: until it settles) */
+  timeoutMs?: number;
+  onPoll?: (transfer: HlTransfer) => void;
+}
+
+// ---------------------------------------------------------------------------
+// Balances
+// ---------------------------------------------------------------------------
+
+/** USDC held by an address on Arbitrum (RPC_URL_42161 or the public RPC). */
+export async function getArbitrumUsdcBalance(address: string): Promise<number> {
+  const provider = new ethers.JsonRpcProvider(rpcUrl(ARBITRUM), ARBITRUM, { staticNetwork: true });
+  try {
+    const usdc = new ethers.Contract(ARBITRUM_USDC, ['function balanceOf(address) view returns (uint256)'], provider);
+    return Number(ethers.formatUnits(await usdc.balanceOf(address), 6));
+  } finally {
+    provider.destroy();
+  }
+}
+
+/** USDC balance of the session's HL account. */
+export async function getHlUsdcBalance(session: GDEXSession, hlAddress?: string): Promise<number> {
+  const address = hlAddress ?? await getHlAddress(session);
+  return (await session.sdk.hyperLiquid.getHyperliquidUsdcBalance(address)) ?? 0;
+}
+
+// ---------------------------------------------------------------------------
+// Swaps
+// ---------------------------------------------------------------------------
+
+/**
+ * Swap `ethIn` ETH from `wallet` (connected to Arbitrum) for USDC sent to
+ * `recipient` — usually the custodial wallet. Reverts on-chain when fewer
+ * than `minUsdcOut` USDC would come out.
+ */
+export async function swapEthToUsdc(
+  wallet: ethers.Wallet,
+  ethIn: number,
+  minUsdcOut: number,
+  recipient: string,
+): Promise<SwapResult> {
+  const router = new ethers.Contract(UNISWAP_ROUTER, [
+    'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params) payable returns (uint256 amountOut)',
+  ], wallet);
+  const amountIn = ethers.parseEther(ethIn.toFixed(18));
+  const tx = await router.exactInputSingle({
+    tokenIn: ARBITRUM_WETH,
+    tokenOut: ARBITRUM_USDC,
+    fee: UNISWAP_POOL_FEE,
+    recipient,
+    amountIn,
+    amountOutMinimum: ethers.parseUnits(minUsdcOut.toFixed(6), 6),
+    sqrtPriceLimitX96: 0n,
+  }, { value: amountIn });
+  const receipt = await tx.wait();
+  if (!receipt || receipt.status !== 1) throw new Error(`Swap ${tx.hash} reverted`);
+
+  const to = ethers.zeroPadValue(recipient, 32).toLowerCase();
+  const usdcOut = receipt.logs
+    .filter((l: ethers.Log) => l.address.toLowerCase() === ARBITRUM_USDC.toLowerCase() && l.topics[0] === TRANSFER_TOPIC && l.topics[2]?.toLowerCase() === to)
+    .reduce((sum: number, l: ethers.Log) => sum + Number(ethers.formatUnits(l.data, 6)), 0);
+  return { hash: tx.hash, ethIn, usdcOut };
+}
+
+// ---------------------------------------------------------------------------
+// Transfer records
+// ---------------------------------------------------------------------------
+
+function getJournal(): Journal {
+  return sharedJournal();
+}
+
+export function getHlTransfer(id: string): HlTransfer | null {
+  return getJournal().getHlTransfer<HlTransfer>(id);
+}
+
+export function listHlTransfers(status?: HlTransferStatus): HlTransfer[] {
+  return getJournal().getHlTransfers<HlTransfer>(status);
+}
+
+function recordTransfer(
+  init: Pick<HlTransfer, 'kind' | 'amountUsd' | 'hlAddress' | 'arbitrumAddress' | 'balanceBefore'>,
+  status: 'pending' | 'failed',
+  message: string | null,
+): HlTransfer {
+  const now = new Date().toISOString();
+  const transfer: HlTransfer = {
+    ...init, id: `${init.kind}-${randomUUID()}`, status, message,
+    balanceAfter: null, creditedAt: null, createdAt: now, updatedAt: now,
+  };
+  getJournal().saveHlTransfer(transfer);
+  return transfer;
+}
+
+/**
+ * Journal a transfer request that threw. A 4xx is a definite refusal; a
+ * timeout, network error or 5xx may still have gone through, so it stays
+ * pending for checkTransfer to settle (credited or expired) from the balance.
+ */
+function recordThrown(
+  init: Pick<HlTransfer, 'kind' | 'amountUsd' | 'hlAddress' | 'arbitrumAddress' | 'balanceBefore'>,
+  err: any,
+): HlTransferResult {
+  const message = err.response?.data?.message ?? err.message;
+  const status = err.response?.status;
+  if (status >= 400 && status < 500) return { isSuccess: false, message, transfer: recordTransfer(init, 'failed', message) };
+  const unknown = `outcome unknown: ${message}`;
+  return { isSuccess: false, pending: true, message: unknown, transfer: recordTransfer(init, 'pending', unknown) };
+}
+
+function updateTransfer(transfer: HlTransfer, patch: Partial<Omit<HlTransfer, 'id' | 'kind'>>): HlTransfer {
+  const updated: HlTransfer = { ...transfer, ...patch, updatedAt: new Date().toISOString() };
+  getJournal().saveHlTransfer(updated);
+  return updated;
+}
+
+// ---------------------------------------------------------------------------
+// Deposits and withdrawals
+// ---------------------------------------------------------------------------
+
+/**
+ * Bridge `amountUsd` USDC from the Arbitrum custodial wallet into HyperLiquid.
+ * Refused without sending below HL_MIN_DEPOSIT_USD or when the wallet holds
+ * less. Returns once GDEX accepts it, with the pending transfer; the HL
+ * balance follows 1-10 minutes later (waitForTransfer). When the request
+ * fails without a definite answer the result has `pending` set and the
+ * transfer stays pending — don't resend before checkTransfer settles it.
+ */
+export async function depositToHyperliquid(session: GDEXSession, amountUsd: number): Promise<HlTransferResult> {
+  if (session.paper) return { isSuccess: false, message: 'HL deposits are not simulated in paper trading mode' };
+  if (!(amountUsd >= HL_MIN_DEPOSIT_USD)) {
+    return { isSuccess: false, message: `Deposit must be at least $${HL_MIN_DEPOSIT_USD} USDC` };
+  }
+
+  const hlAddress = await getHlAddress(session);
+  const available = await getArbitrumUsdcBalance(hlAddress);
+  if (available < amountUsd) {
+    return { isSuccess: false, message: `Only $${available.toFixed(2)} USDC on Arbitrum at ${hlAddress} — need $${amountUsd}` };
+  }
+  const balanceBefore = await getHlUsdcBalance(session, hlAddress);
+
+  const apiUrl = session.sdk.getConfig().baseURL;
+  const userId = session.walletAddress.toLowerCase();
+  const encodedData = CryptoUtils.encodeInputData('hl_deposit', {
+    chainId: ARBITRUM,
+    tokenAddress: ARBITRUM_USDC,
+    amount: Math.floor(amountUsd * 1e6).toString(),
+    nonce: CryptoUtils.generateUniqueNumber().toString(),
+  });
+  if (!encodedData) {
+    return { isSuccess: false, message: 'encodeInputData returned null for hl_deposit' };
+  }
+  const signature = CryptoUtils.sign(`hl_deposit-${userId}-${encodedData}`, session.tradingPrivateKey);
+  const computedData = CryptoUtils.getDataToSendApi(userId, encodedData, signature, session.apiKey);
+
+  const init = { kind: 'deposit' as const, amountUsd, hlAddress, arbitrumAddress: hlAddress, balanceBefore };
+  try {
+    const res = await axios.post(`${apiUrl}/hl/deposit`, { computedData }, {
+      headers: { ...REQUIRED_HEADERS, 'Content-Type': 'application/json' },
+      timeout: 15000,
+    });
+    if (res.data?.isSuccess) {
+      const transfer = recordTransfer(init, 'pending', res.data.message ?? null);
+      return { ...res.data, isSuccess: true, amount: amountUsd, transfer };
+    }
+    const message = res.data?.message ?? res.data?.error ?? JSON.stringify(res.data);
+    return { isSuccess: false, message, transfer: recordTransfer(init, 'failed', message) };
+  } catch (err: any) {
+    return recordThrown(init, err);
+  }
+}
+
+/**
+ * Withdraw `amountUsd` USDC from the HL account to `dest` on Arbitrum (default:
+ * the custodial wallet). HyperLiquid keeps HL_WITHDRAW_FEE_USD of it. Refused
+ * without sending when the account can't withdraw that much. An indefinite
+ * failure stays pending, as for deposits.
+ */
+export async function withdrawFromHyperliquid(
+  session: GDEXSession,
+  amountUsd: number,
+  dest?: string,
+): Promise<HlTransferResult> {
+  if (session.paper) return { isSuccess: false, message: 'HL withdrawals are not simulated in paper trading mode' };
+  if (!(amountUsd > HL_WITHDRAW_FEE_USD)) {
+    return { isSuccess: false, message: `Withdrawal must be more than the $${HL_WITHDRAW_FEE_USD} HyperLiquid fee` };
+  }
+  if (dest !== undefined && !ethers.isAddress(dest)) {
+    return { isSuccess: false, message: `Not an Arbitrum address: ${dest}` };
+  }
+
+  const hlAddress = await getHlAddress(session);
+  const arbitrumAddress = (dest ?? hlAddress).toLowerCase();
+  const withdrawable: number = (await session.sdk.hyperLiquid.getHyperliquidWithdrawableBalance(hlAddress)) ?? 0;
+  if (withdrawable < amountUsd) {
+    return { isSuccess: false, message: `Only $${withdrawable.toFixed(2)} withdrawable from HyperLiquid — asked for $${amountUsd}` };
+  }
+  const balanceBefore = await getArbitrumUsdcBalance(arbitrumAddress);
+
+  const init = { kind: 'withdraw' as const, amountUsd, hlAddress, arbitrumAddress, balanceBefore };
+  try {
+    // hlWithdraw takes whole USDC, not 6-decimal units
+    const res = await session.sdk.hyperLiquid.hlWithdraw(arbitrumAddress, String(amountUsd), session.tradingPrivateKey);
+    if (res?.isSuccess) {
+      const transfer = recordTransfer(init, 'pending', res.message ?? null);
+      return { ...res, isSuccess: true, amount: amountUsd, transfer };
+    }
+    const message = res?.message ?? 'hlWithdraw returned no result';
+    return { isSuccess: false, message, transfer: recordTransfer(init, 'failed', message) };
+  } catch (err: any) {
+    return recordThrown(init, err);
+  }
+}
+
+/**
+ * Look at a pending transfer once: credited when the receiving balance rose
+ * by the amount, expired TRANSFER_TIMEOUT_MS after it was sent. Returns the
+ * transfer as it stands.
+ */
+export async function checkTransfer(session: GDEXSession, transferOrId: HlTransfer | string): Promise<HlTransfer> {
+  const transfer = typeof transferOrId === 'string' ? getHlTransfer(transferOrId) : transferOrId;
+  if (!transfer) throw new Error(`Unknown HL transfer ${transferOrId}`);
+  if (transfer.status !== 'pending') return transfer;
+
+  const now = transfer.kind === 'deposit'
+    ? await getHlUsdcBalance(session, transfer.hlAddress)
+    : await getArbitrumUsdcBalance(transfer.arbitrumAddress);
+  const expected = transfer.amountUsd - (transfer.kind === 'withdraw' ? HL_WITHDRAW_FEE_USD : 0);
+  if (now - transfer.balanceBefore >= expected - CREDIT_TOLERANCE_USD) {
+    return updateTransfer(transfer, { status: 'credited', balanceAfter: now, creditedAt: new Date().toISOString() });
+  }
+  if (Date.now() - Date.parse(transfer.createdAt) > TRANSFER_TIMEOUT_MS) {
+    return updateTransfer(transfer, {
+      status: 'expired', balanceAfter: now,
+      message: `not credited within ${TRANSFER_TIMEOUT_MS / 60_000} min (balance $${transfer.balanceBefore.toFixed(2)} → $${now.toFixed(2)})`,
+    });
+  }
+  return updateTransfer(transfer, { balanceAfter: now });
+}
+
+/** Poll a transfer until it is credited or expires (or opts.timeoutMs passes). */
+export async function waitForTransfer(
+  session: GDEXSession,
+  transferOrId: HlTransfer | string,
+  opts: WaitOptions = {},
+): Promise<HlTransfer> {
+  const deadline = opts.timeoutMs !== undefined ? Date.now() + opts.timeoutMs : Infinity;
+  let transfer = await checkTransfer(session, transferOrId);
+  while (transfer.status === 'pending' && Date.now() < deadline) {
+    opts.onPoll?.(transfer);
+    await new Promise((r) => setTimeout(r, opts.intervalMs ?? DEFAULT_POLL_MS));
+    transfer = await checkTransfer(session, transfer);
+  }
+  return transfer;
+}
+
+/** Check every pending transfer once. */
+export async function checkPendingTransfers(session: GDEXSession): Promise<HlTransfer[]> {
+  const checked: HlTransfer[] = [];
+  for (const transfer of listHlTransfers('pending')) checked.push(await checkTransfer(session, transfer));
+  return checked;
+}
@@ -22,296 +22,113 @@
  *   EMA(9/21) crossover:    -20 to +20 pts  ← NEW
  *   Momentum acceleration:  -12 to  +8 pts  ← NEW
  *
+ * Multi-position: holds up to MAX_POSITIONS coins at once, each with its own
+ * cooldown. New entries must pass the correlation guard (no same-direction
+ * BTC+ETH) and the notional/margin cap from HL clearinghouseState. Every open
+ * position, fill and closed trade is kept in the trade journal (journal.ts,
+ * book "hl-scalper") and open positions are restored on restart.
+ *
+ * Closed trades and closes that fail even at the HL position size raise
+ * alerts through notify.ts (notifications.json) when it is configured.
+ *
+ * Strategy logic lives in hl-scalper-strategy.ts so it can be replayed
+ * offline with `npm run hl:backtest`.
+ *
  * Usage: npm run hl:scalper
  */
 
 import WebSocket from 'ws';
 (globalThis as any).WebSocket = WebSocket;
 
-import * as fs from 'fs';
-import * as path from 'path';
-import axios from 'axios';
-import { createAuthenticatedSession, GDEXSession } from './auth';
+import { createSessionManager, GDEXSession } from './auth';
+import { placePerpOrder } from './trading';
+import { getClearinghouseState, getRecentCandles, getCurrentFundingRates, getMeta } from './hyperliquid';
+import { openJournal, migrateJsonLogs, Journal, JournalPosition } from './journal';
+import { loadNotifyConfig, createNotifier, Notifier, NotifyEventType } from './notify';
+import {
+  COINS, TP_PCT, SL_PCT, TRAIL_TRIGGER, MOMENTUM_PCT, MOMENTUM_WIN,
+  SCAN_MS, MONITOR_MS, MAX_HOLD_MS, MIN_NOTIONAL, MIN_SCORE, RSI_PERIOD,
+  FUNDING_REFRESH_MS, TRADE_USD, MAX_POSITIONS, MAX_ACCOUNT_LEVERAGE,
+  Position, SignalScore, ExitReason, TradeRecord, AccountSnapshot,
+  createScalperState, recordPrice, momentum5m, fmtDur,
+  calcRSI, calcATR, calc15mMom, isVolSpike,
+  pickSignal, entryBlocker, calcSize, calcTpSl, updateTrailingStop, checkExit,
+  buildTradeRecord, cooldownFor, updateAdaptiveParams,
+} from './hl-scalper-strategy';
 
 // ─── Config ───────────────────────────────────────────────────────────────────
 
-const COINS         = ['BTC', 'ETH', 'SOL', 'DOGE', 'WIF'];  // swapped AVAX→WIF (WIF 4x more volatile on %)
-const TRADE_USD     = 11.5;    // ~$11.50 notional per trade
-const TP_PCT        = 0.03;    // fallback TP if ATR unavailable
-const SL_PCT        = 0.015;   // fallback SL if ATR unavailable
-const CRASH_SL_PCT  = 0.025;   // exchange-level crash protection SL
-const TRAIL_TRIGGER = 0.015;   // start trailing after +1.5% profit
-const TRAIL_DIST    = 0.010;   // trail SL 1% behind peak
-const MOMENTUM_PCT  = 1.0;     // 5-min % change required (adaptive baseline; was 1.2)
-const MOMENTUM_WIN  = 5 * 60_000;
-const SCAN_MS       = 15_000;  // 15s price poll while scanning (was 30s)
-const POLL_MS       = 30_000;  // 30s price poll during cooldown
-const MONITOR_MS    = 3_000;   // 3s position check
-const MAX_HOLD_MS   = 10 * 60_000;
-const COOLDOWN_WIN  = 50_000;  // cooldown after win (dynamic)
-const COOLDOWN_LOSS = 120_000; // cooldown after loss (dynamic)
-const COOLDOWN_TO   = 75_000;  // cooldown after timeout (dynamic)
 const ENTRY_SLIP    = 0.002;
 const CLOSE_SLIP    = 0.004;
 
-// Signal scoring — adaptive baseline (range 44–70)
-const MIN_SCORE     = 58;      // adaptive baseline; v2 was 52 (new EMA/accel components added)
-
-// ATR-based dynamic TP/SL — adaptive baselines
-const ATR_PERIOD    = 14;
-const ATR_TP_MULT   = 2.5;    // adaptive baseline TP multiplier
-const ATR_SL_MULT   = 1.0;    // adaptive baseline SL multiplier
-
-// Adaptive parameter bounds
-const ADAPT_WINDOW       = 8;    // rolling window of trades to evaluate
-const ADAPT_SCORE_FLOOR  = 44;
-const ADAPT_SCORE_CEIL   = 70;
-const ADAPT_MOM_FLOOR    = 0.7;
-const ADAPT_MOM_CEIL     = 2.2;
-const ADAPT_TP_FLOOR     = 1.5;
-const ADAPT_TP_CEIL      = 4.5;
-const ADAPT_SL_FLOOR     = 0.6;
-const ADAPT_SL_CEIL      = 2.0;
-
-// RSI filter thresholds
-const RSI_PERIOD    = 14;      // RSI lookback period
-const RSI_OB        = 70;      // overbought — avoid longs
-const RSI_OS        = 30;      // oversold — avoid shorts
-
-// Volume confirmation
-const VOL_SPIKE_MULT = 1.2;   // last candle volume must be ≥ 1.2x rolling avg
-
-// Funding rate filter (basis points per 8h)
-const MAX_FUND_BPS  = 2.5;    // 2.5 bps = 0.025% per 8h
-
 const HL_CUSTODIAL  = '0x886e83feb8d1774afab4a32047a083434354c6f0';
-const HL_INFO_URL   = 'https://api.hyperliquid.xyz/info';
-
-const DATA_DIR      = path.join(__dirname, '../data');
-const LOG_FILE      = path.join(DATA_DIR, 'scalper-trades.json');
-const STATE_FILE    = path.join(DATA_DIR, 'scalper-state.json');
-
-// ─── Types ────────────────────────────────────────────────────────────────────
-
-interface PricePoint { price: number; ts: number; }
-
-interface Position {
-  coin: string;
-  isLong: boolean;
-  size: string;
-  entryPrice: number;
-  tpPrice: number;
-  slPrice: number;
-  openedAt: number;
-  trailPeak: number;
-  trailActive: boolean;
-  isResumed: boolean;
-}
 
-interface TradeRecord {
-  coin: string;
-  direction: 'LONG' | 'SHORT';
-  entryPrice: number;
-  exitPrice: number;
-  pnlUsd: number;
-  pnlPct: number;
-  exitReason: 'TP' | 'SL' | 'TRAIL' | 'TIMEOUT';
-  duration: string;
-  time: string;
-  date: string;
-}
-
-// HL candle from candleSnapshot
-interface Candle {
-  t: number;   // open time ms
-  T: number;   // close time ms
-  o: string;   // open
-  h: string;   // high
-  l: string;   // low
-  c: string;   // close
-  v: string;   // volume (base asset)
-}
-
-interface CandleCache {
-  m1: Candle[];
-  m15: Candle[];
-  ts: number;  // when cached
-}
-
-interface SignalScore {
-  score: number;
-  reasons: string[];
-  rsi: number;
-  atr: number;
-  atrPct: number;
-  volSpike: boolean;
-  mom15m: number;
-  funding: number;
-}
-
-interface AdaptiveParams {
-  minScore: number;
-  momentumPct: number;
-  atrTpMult: number;
-  atrSlMult: number;
-  lastUpdate: number;
-  reason: string;
-}
 
 // ─── State ────────────────────────────────────────────────────────────────────
 
-type ScalpState = 'SCANNING' | 'IN_POSITION' | 'COOLDOWN';
-
-let scalpState: ScalpState = 'SCANNING';
-let position: Position | null = null;
-let cooldownUntil = 0;
+const positions: Record<string, Position> = {};   // coin → open position
+const positionIds: Record<string, string> = {};   // coin → journal position id
+const cooldowns: Record<string, number> = {};     // coin → re-entry allowed at
+let account: AccountSnapshot | null = null;       // last clearinghouse margin summary
 let nextPollAt = 0;
+let nextScanAt = 0;
 let custodialAddr = HL_CUSTODIAL;
 let hlBalance = 0;
-
-const priceHistory: Record<string, PricePoint[]> = Object.fromEntries(COINS.map(c => [c, []]));
-const currentPrices: Record<string, number> = {};
-const tradeHistory: TradeRecord[] = [];
-const logs: string[] = [];
-
-// Candle + fundamental data
-const candleCache: Record<string, CandleCache> = {};
-const fundingRates: Record<string, number> = {};  // coin → rate as decimal (0.0001 = 0.01%)
 let lastFundingRefresh = 0;
-const cachedScores: Record<string, SignalScore & { isLong: boolean }> = {};
-
-const adaptiveParams: AdaptiveParams = {
-  minScore:    MIN_SCORE,
-  momentumPct: MOMENTUM_PCT,
-  atrTpMult:   ATR_TP_MULT,
-  atrSlMult:   ATR_SL_MULT,
-  lastUpdate:  0,
-  reason:      'init',
-};
-
-function clamp(v: number, lo: number, hi: number): number {
-  return Math.max(lo, Math.min(hi, v));
-}
-
-function updateAdaptiveParams(exitReason: 'TP' | 'SL' | 'TRAIL' | 'TIMEOUT') {
-  const window = tradeHistory.slice(-ADAPT_WINDOW);
-  if (window.length < 2) return; // need 2+ trades to adapt
-
-  const n = window.length;
-  const wins      = window.filter(t => t.pnlUsd > 0).length;
-  const slHits    = window.filter(t => t.exitReason === 'SL').length;
-  const tpHits    = window.filter(t => t.exitReason === 'TP' || t.exitReason === 'TRAIL').length;
-  const timeouts  = window.filter(t => t.exitReason === 'TIMEOUT').length;
-
-  const winRate     = wins / n;
-  const slRate      = slHits / n;
-  const tpRate      = tpHits / n;
-  const timeoutRate = timeouts / n;
-
-  let { minScore, momentumPct, atrTpMult, atrSlMult } = adaptiveParams;
-  const changes: string[] = [];
-
-  // ── Entry threshold: tighten on losses, loosen on wins ──────────────────
-  if (winRate >= 0.7) {
-    minScore    = clamp(minScore - 2, ADAPT_SCORE_FLOOR, ADAPT_SCORE_CEIL);
-    momentumPct = clamp(momentumPct - 0.1, ADAPT_MOM_FLOOR, ADAPT_MOM_CEIL);
-    changes.push(`wr:${(winRate * 100).toFixed(0)}%↓score`);
-  } else if (winRate <= 0.3) {
-    minScore    = clamp(minScore + 4, ADAPT_SCORE_FLOOR, ADAPT_SCORE_CEIL);
-    momentumPct = clamp(momentumPct + 0.15, ADAPT_MOM_FLOOR, ADAPT_MOM_CEIL);
-    changes.push(`wr:${(winRate * 100).toFixed(0)}%↑score`);
-  } else if (winRate <= 0.45) {
-    minScore    = clamp(minScore + 2, ADAPT_SCORE_FLOOR, ADAPT_SCORE_CEIL);
-    changes.push(`wr:${(winRate * 100).toFixed(0)}%↑score`);
-  }
-
-  // ── SL multiplier: widen if being stopped out too often ──────────────────
-  if (slRate >= 0.6) {
-    atrSlMult = clamp(atrSlMult + 0.15, ADAPT_SL_FLOOR, ADAPT_SL_CEIL);
-    changes.push(`sl:${(slRate * 100).toFixed(0)}%↑slMult`);
-  } else if (slRate <= 0.2 && tpRate >= 0.5) {
-    atrSlMult = clamp(atrSlMult - 0.05, ADAPT_SL_FLOOR, ADAPT_SL_CEIL);
-    changes.push(`sl:low↓slMult`);
-  }
-
-  // ── TP multiplier: bring in if too many timeouts; extend if TPs hit often ─
-  if (timeoutRate >= 0.5) {
-    atrTpMult = clamp(atrTpMult - 0.2, ADAPT_TP_FLOOR, ADAPT_TP_CEIL);
-    changes.push(`to:${(timeoutRate * 100).toFixed(0)}%↓tpMult`);
-  } else if (tpRate >= 0.65 && timeoutRate < 0.15) {
-    atrTpMult = clamp(atrTpMult + 0.15, ADAPT_TP_FLOOR, ADAPT_TP_CEIL);
-    changes.push(`tp:${(tpRate * 100).toFixed(0)}%↑tpMult`);
-  }
-
-  // ── Per-exit micro-adjustment ─────────────────────────────────────────────
-  if (exitReason === 'SL') {
-    minScore = clamp(minScore + 1, ADAPT_SCORE_FLOOR, ADAPT_SCORE_CEIL);
-  } else if (exitReason === 'TP' || exitReason === 'TRAIL') {
-    minScore = clamp(minScore - 1, ADAPT_SCORE_FLOOR, ADAPT_SCORE_CEIL);
-  }
+let notifier: Notifier | null = null;              // set in main() when notifications.json exists
+const closeFailAlerted = new Set<string>();       // coins already alerted as stuck open
 
-  adaptiveParams.minScore    = Math.round(minScore);
-  adaptiveParams.momentumPct = Math.round(momentumPct * 10) / 10;
-  adaptiveParams.atrTpMult   = Math.round(atrTpMult * 10) / 10;
-  adaptiveParams.atrSlMult   = Math.round(atrSlMult * 10) / 10;
-  adaptiveParams.lastUpdate  = Date.now();
-  adaptiveParams.reason      = changes.join(' ') || 'stable';
+const logs: string[] = [];
 
-  if (changes.length > 0) {
-    addLog(`🧠 Adapt: score≥${adaptiveParams.minScore} mom≥${adaptiveParams.momentumPct}% TP:${adaptiveParams.atrTpMult}x SL:${adaptiveParams.atrSlMult}x`);
-  }
-}
+// Prices, candles, funding, adaptive params and trade history — driven by the live clock
+const strategy = createScalperState(COINS, addLog);
 
 // ─── Persistence ──────────────────────────────────────────────────────────────
 
-function ensureDataDir() {
-  if (!fs.existsSync(DATA_DIR)) fs.mkdirSync(DATA_DIR, { recursive: true });
-}
+// Opened in main() — also imports the old data/scalper-*.json files once
+let journal: Journal;
 
-function loadTrades() {
-  try {
-    const raw = fs.readFileSync(LOG_FILE, 'utf8');
-    const saved: TradeRecord[] = JSON.parse(raw);
-    tradeHistory.push(...saved);
-  } catch { /* no file yet */ }
-}
+type JournaledPosition = Position & JournalPosition;
 
-function saveTrades() {
-  ensureDataDir();
-  fs.writeFileSync(LOG_FILE, JSON.stringify(tradeHistory, null, 2));
+function loadTrades() {
+  strategy.tradeHistory.push(...journal.getTrades<TradeRecord>('hl-scalper'));
 }
 
-function saveState() {
-  if (!position) return;
-  ensureDataDir();
-  fs.writeFileSync(STATE_FILE, JSON.stringify(position, null, 2));
+function journalOpen(position: Position) {
+  const id = `hl-${position.coin}-${position.openedAt}`;
+  positionIds[position.coin] = id;
+  journal.openPosition<JournaledPosition>('hl-scalper', { ...position, id, status: 'open' }, {
+    price: position.entryPrice,
+    amount: position.size,
+    value: position.entryPrice * parseFloat(position.size),
+  });
 }
 
-function clearState() {
-  try { fs.unlinkSync(STATE_FILE); } catch { /* already gone */ }
+/** Persist trailing-stop / resume changes to an open position. */
+function savePosition(position: Position) {
+  const id = positionIds[position.coin];
+  if (id) journal.patchPosition<JournaledPosition>(id, position);
 }
 
-function loadSavedPosition(): Position | null {
-  try {
-    const raw = fs.readFileSync(STATE_FILE, 'utf8');
-    return { ...JSON.parse(raw), isResumed: true };
-  } catch { return null; }
+function loadSavedPositions(): Position[] {
+  return journal.getPositions<JournaledPosition>('hl-scalper', 'open').map(({ id, status, ...p }) => {
+    positionIds[p.coin] = id;
+    return { ...p, isResumed: true };
+  });
 }
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
+function sendAlert(type: NotifyEventType, data: Record<string, any>) {
+  notifier?.notify({ type, from: 'HL-SCALPER', data: { source: 'hl-scalper', ...data }, ts: Date.now() });
+}
+
 function addLog(msg: string) {
   const ts = new Date().toLocaleTimeString();
   logs.unshift(`\x1b[2m[${ts}]\x1b[0m ${msg}`);
   if (logs.length > 15) logs.pop();
 }
 
-function fmtDur(ms: number): string {
-  const s = Math.floor(Math.abs(ms) / 1000);
-  if (s < 60) return `${s}s`;
-  return `${Math.floor(s / 60)}m${s % 60}s`;
-}
-
 function fmtPct(p: number): string {
   const color = p >= 0 ? '\x1b[32m' : '\x1b[31m';
   return `${color}${p >= 0 ? '+' : ''}${p.toFixed(2)}%\x1b[0m`;
@@ -327,17 +144,6 @@ function padV(s: string, n: number): string {
   const v = vlen(s); return v >= n ? s : s + ' '.repeat(n - v);
 }
 
-function momentum5m(coin: string): number {
-  const hist = priceHistory[coin] || [];
-  const now = Date.now();
-  const cutoff = now - MOMENTUM_WIN;
-  const recent = hist.filter(p => p.ts >= cutoff);
-  const current = currentPrices[coin];
-  if (!current || recent.length === 0) return 0;
-  const oldest = recent[0].price;
-  return ((current - oldest) / oldest) * 100;
-}
-
 function momentumBar(pct: number): string {
   const max = 3;
   const abs = Math.min(Math.abs(pct), max);
@@ -350,288 +156,50 @@ function momentumBar(pct: number): string {
 
 // ─── HL Candle + Funding Data ─────────────────────────────────────────────────
 
-async function fetchCandlesHL(coin: string, interval: string, count: number): Promise<Candle[]> {
-  const intervalMs: Record<string, number> = {
-    '1m': 60_000, '3m': 3 * 60_000, '5m': 5 * 60_000, '15m': 15 * 60_000,
-  };
-  const endTime = Date.now();
-  const startTime = endTime - (intervalMs[interval] ?? 60_000) * (count + 2);
-
-  const res = await axios.post(HL_INFO_URL, {
-    type: 'candleSnapshot',
-    req: { coin, interval, startTime, endTime },
-  }, { headers: { 'Content-Type': 'application/json' }, timeout: 6000 });
-
-  return Array.isArray(res.data) ? res.data : [];
-}
-
 async function refreshCandleCache(): Promise<void> {
   await Promise.allSettled(COINS.map(async (coin) => {
     try {
       const [m1, m15] = await Promise.all([
-        fetchCandlesHL(coin, '1m', 20),
-        fetchCandlesHL(coin, '15m', 20),
+        getRecentCandles(coin, '1m', 20),
+        getRecentCandles(coin, '15m', 20),
       ]);
       if (m1.length > 0 || m15.length > 0) {
-        candleCache[coin] = { m1, m15, ts: Date.now() };
+        strategy.candleCache[coin] = { m1, m15, ts: Date.now() };
       }
     } catch { /* keep stale data */ }
   }));
 }
 
 async function refreshFundingRates(): Promise<void> {
-  if (Date.now() - lastFundingRefresh < 5 * 60_000) return;
+  if (Date.now() - lastFundingRefresh < FUNDING_REFRESH_MS) return;
   try {
-    const res = await axios.post(HL_INFO_URL,
-      { type: 'metaAndAssetCtxs' },
-      { headers: { 'Content-Type': 'application/json' }, timeout: 6000 },
-    );
-    const [meta, ctxs] = res.data as [{ universe: { name: string }[] }, { funding: string }[]];
-    meta.universe.forEach((asset, i) => {
-      const rate = parseFloat(ctxs[i]?.funding ?? '0');
-      if (!isNaN(rate)) fundingRates[asset.name] = rate;
-    });
+    Object.assign(strategy.fundingRates, await getCurrentFundingRates());
     lastFundingRefresh = Date.now();
   } catch { /* keep stale */ }
 }
 
-// ─── Technical Indicators ─────────────────────────────────────────────────────
-
-function calcRSI(candles: Candle[], period = RSI_PERIOD): number {
-  const closes = candles.map(c => parseFloat(c.c)).filter(v => !isNaN(v));
-  if (closes.length < period + 1) return 50; // neutral fallback
-  let gains = 0, losses = 0;
-  for (let i = closes.length - period; i < closes.length; i++) {
-    const diff = closes[i] - closes[i - 1];
-    if (diff > 0) gains += diff;
-    else losses -= diff;
-  }
-  const avgG = gains / period;
-  const avgL = losses / period;
-  if (avgL === 0) return 100;
-  return 100 - (100 / (1 + avgG / avgL));
-}
-
-function calcATR(candles: Candle[], period = ATR_PERIOD): number {
-  if (candles.length < period + 1) return 0;
-  const trs: number[] = [];
-  for (let i = 1; i < candles.length; i++) {
-    const h = parseFloat(candles[i].h);
-    const l = parseFloat(candles[i].l);
-    const pc = parseFloat(candles[i - 1].c);
-    if (isNaN(h) || isNaN(l) || isNaN(pc)) continue;
-    trs.push(Math.max(h - l, Math.abs(h - pc), Math.abs(l - pc)));
-  }
-  const recent = trs.slice(-period);
-  if (recent.length === 0) return 0;
-  return recent.reduce((a, b) => a + b, 0) / recent.length;
-}
-
-function calcEMAValues(candles: Candle[], period: number): number[] {
-  const closes = candles.map(c => parseFloat(c.c)).filter(v => !isNaN(v));
-  if (closes.length < period) return [];
-  const k = 2 / (period + 1);
-  const emas: number[] = [closes[0]];
-  for (let i = 1; i < closes.length; i++) {
-    emas.push(closes[i] * k + emas[i - 1] * (1 - k));
-  }
-  return emas;
-}
-
-/** Momentum of last ~1h using 15m candles */
-function calc15mMom(candles: Candle[]): number {
-  if (candles.length < 4) return 0;
-  const recent = candles.slice(-4); // 4 × 15m = 1h lookback
-  const first = parseFloat(recent[0].o);
-  const last = parseFloat(recent[recent.length - 1].c);
-  if (isNaN(first) || isNaN(last) || first === 0) return 0;
-  return ((last - first) / first) * 100;
-}
-
-function isVolSpike(candles: Candle[]): boolean {
-  if (candles.length < 5) return false;
-  const vols = candles.map(c => parseFloat(c.v)).filter(v => !isNaN(v));
-  if (vols.length < 3) return false;
-  const lastVol = vols[vols.length - 1];
-  const prevVols = vols.slice(-Math.min(10, vols.length - 1), -1);
-  if (prevVols.length === 0) return false;
-  const avgVol = prevVols.reduce((a, b) => a + b, 0) / prevVols.length;
-  return avgVol > 0 && lastVol >= avgVol * VOL_SPIKE_MULT;
-}
-
-// ─── Signal Scoring ───────────────────────────────────────────────────────────
-
-/**
- * Composite signal score 0→93.
- * MIN_SCORE (52) requires at least strong momentum + 15m alignment,
- * or strong momentum + good RSI + volume spike.
- */
-function scoreSignal(coin: string, isLong: boolean, mom5m: number): SignalScore {
-  const cache = candleCache[coin];
-  const cacheAge = cache ? Date.now() - cache.ts : Infinity;
-  const cacheReady = cacheAge < 90_000; // consider stale after 90s
-
-  const reasons: string[] = [];
-  let score = 0;
-
-  // ── 1. 5m momentum magnitude (10-30 pts) ──────────────────────────────────
-  const absMom = Math.abs(mom5m);
-  const momPts = absMom >= 3 ? 30 : absMom >= 2 ? 22 : absMom >= 1.5 ? 16 : 10;
-  score += momPts;
-  reasons.push(`m5:${mom5m.toFixed(1)}%(${momPts})`);
-
-  if (!cacheReady) {
-    reasons.push('candles:loading');
-    return { score, reasons, rsi: 50, atr: 0, atrPct: 0, volSpike: false, mom15m: 0, funding: 0 };
-  }
-
-  const m1 = cache.m1;
-  const m15 = cache.m15;
-
-  // ── 2. 15m trend alignment (-15 to +20 pts) ───────────────────────────────
-  const mom15m = calc15mMom(m15);
-  if (m15.length >= 4) {
-    const strongAgree = isLong ? mom15m > 0.5 : mom15m < -0.5;
-    const slightAgree = isLong ? mom15m > 0 : mom15m < 0;
-    const oppose = isLong ? mom15m < -0.3 : mom15m > 0.3;
-    const m15pts = strongAgree ? 20 : slightAgree ? 8 : oppose ? -15 : 0;
-    score += m15pts;
-    reasons.push(`m15:${mom15m.toFixed(1)}%(${m15pts})`);
-  } else {
-    mom15m; // keep TS happy — value used in return below
-    reasons.push('m15:n/a');
-  }
-
-  // ── 3. RSI confirmation (-30 to +20 pts) ──────────────────────────────────
-  const rsi = calcRSI(m1);
-  if (m1.length >= RSI_PERIOD + 1) {
-    let rsiPts: number;
-    if (isLong) {
-      if (rsi < 40)       rsiPts = 20;  // oversold → potential bounce
-      else if (rsi < 55)  rsiPts = 20;  // sweet spot for longs
-      else if (rsi < 65)  rsiPts = 8;   // slightly stretched
-      else if (rsi < RSI_OB) rsiPts = -5; // getting overbought
-      else                rsiPts = -30; // overbought — strong blocker
-    } else {
-      if (rsi > 60)       rsiPts = 20;  // overbought → fade
-      else if (rsi > 45)  rsiPts = 20;  // sweet spot for shorts
-      else if (rsi > 35)  rsiPts = 8;
-      else if (rsi > RSI_OS) rsiPts = -5;
-      else                rsiPts = -30; // oversold — strong blocker
-    }
-    score += rsiPts;
-    reasons.push(`RSI:${rsi.toFixed(0)}(${rsiPts})`);
-  } else {
-    reasons.push('RSI:n/a');
-  }
-
-  // ── 4. Volume spike (+15 or 0 pts) ────────────────────────────────────────
-  const volSpike = isVolSpike(m1);
-  if (m1.length >= 5) {
-    const volPts = volSpike ? 15 : 0;
-    score += volPts;
-    reasons.push(`vol:${volSpike ? 'spike' : 'avg'}(${volPts})`);
-  }
-
-  // ── 5. Funding rate (-20 to +8 pts) ───────────────────────────────────────
-  const funding = fundingRates[coin] ?? 0;
-  const fundBps = funding * 10000; // convert decimal to basis points
-  let fundPts: number;
-  if (isLong) {
-    if (fundBps > MAX_FUND_BPS)  fundPts = -20; // longs paying a lot — crowded
-    else if (fundBps > 0)        fundPts = 0;   // longs pay slightly — neutral
-    else if (fundBps > -MAX_FUND_BPS) fundPts = 5; // longs get paid slightly — good
-    else                         fundPts = 8;   // strong negative funding — contrarian
-  } else {
-    if (fundBps < -MAX_FUND_BPS) fundPts = -20; // shorts paying a lot — crowded
-    else if (fundBps < 0)        fundPts = 0;
-    else if (fundBps < MAX_FUND_BPS) fundPts = 5;
-    else                         fundPts = 8;
-  }
-  if (Object.keys(fundingRates).length > 0) {
-    score += fundPts;
-    reasons.push(`fund:${fundBps.toFixed(2)}bps(${fundPts})`);
-  }
-
-  // ── 6. EMA(9/21) crossover & trend alignment (-20 to +20 pts) ────────────
-  if (m1.length >= 22) {
-    const ema9  = calcEMAValues(m1, 9);
-    const ema21 = calcEMAValues(m1, 21);
-    if (ema9.length >= 2 && ema21.length >= 2) {
-      const e9 = ema9[ema9.length - 1],  prevE9  = ema9[ema9.length - 2];
-      const e21 = ema21[ema21.length - 1], prevE21 = ema21[ema21.length - 2];
-      const bullish         = e9 > e21;
-      const justCrossedUp   = prevE9 <= prevE21 && e9 > e21;
-      const justCrossedDown = prevE9 >= prevE21 && e9 < e21;
-      let emaPts: number;
-      let emaTag: string;
-      if (justCrossedUp || justCrossedDown) {
-        const aligned = (isLong && justCrossedUp) || (!isLong && justCrossedDown);
-        emaPts = aligned ? 20 : -20;
-        emaTag = aligned ? 'EMA:✓cross' : 'EMA:✗cross';
-      } else if ((isLong && bullish) || (!isLong && !bullish)) {
-        emaPts = 10;
-        emaTag = isLong ? 'EMA:bull' : 'EMA:bear';
-      } else {
-        emaPts = -10;
-        emaTag = isLong ? 'EMA:bear!' : 'EMA:bull!';
-      }
-      score += emaPts;
-      reasons.push(`${emaTag}(${emaPts})`);
-    }
-  } else {
-    reasons.push('EMA:n/a');
-  }
-
-  // ── 7. Momentum acceleration / deceleration (-12 to +8 pts) ─────────────
-  const nowTs   = Date.now();
-  const hist    = priceHistory[coin] || [];
-  const last90  = hist.filter(p => p.ts >= nowTs - 90_000);
-  const prev4m  = hist.filter(p => p.ts >= nowTs - 4 * 60_000 && p.ts < nowTs - 90_000);
-  if (last90.length >= 2 && prev4m.length >= 2) {
-    const recentChg = Math.abs(
-      (last90[last90.length - 1].price - last90[0].price) / last90[0].price,
-    );
-    const prevChg = Math.abs(
-      (prev4m[prev4m.length - 1].price - prev4m[0].price) / prev4m[0].price,
-    );
-    const accelPts = recentChg > prevChg * 0.8 ? 8
-      : recentChg < prevChg * 0.4              ? -12
-      : 0;
-    if (accelPts !== 0) {
-      score += accelPts;
-      reasons.push(`accel:${accelPts > 0 ? '↑' : '↓'}(${accelPts})`);
-    }
-  }
-
-  const atr = calcATR(m1);
-  const price = currentPrices[coin] || 1;
-  const atrPct = (atr / price) * 100;
-
-  return { score, reasons, rsi, atr, atrPct, volSpike, mom15m, funding };
-}
-
 // ─── HL API helpers ────────────────────────────────────────────────────────────
 
-async function hlInfo(body: object): Promise<any> {
-  const res = await axios.post(HL_INFO_URL, body, {
-    headers: { 'Content-Type': 'application/json' },
-    timeout: 8000,
-  });
-  return res.data;
+type HlPositions = Record<string, { szi: number; entryPx: number }>;
+
+/** All open HL positions by coin; also refreshes the account margin snapshot. Null on API failure. */
+async function getHlPositions(): Promise<HlPositions | null> {
+  try {
+    const state = await getClearinghouseState(custodialAddr);
+    const out: HlPositions = {};
+    for (const p of state.positions) out[p.coin] = { szi: p.szi, entryPx: p.entryPx };
+    account = {
+      accountValue: state.marginSummary.accountValue,
+      totalNtlPos: state.marginSummary.totalNtlPos,
+      withdrawable: state.withdrawable,
+    };
+    return out;
+  } catch { return null; }
 }
 
 async function getHlPosition(coin: string): Promise<{ szi: number; entryPx: number } | null> {
-  try {
-    const state = await hlInfo({ type: 'clearinghouseState', user: custodialAddr });
-    for (const p of (state.assetPositions || [])) {
-      if (p.position.coin === coin) {
-        const szi = parseFloat(p.position.szi);
-        if (szi !== 0) return { szi, entryPx: parseFloat(p.position.entryPx) };
-      }
-    }
-  } catch { /* non-fatal */ }
-  return null;
+  const all = await getHlPositions();
+  return all?.[coin] ?? null;
 }
 
 // ─── Order execution via SDK ──────────────────────────────────────────────────
@@ -640,80 +208,19 @@ async function placeOrder(
   session: GDEXSession,
   coin: string,
   isLong: boolean,
-  price: number,
   size: string,
   reduceOnly: boolean,
-  tpPx = '0',
-  slPx = '0',
+  slPrice?: number,
 ): Promise<{ isSuccess: boolean; error?: string }> {
-  const slip = reduceOnly ? CLOSE_SLIP : ENTRY_SLIP;
-  const limitPx = (isLong
-    ? price * (1 + slip)
-    : price * (1 - slip)
-  ).toFixed(4);
-
-  try {
-    const result = await session.sdk.hyperLiquid.hlCreateOrder(
-      session.walletAddress,
-      coin,
-      isLong,
-      limitPx,
-      size,
-      tpPx,
-      slPx,
-      reduceOnly,
-      false,
-      session.tradingPrivateKey,
-    );
-    if ((result as any)?.isSuccess) return { isSuccess: true };
-    return { isSuccess: false, error: JSON.stringify(result) };
-  } catch (err: any) {
-    return { isSuccess: false, error: err.response?.data?.message ?? err.message };
-  }
-}
-
-// ─── Compute size for target notional ────────────────────────────────────────
-
-function calcSize(coin: string, price: number): string {
-  const szDecimals: Record<string, number> = {
-    BTC: 5, ETH: 4, SOL: 2, AVAX: 2, DOGE: 0, LINK: 2, ARB: 1, WIF: 0, TIA: 1,
-  };
-  const dec = szDecimals[coin] ?? 3;
-  const mult = Math.pow(10, dec);
-  const size = Math.ceil((TRADE_USD / price) * mult) / mult;
-  return size.toFixed(dec);
-}
-
-// ─── ATR-based TP/SL ─────────────────────────────────────────────────────────
-
-function calcTpSl(coin: string, price: number, isLong: boolean) {
-  const cache = candleCache[coin];
-  const atr = cache ? calcATR(cache.m1) : 0;
-  const atrPct = atr / price;
-
-  // Use adaptive multipliers (updated by updateAdaptiveParams after each trade)
-  const tpMult = adaptiveParams.atrTpMult;
-  const slMult = adaptiveParams.atrSlMult;
-
-  // Use ATR if within sensible bounds (0.05% to 5% of price)
-  if (atr > 0 && atrPct >= 0.0005 && atrPct <= 0.05) {
-    const tpDist = Math.max(atr * tpMult, price * 0.008); // floor 0.8%
-    const slDist = Math.max(atr * slMult, price * 0.005); // floor 0.5%
-    return {
-      tpPrice: isLong ? price + tpDist : price - tpDist,
-      slPrice: isLong ? price - slDist : price + slDist,
-      crashSlPrice: isLong ? price * (1 - CRASH_SL_PCT) : price * (1 + CRASH_SL_PCT),
-      method: `ATR×${tpMult}/${slMult} (${(atrPct * 100).toFixed(2)}%)`,
-    };
-  }
-
-  // Fallback: fixed percentages
-  return {
-    tpPrice: isLong ? price * (1 + TP_PCT) : price * (1 - TP_PCT),
-    slPrice: isLong ? price * (1 - SL_PCT) : price * (1 + SL_PCT),
-    crashSlPrice: isLong ? price * (1 - CRASH_SL_PCT) : price * (1 + CRASH_SL_PCT),
-    method: `fixed ${(TP_PCT * 100).toFixed(0)}%/${(SL_PCT * 100).toFixed(0)}%`,
-  };
+  const result = await placePerpOrder(session, {
+    coin,
+    isLong,
+    size: parseFloat(size),
+    slippage: reduceOnly ? CLOSE_SLIP : ENTRY_SLIP,
+    reduceOnly,
+    slPrice,
+  });
+  return result.isSuccess ? { isSuccess: true } : { isSuccess: false, error: result.message };
 }
 
 // ─── Terminal display ──────────────────────────────────────────────────────────
@@ -721,6 +228,7 @@ function calcTpSl(coin: string, price: number, isLong: boolean) {
 function render() {
   const W = Math.max(80, Math.min(process.stdout.columns || 100, 110));
   const INNER = W - 4;
+  const { currentPrices, priceHistory, candleCache, fundingRates, cachedScores, adaptiveParams, tradeHistory } = strategy;
 
   const C = {
     RST: '\x1b[0m', BOLD: '\x1b[1m', DIM: '\x1b[2m',
@@ -748,14 +256,12 @@ function render() {
   lines.push(C.CYN + hline('╔', '═', '╗', 'HL MOMENTUM SCALPER v3') + C.RST);
 
   // Status bar
-  const stateStr = scalpState === 'SCANNING'    ? `${C.GRN}SCANNING${C.RST}`
-                 : scalpState === 'IN_POSITION' ? `${C.YEL}IN POSITION${C.RST}`
-                 : `${C.DIM}COOLDOWN${C.RST}`;
-  const cdLeft = Math.max(0, cooldownUntil - Date.now());
+  const open = Object.values(positions);
+  const stateStr = open.length === 0 ? `${C.GRN}SCANNING${C.RST}`
+    : open.length < MAX_POSITIONS ? `${C.YEL}IN POSITION ${open.length}/${MAX_POSITIONS}${C.RST}`
+    : `${C.YEL}FULL ${open.length}/${MAX_POSITIONS}${C.RST}`;
   const pollLeft = Math.max(0, nextPollAt - Date.now());
-  const timeInfo = scalpState === 'IN_POSITION' ? `mon:${fmtDur(MONITOR_MS)}`
-    : scalpState === 'COOLDOWN' ? `cd:${fmtDur(cdLeft)}`
-    : `poll:${fmtDur(pollLeft)}`;
+  const timeInfo = open.length > 0 ? `mon:${fmtDur(MONITOR_MS)}` : `poll:${fmtDur(pollLeft)}`;
   const totalTrades = tradeHistory.length;
   const allWins = tradeHistory.filter(t => t.pnlUsd > 0).length;
   const hasFunding = Object.keys(fundingRates).length > 0;
@@ -781,7 +287,7 @@ function render() {
 
   for (const coin of COINS) {
     const price = currentPrices[coin];
-    const mom = momentum5m(coin);
+    const mom = momentum5m(strategy, coin, Date.now());
     const cache = candleCache[coin];
     const scoreInfo = cachedScores[coin];
 
@@ -826,9 +332,11 @@ function render() {
     INNER,
   )));
 
-  // Open position
-  lines.push(C.CYN + hline('╠', '═', '╣', position ? 'OPEN POSITION' : 'NO POSITION') + C.RST);
-  if (position) {
+  // Open positions
+  const ntl = open.reduce((s, p) => s + parseFloat(p.size) * (currentPrices[p.coin] || p.entryPrice), 0);
+  const capStr = account ? ` $${ntl.toFixed(0)}/$${(account.accountValue * MAX_ACCOUNT_LEVERAGE).toFixed(0)}` : '';
+  lines.push(C.CYN + hline('╠', '═', '╣', open.length > 0 ? `OPEN POSITIONS ${open.length}/${MAX_POSITIONS}${capStr}` : 'NO POSITION') + C.RST);
+  for (const position of open) {
     const elapsed = Date.now() - position.openedAt;
     const mark = currentPrices[position.coin] || position.entryPrice;
     const rawPnl = (mark - position.entryPrice) * parseFloat(position.size) * (position.isLong ? 1 : -1);
@@ -838,11 +346,8 @@ function render() {
     const resumedTag = position.isResumed ? ` ${C.DIM}[resumed]${C.RST}` : '';
 
     lines.push(row(padV(
-      `  ${C.BOLD}${position.coin}${C.RST} ${dirStr}  ${C.BOLD}${position.size}${C.RST} @ ${C.BOLD}$${position.entryPrice.toFixed(4)}${C.RST}   hold:${C.YEL}${fmtDur(elapsed)}${C.RST}  timeout:${fmtDur(timeout)}${resumedTag}`,
-      INNER,
-    )));
-    lines.push(row(padV(
-      `  Mark: ${C.BOLD}$${mark.toFixed(4)}${C.RST}   PnL: ${fmtUsd(rawPnl)} (${fmtPct(pnlPct)})`,
+      `  ${C.BOLD}${position.coin.padEnd(5)}${C.RST}${dirStr}  ${C.BOLD}${position.size}${C.RST} @ ${C.BOLD}$${position.entryPrice.toFixed(4)}${C.RST}  ` +
+      `mark:${C.BOLD}$${mark.toFixed(4)}${C.RST}  ${fmtUsd(rawPnl)} (${fmtPct(pnlPct)})${resumedTag}`,
       INNER,
     )));
 
@@ -850,12 +355,17 @@ function render() {
       ? ` ${C.GRN}[trailing]${C.RST} peak:${C.BOLD}$${position.trailPeak.toFixed(4)}${C.RST}`
       : ` ${C.DIM}[trail @+${(TRAIL_TRIGGER * 100).toFixed(0)}%]${C.RST}`;
     lines.push(row(padV(
-      `  TP: ${C.GRN}$${position.tpPrice.toFixed(4)}${C.RST}  SL: ${C.RED}$${position.slPrice.toFixed(4)}${C.RST}${trailTag}`,
+      `       TP: ${C.GRN}$${position.tpPrice.toFixed(4)}${C.RST}  SL: ${C.RED}$${position.slPrice.toFixed(4)}${C.RST}${trailTag}  ` +
+      `hold:${C.YEL}${fmtDur(elapsed)}${C.RST}  timeout:${fmtDur(timeout)}`,
       INNER,
     )));
-  } else if (scalpState === 'COOLDOWN') {
-    lines.push(row(padV(`  ${C.DIM}Cooling down ${fmtDur(cdLeft)}...${C.RST}`, INNER)));
-  } else {
+  }
+  const cooling = COINS.filter(c => (cooldowns[c] ?? 0) > Date.now())
+    .map(c => `${c}:${fmtDur(cooldowns[c] - Date.now())}`);
+  if (cooling.length > 0) {
+    lines.push(row(padV(`  ${C.DIM}Cooling down ${cooling.join('  ')}${C.RST}`, INNER)));
+  }
+  if (open.length < MAX_POSITIONS) {
     lines.push(row(padV(`  ${C.DIM}Scanning — need ±${adaptiveParams.momentumPct}% momentum + score≥${adaptiveParams.minScore}...${C.RST}`, INNER)));
   }
 
@@ -905,39 +415,40 @@ async function fetchPrices(session: GDEXSession) {
   for (const coin of COINS) {
     const p = prices[coin];
     if (!p) continue;
-    currentPrices[coin] = p;
-    priceHistory[coin].push({ price: p, ts: now });
-    const cutoff = now - 10 * 60_000;
-    priceHistory[coin] = priceHistory[coin].filter(pt => pt.ts >= cutoff);
+    recordPrice(strategy, coin, p, now);
   }
 }
 
 async function openPosition(session: GDEXSession, coin: string, isLong: boolean, sig: SignalScore) {
-  const price = currentPrices[coin];
+  const price = strategy.currentPrices[coin];
   if (!price) { addLog(`⚠️  No price for ${coin}`); return; }
 
-  const size = calcSize(coin, price);
+  const size = calcSize(strategy, coin, price);
   const notional = parseFloat(size) * price;
 
-  if (notional < 11) {
-    addLog(`⚠️  Notional $${notional.toFixed(2)} < $11 min for ${coin}`);
+  if (notional < MIN_NOTIONAL) {
+    addLog(`⚠️  Notional $${notional.toFixed(2)} < $${MIN_NOTIONAL} min for ${coin}`);
     return;
   }
 
-  const { tpPrice, slPrice, crashSlPrice, method } = calcTpSl(coin, price, isLong);
+  // Re-check the portfolio rules with the real notional and fresh margin figures
+  await getHlPositions();
+  const blocked = entryBlocker(Object.values(positions), cooldowns, account, coin, isLong, notional, Date.now());
+  if (blocked) {
+    addLog(`⏸  Skip ${coin}: ${blocked}`);
+    return;
+  }
+
+  const { tpPrice, slPrice, crashSlPrice, method } = calcTpSl(strategy, coin, price, isLong);
   const dir = isLong ? 'LONG' : 'SHORT';
 
   addLog(`🚀 ${dir} ${coin} @ $${price.toFixed(4)} size:${size} score:${sig.score} (${method})`);
   addLog(`   ${sig.reasons.slice(0, 5).join(' ')}`);
 
-  const result = await placeOrder(
-    session, coin, isLong, price, size, false,
-    '0',
-    crashSlPrice.toFixed(4),
-  );
+  const result = await placeOrder(session, coin, isLong, size, false, crashSlPrice);
 
   if (result.isSuccess) {
-    position = {
+    positions[coin] = {
       coin, isLong, size, entryPrice: price,
       tpPrice, slPrice,
       openedAt: Date.now(),
@@ -945,247 +456,129 @@ async function openPosition(session: GDEXSession, coin: string, isLong: boolean,
       trailActive: false,
       isResumed: false,
     };
-    scalpState = 'IN_POSITION';
-    saveState();
+    journalOpen(positions[coin]);
     addLog(`✅ Entered — TP:$${tpPrice.toFixed(4)} SL:$${slPrice.toFixed(4)}`);
   } else {
     addLog(`❌ Order failed: ${result.error}`);
   }
 }
 
-async function closePosition(session: GDEXSession, reason: 'TP' | 'SL' | 'TRAIL' | 'TIMEOUT') {
-  if (!position) return;
-  const { coin, isLong, size, entryPrice, openedAt } = position;
-  const exitPrice = currentPrices[coin] || entryPrice;
-  const rawPnl = (exitPrice - entryPrice) * parseFloat(size) * (isLong ? 1 : -1);
-  const pnlPct = (rawPnl / (entryPrice * parseFloat(size))) * 100;
-  const duration = fmtDur(Date.now() - openedAt);
+async function closePosition(session: GDEXSession, position: Position, reason: ExitReason) {
+  const { coin, isLong, size, entryPrice } = position;
+  const exitPrice = strategy.currentPrices[coin] || entryPrice;
+  const trade = buildTradeRecord(position, exitPrice, reason, Date.now());
 
-  addLog(`🔒 Closing ${coin} ${reason} exit:$${exitPrice.toFixed(4)} pnl:${rawPnl >= 0 ? '+' : ''}$${rawPnl.toFixed(2)}`);
+  addLog(`🔒 Closing ${coin} ${reason} exit:$${exitPrice.toFixed(4)} pnl:${trade.pnlUsd >= 0 ? '+' : ''}$${trade.pnlUsd.toFixed(2)}`);
 
-  const result = await placeOrder(session, coin, !isLong, exitPrice, size, true);
+  const result = await placeOrder(session, coin, !isLong, size, true);
 
   if (!result.isSuccess) {
     const hlPos = await getHlPosition(coin);
     if (!hlPos) {
       addLog(`ℹ️  Position already closed on HL — reconciling`);
     } else {
-      addLog(`⚠️  Close failed (${result.error}) — trying hlCloseAll`);
-      try { await session.sdk.hyperLiquid.hlCloseAll(session.walletAddress, session.tradingPrivateKey); }
-      catch { /* best effort */ }
+      // hlCloseAll would also flatten the other open positions — retry this coin only
+      addLog(`⚠️  Close failed (${result.error}) — retrying ${coin} at HL size`);
+      const retry = await placeOrder(session, coin, hlPos.szi < 0, Math.abs(hlPos.szi).toString(), true);
+      if (!retry.isSuccess) {
+        addLog(`❌ ${coin} still open (${retry.error}) — will retry next tick`);
+        if (!closeFailAlerted.has(coin)) {
+          closeFailAlerted.add(coin);
+          sendAlert('HL_CLOSE_FAILED', { coin, direction: isLong ? 'LONG' : 'SHORT', reason, error: `${result.error}; retry: ${retry.error}` });
+        }
+        return;
+      }
     }
   }
 
-  tradeHistory.push({
-    coin,
-    direction: isLong ? 'LONG' : 'SHORT',
-    entryPrice,
-    exitPrice,
-    pnlUsd: rawPnl,
-    pnlPct,
-    exitReason: reason,
-    duration,
-    time: new Date().toLocaleTimeString(),
-    date: new Date().toLocaleDateString(),
-  });
+  strategy.tradeHistory.push(trade);
+  delete positions[coin];
+  closeFailAlerted.delete(coin);
+  sendAlert('HL_TRADE_COMPLETE', trade);
 
-  saveTrades();
-  clearState();
-  updateAdaptiveParams(reason);
+  const id = positionIds[coin];
+  delete positionIds[coin];
+  if (id) {
+    journal.applyExit<JournaledPosition>(id, {
+      patch: { status: 'closed', exitPrice, exitTime: new Date().toISOString(), exitReason: reason },
+      fill: { side: 'sell', price: exitPrice, amount: size, value: exitPrice * parseFloat(size), reason },
+      trade: { ...trade, id, exitTime: new Date().toISOString() },
+    });
+  }
+  updateAdaptiveParams(strategy, reason, Date.now());
 
   try {
     hlBalance = await session.sdk.hyperLiquid.getHyperliquidUsdcBalance(custodialAddr) ?? hlBalance;
   } catch { /* non-fatal */ }
 
-  const dynamicCooldown = reason === 'SL'                     ? COOLDOWN_LOSS
-    : reason === 'TP' || reason === 'TRAIL'                   ? COOLDOWN_WIN
-    : COOLDOWN_TO;
-
-  position = null;
-  cooldownUntil = Date.now() + dynamicCooldown;
-  scalpState = 'COOLDOWN';
-  addLog(`✅ Closed. Cooling ${dynamicCooldown / 1000}s (${reason}).`);
+  const dynamicCooldown = cooldownFor(reason);
+  cooldowns[coin] = Date.now() + dynamicCooldown;
+  addLog(`✅ Closed ${coin}. Cooling ${coin} ${dynamicCooldown / 1000}s (${reason}).`);
 }
 
-async function monitorPosition(session: GDEXSession) {
-  if (!position) return;
-  const { coin, isLong, entryPrice, tpPrice, openedAt } = position;
-  const mark = currentPrices[coin];
-  if (!mark) return;
-
-  // Update trailing stop
-  if (isLong) {
-    if (mark > position.trailPeak) position.trailPeak = mark;
-    const peakGain = (position.trailPeak - entryPrice) / entryPrice;
-    if (peakGain >= TRAIL_TRIGGER) {
-      const newSl = position.trailPeak * (1 - TRAIL_DIST);
-      if (newSl > position.slPrice) {
-        if (!position.trailActive) {
-          addLog(`📈 Trail SL activated ${coin} peak:$${position.trailPeak.toFixed(4)}`);
-          position.trailActive = true;
-        } else {
-          addLog(`📈 Trail SL ${coin}: $${position.slPrice.toFixed(4)} → $${newSl.toFixed(4)}`);
-        }
-        position.slPrice = newSl;
-        saveState();
-      }
-    }
-  } else {
-    if (mark < position.trailPeak) position.trailPeak = mark;
-    const peakGain = (entryPrice - position.trailPeak) / entryPrice;
-    if (peakGain >= TRAIL_TRIGGER) {
-      const newSl = position.trailPeak * (1 + TRAIL_DIST);
-      if (newSl < position.slPrice) {
-        if (!position.trailActive) {
-          addLog(`📉 Trail SL activated ${coin} peak:$${position.trailPeak.toFixed(4)}`);
-          position.trailActive = true;
-        } else {
-          addLog(`📉 Trail SL ${coin}: $${position.slPrice.toFixed(4)} → $${newSl.toFixed(4)}`);
-        }
-        position.slPrice = newSl;
-        saveState();
-      }
-    }
-  }
+async function monitorPositions(session: GDEXSession) {
+  for (const position of Object.values(positions)) {
+    const mark = strategy.currentPrices[position.coin];
+    if (!mark) continue;
 
-  const slPrice = position.slPrice;
-  const exitReason = position.trailActive ? 'TRAIL' : 'SL';
-
-  if (isLong && mark >= tpPrice) {
-    addLog(`🎯 TP hit ${coin}: $${mark.toFixed(4)} ≥ $${tpPrice.toFixed(4)}`);
-    await closePosition(session, 'TP');
-  } else if (isLong && mark <= slPrice) {
-    addLog(`🛑 ${exitReason} hit ${coin}: $${mark.toFixed(4)} ≤ $${slPrice.toFixed(4)}`);
-    await closePosition(session, exitReason);
-  } else if (!isLong && mark <= tpPrice) {
-    addLog(`🎯 TP hit ${coin}: $${mark.toFixed(4)} ≤ $${tpPrice.toFixed(4)}`);
-    await closePosition(session, 'TP');
-  } else if (!isLong && mark >= slPrice) {
-    addLog(`🛑 ${exitReason} hit ${coin}: $${mark.toFixed(4)} ≥ $${slPrice.toFixed(4)}`);
-    await closePosition(session, exitReason);
-  } else if (Date.now() - openedAt >= MAX_HOLD_MS) {
-    addLog(`⏰ Timeout ${coin} — closing`);
-    await closePosition(session, 'TIMEOUT');
+    if (updateTrailingStop(strategy, position, mark)) savePosition(position);
+
+    const exitReason = checkExit(strategy, position, mark, Date.now());
+    if (exitReason) await closePosition(session, position, exitReason);
   }
 }
 
 async function scanSignals(session: GDEXSession) {
-  if (scalpState !== 'SCANNING') return;
+  const open = Object.values(positions);
+  if (open.length >= MAX_POSITIONS) return;
 
-  // Need at least 3 price points to have a meaningful 5-min window
-  const ready = COINS.some(c => (priceHistory[c] || []).filter(p => p.ts >= Date.now() - MOMENTUM_WIN).length >= 3);
-  if (!ready) {
-    addLog(`📡 Building price history...`);
-    return;
-  }
+  // Pre-filter with the target notional; openPosition re-checks with the rounded size
+  const now = Date.now();
+  const entry = pickSignal(strategy, COINS, now,
+    (coin, isLong) => !entryBlocker(open, cooldowns, account, coin, isLong, TRADE_USD, now));
+  if (entry) await openPosition(session, entry.coin, entry.isLong, entry.sig);
+}
 
-  // Compute + cache scores for all coins (for display even when not entering)
-  let bestCoin = '';
-  let bestScore = -Infinity;
-  let bestMom = 0;
-  let bestSig: SignalScore | null = null;
+// ─── Resume from saved state ──────────────────────────────────────────────────
 
-  let activeMomThresh = adaptiveParams.momentumPct;
-  let activeMinScore  = adaptiveParams.minScore;
+async function resumeFromState(): Promise<number> {
+  const saved = loadSavedPositions();
+  if (saved.length === 0) return 0;
 
-  // ── RSI Extreme Override ────────────────────────────────────────────────────
-  // When market is deeply oversold/overbought, any uptick is a valid entry.
-  // Drop momentum gate to 0.5% and reduce min score by 8.
-  let rsiExtremeMode = false;
-  let rsiExtremeDir = '';
-  for (const coin of COINS) {
-    const cache = candleCache[coin];
-    if (!cache || cache.m1.length < RSI_PERIOD + 1) continue;
-    const rsi = calcRSI(cache.m1);
-    if (rsi < 25) {
-      rsiExtremeMode = true;
-      rsiExtremeDir = 'OS';  // oversold — looking for longs
-      break;
-    }
-    if (rsi > 75) {
-      rsiExtremeMode = true;
-      rsiExtremeDir = 'OB';  // overbought — looking for shorts
-      break;
-    }
-  }
-  if (rsiExtremeMode) {
-    activeMomThresh = Math.min(activeMomThresh, 0.5);  // only 0.5% needed
-    activeMinScore  = Math.max(activeMinScore - 8, ADAPT_SCORE_FLOOR);
-    addLog(`⚡ RSI Extreme(${rsiExtremeDir}): mom≥0.5% score≥${activeMinScore}`);
+  addLog(`🔄 Found ${saved.length} saved position(s) — verifying ${saved.map(p => p.coin).join('/')} on HL...`);
+  const hlPositions = await getHlPositions();
+  if (!hlPositions) {
+    addLog(`⚠️  Could not reach HL — keeping saved state for next start`);
+    return 0;
   }
 
-  for (const coin of COINS) {
-    const mom = momentum5m(coin);
-    if (Math.abs(mom) < activeMomThresh) {
-      // Below threshold — still compute score for display
-      const sig = scoreSignal(coin, mom >= 0, mom);
-      cachedScores[coin] = { ...sig, isLong: mom >= 0 };
-      continue;
-    }
-    // In RSI extreme oversold mode, only look for longs; overbought → only shorts
-    if (rsiExtremeMode && rsiExtremeDir === 'OS' && mom < 0) {
-      const sig = scoreSignal(coin, false, mom);
-      cachedScores[coin] = { ...sig, isLong: false };
-      continue;
-    }
-    if (rsiExtremeMode && rsiExtremeDir === 'OB' && mom > 0) {
-      const sig = scoreSignal(coin, true, mom);
-      cachedScores[coin] = { ...sig, isLong: true };
+  let resumed = 0;
+  for (const pos of saved) {
+    const hlPos = hlPositions[pos.coin];
+    if (!hlPos) {
+      addLog(`ℹ️  Saved ${pos.coin} position gone on HL — discarding`);
+      journal.patchPosition<JournaledPosition>(positionIds[pos.coin], { status: 'closed', exitTime: new Date().toISOString() });
+      delete positionIds[pos.coin];
       continue;
     }
-    const isLong = mom > 0;
-    const sig = scoreSignal(coin, isLong, mom);
-    cachedScores[coin] = { ...sig, isLong };
-
-    if (sig.score > bestScore) {
-      bestScore = sig.score;
-      bestCoin = coin;
-      bestMom = mom;
-      bestSig = sig;
-    }
-  }
-
-  if (bestCoin && bestSig) {
-    if (bestScore >= activeMinScore) {
-      const isLong = bestMom > 0;
-      const tag = rsiExtremeMode ? ` [RSI-extreme:${rsiExtremeDir}]` : '';
-      addLog(`📊 Best: ${bestCoin} score:${bestScore} ${isLong ? 'LONG' : 'SHORT'} mom:${bestMom.toFixed(2)}%${tag}`);
-      await openPosition(session, bestCoin, isLong, bestSig);
-    } else {
-      addLog(`📊 Below score (best:${bestCoin} ${bestScore}<${activeMinScore}) — ${bestSig.reasons.slice(0, 3).join(' ')}`);
-    }
-  }
-}
 
-// ─── Resume from saved state ──────────────────────────────────────────────────
+    const isLong = hlPos.szi > 0;
+    pos.size = Math.abs(hlPos.szi).toString();
+    pos.entryPrice = hlPos.entryPx;
+    pos.isLong = isLong;
+    pos.tpPrice = isLong ? hlPos.entryPx * (1 + TP_PCT) : hlPos.entryPx * (1 - TP_PCT);
+    pos.slPrice = isLong ? hlPos.entryPx * (1 - SL_PCT) : hlPos.entryPx * (1 + SL_PCT);
+    pos.trailPeak = strategy.currentPrices[pos.coin] || hlPos.entryPx;
+    pos.trailActive = false;
+    pos.isResumed = true;
 
-async function resumeFromState(): Promise<boolean> {
-  const saved = loadSavedPosition();
-  if (!saved) return false;
-
-  addLog(`🔄 Found saved state — verifying ${saved.coin} on HL...`);
-  const hlPos = await getHlPosition(saved.coin);
-
-  if (!hlPos) {
-    addLog(`ℹ️  Saved ${saved.coin} position gone on HL — discarding`);
-    clearState();
-    return false;
+    positions[pos.coin] = pos;
+    savePosition(pos);
+    resumed++;
+    addLog(`✅ Resumed ${isLong ? 'LONG' : 'SHORT'} ${pos.coin} @ $${hlPos.entryPx.toFixed(4)} sz:${pos.size}`);
   }
 
-  const isLong = hlPos.szi > 0;
-  saved.size = Math.abs(hlPos.szi).toString();
-  saved.entryPrice = hlPos.entryPx;
-  saved.isLong = isLong;
-  saved.tpPrice = isLong ? hlPos.entryPx * (1 + TP_PCT) : hlPos.entryPx * (1 - TP_PCT);
-  saved.slPrice = isLong ? hlPos.entryPx * (1 - SL_PCT) : hlPos.entryPx * (1 + SL_PCT);
-  saved.trailPeak = currentPrices[saved.coin] || hlPos.entryPx;
-  saved.trailActive = false;
-  saved.isResumed = true;
-
-  position = saved;
-  scalpState = 'IN_POSITION';
-  addLog(`✅ Resumed ${isLong ? 'LONG' : 'SHORT'} ${saved.coin} @ $${hlPos.entryPx.toFixed(4)} sz:${saved.size}`);
-  return true;
+  return resumed;
 }
 
 // ─── Main ─────────────────────────────────────────────────────────────────────
@@ -1201,22 +594,29 @@ async function main() {
   process.on('SIGINT', cleanup);
   process.on('SIGTERM', cleanup);
 
+  journal = openJournal();
+  const migrated = migrateJsonLogs(journal);
   loadTrades();
+  if (migrated.files.length > 0) addLog(`📂 Imported ${migrated.trades} trades from old JSON logs into ${journal.file}`);
+
+  const notifyConfig = loadNotifyConfig();
+  if (notifyConfig) {
+    notifier = createNotifier(notifyConfig, (msg) => addLog(`🔔 ${msg}`));
+    addLog(`🔔 Alerts → ${notifier.channels().join(', ')}`);
+  }
 
   addLog('🔐 Authenticating...');
   render();
 
-  let session: GDEXSession;
-  try {
-    session = await createAuthenticatedSession({ chainId: 622112261 });
-  } catch {
-    session = await createAuthenticatedSession({ chainId: 42161 });
-  }
+  // Solana login first, Arbitrum as fallback; re-logged in before the server TTL
+  const sessions = createSessionManager({ chainIds: [622112261, 42161] });
+  sessions.on('refresh', (e) => { if (e.reason !== 'start') addLog(`🔐 Session refreshed (${e.reason})`); });
+  sessions.on('refresh-error', (err) => addLog(`⚠️  Session refresh failed: ${err.message}`));
+  let session: GDEXSession = await sessions.start();
 
-  // Get custodial address
+  // HL custodial address — same login, viewed on Arbitrum
   try {
-    const ui = await session.sdk.user.getUserInfo(session.walletAddress, session.encryptedSessionKey, 42161);
-    custodialAddr = ui?.address?.toLowerCase() || HL_CUSTODIAL;
+    custodialAddr = (await sessions.get(42161)).custodialAddress?.toLowerCase() || HL_CUSTODIAL;
   } catch { custodialAddr = HL_CUSTODIAL; }
 
   addLog(`✅ Auth OK  wallet:${session.walletAddress.slice(0, 10)}...  custodial:${custodialAddr.slice(0, 10)}...`);
@@ -1237,7 +637,18 @@ async function main() {
     return;
   }
 
-  addLog(`📡 v3 starting... ${COINS.join('/')}  score≥${adaptiveParams.minScore}  scan:${SCAN_MS / 1000}s  mon:${MONITOR_MS / 1000}s`);
+  // Lot sizes — without them calcSize can't size an order
+  try {
+    strategy.assetMeta = await getMeta();
+  } catch (e: any) {
+    addLog(`❌ HL meta fetch failed: ${e.message}`);
+    render();
+    await new Promise(r => setTimeout(r, 5000));
+    cleanup();
+    return;
+  }
+
+  addLog(`📡 v3 starting... ${COINS.join('/')}  score≥${strategy.adaptiveParams.minScore}  scan:${SCAN_MS / 1000}s  mon:${MONITOR_MS / 1000}s`);
 
   // Initial data fetch
   await Promise.allSettled([
@@ -1246,12 +657,13 @@ async function main() {
     refreshFundingRates(),
   ]);
 
+  const { currentPrices, tradeHistory } = strategy;
   addLog(`📈 BTC:$${currentPrices.BTC?.toFixed(0)} ETH:$${currentPrices.ETH?.toFixed(0)} SOL:$${currentPrices.SOL?.toFixed(2)}`);
-  const candleCount = Object.keys(candleCache).length;
-  const fundCount = Object.keys(fundingRates).length;
+  const candleCount = Object.keys(strategy.candleCache).length;
+  const fundCount = Object.keys(strategy.fundingRates).length;
   addLog(`📊 Candles: ${candleCount}/${COINS.length} coins  Funding: ${fundCount} assets`);
 
-  // Check for saved position
+  // Check for saved positions
   await resumeFromState();
 
   if (tradeHistory.length > 0) {
@@ -1261,36 +673,41 @@ async function main() {
     // Bootstrap adaptive params from past trade history
     if (tradeHistory.length >= 2) {
       const lastExit = tradeHistory[tradeHistory.length - 1].exitReason;
-      updateAdaptiveParams(lastExit);
+      updateAdaptiveParams(strategy, lastExit, Date.now());
     }
   }
 
   render();
 
   // ── Main poll loop ──────────────────────────────────────────────────────────
+  // Open positions are monitored every MONITOR_MS; free slots are scanned every SCAN_MS.
+  const getInterval = () => Object.keys(positions).length > 0 ? MONITOR_MS : SCAN_MS;
+
   const runLoop = async () => {
-    const curInterval = scalpState === 'IN_POSITION' ? MONITOR_MS
-      : scalpState === 'SCANNING' ? SCAN_MS : POLL_MS;
-    nextPollAt = Date.now() + curInterval;
+    const now = Date.now();
+    nextPollAt = now + getInterval();
 
+    try { session = await sessions.get(); } catch { /* keep the last session */ }
     try { await fetchPrices(session); } catch { /* non-fatal */ }
 
-    // Refresh candle + funding data in background on every price poll
-    if (scalpState !== 'IN_POSITION') {
+    await monitorPositions(session);
+
+    for (const coin of Object.keys(cooldowns)) {
+      if (cooldowns[coin] <= Date.now()) {
+        delete cooldowns[coin];
+        addLog(`🔄 ${coin} cooldown over — scanning`);
+      }
+    }
+
+    const slotsFree = Object.keys(positions).length < MAX_POSITIONS;
+    if (slotsFree && now >= nextScanAt) {
+      nextScanAt = now + SCAN_MS;
+      // Refresh candle + funding data in background on every scan
       Promise.allSettled([
         refreshCandleCache(),
         refreshFundingRates(),
+        getHlPositions(),
       ]).catch(() => {});
-    }
-
-    if (scalpState === 'IN_POSITION') {
-      await monitorPosition(session);
-    } else if (scalpState === 'COOLDOWN') {
-      if (Date.now() >= cooldownUntil) {
-        scalpState = 'SCANNING';
-        addLog('🔄 Cooldown over — scanning');
-      }
-    } else {
       await scanSignals(session);
     }
 
@@ -1299,10 +716,6 @@ async function main() {
 
   await runLoop();
 
-  const getInterval = () =>
-    scalpState === 'IN_POSITION' ? MONITOR_MS :
-    scalpState === 'SCANNING'    ? SCAN_MS    : POLL_MS;
-
   const schedulePoll = () => {
     setTimeout(async () => {
       await runLoop();
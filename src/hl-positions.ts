@@ -1,5 +1,6 @@
 import { createAuthenticatedSession } from './auth';
 import { loadConfig } from './config';
+import { getClearinghouseState, getOpenOrders } from './hyperliquid';
 
 async function checkHLPositions() {
   console.log('📊 HyperLiquid Positions & P&L Monitor\n');
@@ -45,12 +46,7 @@ async function checkHLPositions() {
   console.log('\n[4/4] 📈 Fetching positions and P&L...\n');
 
   try {
-    const state = await session.sdk.hyperLiquid.getHyperliquidClearinghouseState(custodialAddress);
-
-    if (!state) {
-      console.log('   No positions or account data found');
-      return;
-    }
+    const state = await getClearinghouseState(custodialAddress);
 
     // Account summary
     console.log('\n' + '='.repeat(70));
@@ -58,35 +54,27 @@ async function checkHLPositions() {
     console.log('='.repeat(70));
 
     const summary = state.crossMarginSummary;
-    console.log(`\n   Account Value:       $${parseFloat(summary.accountValue || '0').toFixed(2)}`);
-    console.log(`   Total Margin Used:   $${parseFloat(summary.totalMarginUsed || '0').toFixed(2)}`);
-    console.log(`   Total Position Value: $${parseFloat(summary.totalNtlPos || '0').toFixed(2)}`);
-    console.log(`   Withdrawable:        $${parseFloat(state.withdrawable || '0').toFixed(2)}`);
+    console.log(`\n   Account Value:       $${summary.accountValue.toFixed(2)}`);
+    console.log(`   Total Margin Used:   $${summary.totalMarginUsed.toFixed(2)}`);
+    console.log(`   Total Position Value: $${summary.totalNtlPos.toFixed(2)}`);
+    console.log(`   Withdrawable:        $${state.withdrawable.toFixed(2)}`);
 
     // Positions
     console.log('\n' + '='.repeat(70));
     console.log('📊 OPEN POSITIONS');
     console.log('='.repeat(70));
 
-    const positions = state.assetPositions;
+    const positions = state.positions;
 
-    if (!positions || positions.length === 0) {
+    if (positions.length === 0) {
       console.log('\n   No open positions');
     } else {
       console.log(`\n   Found ${positions.length} position(s):\n`);
 
-      for (const pos of positions) {
-        const position = pos.position;
-
-        const szi = parseFloat(position.szi);
-        const isLong = szi > 0;
-        const size = Math.abs(szi);
-        const entryPrice = parseFloat(position.entryPx);
-        const unrealizedPnl = parseFloat(position.unrealizedPnl);
-        const leverage = position.leverage?.value || position.leverage;
-        const liquidationPx = parseFloat(position.liquidationPx || '0');
-        const marginUsed = parseFloat(position.marginUsed);
-        const positionValue = parseFloat(position.positionValue);
+      for (const position of positions) {
+        const { isLong, size, unrealizedPnl, leverage, marginUsed, positionValue } = position;
+        const entryPrice = position.entryPx;
+        const liquidationPx = position.liquidationPx ?? 0;
 
         console.log(`   ┌─ ${position.coin} ${isLong ? '🟢 LONG' : '🔴 SHORT'}`);
         console.log(`   │  Size:             ${size.toFixed(4)} ${position.coin}`);
@@ -108,7 +96,7 @@ async function checkHLPositions() {
       }
 
       // Total P&L
-      const totalPnl = positions.reduce((sum, p) => sum + parseFloat(p.position.unrealizedPnl), 0);
+      const totalPnl = positions.reduce((sum, p) => sum + p.unrealizedPnl, 0);
       const pnlColor = totalPnl >= 0 ? '🟢' : '🔴';
       const pnlSign = totalPnl >= 0 ? '+' : '';
 
@@ -121,22 +109,22 @@ async function checkHLPositions() {
     console.log('📝 OPEN ORDERS');
     console.log('='.repeat(70));
 
-    const orders = await session.sdk.hyperLiquid.getHyperliquidOpenOrders(custodialAddress);
+    const orders = await getOpenOrders(custodialAddress);
 
-    if (!orders || orders.length === 0) {
+    if (orders.length === 0) {
       console.log('\n   No open orders');
     } else {
       console.log(`\n   Found ${orders.length} open order(s):\n`);
 
       for (const order of orders) {
-        const side = order.side === 'B' ? '🟢 BUY' : '🔴 SELL';
+        const side = order.isBuy ? '🟢 BUY' : '🔴 SELL';
         const orderType = order.orderType || (order.limitPx ? 'Limit' : 'Market');
 
         console.log(`   ┌─ ${order.coin} ${side} (${orderType})`);
         console.log(`   │  Order ID:   ${order.oid}`);
         console.log(`   │  Size:       ${order.sz} ${order.coin}`);
         if (order.limitPx) {
-          console.log(`   │  Limit Price: $${parseFloat(order.limitPx).toLocaleString()}`);
+          console.log(`   │  Limit Price: $${order.limitPx.toLocaleString()}`);
         }
         console.log(`   │  Timestamp:  ${new Date(order.timestamp).toLocaleString()}`);
         console.log(`   └─`);
@@ -0,0 +1,791 @@
+/**
+ * HL scalper strategy core — signal scoring, TP/SL sizing, trailing stop,
+ * timeout and adaptive-parameter logic shared by the live scalper
+ * (hl-momentum-scalper.ts) and the offline backtester (hl-backtest.ts).
+ *
+ * Nothing in here talks to the network or reads the wall clock: every
+ * function takes a ScalperState and an explicit `now` so the same code can
+ * be driven by Date.now() live or by a simulated clock in a replay.
+ */
+
+import { Candle, AssetMeta, formatSize } from './hyperliquid';
+
+export type { Candle } from './hyperliquid';
+
+// ─── Config ───────────────────────────────────────────────────────────────────
+
+export const COINS         = ['BTC', 'ETH', 'SOL', 'DOGE', 'WIF'];  // swapped AVAX→WIF (WIF 4x more volatile on %)
+export const TRADE_USD     = 11.5;    // ~$11.50 notional per trade
+export const TP_PCT        = 0.03;    // fallback TP if ATR unavailable
+export const SL_PCT        = 0.015;   // fallback SL if ATR unavailable
+export const CRASH_SL_PCT  = 0.025;   // exchange-level crash protection SL
+export const TRAIL_TRIGGER = 0.015;   // start trailing after +1.5% profit
+export const TRAIL_DIST    = 0.010;   // trail SL 1% behind peak
+export const MOMENTUM_PCT  = 1.0;     // 5-min % change required (adaptive baseline; was 1.2)
+export const MOMENTUM_WIN  = 5 * 60_000;
+export const SCAN_MS       = 15_000;  // 15s price poll while scanning (was 30s)
+export const POLL_MS       = 30_000;  // 30s price poll during cooldown
+export const MONITOR_MS    = 3_000;   // 3s position check
+export const MAX_HOLD_MS   = 10 * 60_000;
+export const COOLDOWN_WIN  = 50_000;  // cooldown after win (dynamic)
+export const COOLDOWN_LOSS = 120_000; // cooldown after loss (dynamic)
+export const COOLDOWN_TO   = 75_000;  // cooldown after timeout (dynamic)
+export const MIN_NOTIONAL  = 11;      // HL rejects orders under ~$10 notional
+
+// Portfolio limits (multi-position)
+export const MAX_POSITIONS        = 3;    // concurrent positions across COINS
+export const MAX_ACCOUNT_LEVERAGE = 3;    // total open notional ≤ 3x account value
+// Coins that move together — never hold two of a group in the same direction
+export const CORRELATED_GROUPS: string[][] = [['BTC', 'ETH']];
+
+// Signal scoring — adaptive baseline (range 44–70)
+export const MIN_SCORE     = 58;      // adaptive baseline; v2 was 52 (new EMA/accel components added)
+
+// ATR-based dynamic TP/SL — adaptive baselines
+export const ATR_PERIOD    = 14;
+export const ATR_TP_MULT   = 2.5;    // adaptive baseline TP multiplier
+export const ATR_SL_MULT   = 1.0;    // adaptive baseline SL multiplier
+
+// Adaptive parameter bounds
+export const ADAPT_WINDOW       = 8;    // rolling window of trades to evaluate
+export const ADAPT_SCORE_FLOOR  = 44;
+export const ADAPT_SCORE_CEIL   = 70;
+export const ADAPT_MOM_FLOOR    = 0.7;
+export const ADAPT_MOM_CEIL     = 2.2;
+export const ADAPT_TP_FLOOR     = 1.5;
+export const ADAPT_TP_CEIL      = 4.5;
+export const ADAPT_SL_FLOOR     = 0.6;
+export const ADAPT_SL_CEIL      = 2.0;
+
+// RSI filter thresholds
+export const RSI_PERIOD    = 14;      // RSI lookback period
+export const RSI_OB        = 70;      // overbought — avoid longs
+export const RSI_OS        = 30;      // oversold — avoid shorts
+
+// Volume confirmation
+export const VOL_SPIKE_MULT = 1.2;   // last candle volume must be ≥ 1.2x rolling avg
+
+// Funding rate filter (basis points per 8h)
+export const MAX_FUND_BPS  = 2.5;    // 2.5 bps = 0.025% per 8h
+
+// Candle / funding refresh cadence
+export const CANDLE_STALE_MS    = 90_000;      // consider candle cache stale after 90s
+export const FUNDING_REFRESH_MS = 5 * 60_000;
+export const PRICE_HISTORY_MS   = 10 * 60_000; // how much tick history to keep per coin
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type ExitReason = 'TP' | 'SL' | 'TRAIL' | 'TIMEOUT';
+
+export interface PricePoint { price: number; ts: number; }
+
+export interface Position {
+  coin: string;
+  isLong: boolean;
+  size: string;
+  entryPrice: number;
+  tpPrice: number;
+  slPrice: number;
+  openedAt: number;
+  trailPeak: number;
+  trailActive: boolean;
+  isResumed: boolean;
+}
+
+export interface TradeRecord {
+  coin: string;
+  direction: 'LONG' | 'SHORT';
+  entryPrice: number;
+  exitPrice: number;
+  pnlUsd: number;
+  pnlPct: number;
+  exitReason: ExitReason;
+  duration: string;
+  time: string;
+  date: string;
+}
+
+export interface CandleCache {
+  m1: Candle[];
+  m15: Candle[];
+  ts: number;  // when cached
+}
+
+export interface SignalScore {
+  score: number;
+  reasons: string[];
+  rsi: number;
+  atr: number;
+  atrPct: number;
+  volSpike: boolean;
+  mom15m: number;
+  funding: number;
+}
+
+export interface AdaptiveParams {
+  minScore: number;
+  momentumPct: number;
+  atrTpMult: number;
+  atrSlMult: number;
+  lastUpdate: number;
+  reason: string;
+}
+
+/** Everything the strategy reads or mutates between ticks. */
+export interface ScalperState {
+  priceHistory: Record<string, PricePoint[]>;
+  currentPrices: Record<string, number>;
+  candleCache: Record<string, CandleCache>;
+  /** coin → rate as decimal (0.0001 = 0.01%) */
+  fundingRates: Record<string, number>;
+  cachedScores: Record<string, SignalScore & { isLong: boolean }>;
+  adaptiveParams: AdaptiveParams;
+  tradeHistory: TradeRecord[];
+  /** Perp metadata (szDecimals) by coin — loaded from HL meta by the caller */
+  assetMeta: Record<string, AssetMeta>;
+  /** Receives the same status lines the live dashboard shows */
+  log: (msg: string) => void;
+}
+
+/** Margin figures from HL clearinghouseState (or the backtest's simulated equity). */
+export interface AccountSnapshot {
+  accountValue: number;
+  totalNtlPos: number;
+  withdrawable: number;
+}
+
+/** Entry picked by pickSignal() — caller is responsible for placing the order. */
+export interface EntrySignal {
+  coin: string;
+  isLong: boolean;
+  mom: number;
+  sig: SignalScore;
+}
+
+// ─── State ────────────────────────────────────────────────────────────────────
+
+export function createScalperState(
+  coins: string[] = COINS,
+  log: (msg: string) => void = () => {},
+): ScalperState {
+  return {
+    priceHistory: Object.fromEntries(coins.map(c => [c, []])),
+    currentPrices: {},
+    candleCache: {},
+    fundingRates: {},
+    cachedScores: {},
+    adaptiveParams: {
+      minScore:    MIN_SCORE,
+      momentumPct: MOMENTUM_PCT,
+      atrTpMult:   ATR_TP_MULT,
+      atrSlMult:   ATR_SL_MULT,
+      lastUpdate:  0,
+      reason:      'init',
+    },
+    tradeHistory: [],
+    assetMeta: {},
+    log,
+  };
+}
+
+/** Record a mark price tick and trim history older than PRICE_HISTORY_MS. */
+export function recordPrice(state: ScalperState, coin: string, price: number, now: number): void {
+  state.currentPrices[coin] = price;
+  const hist = state.priceHistory[coin] ?? (state.priceHistory[coin] = []);
+  hist.push({ price, ts: now });
+  const cutoff = now - PRICE_HISTORY_MS;
+  state.priceHistory[coin] = hist.filter(pt => pt.ts >= cutoff);
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+export function clamp(v: number, lo: number, hi: number): number {
+  return Math.max(lo, Math.min(hi, v));
+}
+
+export function fmtDur(ms: number): string {
+  const s = Math.floor(Math.abs(ms) / 1000);
+  if (s < 60) return `${s}s`;
+  return `${Math.floor(s / 60)}m${s % 60}s`;
+}
+
+export function momentum5m(state: ScalperState, coin: string, now: number): number {
+  const hist = state.priceHistory[coin] || [];
+  const cutoff = now - MOMENTUM_WIN;
+  const recent = hist.filter(p => p.ts >= cutoff);
+  const current = state.currentPrices[coin];
+  if (!current || recent.length === 0) return 0;
+  const oldest = recent[0].price;
+  return ((current - oldest) / oldest) * 100;
+}
+
+// ─── Adaptive params ──────────────────────────────────────────────────────────
+
+export function updateAdaptiveParams(state: ScalperState, exitReason: ExitReason, now: number) {
+  const { adaptiveParams } = state;
+  const window = state.tradeHistory.slice(-ADAPT_WINDOW);
+  if (window.length < 2) return; // need 2+ trades to adapt
+
+  const n = window.length;
+  const wins      = window.filter(t => t.pnlUsd > 0).length;
+  const slHits    = window.filter(t => t.exitReason === 'SL').length;
+  const tpHits    = window.filter(t => t.exitReason === 'TP' || t.exitReason === 'TRAIL').length;
+  const timeouts  = window.filter(t => t.exitReason === 'TIMEOUT').length;
+
+  const winRate     = wins / n;
+  const slRate      = slHits / n;
+  const tpRate      = tpHits / n;
+  const timeoutRate = timeouts / n;
+
+  let { minScore, momentumPct, atrTpMult, atrSlMult } = adaptiveParams;
+  const changes: string[] = [];
+
+  // ── Entry threshold: tighten on losses, loosen on wins ──────────────────
+  if (winRate >= 0.7) {
+    minScore    = clamp(minScore - 2, ADAPT_SCORE_FLOOR, ADAPT_SCORE_CEIL);
+    momentumPct = clamp(momentumPct - 0.1, ADAPT_MOM_FLOOR, ADAPT_MOM_CEIL);
+    changes.push(`wr:${(winRate * 100).toFixed(0)}%↓score`);
+  } else if (winRate <= 0.3) {
+    minScore    = clamp(minScore + 4, ADAPT_SCORE_FLOOR, ADAPT_SCORE_CEIL);
+    momentumPct = clamp(momentumPct + 0.15, ADAPT_MOM_FLOOR, ADAPT_MOM_CEIL);
+    changes.push(`wr:${(winRate * 100).toFixed(0)}%↑score`);
+  } else if (winRate <= 0.45) {
+    minScore    = clamp(minScore + 2, ADAPT_SCORE_FLOOR, ADAPT_SCORE_CEIL);
+    changes.push(`wr:${(winRate * 100).toFixed(0)}%↑score`);
+  }
+
+  // ── SL multiplier: widen if being stopped out too often ──────────────────
+  if (slRate >= 0.6) {
+    atrSlMult = clamp(atrSlMult + 0.15, ADAPT_SL_FLOOR, ADAPT_SL_CEIL);
+    changes.push(`sl:${(slRate * 100).toFixed(0)}%↑slMult`);
+  } else if (slRate <= 0.2 && tpRate >= 0.5) {
+    atrSlMult = clamp(atrSlMult - 0.05, ADAPT_SL_FLOOR, ADAPT_SL_CEIL);
+    changes.push(`sl:low↓slMult`);
+  }
+
+  // ── TP multiplier: bring in if too many timeouts; extend if TPs hit often ─
+  if (timeoutRate >= 0.5) {
+    atrTpMult = clamp(atrTpMult - 0.2, ADAPT_TP_FLOOR, ADAPT_TP_CEIL);
+    changes.push(`to:${(timeoutRate * 100).toFixed(0)}%↓tpMult`);
+  } else if (tpRate >= 0.65 && timeoutRate < 0.15) {
+    atrTpMult = clamp(atrTpMult + 0.15, ADAPT_TP_FLOOR, ADAPT_TP_CEIL);
+    changes.push(`tp:${(tpRate * 100).toFixed(0)}%↑tpMult`);
+  }
+
+  // ── Per-exit micro-adjustment ─────────────────────────────────────────────
+  if (exitReason === 'SL') {
+    minScore = clamp(minScore + 1, ADAPT_SCORE_FLOOR, ADAPT_SCORE_CEIL);
+  } else if (exitReason === 'TP' || exitReason === 'TRAIL') {
+    minScore = clamp(minScore - 1, ADAPT_SCORE_FLOOR, ADAPT_SCORE_CEIL);
+  }
+
+  adaptiveParams.minScore    = Math.round(minScore);
+  adaptiveParams.momentumPct = Math.round(momentumPct * 10) / 10;
+  adaptiveParams.atrTpMult   = Math.round(atrTpMult * 10) / 10;
+  adaptiveParams.atrSlMult   = Math.round(atrSlMult * 10) / 10;
+  adaptiveParams.lastUpdate  = now;
+  adaptiveParams.reason      = changes.join(' ') || 'stable';
+
+  if (changes.length > 0) {
+    state.log(`🧠 Adapt: score≥${adaptiveParams.minScore} mom≥${adaptiveParams.momentumPct}% TP:${adaptiveParams.atrTpMult}x SL:${adaptiveParams.atrSlMult}x`);
+  }
+}
+
+// ─── Technical Indicators ─────────────────────────────────────────────────────
+
+export function calcRSI(candles: Candle[], period = RSI_PERIOD): number {
+  const closes = candles.map(c => parseFloat(c.c)).filter(v => !isNaN(v));
+  if (closes.length < period + 1) return 50; // neutral fallback
+  let gains = 0, losses = 0;
+  for (let i = closes.length - period; i < closes.length; i++) {
+    const diff = closes[i] - closes[i - 1];
+    if (diff > 0) gains += diff;
+    else losses -= diff;
+  }
+  const avgG = gains / period;
+  const avgL = losses / period;
+  if (avgL === 0) return 100;
+  return 100 - (100 / (1 + avgG / avgL));
+}
+
+export function calcATR(candles: Candle[], period = ATR_PERIOD): number {
+  if (candles.length < period + 1) return 0;
+  const trs: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    const h = parseFloat(candles[i].h);
+    const l = parseFloat(candles[i].l);
+    const pc = parseFloat(candles[i - 1].c);
+    if (isNaN(h) || isNaN(l) || isNaN(pc)) continue;
+    trs.push(Math.max(h - l, Math.abs(h - pc), Math.abs(l - pc)));
+  }
+  const recent = trs.slice(-period);
+  if (recent.length === 0) return 0;
+  return recent.reduce((a, b) => a + b, 0) / recent.length;
+}
+
+export function calcEMAValues(candles: Candle[], period: number): number[] {
+  const closes = candles.map(c => parseFloat(c.c)).filter(v => !isNaN(v));
+  if (closes.length < period) return [];
+  const k = 2 / (period + 1);
+  const emas: number[] = [closes[0]];
+  for (let i = 1; i < closes.length; i++) {
+    emas.push(closes[i] * k + emas[i - 1] * (1 - k));
+  }
+  return emas;
+}
+
+/** Momentum of last ~1h using 15m candles */
+export function calc15mMom(candles: Candle[]): number {
+  if (candles.length < 4) return 0;
+  const recent = candles.slice(-4); // 4 × 15m = 1h lookback
+  const first = parseFloat(recent[0].o);
+  const last = parseFloat(recent[recent.length - 1].c);
+  if (isNaN(first) || isNaN(last) || first === 0) return 0;
+  return ((last - first) / first) * 100;
+}
+
+export function isVolSpike(candles: Candle[]): boolean {
+  if (candles.length < 5) return false;
+  const vols = candles.map(c => parseFloat(c.v)).filter(v => !isNaN(v));
+  if (vols.length < 3) return false;
+  const lastVol = vols[vols.length - 1];
+  const prevVols = vols.slice(-Math.min(10, vols.length - 1), -1);
+  if (prevVols.length === 0) return false;
+  const avgVol = prevVols.reduce((a, b) => a + b, 0) / prevVols.length;
+  return avgVol > 0 && lastVol >= avgVol * VOL_SPIKE_MULT;
+}
+
+// ─── Signal Scoring ───────────────────────────────────────────────────────────
+
+/**
+ * Composite signal score (max 121, see header of hl-momentum-scalper.ts).
+ * MIN_SCORE requires at least strong momentum + 15m alignment,
+ * or strong momentum + good RSI + volume spike.
+ */
+export function scoreSignal(
+  state: ScalperState,
+  coin: string,
+  isLong: boolean,
+  mom5m: number,
+  now: number,
+): SignalScore {
+  const cache = state.candleCache[coin];
+  const cacheAge = cache ? now - cache.ts : Infinity;
+  const cacheReady = cacheAge < CANDLE_STALE_MS;
+
+  const reasons: string[] = [];
+  let score = 0;
+
+  // ── 1. 5m momentum magnitude (10-30 pts) ──────────────────────────────────
+  const absMom = Math.abs(mom5m);
+  const momPts = absMom >= 3 ? 30 : absMom >= 2 ? 22 : absMom >= 1.5 ? 16 : 10;
+  score += momPts;
+  reasons.push(`m5:${mom5m.toFixed(1)}%(${momPts})`);
+
+  if (!cacheReady) {
+    reasons.push('candles:loading');
+    return { score, reasons, rsi: 50, atr: 0, atrPct: 0, volSpike: false, mom15m: 0, funding: 0 };
+  }
+
+  const m1 = cache.m1;
+  const m15 = cache.m15;
+
+  // ── 2. 15m trend alignment (-15 to +20 pts) ───────────────────────────────
+  const mom15m = calc15mMom(m15);
+  if (m15.length >= 4) {
+    const strongAgree = isLong ? mom15m > 0.5 : mom15m < -0.5;
+    const slightAgree = isLong ? mom15m > 0 : mom15m < 0;
+    const oppose = isLong ? mom15m < -0.3 : mom15m > 0.3;
+    const m15pts = strongAgree ? 20 : slightAgree ? 8 : oppose ? -15 : 0;
+    score += m15pts;
+    reasons.push(`m15:${mom15m.toFixed(1)}%(${m15pts})`);
+  } else {
+    reasons.push('m15:n/a');
+  }
+
+  // ── 3. RSI confirmation (-30 to +20 pts) ──────────────────────────────────
+  const rsi = calcRSI(m1);
+  if (m1.length >= RSI_PERIOD + 1) {
+    let rsiPts: number;
+    if (isLong) {
+      if (rsi < 40)       rsiPts = 20;  // oversold → potential bounce
+      else if (rsi < 55)  rsiPts = 20;  // sweet spot for longs
+      else if (rsi < 65)  rsiPts = 8;   // slightly stretched
+      else if (rsi < RSI_OB) rsiPts = -5; // getting overbought
+      else                rsiPts = -30; // overbought — strong blocker
+    } else {
+      if (rsi > 60)       rsiPts = 20;  // overbought → fade
+      else if (rsi > 45)  rsiPts = 20;  // sweet spot for shorts
+      else if (rsi > 35)  rsiPts = 8;
+      else if (rsi > RSI_OS) rsiPts = -5;
+      else                rsiPts = -30; // oversold — strong blocker
+    }
+    score += rsiPts;
+    reasons.push(`RSI:${rsi.toFixed(0)}(${rsiPts})`);
+  } else {
+    reasons.push('RSI:n/a');
+  }
+
+  // ── 4. Volume spike (+15 or 0 pts) ────────────────────────────────────────
+  const volSpike = isVolSpike(m1);
+  if (m1.length >= 5) {
+    const volPts = volSpike ? 15 : 0;
+    score += volPts;
+    reasons.push(`vol:${volSpike ? 'spike' : 'avg'}(${volPts})`);
+  }
+
+  // ── 5. Funding rate (-20 to +8 pts) ───────────────────────────────────────
+  const funding = state.fundingRates[coin] ?? 0;
+  const fundBps = funding * 10000; // convert decimal to basis points
+  let fundPts: number;
+  if (isLong) {
+    if (fundBps > MAX_FUND_BPS)  fundPts = -20; // longs paying a lot — crowded
+    else if (fundBps > 0)        fundPts = 0;   // longs pay slightly — neutral
+    else if (fundBps > -MAX_FUND_BPS) fundPts = 5; // longs get paid slightly — good
+    else                         fundPts = 8;   // strong negative funding — contrarian
+  } else {
+    if (fundBps < -MAX_FUND_BPS) fundPts = -20; // shorts paying a lot — crowded
+    else if (fundBps < 0)        fundPts = 0;
+    else if (fundBps < MAX_FUND_BPS) fundPts = 5;
+    else                         fundPts = 8;
+  }
+  if (Object.keys(state.fundingRates).length > 0) {
+    score += fundPts;
+    reasons.push(`fund:${fundBps.toFixed(2)}bps(${fundPts})`);
+  }
+
+  // ── 6. EMA(9/21) crossover & trend alignment (-20 to +20 pts) ────────────
+  if (m1.length >= 22) {
+    const ema9  = calcEMAValues(m1, 9);
+    const ema21 = calcEMAValues(m1, 21);
+    if (ema9.length >= 2 && ema21.length >= 2) {
+      const e9 = ema9[ema9.length - 1],  prevE9  = ema9[ema9.length - 2];
+      const e21 = ema21[ema21.length - 1], prevE21 = ema21[ema21.length - 2];
+      const bullish         = e9 > e21;
+      const justCrossedUp   = prevE9 <= prevE21 && e9 > e21;
+      const justCrossedDown = prevE9 >= prevE21 && e9 < e21;
+      let emaPts: number;
+      let emaTag: string;
+      if (justCrossedUp || justCrossedDown) {
+        const aligned = (isLong && justCrossedUp) || (!isLong && justCrossedDown);
+        emaPts = aligned ? 20 : -20;
+        emaTag = aligned ? 'EMA:✓cross' : 'EMA:✗cross';
+      } else if ((isLong && bullish) || (!isLong && !bullish)) {
+        emaPts = 10;
+        emaTag = isLong ? 'EMA:bull' : 'EMA:bear';
+      } else {
+        emaPts = -10;
+        emaTag = isLong ? 'EMA:bear!' : 'EMA:bull!';
+      }
+      score += emaPts;
+      reasons.push(`${emaTag}(${emaPts})`);
+    }
+  } else {
+    reasons.push('EMA:n/a');
+  }
+
+  // ── 7. Momentum acceleration / deceleration (-12 to +8 pts) ─────────────
+  const hist    = state.priceHistory[coin] || [];
+  const last90  = hist.filter(p => p.ts >= now - 90_000);
+  const prev4m  = hist.filter(p => p.ts >= now - 4 * 60_000 && p.ts < now - 90_000);
+  if (last90.length >= 2 && prev4m.length >= 2) {
+    const recentChg = Math.abs(
+      (last90[last90.length - 1].price - last90[0].price) / last90[0].price,
+    );
+    const prevChg = Math.abs(
+      (prev4m[prev4m.length - 1].price - prev4m[0].price) / prev4m[0].price,
+    );
+    const accelPts = recentChg > prevChg * 0.8 ? 8
+      : recentChg < prevChg * 0.4              ? -12
+      : 0;
+    if (accelPts !== 0) {
+      score += accelPts;
+      reasons.push(`accel:${accelPts > 0 ? '↑' : '↓'}(${accelPts})`);
+    }
+  }
+
+  const atr = calcATR(m1);
+  const price = state.currentPrices[coin] || 1;
+  const atrPct = (atr / price) * 100;
+
+  return { score, reasons, rsi, atr, atrPct, volSpike, mom15m, funding };
+}
+
+/**
+ * Score every coin, cache the result for display and return the best entry
+ * that clears the (possibly RSI-extreme-relaxed) adaptive thresholds.
+ * Coins rejected by `eligible` (already held, cooling down, correlated…)
+ * are still scored for display but never picked.
+ * Returns null while price history is still building or nothing qualifies.
+ */
+export function pickSignal(
+  state: ScalperState,
+  coins: string[],
+  now: number,
+  eligible: (coin: string, isLong: boolean) => boolean = () => true,
+): EntrySignal | null {
+  const { adaptiveParams, candleCache, cachedScores } = state;
+
+  // Need at least 3 price points to have a meaningful 5-min window
+  const ready = coins.some(c => (state.priceHistory[c] || []).filter(p => p.ts >= now - MOMENTUM_WIN).length >= 3);
+  if (!ready) {
+    state.log(`📡 Building price history...`);
+    return null;
+  }
+
+  // Compute + cache scores for all coins (for display even when not entering)
+  let bestCoin = '';
+  let bestScore = -Infinity;
+  let bestMom = 0;
+  let bestSig: SignalScore | null = null;
+
+  let activeMomThresh = adaptiveParams.momentumPct;
+  let activeMinScore  = adaptiveParams.minScore;
+
+  // ── RSI Extreme Override ────────────────────────────────────────────────────
+  // When market is deeply oversold/overbought, any uptick is a valid entry.
+  // Drop momentum gate to 0.5% and reduce min score by 8.
+  let rsiExtremeMode = false;
+  let rsiExtremeDir = '';
+  for (const coin of coins) {
+    const cache = candleCache[coin];
+    if (!cache || cache.m1.length < RSI_PERIOD + 1) continue;
+    const rsi = calcRSI(cache.m1);
+    if (rsi < 25) {
+      rsiExtremeMode = true;
+      rsiExtremeDir = 'OS';  // oversold — looking for longs
+      break;
+    }
+    if (rsi > 75) {
+      rsiExtremeMode = true;
+      rsiExtremeDir = 'OB';  // overbought — looking for shorts
+      break;
+    }
+  }
+  if (rsiExtremeMode) {
+    activeMomThresh = Math.min(activeMomThresh, 0.5);  // only 0.5% needed
+    activeMinScore  = Math.max(activeMinScore - 8, ADAPT_SCORE_FLOOR);
+    state.log(`⚡ RSI Extreme(${rsiExtremeDir}): mom≥0.5% score≥${activeMinScore}`);
+  }
+
+  for (const coin of coins) {
+    const mom = momentum5m(state, coin, now);
+    if (Math.abs(mom) < activeMomThresh) {
+      // Below threshold — still compute score for display
+      const sig = scoreSignal(state, coin, mom >= 0, mom, now);
+      cachedScores[coin] = { ...sig, isLong: mom >= 0 };
+      continue;
+    }
+    // In RSI extreme oversold mode, only look for longs; overbought → only shorts
+    if (rsiExtremeMode && rsiExtremeDir === 'OS' && mom < 0) {
+      const sig = scoreSignal(state, coin, false, mom, now);
+      cachedScores[coin] = { ...sig, isLong: false };
+      continue;
+    }
+    if (rsiExtremeMode && rsiExtremeDir === 'OB' && mom > 0) {
+      const sig = scoreSignal(state, coin, true, mom, now);
+      cachedScores[coin] = { ...sig, isLong: true };
+      continue;
+    }
+    const isLong = mom > 0;
+    const sig = scoreSignal(state, coin, isLong, mom, now);
+    cachedScores[coin] = { ...sig, isLong };
+
+    if (!eligible(coin, isLong)) continue;
+    if (sig.score > bestScore) {
+      bestScore = sig.score;
+      bestCoin = coin;
+      bestMom = mom;
+      bestSig = sig;
+    }
+  }
+
+  if (!bestCoin || !bestSig) return null;
+
+  if (bestScore < activeMinScore) {
+    state.log(`📊 Below score (best:${bestCoin} ${bestScore}<${activeMinScore}) — ${bestSig.reasons.slice(0, 3).join(' ')}`);
+    return null;
+  }
+
+  const isLong = bestMom > 0;
+  const tag = rsiExtremeMode ? ` [RSI-extreme:${rsiExtremeDir}]` : '';
+  state.log(`📊 Best: ${bestCoin} score:${bestScore} ${isLong ? 'LONG' : 'SHORT'} mom:${bestMom.toFixed(2)}%${tag}`);
+  return { coin: bestCoin, isLong, mom: bestMom, sig: bestSig };
+}
+
+// ─── Portfolio rules ──────────────────────────────────────────────────────────
+
+/**
+ * Reason a new `coin` entry is blocked by the portfolio rules, or null if it
+ * may open: position count, per-coin cooldown, correlation guard, and the
+ * notional/margin cap from the account snapshot (skipped when unknown).
+ */
+export function entryBlocker(
+  positions: Position[],
+  cooldowns: Record<string, number>,
+  account: AccountSnapshot | null,
+  coin: string,
+  isLong: boolean,
+  notional: number,
+  now: number,
+): string | null {
+  if (positions.length >= MAX_POSITIONS) return `max ${MAX_POSITIONS} positions`;
+  if (positions.some(p => p.coin === coin)) return `already in ${coin}`;
+  if ((cooldowns[coin] ?? 0) > now) return `${coin} cooling ${fmtDur(cooldowns[coin] - now)}`;
+
+  for (const group of CORRELATED_GROUPS) {
+    if (!group.includes(coin)) continue;
+    const clash = positions.find(p => p.coin !== coin && group.includes(p.coin) && p.isLong === isLong);
+    if (clash) return `correlated with ${clash.coin} ${isLong ? 'LONG' : 'SHORT'}`;
+  }
+
+  if (account) {
+    const cap = account.accountValue * MAX_ACCOUNT_LEVERAGE;
+    if (account.totalNtlPos + notional > cap) {
+      return `notional cap $${(account.totalNtlPos + notional).toFixed(0)} > $${cap.toFixed(0)}`;
+    }
+    if (account.withdrawable < notional / MAX_ACCOUNT_LEVERAGE) {
+      return `margin $${account.withdrawable.toFixed(2)} free`;
+    }
+  }
+  return null;
+}
+
+// ─── Sizing + ATR-based TP/SL ─────────────────────────────────────────────────
+
+/**
+ * Compute size for target notional, rounded up to the coin's lot size.
+ * Returns '0' when the coin's szDecimals is unknown so the MIN_NOTIONAL
+ * check rejects the entry instead of guessing the precision.
+ */
+export function calcSize(state: ScalperState, coin: string, price: number, notionalUsd = TRADE_USD): string {
+  const meta = state.assetMeta[coin];
+  if (!meta) return '0';
+  return formatSize(notionalUsd / price, meta.szDecimals);
+}
+
+export function calcTpSl(state: ScalperState, coin: string, price: number, isLong: boolean) {
+  const cache = state.candleCache[coin];
+  const atr = cache ? calcATR(cache.m1) : 0;
+  const atrPct = atr / price;
+
+  // Use adaptive multipliers (updated by updateAdaptiveParams after each trade)
+  const tpMult = state.adaptiveParams.atrTpMult;
+  const slMult = state.adaptiveParams.atrSlMult;
+
+  // Use ATR if within sensible bounds (0.05% to 5% of price)
+  if (atr > 0 && atrPct >= 0.0005 && atrPct <= 0.05) {
+    const tpDist = Math.max(atr * tpMult, price * 0.008); // floor 0.8%
+    const slDist = Math.max(atr * slMult, price * 0.005); // floor 0.5%
+    return {
+      tpPrice: isLong ? price + tpDist : price - tpDist,
+      slPrice: isLong ? price - slDist : price + slDist,
+      crashSlPrice: isLong ? price * (1 - CRASH_SL_PCT) : price * (1 + CRASH_SL_PCT),
+      method: `ATR×${tpMult}/${slMult} (${(atrPct * 100).toFixed(2)}%)`,
+    };
+  }
+
+  // Fallback: fixed percentages
+  return {
+    tpPrice: isLong ? price * (1 + TP_PCT) : price * (1 - TP_PCT),
+    slPrice: isLong ? price * (1 - SL_PCT) : price * (1 + SL_PCT),
+    crashSlPrice: isLong ? price * (1 - CRASH_SL_PCT) : price * (1 + CRASH_SL_PCT),
+    method: `fixed ${(TP_PCT * 100).toFixed(0)}%/${(SL_PCT * 100).toFixed(0)}%`,
+  };
+}
+
+// ─── Position management ──────────────────────────────────────────────────────
+
+/**
+ * Ratchet the trailing stop toward the new mark.
+ * Returns true when slPrice moved (caller should persist the position).
+ */
+export function updateTrailingStop(state: ScalperState, position: Position, mark: number): boolean {
+  const { coin, isLong, entryPrice } = position;
+
+  if (isLong) {
+    if (mark > position.trailPeak) position.trailPeak = mark;
+    const peakGain = (position.trailPeak - entryPrice) / entryPrice;
+    if (peakGain >= TRAIL_TRIGGER) {
+      const newSl = position.trailPeak * (1 - TRAIL_DIST);
+      if (newSl > position.slPrice) {
+        if (!position.trailActive) {
+          state.log(`📈 Trail SL activated ${coin} peak:$${position.trailPeak.toFixed(4)}`);
+          position.trailActive = true;
+        } else {
+          state.log(`📈 Trail SL ${coin}: $${position.slPrice.toFixed(4)} → $${newSl.toFixed(4)}`);
+        }
+        position.slPrice = newSl;
+        return true;
+      }
+    }
+  } else {
+    if (mark < position.trailPeak) position.trailPeak = mark;
+    const peakGain = (entryPrice - position.trailPeak) / entryPrice;
+    if (peakGain >= TRAIL_TRIGGER) {
+      const newSl = position.trailPeak * (1 + TRAIL_DIST);
+      if (newSl < position.slPrice) {
+        if (!position.trailActive) {
+          state.log(`📉 Trail SL activated ${coin} peak:$${position.trailPeak.toFixed(4)}`);
+          position.trailActive = true;
+        } else {
+          state.log(`📉 Trail SL ${coin}: $${position.slPrice.toFixed(4)} → $${newSl.toFixed(4)}`);
+        }
+        position.slPrice = newSl;
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/** Decide whether the position should be closed at this mark. */
+export function checkExit(state: ScalperState, position: Position, mark: number, now: number): ExitReason | null {
+  const { coin, isLong, tpPrice, slPrice, openedAt } = position;
+  const slReason: ExitReason = position.trailActive ? 'TRAIL' : 'SL';
+
+  if (isLong && mark >= tpPrice) {
+    state.log(`🎯 TP hit ${coin}: $${mark.toFixed(4)} ≥ $${tpPrice.toFixed(4)}`);
+    return 'TP';
+  } else if (isLong && mark <= slPrice) {
+    state.log(`🛑 ${slReason} hit ${coin}: $${mark.toFixed(4)} ≤ $${slPrice.toFixed(4)}`);
+    return slReason;
+  } else if (!isLong && mark <= tpPrice) {
+    state.log(`🎯 TP hit ${coin}: $${mark.toFixed(4)} ≤ $${tpPrice.toFixed(4)}`);
+    return 'TP';
+  } else if (!isLong && mark >= slPrice) {
+    state.log(`🛑 ${slReason} hit ${coin}: $${mark.toFixed(4)} ≥ $${slPrice.toFixed(4)}`);
+    return slReason;
+  } else if (now - openedAt >= MAX_HOLD_MS) {
+    state.log(`⏰ Timeout ${coin} — closing`);
+    return 'TIMEOUT';
+  }
+  return null;
+}
+
+/** Build the TradeRecord for a close at exitPrice (P&L uses mark, not fill). */
+export function buildTradeRecord(position: Position, exitPrice: number, reason: ExitReason, now: number): TradeRecord {
+  const { coin, isLong, size, entryPrice, openedAt } = position;
+  const rawPnl = (exitPrice - entryPrice) * parseFloat(size) * (isLong ? 1 : -1);
+  const pnlPct = (rawPnl / (entryPrice * parseFloat(size))) * 100;
+  const closedAt = new Date(now);
+  return {
+    coin,
+    direction: isLong ? 'LONG' : 'SHORT',
+    entryPrice,
+    exitPrice,
+    pnlUsd: rawPnl,
+    pnlPct,
+    exitReason: reason,
+    duration: fmtDur(now - openedAt),
+    time: closedAt.toLocaleTimeString(),
+    date: closedAt.toLocaleDateString(),
+  };
+}
+
+/** Dynamic cooldown after an exit: short after wins, long after losses. */
+export function cooldownFor(reason: ExitReason): number {
+  return reason === 'SL'                     ? COOLDOWN_LOSS
+    : reason === 'TP' || reason === 'TRAIL'  ? COOLDOWN_WIN
+    : COOLDOWN_TO;
+}
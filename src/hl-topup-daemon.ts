@@ -0,0 +1,96 @@
+/**
+ * HL MARGIN TOP-UP DAEMON
+ *
+ * Keeps the HyperLiquid account funded for the scalper: every
+ * HL_TOPUP_INTERVAL_SEC it checks account value and withdrawable margin and,
+ * below the configured floor, swaps ETH → USDC on Arbitrum and deposits it
+ * (hl-topup.ts). Caps, dry run and thresholds come from the HL_TOPUP_*
+ * variables in .env; every top-up is recorded in the trade journal and raises
+ * an HL_TOPUP alert when notifications.json is configured.
+ *
+ * Usage:
+ *   npm run hl:topup                 # run until stopped
+ *   npm run hl:topup -- --dry-run    # log what it would do, move nothing
+ *   npm run hl:topup -- --once       # one check, then exit
+ */
+
+import WebSocket from 'ws';
+(globalThis as any).WebSocket = WebSocket;
+
+import { ethers } from 'ethers';
+import { createSessionManager } from './auth';
+import { loadConfig } from './config';
+import { rpcUrl } from './fills';
+import { createTopUpDaemon, loadTopUpConfig, HlTopUp } from './hl-topup';
+import { unlockKeystore } from './keystore';
+import { createNotifier, loadNotifyConfig } from './notify';
+
+const ARBITRUM = 42161;
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function log(msg: string) {
+  process.stderr.write(`[HL-TOPUP ${new Date().toISOString()}] ${msg}\n`);
+}
+
+// ─── Main ─────────────────────────────────────────────────────────────────────
+
+async function main() {
+  const once = process.argv.includes('--once');
+  const config = loadTopUpConfig();
+  if (process.argv.includes('--dry-run')) config.dryRun = true;
+
+  const { privateKey, walletName, paperTrading } = loadConfig();
+  if (paperTrading) throw new Error('PAPER_TRADING is on — the top-up daemon swaps and deposits real funds; run it without paper trading');
+  const provider = new ethers.JsonRpcProvider(rpcUrl(ARBITRUM), ARBITRUM, { staticNetwork: true });
+  const wallet = new ethers.Wallet(privateKey || unlockKeystore(walletName).privateKey, provider);
+
+  const notifyConfig = loadNotifyConfig();
+  const notifier = notifyConfig ? createNotifier(notifyConfig, log) : null;
+  const alert = (topUp: HlTopUp) => {
+    notifier?.notify({ type: 'HL_TOPUP', from: 'HL-TOPUP', data: { source: 'hl-topup', ...topUp }, ts: Date.now() });
+  };
+
+  const sessions = createSessionManager();
+  sessions.on('refresh-error', (err) => log(`Session refresh failed: ${err.message} — keeping the current session`));
+  await sessions.start();
+
+  const daemon = createTopUpDaemon({ session: () => sessions.get(), wallet, config, log, onTopUp: alert });
+  const used = daemon.usedToday();
+  log(
+    `Floor $${config.floorUsd} (withdrawable $${config.minWithdrawableUsd}) → target $${config.targetUsd}` +
+    ` | today $${used.usd}/$${config.maxDailyUsd}, ${used.count}/${config.maxDailyCount} top-ups` +
+    ` | control wallet ${wallet.address}${config.dryRun ? ' | DRY RUN' : ''}`,
+  );
+
+  const tick = async () => {
+    try {
+      await daemon.tick();
+    } catch (err: any) {
+      log(`⚠️  Check failed: ${err.response?.data?.message ?? err.message}`);
+    }
+  };
+
+  const shutdown = () => {
+    log('Shutting down top-up daemon');
+    clearInterval(timer);
+    sessions.stop();
+    provider.destroy();
+    process.exit(0);
+  };
+
+  await tick();
+  if (once) {
+    sessions.stop();
+    provider.destroy();
+    return;
+  }
+  const timer = setInterval(tick, config.intervalMs);
+  process.on('SIGTERM', shutdown);
+  process.on('SIGINT', shutdown);
+}
+
+main().catch((err) => {
+  log(`FATAL: ${err.message}`);
+  process.exit(1);
+});
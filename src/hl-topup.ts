@@ -0,0 +1,332 @@
+/**
+ * hl-topup.ts — automatic HyperLiquid margin top-ups
+ *
+ * A top-up daemon (npm run hl:topup) calls tick() on an interval. Each tick
+ * reads the HL clearinghouse state and, when `crossMarginSummary.accountValue`
+ * is under HL_TOPUP_FLOOR_USD or `withdrawable` under
+ * HL_TOPUP_MIN_WITHDRAWABLE_USD, deposits enough to bring the account back to
+ * HL_TOPUP_TARGET_USD:
+ *   1. USDC already in the Arbitrum custodial wallet is used first; the rest
+ *      is bought with ETH from the control wallet (swapEthToUsdc, hl-funding.ts)
+ *   2. depositToHyperliquid() bridges it, and later ticks follow the transfer
+ *      until it is credited
+ * Only one top-up is in flight at a time, and none starts within
+ * HL_TOPUP_COOLDOWN_MIN of the last one.
+ *
+ * Daily caps (UTC day) count every top-up that got past them, failed ones
+ * included: HL_TOPUP_MAX_DAILY_USD deposited and HL_TOPUP_MAX_DAILY_COUNT
+ * attempts. A top-up the caps cut below the $10 deposit minimum is recorded
+ * as `capped` and nothing is sent. With HL_TOPUP_DRY_RUN=1 the plan is
+ * recorded as `dry-run` instead of swapping or depositing.
+ *
+ * Every decision is logged in the trade journal (hl_topups) — `gdex topups`
+ * lists it.
+ *
+ * Paper sessions are refused: their clearinghouse state is simulated, but the
+ * swap would spend real ETH.
+ */
+
+import { randomUUID } from 'crypto';
+import { ethers } from 'ethers';
+import { GDEXSession } from './auth';
+import { getClearinghouseState, getMids } from './hyperliquid';
+import {
+  checkTransfer,
+  depositToHyperliquid,
+  getArbitrumUsdcBalance,
+  swapEthToUsdc,
+  HL_MIN_DEPOSIT_USD,
+  TRANSFER_TIMEOUT_MS,
+} from './hl-funding';
+import { sharedJournal, HlTopUpStatus, Journal, JournalHlTopUp } from './journal';
+import { getHlAddress } from './trading';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TopUpConfig {
+  /** Top up when the cross account value drops below this (USD) */
+  floorUsd: number;
+  /** Top up when withdrawable (free margin) drops below this (USD); 0 disables */
+  minWithdrawableUsd: number;
+  /** Account value a top-up aims for (USD) */
+  targetUsd: number;
+  maxDailyUsd: number;
+  maxDailyCount: number;
+  /** ETH paid above the HL mid price so the swap still returns enough USDC */
+  slippageBps: number;
+  /** ETH left in the control wallet for gas */
+  ethReserve: number;
+  intervalMs: number;
+  cooldownMs: number;
+  dryRun: boolean;
+}
+
+export interface HlTopUp extends JournalHlTopUp {
+  /** What tripped it, e.g. "account value $18.20 < $25 floor" */
+  reason: string;
+  accountValue: number;
+  withdrawable: number;
+  /** Planned (or sent) deposit — 0 when capped to nothing */
+  amountUsd: number;
+  /** USDC bought with ETH; the rest was already in the custodial wallet */
+  swapUsd: number;
+  ethIn: number | null;
+  ethPrice: number | null;
+  swapTx: string | null;
+  transferId: string | null;
+  /** Why it failed or was capped, or GDEX's answer */
+  message: string | null;
+  updatedAt: string;
+}
+
+export interface TopUpOptions {
+  /** Current session — read on every tick so refreshed sessions are picked up */
+  session: () => Promise<GDEXSession>;
+  /** Control wallet, connected to Arbitrum — pays for the ETH → USDC swap */
+  wallet: ethers.Wallet;
+  config: TopUpConfig;
+  log: (msg: string) => void;
+  /** A top-up was recorded or settled */
+  onTopUp?: (topUp: HlTopUp) => void;
+}
+
+export interface TopUpDaemon {
+  /**
+   * Settle the in-flight top-up, or start one if the account needs it. Returns
+   * the top-up touched, if any — null too while an earlier tick is still running.
+   */
+  tick(): Promise<HlTopUp | null>;
+  /** Counted toward today's caps: USD deposited and attempts */
+  usedToday(): { usd: number; count: number };
+}
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+function positive(name: string, raw: string | undefined, fallback: number, errors: string[], allowZero = false): number {
+  if (raw === undefined || raw === '') return fallback;
+  const n = Number(raw);
+  if (!(allowZero ? n >= 0 : n > 0)) errors.push(`${name} must be a number ${allowZero ? '>= 0' : '> 0'}, got "${raw}"`);
+  return n;
+}
+
+/** Read the HL_TOPUP_* variables. Throws with every problem listed. */
+export function loadTopUpConfig(env: NodeJS.ProcessEnv = process.env): TopUpConfig {
+  const errors: string[] = [];
+  const config: TopUpConfig = {
+    floorUsd: positive('HL_TOPUP_FLOOR_USD', env.HL_TOPUP_FLOOR_USD, 25, errors),
+    minWithdrawableUsd: positive('HL_TOPUP_MIN_WITHDRAWABLE_USD', env.HL_TOPUP_MIN_WITHDRAWABLE_USD, 5, errors, true),
+    targetUsd: positive('HL_TOPUP_TARGET_USD', env.HL_TOPUP_TARGET_USD, 50, errors),
+    maxDailyUsd: positive('HL_TOPUP_MAX_DAILY_USD', env.HL_TOPUP_MAX_DAILY_USD, 50, errors),
+    maxDailyCount: positive('HL_TOPUP_MAX_DAILY_COUNT', env.HL_TOPUP_MAX_DAILY_COUNT, 3, errors),
+    slippageBps: positive('HL_TOPUP_SLIPPAGE_BPS', env.HL_TOPUP_SLIPPAGE_BPS, 100, errors, true),
+    ethReserve: positive('HL_TOPUP_ETH_RESERVE', env.HL_TOPUP_ETH_RESERVE, 0.002, errors, true),
+    intervalMs: positive('HL_TOPUP_INTERVAL_SEC', env.HL_TOPUP_INTERVAL_SEC, 60, errors) * 1000,
+    cooldownMs: positive('HL_TOPUP_COOLDOWN_MIN', env.HL_TOPUP_COOLDOWN_MIN, 15, errors, true) * 60_000,
+    dryRun: ['1', 'true', 'yes'].includes((env.HL_TOPUP_DRY_RUN ?? '').toLowerCase()),
+  };
+  if (!Number.isInteger(config.maxDailyCount)) errors.push('HL_TOPUP_MAX_DAILY_COUNT must be a whole number');
+  if (config.targetUsd < config.floorUsd) errors.push(`HL_TOPUP_TARGET_USD ($${config.targetUsd}) must be at least HL_TOPUP_FLOOR_USD ($${config.floorUsd})`);
+  if (config.maxDailyUsd < HL_MIN_DEPOSIT_USD) errors.push(`HL_TOPUP_MAX_DAILY_USD must be at least the $${HL_MIN_DEPOSIT_USD} deposit minimum`);
+  if (errors.length > 0) throw new Error(`Invalid top-up config:\n  - ${errors.join('\n  - ')}`);
+  return config;
+}
+
+// ---------------------------------------------------------------------------
+// Records
+// ---------------------------------------------------------------------------
+
+function getJournal(): Journal {
+  return sharedJournal();
+}
+
+function startOfUtcDay(now = new Date()): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())).toISOString();
+}
+
+/** Top-ups oldest first, optionally created since an ISO time. */
+export function listTopUps(since?: string): HlTopUp[] {
+  return getJournal().getHlTopUps<HlTopUp>(since);
+}
+
+/** Top-ups that count toward the daily caps — every attempt to move money. */
+function counted(topUp: HlTopUp): boolean {
+  return topUp.status === 'pending' || topUp.status === 'credited' || topUp.status === 'failed';
+}
+
+function saveTopUp(topUp: HlTopUp, patch: Partial<Omit<HlTopUp, 'id'>> = {}): HlTopUp {
+  const updated: HlTopUp = { ...topUp, ...patch, updatedAt: new Date().toISOString() };
+  getJournal().saveHlTopUp(updated);
+  return updated;
+}
+
+// ---------------------------------------------------------------------------
+// Daemon
+// ---------------------------------------------------------------------------
+
+export function createTopUpDaemon(opts: TopUpOptions): TopUpDaemon {
+  const { wallet, config, log } = opts;
+
+  const usedToday = () => {
+    const today = listTopUps(startOfUtcDay()).filter(counted);
+    return { usd: today.reduce((sum, t) => sum + t.amountUsd, 0), count: today.length };
+  };
+
+  const settle = (topUp: HlTopUp, status: HlTopUpStatus, message: string | null): HlTopUp => {
+    const updated = saveTopUp(topUp, { status, message });
+    opts.onTopUp?.(updated);
+    return updated;
+  };
+
+  /** Follow the in-flight top-up; returns it while it is still pending. */
+  const followPending = async (session: GDEXSession, topUp: HlTopUp): Promise<HlTopUp> => {
+    if (!topUp.transferId) {
+      // Interrupted between the swap and the deposit — the USDC stays in the custodial wallet
+      if (Date.now() - Date.parse(topUp.createdAt) < TRANSFER_TIMEOUT_MS) return topUp;
+      return settle(topUp, 'failed', 'interrupted before the deposit was sent');
+    }
+    const transfer = await checkTransfer(session, topUp.transferId);
+    if (transfer.status === 'credited') {
+      log(`✅ Top-up ${topUp.id} credited — HL balance $${transfer.balanceBefore.toFixed(2)} → $${transfer.balanceAfter?.toFixed(2)}`);
+      return settle(topUp, 'credited', transfer.message);
+    }
+    if (transfer.status !== 'pending') {
+      log(`❌ Top-up ${topUp.id} deposit ${transfer.status}: ${transfer.message}`);
+      return settle(topUp, 'failed', `deposit ${transfer.status}: ${transfer.message}`);
+    }
+    return topUp;
+  };
+
+  const start = async (session: GDEXSession, hlAddress: string, reason: string, accountValue: number, withdrawable: number) => {
+    const wanted = Math.ceil(Math.max(
+      config.targetUsd - accountValue,
+      config.minWithdrawableUsd - withdrawable,
+      HL_MIN_DEPOSIT_USD,
+    ));
+    const used = usedToday();
+    const now = new Date().toISOString();
+    let topUp: HlTopUp = {
+      id: `topup-${randomUUID()}`, status: 'pending', createdAt: now, updatedAt: now,
+      reason, accountValue, withdrawable,
+      amountUsd: Math.min(wanted, Math.floor(config.maxDailyUsd - used.usd)),
+      swapUsd: 0, ethIn: null, ethPrice: null, swapTx: null, transferId: null, message: null,
+    };
+
+    if (used.count >= config.maxDailyCount || topUp.amountUsd < HL_MIN_DEPOSIT_USD) {
+      const message = used.count >= config.maxDailyCount
+        ? `daily cap of ${config.maxDailyCount} top-ups reached`
+        : `daily cap of $${config.maxDailyUsd} leaves $${Math.max(0, config.maxDailyUsd - used.usd).toFixed(2)}, under the $${HL_MIN_DEPOSIT_USD} minimum`;
+      log(`⛔ ${reason} — not topping up: ${message}`);
+      return settle({ ...topUp, amountUsd: 0 }, 'capped', message);
+    }
+
+    // Recorded before the first await, so a tick that overlaps this one sees it in flight
+    topUp = saveTopUp(topUp);
+    let held: number;
+    let ethBalance = 0;
+    try {
+      held = await getArbitrumUsdcBalance(hlAddress);
+      topUp.swapUsd = Math.max(0, Math.ceil((topUp.amountUsd - held) * 100) / 100);
+      if (topUp.swapUsd > 0) {
+        topUp.ethPrice = (await getMids()).ETH ?? null;
+        if (topUp.ethPrice) ethBalance = Number(ethers.formatEther(await wallet.provider!.getBalance(wallet.address)));
+      }
+    } catch (err: any) {
+      // Nothing sent yet — don't leave the record in flight
+      settle(topUp, 'failed', `balance check failed: ${err.shortMessage ?? err.message}`);
+      throw err;
+    }
+    if (topUp.swapUsd > 0) {
+      if (!topUp.ethPrice) return settle(topUp, 'failed', 'no ETH price from HyperLiquid');
+      topUp.ethIn = (topUp.swapUsd / topUp.ethPrice) * (1 + config.slippageBps / 10_000);
+      if (ethBalance - config.ethReserve < topUp.ethIn) {
+        const message = `control wallet has ${ethBalance.toFixed(5)} ETH — needs ${topUp.ethIn.toFixed(5)} plus the ${config.ethReserve} ETH gas reserve`;
+        log(`❌ ${reason} — ${message}`);
+        return settle(topUp, 'failed', message);
+      }
+    }
+
+    const plan = topUp.swapUsd > 0
+      ? `swap ${topUp.ethIn!.toFixed(5)} ETH → $${topUp.swapUsd.toFixed(2)} USDC, deposit $${topUp.amountUsd}`
+      : `deposit $${topUp.amountUsd} from the $${held.toFixed(2)} USDC in custody`;
+    if (config.dryRun) {
+      log(`🧪 ${reason} — dry run: would ${plan}`);
+      return settle(topUp, 'dry-run', `would ${plan}`);
+    }
+
+    log(`💸 ${reason} — ${plan}`);
+    if (topUp.swapUsd > 0) {
+      try {
+        const swap = await swapEthToUsdc(wallet, topUp.ethIn!, topUp.swapUsd, hlAddress);
+        topUp = saveTopUp(topUp, { swapTx: swap.hash });
+        log(`🔄 Swapped ${swap.ethIn.toFixed(5)} ETH → $${swap.usdcOut.toFixed(2)} USDC (${swap.hash})`);
+      } catch (err: any) {
+        log(`❌ Swap failed: ${err.shortMessage ?? err.message}`);
+        return settle(topUp, 'failed', `swap failed: ${err.shortMessage ?? err.message}`);
+      }
+    }
+
+    const result = await depositToHyperliquid(session, topUp.amountUsd);
+    // A pending result may still land — follow it like an accepted one
+    if ((!result.isSuccess && !result.pending) || !result.transfer) {
+      log(`❌ Deposit refused: ${result.message}`);
+      return settle(topUp, 'failed', `deposit refused: ${result.message}`);
+    }
+    log(result.pending
+      ? `⏳ Deposit of $${topUp.amountUsd} outcome unknown (${result.transfer.id}) — watching the balance`
+      : `🏦 Deposit of $${topUp.amountUsd} accepted (${result.transfer.id}) — waiting for the credit`);
+    return settle({ ...topUp, transferId: result.transfer.id }, 'pending', result.transfer.message);
+  };
+
+  let ticking = false;
+
+  const check = async (): Promise<HlTopUp | null> => {
+    const session = await opts.session();
+    if (session.paper) throw new Error('paper trading session — not topping up a simulated balance with real ETH');
+    const topUps = listTopUps(new Date(Date.now() - 2 * 24 * 3600_000).toISOString());
+
+    const inFlight = topUps.find((t) => t.status === 'pending');
+    if (inFlight) {
+      const followed = await followPending(session, inFlight);
+      if (followed.status === 'pending') return null;
+      return followed;
+    }
+
+    const hlAddress = await getHlAddress(session);
+    const state = await getClearinghouseState(hlAddress);
+    const accountValue = state.crossMarginSummary.accountValue;
+    const withdrawable = state.withdrawable;
+    const reason = accountValue < config.floorUsd
+      ? `account value $${accountValue.toFixed(2)} < $${config.floorUsd} floor`
+      : withdrawable < config.minWithdrawableUsd
+        ? `withdrawable $${withdrawable.toFixed(2)} < $${config.minWithdrawableUsd} minimum`
+        : null;
+    if (!reason) return null;
+
+    const last = topUps[topUps.length - 1];
+    if (last && Date.now() - Date.parse(last.createdAt) < config.cooldownMs) return null;
+
+    return start(session, hlAddress, reason, accountValue, withdrawable);
+  };
+
+  return {
+    async tick() {
+      // A slow swap or deposit can outlast the interval — never run two at once
+      if (ticking) {
+        log('Previous check still running — skipping this one');
+        return null;
+      }
+      ticking = true;
+      try {
+        return await check();
+      } finally {
+        ticking = false;
+      }
+    },
+
+    usedToday,
+  };
+}
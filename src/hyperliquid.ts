@@ -0,0 +1,471 @@
+import axios from 'axios';
+import { loadConfig } from './config';
+
+/** Public HyperLiquid info endpoint (no auth, no GDEX headers needed). */
+export const HL_INFO_URL = 'https://api.hyperliquid.xyz/info';
+
+// HL returns at most this many candles per candleSnapshot request
+const MAX_CANDLES_PER_REQUEST = 5000;
+// ... and at most this many fills per userFillsByTime request, oldest first
+const MAX_FILLS_PER_REQUEST = 2000;
+const META_CACHE_MS = 10 * 60_000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type CandleInterval = '1m' | '3m' | '5m' | '15m' | '30m' | '1h' | '4h' | '1d';
+
+/** Candle as returned by candleSnapshot — prices/volume stay strings like the API. */
+export interface Candle {
+  t: number;   // open time ms
+  T: number;   // close time ms
+  o: string;   // open
+  h: string;   // high
+  l: string;   // low
+  c: string;   // close
+  v: string;   // volume (base asset)
+  s?: string;  // coin
+  i?: string;  // interval
+  n?: number;  // trade count
+}
+
+export interface MarginSummary {
+  accountValue: number;
+  totalNtlPos: number;
+  totalRawUsd: number;
+  totalMarginUsed: number;
+}
+
+export interface Position {
+  coin: string;
+  /** Signed size — positive long, negative short */
+  szi: number;
+  /** Absolute size */
+  size: number;
+  isLong: boolean;
+  entryPx: number;
+  positionValue: number;
+  unrealizedPnl: number;
+  returnOnEquity: number;
+  leverage: number;
+  leverageType: 'cross' | 'isolated';
+  liquidationPx: number | null;
+  marginUsed: number;
+}
+
+export interface ClearinghouseState {
+  marginSummary: MarginSummary;
+  crossMarginSummary: MarginSummary;
+  withdrawable: number;
+  positions: Position[];
+  time: number;
+}
+
+export interface OpenOrder {
+  coin: string;
+  oid: number;
+  /** 'B' = bid/buy, 'A' = ask/sell */
+  side: 'B' | 'A';
+  isBuy: boolean;
+  limitPx: number;
+  sz: number;
+  origSz: number;
+  timestamp: number;
+  reduceOnly: boolean;
+  orderType?: string;
+  triggerPx?: number;
+}
+
+export interface Fill {
+  coin: string;
+  px: number;
+  sz: number;
+  side: 'B' | 'A';
+  isBuy: boolean;
+  time: number;
+  /** e.g. "Open Long", "Close Short" */
+  dir: string;
+  closedPnl: number;
+  fee: number;
+  feeToken: string;
+  oid: number;
+  tid: number;
+  hash: string;
+  crossed: boolean;
+  startPosition: number;
+}
+
+export interface FundingRate {
+  coin: string;
+  /** Hourly rate as decimal (0.0001 = 0.01%) */
+  fundingRate: number;
+  premium: number;
+  time: number;
+}
+
+export interface AssetMeta {
+  name: string;
+  /** Index in the perp universe (the asset id used when placing orders) */
+  index: number;
+  /** Size precision — order sizes must have at most this many decimals */
+  szDecimals: number;
+  maxLeverage: number;
+  onlyIsolated: boolean;
+}
+
+export interface AssetContext {
+  coin: string;
+  funding: number;
+  openInterest: number;
+  markPx: number;
+  midPx: number | null;
+  oraclePx: number;
+  premium: number;
+  dayNtlVlm: number;
+  prevDayPx: number;
+}
+
+export type PortfolioWindow = 'day' | 'week' | 'month' | 'allTime';
+
+/** One window of an account's history as the HL UI charts it — [time ms, USD] points, oldest first. */
+export interface PortfolioHistory {
+  accountValueHistory: Array<[number, number]>;
+  /** Cumulative P&L since the start of the window — unaffected by deposits and withdrawals */
+  pnlHistory: Array<[number, number]>;
+  volume: number;
+}
+
+// ---------------------------------------------------------------------------
+// Low-level
+// ---------------------------------------------------------------------------
+
+/** The mock server's info endpoint when GDEX_MOCK_URL is set (mock-api.ts) */
+function infoUrl(): string {
+  const { mockUrl } = loadConfig();
+  return mockUrl ? `${mockUrl}/info` : HL_INFO_URL;
+}
+
+/** POST a raw request body to the HL info endpoint. Prefer the typed helpers below. */
+export async function hlInfo<T = any>(body: object, timeout = 8000): Promise<T> {
+  const res = await axios.post(infoUrl(), body, {
+    headers: { 'Content-Type': 'application/json' },
+    timeout,
+  });
+  return res.data;
+}
+
+function num(v: unknown): number {
+  const n = typeof v === 'number' ? v : parseFloat((v as string) ?? '0');
+  return isNaN(n) ? 0 : n;
+}
+
+function parseMarginSummary(raw: any): MarginSummary {
+  return {
+    accountValue: num(raw?.accountValue),
+    totalNtlPos: num(raw?.totalNtlPos),
+    totalRawUsd: num(raw?.totalRawUsd),
+    totalMarginUsed: num(raw?.totalMarginUsed),
+  };
+}
+
+function parsePosition(raw: any): Position {
+  const szi = num(raw.szi);
+  const lev = raw.leverage ?? {};
+  return {
+    coin: raw.coin,
+    szi,
+    size: Math.abs(szi),
+    isLong: szi > 0,
+    entryPx: num(raw.entryPx),
+    positionValue: num(raw.positionValue),
+    unrealizedPnl: num(raw.unrealizedPnl),
+    returnOnEquity: num(raw.returnOnEquity),
+    leverage: typeof lev === 'object' ? num(lev.value) : num(lev),
+    leverageType: lev.type === 'isolated' ? 'isolated' : 'cross',
+    liquidationPx: raw.liquidationPx ? num(raw.liquidationPx) : null,
+    marginUsed: num(raw.marginUsed),
+  };
+}
+
+function parseOrder(raw: any): OpenOrder {
+  return {
+    coin: raw.coin,
+    oid: raw.oid,
+    side: raw.side,
+    isBuy: raw.side === 'B',
+    limitPx: num(raw.limitPx),
+    sz: num(raw.sz),
+    origSz: num(raw.origSz ?? raw.sz),
+    timestamp: raw.timestamp,
+    reduceOnly: !!raw.reduceOnly,
+    orderType: raw.orderType,
+    triggerPx: raw.triggerPx !== undefined ? num(raw.triggerPx) : undefined,
+  };
+}
+
+/** Parse a raw HL fill (userFills / GDEX trade history share this shape). */
+export function parseFill(raw: any): Fill {
+  return {
+    coin: raw.coin,
+    px: num(raw.px),
+    sz: num(raw.sz),
+    side: raw.side,
+    isBuy: raw.side === 'B',
+    time: raw.time,
+    dir: raw.dir ?? '',
+    closedPnl: num(raw.closedPnl),
+    fee: num(raw.fee),
+    feeToken: raw.feeToken ?? 'USDC',
+    oid: raw.oid,
+    tid: raw.tid,
+    hash: raw.hash ?? '',
+    crossed: !!raw.crossed,
+    startPosition: num(raw.startPosition),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Account state
+// ---------------------------------------------------------------------------
+
+/** Simulated reads for an account a paper session trades on (paper-trading.ts) */
+export interface PaperHlAccount {
+  clearinghouseState(): Promise<ClearinghouseState>;
+  openOrders(): Promise<OpenOrder[]>;
+  fills(startTime?: number, endTime?: number): Promise<Fill[]>;
+}
+
+// Keyed by lowercased address
+const paperAccounts = new Map<string, PaperHlAccount>();
+
+/**
+ * Answer the account reads below for `user` from a paper engine instead of
+ * HL, so code written against the live account sees the simulated one.
+ */
+export function routeHlAccountToPaper(user: string, account: PaperHlAccount): void {
+  paperAccounts.set(user.toLowerCase(), account);
+}
+
+/** Margin summary, withdrawable and open positions for an HL account. */
+export async function getClearinghouseState(user: string): Promise<ClearinghouseState> {
+  const paper = paperAccounts.get(user.toLowerCase());
+  if (paper) return paper.clearinghouseState();
+  const raw = await hlInfo({ type: 'clearinghouseState', user });
+  return {
+    marginSummary: parseMarginSummary(raw?.marginSummary),
+    crossMarginSummary: parseMarginSummary(raw?.crossMarginSummary),
+    withdrawable: num(raw?.withdrawable),
+    positions: (raw?.assetPositions ?? [])
+      .map((p: any) => parsePosition(p.position))
+      .filter((p: Position) => p.szi !== 0),
+    time: raw?.time ?? Date.now(),
+  };
+}
+
+/**
+ * Account value and P&L history per window (perps and spot combined), for
+ * any address — leaders included.
+ */
+export async function getPortfolio(user: string): Promise<Record<PortfolioWindow, PortfolioHistory>> {
+  const raw = await hlInfo<Array<[string, any]>>({ type: 'portfolio', user });
+  const points = (list: any): Array<[number, number]> =>
+    (Array.isArray(list) ? list : []).map(([t, v]: [number, string]): [number, number] => [t, num(v)]);
+  const out = {} as Record<PortfolioWindow, PortfolioHistory>;
+  for (const window of ['day', 'week', 'month', 'allTime'] as PortfolioWindow[]) {
+    const w = (Array.isArray(raw) ? raw : []).find(([name]) => name === window)?.[1];
+    out[window] = {
+      accountValueHistory: points(w?.accountValueHistory),
+      pnlHistory: points(w?.pnlHistory),
+      volume: num(w?.vlm),
+    };
+  }
+  return out;
+}
+
+/** Open positions only (zero-size entries are dropped). */
+export async function getPositions(user: string): Promise<Position[]> {
+  return (await getClearinghouseState(user)).positions;
+}
+
+/** Open orders including trigger (TP/SL) orders. */
+export async function getOpenOrders(user: string): Promise<OpenOrder[]> {
+  const paper = paperAccounts.get(user.toLowerCase());
+  if (paper) return paper.openOrders();
+  const raw = await hlInfo<any[]>({ type: 'frontendOpenOrders', user });
+  return (Array.isArray(raw) ? raw : []).map(parseOrder);
+}
+
+/**
+ * Fills for a user, newest first. Without startTime, the latest userFills
+ * page; with it, userFillsByTime paged past the 2000-fill request limit
+ * until endTime is covered.
+ */
+export async function getUserFills(user: string, startTime?: number, endTime?: number): Promise<Fill[]> {
+  const paper = paperAccounts.get(user.toLowerCase());
+  if (paper) return paper.fills(startTime, endTime);
+  if (startTime === undefined) {
+    const raw = await hlInfo<any[]>({ type: 'userFills', user });
+    return (Array.isArray(raw) ? raw : []).map(parseFill).sort((a, b) => b.time - a.time);
+  }
+
+  const end = endTime ?? Date.now();
+  const out: Fill[] = [];
+  for (let from = startTime; from <= end;) {
+    const raw = await hlInfo<any[]>({ type: 'userFillsByTime', user, startTime: from, endTime: end }, 15_000);
+    const page = (Array.isArray(raw) ? raw : []).map(parseFill);
+    out.push(...page);
+    if (page.length < MAX_FILLS_PER_REQUEST) break;
+    // Resume at the newest fill's time — fills sharing it may straddle the pages
+    const newest = Math.max(...page.map(f => f.time));
+    from = newest > from ? newest : from + 1;
+  }
+  const seen = new Set<number>();
+  return out.filter(f => !seen.has(f.tid) && seen.add(f.tid)).sort((a, b) => b.time - a.time);
+}
+
+// ---------------------------------------------------------------------------
+// Market data
+// ---------------------------------------------------------------------------
+
+const INTERVAL_MS: Record<CandleInterval, number> = {
+  '1m': 60_000, '3m': 3 * 60_000, '5m': 5 * 60_000, '15m': 15 * 60_000,
+  '30m': 30 * 60_000, '1h': 60 * 60_000, '4h': 4 * 60 * 60_000, '1d': 24 * 60 * 60_000,
+};
+
+/** Candles in [startTime, endTime], paging past the 5000-candle request limit. */
+export async function getCandles(
+  coin: string,
+  interval: CandleInterval,
+  startTime: number,
+  endTime: number = Date.now(),
+): Promise<Candle[]> {
+  const step = INTERVAL_MS[interval] * MAX_CANDLES_PER_REQUEST;
+  const out: Candle[] = [];
+  for (let from = startTime; from < endTime; from += step) {
+    const to = Math.min(endTime, from + step);
+    const page = await hlInfo<Candle[]>({ type: 'candleSnapshot', req: { coin, interval, startTime: from, endTime: to } }, 15_000);
+    if (Array.isArray(page)) out.push(...page);
+  }
+  // Pages overlap on the boundary candle
+  const seen = new Set<number>();
+  return out.filter(c => !seen.has(c.t) && seen.add(c.t));
+}
+
+/** The last `count` candles (the final one may still be forming). */
+export async function getRecentCandles(coin: string, interval: CandleInterval, count: number): Promise<Candle[]> {
+  const endTime = Date.now();
+  const startTime = endTime - INTERVAL_MS[interval] * (count + 2);
+  const raw = await hlInfo<Candle[]>({ type: 'candleSnapshot', req: { coin, interval, startTime, endTime } }, 6000);
+  return Array.isArray(raw) ? raw : [];
+}
+
+/** Historical funding prints for a coin, oldest first. */
+export async function getFundingHistory(coin: string, startTime: number, endTime: number = Date.now()): Promise<FundingRate[]> {
+  const out: FundingRate[] = [];
+  let from = startTime;
+  while (from < endTime) {
+    const page = await hlInfo<any[]>({ type: 'fundingHistory', coin, startTime: from, endTime }, 15_000);
+    if (!Array.isArray(page) || page.length === 0) break;
+    out.push(...page.map(f => ({
+      coin: f.coin,
+      fundingRate: num(f.fundingRate),
+      premium: num(f.premium),
+      time: f.time,
+    })));
+    const last = page[page.length - 1].time;
+    if (last <= from) break;
+    from = last + 1;
+  }
+  return out;
+}
+
+/** Mid prices for every listed perp. */
+export async function getMids(): Promise<Record<string, number>> {
+  const raw = await hlInfo<Record<string, string>>({ type: 'allMids' }, 6000);
+  const out: Record<string, number> = {};
+  for (const [coin, px] of Object.entries(raw ?? {})) {
+    const v = num(px);
+    if (v > 0) out[coin] = v;
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Meta
+// ---------------------------------------------------------------------------
+
+let metaCache: { ts: number; assets: AssetMeta[]; ctxs: Record<string, AssetContext> } | null = null;
+
+/** Perp universe metadata plus live contexts (funding, OI, mark). Cached for 10 minutes unless `fresh`. */
+export async function getMetaAndAssetCtxs(fresh = false): Promise<{ assets: AssetMeta[]; ctxs: Record<string, AssetContext> }> {
+  if (!fresh && metaCache && Date.now() - metaCache.ts < META_CACHE_MS) return metaCache;
+
+  const [meta, rawCtxs] = await hlInfo<[{ universe: any[] }, any[]]>({ type: 'metaAndAssetCtxs' }, 6000);
+  const assets: AssetMeta[] = meta.universe.map((a, index) => ({
+    name: a.name,
+    index,
+    szDecimals: a.szDecimals,
+    maxLeverage: a.maxLeverage,
+    onlyIsolated: !!a.onlyIsolated,
+  }));
+  const ctxs: Record<string, AssetContext> = {};
+  assets.forEach((a, i) => {
+    const c = rawCtxs[i] ?? {};
+    ctxs[a.name] = {
+      coin: a.name,
+      funding: num(c.funding),
+      openInterest: num(c.openInterest),
+      markPx: num(c.markPx),
+      midPx: c.midPx ? num(c.midPx) : null,
+      oraclePx: num(c.oraclePx),
+      premium: num(c.premium),
+      dayNtlVlm: num(c.dayNtlVlm),
+      prevDayPx: num(c.prevDayPx),
+    };
+  });
+
+  metaCache = { ts: Date.now(), assets, ctxs };
+  return metaCache;
+}
+
+/** Perp universe metadata (szDecimals, max leverage), keyed by coin. */
+export async function getMeta(): Promise<Record<string, AssetMeta>> {
+  const { assets } = await getMetaAndAssetCtxs();
+  return Object.fromEntries(assets.map(a => [a.name, a]));
+}
+
+export async function getAssetMeta(coin: string): Promise<AssetMeta | undefined> {
+  return (await getMeta())[coin];
+}
+
+/** Current (predicted hourly) funding rate per coin — always fetched fresh. */
+export async function getCurrentFundingRates(): Promise<Record<string, number>> {
+  const { ctxs } = await getMetaAndAssetCtxs(true);
+  return Object.fromEntries(Object.values(ctxs).map(c => [c.coin, c.funding]));
+}
+
+// ---------------------------------------------------------------------------
+// Sizing
+// ---------------------------------------------------------------------------
+
+/**
+ * Round a size to the asset's lot size and format it the way HL expects.
+ * Rounds up by default so a USD-sized order never lands under the minimum
+ * notional; pass 'down' when the size must not exceed what was asked for.
+ */
+export function formatSize(size: number, szDecimals: number, round: 'up' | 'down' = 'up'): string {
+  const mult = Math.pow(10, szDecimals);
+  const units = round === 'up' ? Math.ceil(size * mult - 1e-9) : Math.floor(size * mult + 1e-9);
+  return (units / mult).toFixed(szDecimals);
+}
+
+/**
+ * Round a perp price to HL's tick rules: at most 5 significant figures and
+ * at most (6 - szDecimals) decimals. Integer prices are always accepted.
+ */
+export function formatPrice(px: number, szDecimals: number): string {
+  if (px >= 100_000) return Math.round(px).toString();
+  const sig = parseFloat(px.toPrecision(5));
+  return parseFloat(sig.toFixed(Math.max(0, 6 - szDecimals))).toString();
+}
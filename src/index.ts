@@ -13,8 +13,13 @@ export {
   initSDK,
   getEffectiveApiKey,
   ensureEVMWallet,
+  createSessionManager,
+  isAuthError,
   type GDEXSession,
   type CreateSessionOptions,
+  type SessionManager,
+  type SessionManagerOptions,
+  type SessionRefreshEvent,
 } from './auth';
 
 // Trading operations
@@ -26,13 +31,175 @@ export {
   getOrders,
   formatSolAmount,
   formatEthAmount,
+  placePerpOrder,
+  closePerpPosition,
+  cancelPerpOrder,
+  cancelAllPerpOrders,
+  setPerpTpSl,
+  getHlAddress,
+  reconcileClientOrder,
+  reconcilePendingOrders,
   type TradeResult,
   type BuyOptions,
   type SellOptions,
   type LimitBuyOrderOptions,
   type LimitOrderOptions,
+  type PerpOrderType,
+  type PerpOrderOptions,
+  type PerpOrderResult,
+  type ClosePerpOptions,
+  type PerpTpSlOptions,
 } from './trading';
 
+// Client order ids (idempotent spot orders)
+export {
+  newClientOrderId,
+  getClientOrder,
+  listClientOrders,
+  type ClientOrder,
+} from './order-registry';
+
+// HyperLiquid deposits and withdrawals
+export {
+  depositToHyperliquid,
+  withdrawFromHyperliquid,
+  checkTransfer,
+  checkPendingTransfers,
+  waitForTransfer,
+  getHlTransfer,
+  listHlTransfers,
+  getArbitrumUsdcBalance,
+  getHlUsdcBalance,
+  swapEthToUsdc,
+  ARBITRUM_USDC,
+  HL_MIN_DEPOSIT_USD,
+  HL_WITHDRAW_FEE_USD,
+  type HlTransfer,
+  type HlTransferResult,
+  type WaitOptions,
+  type SwapResult,
+} from './hl-funding';
+
+// Automatic HL margin top-ups
+export {
+  createTopUpDaemon,
+  loadTopUpConfig,
+  listTopUps,
+  type TopUpConfig,
+  type TopUpDaemon,
+  type TopUpOptions,
+  type HlTopUp,
+} from './hl-topup';
+
+// HL copy trading and leader rotation
+export {
+  listCopyTrades,
+  createCopyTrade,
+  editCopyTrade,
+  pauseCopyTrade,
+  resumeCopyTrade,
+  deleteCopyTrade,
+  validateCopySettings,
+  findLeaders,
+  getLeaderPerformance,
+  maxDrawdownPct,
+  isManagedCopyTrade,
+  loadRotationConfig,
+  rotateLeaders,
+  type CopyMode,
+  type CopyTrade,
+  type CopyTradeSettings,
+  type CopyTradeResult,
+  type Leader,
+  type LeaderFilter,
+  type LeaderWindow,
+  type WindowPerformance,
+  type RotationConfig,
+  type RotationAction,
+  type RotationReport,
+} from './hl-copytrade';
+
+// HL P&L attribution: scalper vs copy-trade leaders vs manual
+export {
+  attributeHlFills,
+  type AttributedFill,
+  type AttributionOptions,
+  type AttributionReport,
+  type FillSourceKind,
+  type FillTotals,
+  type SourceStats,
+} from './hl-attribution';
+
+// On-chain fills of spot trades
+export { getTradeFill, parseSolanaFill, exitPnl, type TradeFill, type FillRequest } from './fills';
+
+// Paper trading (PAPER_TRADING=true)
+export {
+  createPaperEngine,
+  enablePaperTrading,
+  loadPaperConfig,
+  type PaperEngine,
+  type PaperConfig,
+  type PaperState,
+  type PaperHolding,
+  type PaperPerpPosition,
+  type PaperFill,
+} from './paper-trading';
+
+// Local GDEX + HyperLiquid mock API (GDEX_MOCK_URL)
+export {
+  startMockApi,
+  loadMockScenario,
+  routeSdkToMock,
+  MOCK_SCENARIOS,
+  MOCK_API_HOST,
+  MOCK_API_PORT,
+  MOCK_EVM_ADDRESS,
+  MOCK_SOLANA_ADDRESS,
+  type MockApi,
+  type MockApiOptions,
+  type MockScenario,
+  type MockAsset,
+  type MockToken,
+  type MockPositionInput,
+  type SpotOutcome,
+  type PerpOutcome,
+} from './mock-api';
+
+// HyperLiquid info API (typed clearinghouse, orders, fills, candles, funding, meta, portfolio)
+export {
+  HL_INFO_URL,
+  hlInfo,
+  getClearinghouseState,
+  getPortfolio,
+  getPositions,
+  getOpenOrders,
+  getUserFills,
+  getCandles,
+  getRecentCandles,
+  getFundingHistory,
+  getMids,
+  getMetaAndAssetCtxs,
+  getMeta,
+  getAssetMeta,
+  getCurrentFundingRates,
+  parseFill,
+  formatSize,
+  formatPrice,
+  type CandleInterval,
+  type Candle,
+  type MarginSummary,
+  type Position,
+  type ClearinghouseState,
+  type OpenOrder,
+  type Fill,
+  type FundingRate,
+  type AssetMeta,
+  type AssetContext,
+  type PortfolioWindow,
+  type PortfolioHistory,
+} from './hyperliquid';
+
 // Market data
 export {
   getTrendingTokens,
@@ -42,10 +209,13 @@ export {
   getNativePrices,
   getXstocks,
   getChartTokenPumpfun,
+  getSpotQuote,
   getHoldings,
+  findHolding,
   getUserInfo,
   getWatchList,
   getReferralStats,
+  type SpotQuote,
 } from './market';
 
 // Config & wallet utilities
@@ -59,6 +229,22 @@ export {
   isEVMChain,
   type GeneratedWallet,
 } from './wallet';
+export {
+  encryptKeystore,
+  decryptKeystore,
+  saveKeystore,
+  readKeystore,
+  hasKeystore,
+  listKeystores,
+  unlockKeystore,
+  resolvePassphrase,
+  getKeystoreDir,
+  DEFAULT_KEYSTORE_DIR,
+  DEFAULT_WALLET_NAME,
+  type KeystoreV3,
+  type EncryptKeystoreOptions,
+  type UnlockedWallet,
+} from './keystore';
 
 // Re-export SDK essentials for convenience
 export { createSDK, CryptoUtils } from 'gdex.pro-sdk';
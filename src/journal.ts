@@ -0,0 +1,804 @@
+import Database from 'better-sqlite3';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadConfig } from './config';
+
+/** Default journal database (gitignored). Override with JOURNAL_DB. */
+export const DEFAULT_JOURNAL_PATH = path.resolve(__dirname, '..', 'data', 'journal.db');
+/** Paper-trading journal, kept apart from the live books. Override with PAPER_JOURNAL_DB. */
+export const DEFAULT_PAPER_JOURNAL_PATH = path.resolve(__dirname, '..', 'data', 'journal-paper.db');
+
+// Agents in other processes hold the write lock for milliseconds — wait, don't fail
+const BUSY_TIMEOUT_MS = 5_000;
+// Token snapshots are for post-mortems of recent sessions, not an archive
+const SNAPSHOT_RETENTION_MS = 24 * 60 * 60 * 1000;
+const SCHEMA_VERSION = 1;
+
+/**
+ * The whole-file JSON logs the journal replaces. migrateJsonLogs() imports
+ * whichever of these exist and renames them to `<file>.migrated`.
+ */
+export const LEGACY_JSON_FILES = {
+  traderPositions: '/tmp/pumpfun-positions.json',
+  scalperPositions: '/tmp/pumpfun-scalp-positions.json',
+  pumpfunTrades: '/tmp/pumpfun-log.json',
+  watchlist: '/tmp/pumpfun-watchlist.json',
+  scores: '/tmp/pumpfun-scores.json',
+  hlTrades: path.resolve(__dirname, '..', 'data', 'scalper-trades.json'),
+  hlState: path.resolve(__dirname, '..', 'data', 'scalper-state.json'),
+};
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+  key   TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS positions (
+  id         TEXT PRIMARY KEY,
+  book       TEXT NOT NULL,
+  token      TEXT NOT NULL,
+  symbol     TEXT NOT NULL,
+  status     TEXT NOT NULL CHECK (status IN ('open', 'closed')),
+  opened_at  TEXT NOT NULL,
+  closed_at  TEXT,
+  updated_at TEXT NOT NULL,
+  data       TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS positions_book_status ON positions (book, status);
+CREATE TABLE IF NOT EXISTS fills (
+  id          INTEGER PRIMARY KEY AUTOINCREMENT,
+  position_id TEXT NOT NULL REFERENCES positions (id) ON DELETE CASCADE,
+  side        TEXT NOT NULL CHECK (side IN ('buy', 'sell')),
+  price       REAL,
+  amount      TEXT,
+  value       REAL,
+  tx_hash     TEXT,
+  reason      TEXT,
+  ts          TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS fills_position ON fills (position_id);
+CREATE TABLE IF NOT EXISTS trades (
+  seq         INTEGER PRIMARY KEY AUTOINCREMENT,
+  id          TEXT NOT NULL UNIQUE,
+  book        TEXT NOT NULL,
+  position_id TEXT,
+  token       TEXT NOT NULL,
+  symbol      TEXT NOT NULL,
+  exit_reason TEXT,
+  pnl_pct     REAL,
+  pnl         REAL,
+  exit_time   TEXT NOT NULL,
+  data        TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS trades_book_exit ON trades (book, exit_time);
+CREATE TABLE IF NOT EXISTS watchlist (
+  address    TEXT PRIMARY KEY,
+  first_seen TEXT NOT NULL,
+  data       TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS token_snapshots (
+  address     TEXT NOT NULL,
+  ts          TEXT NOT NULL,
+  price       REAL,
+  market_cap  REAL,
+  tx_count    INTEGER,
+  bc_progress REAL,
+  PRIMARY KEY (address, ts)
+);
+CREATE INDEX IF NOT EXISTS token_snapshots_ts ON token_snapshots (ts);
+CREATE TABLE IF NOT EXISTS scores (
+  address   TEXT PRIMARY KEY,
+  score     REAL NOT NULL,
+  scored_at TEXT NOT NULL,
+  data      TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS orders (
+  id           INTEGER PRIMARY KEY AUTOINCREMENT,
+  ts           TEXT NOT NULL,
+  chain        TEXT NOT NULL,
+  token        TEXT NOT NULL,
+  side         TEXT NOT NULL CHECK (side IN ('buy', 'sell')),
+  reduce_only  INTEGER NOT NULL,
+  notional     REAL,
+  status       TEXT NOT NULL CHECK (status IN ('accepted', 'rejected')),
+  rule         TEXT,
+  source       TEXT
+);
+CREATE INDEX IF NOT EXISTS orders_ts ON orders (ts);
+CREATE TABLE IF NOT EXISTS client_orders (
+  id          TEXT PRIMARY KEY,
+  status      TEXT NOT NULL CHECK (status IN ('pending', 'filled', 'failed')),
+  created_at  TEXT NOT NULL,
+  updated_at  TEXT NOT NULL,
+  data        TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS client_orders_status ON client_orders (status);
+CREATE TABLE IF NOT EXISTS hl_transfers (
+  id          TEXT PRIMARY KEY,
+  kind        TEXT NOT NULL CHECK (kind IN ('deposit', 'withdraw')),
+  status      TEXT NOT NULL CHECK (status IN ('pending', 'credited', 'failed', 'expired')),
+  created_at  TEXT NOT NULL,
+  updated_at  TEXT NOT NULL,
+  data        TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS hl_transfers_status ON hl_transfers (status);
+CREATE TABLE IF NOT EXISTS hl_topups (
+  id          TEXT PRIMARY KEY,
+  status      TEXT NOT NULL CHECK (status IN ('dry-run', 'capped', 'pending', 'credited', 'failed')),
+  created_at  TEXT NOT NULL,
+  updated_at  TEXT NOT NULL,
+  data        TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS hl_topups_created ON hl_topups (created_at);
+`;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Which strategy owns a position or trade. */
+export type Book = 'trader' | 'scalper' | 'hl-scalper';
+
+/**
+ * Minimum shape of a journaled position. The full object is stored as JSON,
+ * so each agent keeps its own Position interface; token/symbol/opened-at
+ * columns are taken from `address`/`coin`, `symbol` and `entryTime`/`openedAt`.
+ */
+export interface JournalPosition {
+  id: string;
+  status: 'open' | 'closed';
+  [key: string]: any;
+}
+
+/**
+ * Minimum shape of a journaled trade (a full or partial exit). `id` may be
+ * omitted when recorded through applyExit() — it defaults to the position id.
+ */
+export interface JournalTrade {
+  id?: string;
+  [key: string]: any;
+}
+
+export interface FillInput {
+  side: 'buy' | 'sell';
+  price?: number;
+  /** Raw token amount or contract size, as sent to the API */
+  amount?: string;
+  /** Native (SOL) or USD value of the fill */
+  value?: number;
+  txHash?: string | null;
+  reason?: string;
+  /** ISO time (default now) */
+  ts?: string;
+}
+
+export interface Fill extends Required<Omit<FillInput, 'txHash'>> {
+  id: number;
+  positionId: string;
+  txHash: string | null;
+}
+
+export interface ExitUpdate<T> {
+  /** Fields to merge into the position — include `status: 'closed'` for a full exit */
+  patch: Partial<T>;
+  fill?: FillInput;
+  trade?: JournalTrade;
+  /** Extra precondition checked against the stored position inside the transaction */
+  when?: (current: T) => boolean;
+}
+
+/** An order as seen by the portfolio risk check (portfolio-risk.ts). */
+export interface OrderRecord {
+  chain: string;
+  token: string;
+  side: 'buy' | 'sell';
+  reduceOnly: boolean;
+  /** Native units, or USD for HL */
+  notional: number | null;
+  status: 'accepted' | 'rejected';
+  /** Rule that rejected it */
+  rule?: string | null;
+  /** Script that sent it */
+  source?: string | null;
+  /** ISO time (default now) */
+  ts?: string;
+}
+
+export type ClientOrderStatus = 'pending' | 'filled' | 'failed';
+
+/**
+ * Minimum shape of a registered client order (order-registry.ts). Stored as
+ * JSON like positions; order-registry.ts defines the full ClientOrder.
+ */
+export interface JournalClientOrder {
+  id: string;
+  status: ClientOrderStatus;
+  createdAt: string;
+  [key: string]: any;
+}
+
+export type HlTransferStatus = 'pending' | 'credited' | 'failed' | 'expired';
+
+/** Minimum shape of a HyperLiquid deposit or withdrawal record; hl-funding.ts defines HlTransfer. */
+export interface JournalHlTransfer {
+  id: string;
+  kind: 'deposit' | 'withdraw';
+  status: HlTransferStatus;
+  createdAt: string;
+  [key: string]: any;
+}
+
+export type HlTopUpStatus = 'dry-run' | 'capped' | 'pending' | 'credited' | 'failed';
+
+/** Minimum shape of an automatic HL margin top-up; hl-topup.ts defines HlTopUp. */
+export interface JournalHlTopUp {
+  id: string;
+  status: HlTopUpStatus;
+  createdAt: string;
+  [key: string]: any;
+}
+
+export interface MigrationResult {
+  positions: number;
+  trades: number;
+  tokens: number;
+  scores: number;
+  /** Legacy files imported (and renamed to `.migrated`) */
+  files: string[];
+}
+
+export interface Journal {
+  /** Underlying connection — for ad-hoc queries and reports */
+  db: Database.Database;
+  file: string;
+
+  /** Insert a new position (and its entry fill) in one transaction. */
+  openPosition<T extends JournalPosition>(book: Book, position: T, fill?: Omit<FillInput, 'side'>): void;
+  getPosition<T extends JournalPosition>(id: string): T | null;
+  /** Positions of one or more books in open order, optionally filtered by status. */
+  getPositions<T extends JournalPosition>(book: Book | Book[], status?: 'open' | 'closed'): T[];
+  /**
+   * Merge fields into an open position (read-modify-write under the write
+   * lock, so concurrent agents never overwrite each other's fields).
+   * Returns false when the position is missing or already closed.
+   */
+  patchPosition<T extends JournalPosition>(id: string, patch: Partial<T>): boolean;
+  /**
+   * Record a partial or full exit atomically: merge `patch` into the position,
+   * add the sell fill and the trade. Only applies to an open position that
+   * passes `when`; returns the updated position, or null when skipped.
+   */
+  applyExit<T extends JournalPosition>(id: string, update: ExitUpdate<T>): T | null;
+  getFills(positionId: string): Fill[];
+
+  recordTrade(book: Book, trade: JournalTrade & { id: string }, positionId?: string): void;
+  /** Trades in the order they were recorded, optionally since an ISO time. */
+  getTrades<T extends JournalTrade>(book?: Book | Book[], since?: string): T[];
+
+  /** Replace the scanner watchlist; tokens need `address` and `firstSeen`. */
+  saveWatchlist(tokens: Array<{ address: string; firstSeen: string }>): void;
+  getWatchlist<T>(): { lastUpdated: string | null; tokens: T[] };
+  /** Append price/mcap/tx snapshots for a scan and prune old ones. */
+  snapshotTokens(tokens: Array<{ address: string; price?: number; marketCap?: number; txCount?: number; bondingCurveProgress?: number }>): void;
+  /** Replace the analyst scores; rows need `address` and `score`. */
+  saveScores(scores: Array<{ address: string; score: number }>): void;
+  getScores<T>(): { lastUpdated: string | null; scores: T[] };
+
+  /** Append to the order log that the portfolio risk check rate-limits on. */
+  recordOrder(order: OrderRecord): void;
+  /** Accepted orders since an ISO time. */
+  countOrders(since: string): number;
+  /**
+   * Capital still in open positions: buy fill values minus sell fill values,
+   * per position and never below zero. Native units (SOL) or USD per book.
+   */
+  openExposure(books: Book | Book[], token?: string): number;
+  /** Sum of realized P&L (SOL or USD per book) of trades exiting since an ISO time. */
+  realizedPnl(books: Book | Book[], since: string): number;
+  /** Client order registry (order-registry.ts) — one row per logical order id. */
+  getClientOrder<T extends JournalClientOrder>(id: string): T | null;
+  /** Insert or replace a client order. */
+  saveClientOrder(order: JournalClientOrder): void;
+  /** Client orders oldest first, optionally of one status. */
+  getClientOrders<T extends JournalClientOrder>(status?: ClientOrderStatus): T[];
+  /** HyperLiquid deposits and withdrawals (hl-funding.ts). */
+  getHlTransfer<T extends JournalHlTransfer>(id: string): T | null;
+  /** Insert or replace a transfer record. */
+  saveHlTransfer(transfer: JournalHlTransfer): void;
+  /** Transfers oldest first, optionally of one status. */
+  getHlTransfers<T extends JournalHlTransfer>(status?: HlTransferStatus): T[];
+  /** Insert or replace an HL margin top-up (hl-topup.ts). */
+  saveHlTopUp(topUp: JournalHlTopUp): void;
+  /** Top-ups oldest first, optionally created since an ISO time. */
+  getHlTopUps<T extends JournalHlTopUp>(since?: string): T[];
+  /** Small settings shared between processes (kill switch, …); null deletes. */
+  getSetting(key: string): string | null;
+  setSetting(key: string, value: string | null): void;
+
+  /** Delete positions, fills and trades of the given books (stats reset). */
+  reset(books: Book[]): void;
+  close(): void;
+}
+
+// ---------------------------------------------------------------------------
+// Open
+// ---------------------------------------------------------------------------
+
+let paperJournal = false;
+
+/**
+ * Send this process's journal to the paper file from now on. auth.ts calls it
+ * for a paper session (PAPER_TRADING already does it for the whole process).
+ * sharedJournal() follows the switch; a journal opened with openJournal()
+ * stays where it is.
+ */
+export function usePaperJournal(): void {
+  paperJournal = true;
+}
+
+/** The journal file: PAPER_JOURNAL_DB / data/journal-paper.db in paper mode, else JOURNAL_DB / data/journal.db. */
+export function getJournalPath(): string {
+  if (paperJournal || loadConfig().paperTrading) {
+    return process.env.PAPER_JOURNAL_DB ? path.resolve(process.env.PAPER_JOURNAL_DB) : DEFAULT_PAPER_JOURNAL_PATH;
+  }
+  return process.env.JOURNAL_DB ? path.resolve(process.env.JOURNAL_DB) : DEFAULT_JOURNAL_PATH;
+}
+
+function positionColumns(p: JournalPosition) {
+  const opened = p.entryTime ?? (typeof p.openedAt === 'number' ? new Date(p.openedAt).toISOString() : undefined);
+  return {
+    token: String(p.address ?? p.coin ?? ''),
+    symbol: String(p.symbol ?? p.coin ?? ''),
+    opened_at: opened ?? new Date().toISOString(),
+  };
+}
+
+function tradeColumns(t: JournalTrade) {
+  return {
+    token: String(t.address ?? t.coin ?? ''),
+    symbol: String(t.symbol ?? t.coin ?? ''),
+    exit_reason: t.exitReason ?? null,
+    pnl_pct: typeof t.pnlPct === 'number' ? t.pnlPct : null,
+    pnl: typeof t.pnlSol === 'number' ? t.pnlSol : typeof t.pnlUsd === 'number' ? t.pnlUsd : null,
+    exit_time: t.exitTime ?? new Date().toISOString(),
+  };
+}
+
+function inList(books: Book | Book[]): { sql: string; args: string[] } {
+  const list = Array.isArray(books) ? books : [books];
+  return { sql: `(${list.map(() => '?').join(', ')})`, args: list };
+}
+
+/**
+ * Open (creating if needed) the trade journal. Every agent process opens its
+ * own connection; WAL mode lets the dashboard read while agents write.
+ */
+export function openJournal(file = getJournalPath()): Journal {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('synchronous = NORMAL');
+  db.pragma('foreign_keys = ON');
+  db.pragma(`busy_timeout = ${BUSY_TIMEOUT_MS}`);
+  db.exec(SCHEMA);
+  db.prepare('INSERT OR IGNORE INTO meta (key, value) VALUES (?, ?)').run('schema_version', String(SCHEMA_VERSION));
+
+  const setMeta = db.prepare('INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value');
+  const getMeta = (key: string): string | null =>
+    (db.prepare('SELECT value FROM meta WHERE key = ?').get(key) as { value: string } | undefined)?.value ?? null;
+
+  const insertPosition = db.prepare(`
+    INSERT INTO positions (id, book, token, symbol, status, opened_at, closed_at, updated_at, data)
+    VALUES (@id, @book, @token, @symbol, @status, @opened_at, @closed_at, @updated_at, @data)`);
+  const selectPosition = db.prepare('SELECT data FROM positions WHERE id = ?');
+  const updatePosition = db.prepare(
+    'UPDATE positions SET status = @status, closed_at = @closed_at, updated_at = @updated_at, data = @data WHERE id = @id');
+  const insertFill = db.prepare(`
+    INSERT INTO fills (position_id, side, price, amount, value, tx_hash, reason, ts)
+    VALUES (@position_id, @side, @price, @amount, @value, @tx_hash, @reason, @ts)`);
+  const insertTrade = db.prepare(`
+    INSERT OR IGNORE INTO trades (id, book, position_id, token, symbol, exit_reason, pnl_pct, pnl, exit_time, data)
+    VALUES (@id, @book, @position_id, @token, @symbol, @exit_reason, @pnl_pct, @pnl, @exit_time, @data)`);
+
+  function addFill(positionId: string, fill: FillInput) {
+    insertFill.run({
+      position_id: positionId,
+      side: fill.side,
+      price: fill.price ?? null,
+      amount: fill.amount ?? null,
+      value: fill.value ?? null,
+      tx_hash: fill.txHash ?? null,
+      reason: fill.reason ?? null,
+      ts: fill.ts ?? new Date().toISOString(),
+    });
+  }
+
+  function addTrade(book: Book, trade: JournalTrade & { id: string }, positionId: string | null) {
+    insertTrade.run({ id: trade.id, book, position_id: positionId, ...tradeColumns(trade), data: JSON.stringify(trade) });
+  }
+
+  function readPosition<T>(id: string): T | null {
+    const row = selectPosition.get(id) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  function writePosition(p: JournalPosition) {
+    const now = new Date().toISOString();
+    updatePosition.run({
+      id: p.id,
+      status: p.status,
+      closed_at: p.status === 'closed' ? (p.exitTime ?? now) : null,
+      updated_at: now,
+      data: JSON.stringify(p),
+    });
+  }
+
+  // better-sqlite3 transactions are synchronous; .immediate() takes the write
+  // lock up front so the read in a read-modify-write can't go stale
+  const patchTx = db.transaction((id: string, patch: object): boolean => {
+    const current = readPosition<JournalPosition>(id);
+    if (!current || current.status !== 'open') return false;
+    writePosition({ ...current, ...patch, id });
+    return true;
+  });
+
+  const exitTx = db.transaction((id: string, update: ExitUpdate<any>) => {
+    const current = readPosition<JournalPosition>(id);
+    if (!current || current.status !== 'open') return null;
+    if (update.when && !update.when(current)) return null;
+    const next = { ...current, ...update.patch, id };
+    writePosition(next);
+    const book = (db.prepare('SELECT book FROM positions WHERE id = ?').get(id) as { book: Book }).book;
+    if (update.fill) addFill(id, update.fill);
+    if (update.trade) addTrade(book, { ...update.trade, id: update.trade.id ?? id }, id);
+    return next;
+  });
+
+  return {
+    db,
+    file,
+
+    openPosition(book, position, fill) {
+      db.transaction(() => {
+        const now = new Date().toISOString();
+        insertPosition.run({
+          id: position.id,
+          book,
+          ...positionColumns(position),
+          status: position.status,
+          closed_at: position.status === 'closed' ? (position.exitTime ?? now) : null,
+          updated_at: now,
+          data: JSON.stringify(position),
+        });
+        if (fill) addFill(position.id, { ...fill, side: 'buy' });
+      }).immediate();
+    },
+
+    getPosition: readPosition,
+
+    getPositions(book, status) {
+      const books = inList(book);
+      const rows = db.prepare(
+        `SELECT data FROM positions WHERE book IN ${books.sql}${status ? ' AND status = ?' : ''} ORDER BY opened_at, rowid`,
+      ).all(...books.args, ...(status ? [status] : [])) as { data: string }[];
+      return rows.map(r => JSON.parse(r.data));
+    },
+
+    patchPosition(id, patch) {
+      return patchTx.immediate(id, patch);
+    },
+
+    applyExit<T extends JournalPosition>(id: string, update: ExitUpdate<T>) {
+      return exitTx.immediate(id, update) as T | null;
+    },
+
+    getFills(positionId) {
+      const rows = db.prepare('SELECT * FROM fills WHERE position_id = ? ORDER BY id').all(positionId) as any[];
+      return rows.map(r => ({
+        id: r.id, positionId: r.position_id, side: r.side, price: r.price, amount: r.amount,
+        value: r.value, txHash: r.tx_hash, reason: r.reason, ts: r.ts,
+      }));
+    },
+
+    recordTrade(book, trade, positionId) {
+      addTrade(book, trade, positionId ?? null);
+    },
+
+    getTrades(book, since) {
+      const where: string[] = [];
+      const args: string[] = [];
+      if (book) {
+        const books = inList(book);
+        where.push(`book IN ${books.sql}`);
+        args.push(...books.args);
+      }
+      if (since) {
+        where.push('exit_time >= ?');
+        args.push(since);
+      }
+      const rows = db.prepare(
+        `SELECT data FROM trades${where.length ? ' WHERE ' + where.join(' AND ') : ''} ORDER BY seq`,
+      ).all(...args) as { data: string }[];
+      return rows.map(r => JSON.parse(r.data));
+    },
+
+    saveWatchlist(tokens) {
+      const insert = db.prepare('INSERT INTO watchlist (address, first_seen, data) VALUES (?, ?, ?)');
+      db.transaction(() => {
+        db.prepare('DELETE FROM watchlist').run();
+        for (const t of tokens) insert.run(t.address, t.firstSeen, JSON.stringify(t));
+        setMeta.run('watchlist_updated', new Date().toISOString());
+      }).immediate();
+    },
+
+    getWatchlist() {
+      const rows = db.prepare('SELECT data FROM watchlist ORDER BY first_seen DESC').all() as { data: string }[];
+      return { lastUpdated: getMeta('watchlist_updated'), tokens: rows.map(r => JSON.parse(r.data)) };
+    },
+
+    snapshotTokens(tokens) {
+      const ts = new Date().toISOString();
+      const insert = db.prepare(`
+        INSERT OR REPLACE INTO token_snapshots (address, ts, price, market_cap, tx_count, bc_progress)
+        VALUES (?, ?, ?, ?, ?, ?)`);
+      db.transaction(() => {
+        for (const t of tokens) {
+          insert.run(t.address, ts, t.price ?? null, t.marketCap ?? null, t.txCount ?? null, t.bondingCurveProgress ?? null);
+        }
+        db.prepare('DELETE FROM token_snapshots WHERE ts < ?')
+          .run(new Date(Date.now() - SNAPSHOT_RETENTION_MS).toISOString());
+      }).immediate();
+    },
+
+    saveScores(scores) {
+      const now = new Date().toISOString();
+      const insert = db.prepare('INSERT INTO scores (address, score, scored_at, data) VALUES (?, ?, ?, ?)');
+      db.transaction(() => {
+        db.prepare('DELETE FROM scores').run();
+        for (const s of scores) insert.run(s.address, s.score, now, JSON.stringify(s));
+        setMeta.run('scores_updated', now);
+      }).immediate();
+    },
+
+    getScores() {
+      const rows = db.prepare('SELECT data FROM scores ORDER BY score DESC').all() as { data: string }[];
+      return { lastUpdated: getMeta('scores_updated'), scores: rows.map(r => JSON.parse(r.data)) };
+    },
+
+    recordOrder(order) {
+      db.prepare(`
+        INSERT INTO orders (ts, chain, token, side, reduce_only, notional, status, rule, source)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`).run(
+        order.ts ?? new Date().toISOString(), order.chain, order.token, order.side, order.reduceOnly ? 1 : 0,
+        order.notional, order.status, order.rule ?? null, order.source ?? null,
+      );
+    },
+
+    countOrders(since) {
+      return (db.prepare("SELECT COUNT(*) AS n FROM orders WHERE status = 'accepted' AND ts >= ?").get(since) as { n: number }).n;
+    },
+
+    openExposure(book, token) {
+      const books = inList(book);
+      const row = db.prepare(`
+        SELECT COALESCE(SUM(MAX(net, 0)), 0) AS total FROM (
+          SELECT SUM(CASE f.side WHEN 'buy' THEN COALESCE(f.value, 0) ELSE -COALESCE(f.value, 0) END) AS net
+          FROM positions p JOIN fills f ON f.position_id = p.id
+          WHERE p.status = 'open' AND p.book IN ${books.sql}${token ? ' AND p.token = ?' : ''}
+          GROUP BY p.id
+        )`).get(...books.args, ...(token ? [token] : [])) as { total: number };
+      return row.total;
+    },
+
+    realizedPnl(book, since) {
+      const books = inList(book);
+      const row = db.prepare(
+        `SELECT COALESCE(SUM(pnl), 0) AS total FROM trades WHERE book IN ${books.sql} AND exit_time >= ?`,
+      ).get(...books.args, since) as { total: number };
+      return row.total;
+    },
+
+    getClientOrder(id) {
+      const row = db.prepare('SELECT data FROM client_orders WHERE id = ?').get(id) as { data: string } | undefined;
+      return row ? JSON.parse(row.data) : null;
+    },
+
+    saveClientOrder(order) {
+      db.prepare(`
+        INSERT INTO client_orders (id, status, created_at, updated_at, data) VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET status = excluded.status, updated_at = excluded.updated_at, data = excluded.data`).run(
+        order.id, order.status, order.createdAt, new Date().toISOString(), JSON.stringify(order),
+      );
+    },
+
+    getClientOrders(status) {
+      const rows = db.prepare(
+        `SELECT data FROM client_orders${status ? ' WHERE status = ?' : ''} ORDER BY created_at`,
+      ).all(...(status ? [status] : [])) as { data: string }[];
+      return rows.map(r => JSON.parse(r.data));
+    },
+
+    getHlTransfer(id) {
+      const row = db.prepare('SELECT data FROM hl_transfers WHERE id = ?').get(id) as { data: string } | undefined;
+      return row ? JSON.parse(row.data) : null;
+    },
+
+    saveHlTransfer(transfer) {
+      db.prepare(`
+        INSERT INTO hl_transfers (id, kind, status, created_at, updated_at, data) VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET status = excluded.status, updated_at = excluded.updated_at, data = excluded.data`).run(
+        transfer.id, transfer.kind, transfer.status, transfer.createdAt, new Date().toISOString(), JSON.stringify(transfer),
+      );
+    },
+
+    getHlTransfers(status) {
+      const rows = db.prepare(
+        `SELECT data FROM hl_transfers${status ? ' WHERE status = ?' : ''} ORDER BY created_at`,
+      ).all(...(status ? [status] : [])) as { data: string }[];
+      return rows.map(r => JSON.parse(r.data));
+    },
+
+    saveHlTopUp(topUp) {
+      db.prepare(`
+        INSERT INTO hl_topups (id, status, created_at, updated_at, data) VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET status = excluded.status, updated_at = excluded.updated_at, data = excluded.data`).run(
+        topUp.id, topUp.status, topUp.createdAt, new Date().toISOString(), JSON.stringify(topUp),
+      );
+    },
+
+    getHlTopUps(since) {
+      const rows = db.prepare(
+        `SELECT data FROM hl_topups${since ? ' WHERE created_at >= ?' : ''} ORDER BY created_at`,
+      ).all(...(since ? [since] : [])) as { data: string }[];
+      return rows.map(r => JSON.parse(r.data));
+    },
+
+    getSetting: (key) => getMeta(`setting:${key}`),
+
+    setSetting(key, value) {
+      if (value === null) db.prepare('DELETE FROM meta WHERE key = ?').run(`setting:${key}`);
+      else setMeta.run(`setting:${key}`, value);
+    },
+
+    reset(books) {
+      const list = inList(books);
+      db.transaction(() => {
+        db.prepare(`DELETE FROM trades WHERE book IN ${list.sql}`).run(...list.args);
+        // fills go with their positions (ON DELETE CASCADE)
+        db.prepare(`DELETE FROM positions WHERE book IN ${list.sql}`).run(...list.args);
+      }).immediate();
+    },
+
+    close() {
+      db.close();
+    },
+  };
+}
+
+const shared = new Map<string, Journal>();
+
+/**
+ * This process's journal, opened once per file. Library modules (portfolio
+ * risk, order registry, HL funding, top-ups, attribution, copy-trade) read it
+ * on every call, so one that opened its journal before usePaperJournal() ran
+ * still writes paper activity to the paper file afterwards.
+ */
+export function sharedJournal(): Journal {
+  const file = getJournalPath();
+  let journal = shared.get(file);
+  if (!journal) {
+    journal = openJournal(file);
+    shared.set(file, journal);
+  }
+  return journal;
+}
+
+// ---------------------------------------------------------------------------
+// Migration from the JSON logs
+// ---------------------------------------------------------------------------
+
+function readLegacy(file: string): any {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Import the legacy JSON logs (LEGACY_JSON_FILES, or `files` overrides) into
+ * the journal. Idempotent: rows already present are skipped, and each
+ * imported file is renamed to `<file>.migrated` so it isn't read again.
+ * Unreadable files are left in place.
+ */
+export function migrateJsonLogs(
+  journal: Journal,
+  files: Partial<typeof LEGACY_JSON_FILES> = {},
+): MigrationResult {
+  const src = { ...LEGACY_JSON_FILES, ...files };
+  const result: MigrationResult = { positions: 0, trades: 0, tokens: 0, scores: 0, files: [] };
+  const { db } = journal;
+  const insertPosition = db.prepare(`
+    INSERT OR IGNORE INTO positions (id, book, token, symbol, status, opened_at, closed_at, updated_at, data)
+    VALUES (@id, @book, @token, @symbol, @status, @opened_at, @closed_at, @updated_at, @data)`);
+  const insertTrade = db.prepare(`
+    INSERT OR IGNORE INTO trades (id, book, position_id, token, symbol, exit_reason, pnl_pct, pnl, exit_time, data)
+    VALUES (@id, @book, @position_id, @token, @symbol, @exit_reason, @pnl_pct, @pnl, @exit_time, @data)`);
+
+  const imported: string[] = [];
+
+  const addPositions = (book: Book, positions: JournalPosition[]) => {
+    const now = new Date().toISOString();
+    for (const p of positions) {
+      if (!p?.id) continue;
+      result.positions += insertPosition.run({
+        id: p.id, book, ...positionColumns(p), status: p.status === 'closed' ? 'closed' : 'open',
+        closed_at: p.status === 'closed' ? (p.exitTime ?? now) : null, updated_at: now, data: JSON.stringify(p),
+      }).changes;
+    }
+  };
+
+  const addTrade = (book: Book, t: JournalTrade & { id: string }) => {
+    result.trades += insertTrade.run({ id: t.id, book, position_id: null, ...tradeColumns(t), data: JSON.stringify(t) }).changes;
+  };
+
+  db.transaction(() => {
+    for (const [key, book] of [['traderPositions', 'trader'], ['scalperPositions', 'scalper']] as const) {
+      const data = readLegacy(src[key]);
+      if (!Array.isArray(data?.positions)) continue;
+      addPositions(book, data.positions);
+      imported.push(src[key]);
+    }
+
+    const log = readLegacy(src.pumpfunTrades);
+    if (Array.isArray(log?.trades)) {
+      for (const t of log.trades) {
+        if (t?.id) addTrade(t.type === 'scalp' ? 'scalper' : 'trader', t);
+      }
+      imported.push(src.pumpfunTrades);
+    }
+
+    // HL trade records carry no id — derive a stable one so re-imports dedupe
+    const hlTrades = readLegacy(src.hlTrades);
+    if (Array.isArray(hlTrades)) {
+      for (const t of hlTrades) {
+        const id = 'hl-' + createHash('sha1').update(JSON.stringify(t)).digest('hex').slice(0, 16);
+        const exitMs = new Date(`${t.date} ${t.time}`).getTime();
+        addTrade('hl-scalper', { ...t, id, exitTime: t.exitTime ?? new Date(Number.isNaN(exitMs) ? 0 : exitMs).toISOString() });
+      }
+      imported.push(src.hlTrades);
+    }
+
+    const hlState = readLegacy(src.hlState);
+    if (hlState) {
+      // v3 single-position files stored the Position object directly
+      const saved: any[] = Array.isArray(hlState.positions) ? hlState.positions : hlState.coin ? [hlState] : [];
+      addPositions('hl-scalper', saved.map(p => ({ ...p, id: `hl-${p.coin}-${p.openedAt}`, status: 'open' as const })));
+      imported.push(src.hlState);
+    }
+
+    const wl = readLegacy(src.watchlist);
+    if (Array.isArray(wl?.tokens) && journal.getWatchlist().tokens.length === 0) {
+      journal.saveWatchlist(wl.tokens.filter((t: any) => t?.address && t.firstSeen));
+      result.tokens = wl.tokens.length;
+      imported.push(src.watchlist);
+    }
+
+    const sc = readLegacy(src.scores);
+    if (Array.isArray(sc?.scores) && journal.getScores().scores.length === 0) {
+      journal.saveScores(sc.scores.filter((s: any) => s?.address && typeof s.score === 'number'));
+      result.scores = sc.scores.length;
+      imported.push(src.scores);
+    }
+  }).immediate();
+
+  // Rename only after the transaction committed
+  for (const file of imported) {
+    try {
+      fs.renameSync(file, file + '.migrated');
+      result.files.push(file);
+    } catch { /* already moved by a concurrent migration */ }
+  }
+  return result;
+}
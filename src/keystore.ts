@@ -0,0 +1,230 @@
+import { randomBytes, randomUUID, scryptSync, createCipheriv, createDecipheriv, timingSafeEqual } from 'crypto';
+import { Wallet, keccak256 } from 'ethers';
+import fs from 'fs';
+import path from 'path';
+
+/** Default keystore directory (gitignored). Override with KEYSTORE_DIR. */
+export const DEFAULT_KEYSTORE_DIR = path.resolve(__dirname, '..', '.keystore');
+export const DEFAULT_WALLET_NAME = 'default';
+
+// scrypt N=2^17, r=8 — same cost geth uses for "standard" keystores (~128 MB, ~1s)
+const SCRYPT_N = 131072;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const DKLEN = 32;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Ethereum JSON keystore v3. Files written here default to aes-256-gcm
+ * (tag in cipherparams); aes-128-ctr files from geth/MetaMask/ethers are
+ * read as-is, and can be written with `cipher: 'aes-128-ctr'` for export.
+ */
+export interface KeystoreV3 {
+  version: 3;
+  id: string;
+  /** Lowercase, no 0x — as in the v3 spec */
+  address: string;
+  /** Wallet name (extension field; other v3 readers ignore it) */
+  name?: string;
+  crypto: {
+    cipher: 'aes-256-gcm' | 'aes-128-ctr';
+    ciphertext: string;
+    cipherparams: { iv: string; tag?: string };
+    kdf: 'scrypt';
+    kdfparams: { dklen: number; n: number; r: number; p: number; salt: string };
+    /** keccak256(derivedKey[16:32] ++ ciphertext) */
+    mac: string;
+  };
+}
+
+export interface EncryptKeystoreOptions {
+  name?: string;
+  cipher?: KeystoreV3['crypto']['cipher'];
+  /** scrypt cost parameter (default 2^17) — lower only for tests */
+  scryptN?: number;
+}
+
+export interface UnlockedWallet {
+  name: string;
+  address: string;
+  privateKey: string;
+}
+
+// ---------------------------------------------------------------------------
+// Encrypt / decrypt
+// ---------------------------------------------------------------------------
+
+function deriveKey(passphrase: string, kdf: KeystoreV3['crypto']['kdfparams']): Buffer {
+  return scryptSync(Buffer.from(passphrase.normalize('NFKC'), 'utf8'), Buffer.from(kdf.salt, 'hex'), kdf.dklen, {
+    N: kdf.n,
+    r: kdf.r,
+    p: kdf.p,
+    maxmem: 256 * kdf.n * kdf.r,
+  });
+}
+
+function computeMac(derivedKey: Buffer, ciphertext: Buffer): string {
+  return keccak256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext])).slice(2);
+}
+
+/** Encrypt an EVM private key into a v3 keystore object. */
+export function encryptKeystore(privateKey: string, passphrase: string, opts: EncryptKeystoreOptions = {}): KeystoreV3 {
+  if (!passphrase) throw new Error('Keystore passphrase must not be empty');
+  const wallet = new Wallet(privateKey);
+  const cipher = opts.cipher ?? 'aes-256-gcm';
+  const kdfparams = { dklen: DKLEN, n: opts.scryptN ?? SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P, salt: randomBytes(32).toString('hex') };
+  const derivedKey = deriveKey(passphrase, kdfparams);
+  const plaintext = Buffer.from(wallet.privateKey.slice(2), 'hex');
+
+  let ciphertext: Buffer;
+  const cipherparams: KeystoreV3['crypto']['cipherparams'] = { iv: '' };
+  if (cipher === 'aes-256-gcm') {
+    const iv = randomBytes(12);
+    const c = createCipheriv('aes-256-gcm', derivedKey, iv);
+    ciphertext = Buffer.concat([c.update(plaintext), c.final()]);
+    cipherparams.iv = iv.toString('hex');
+    cipherparams.tag = c.getAuthTag().toString('hex');
+  } else {
+    const iv = randomBytes(16);
+    const c = createCipheriv('aes-128-ctr', derivedKey.subarray(0, 16), iv);
+    ciphertext = Buffer.concat([c.update(plaintext), c.final()]);
+    cipherparams.iv = iv.toString('hex');
+  }
+
+  return {
+    version: 3,
+    id: randomUUID(),
+    address: wallet.address.slice(2).toLowerCase(),
+    ...(opts.name ? { name: opts.name } : {}),
+    crypto: {
+      cipher,
+      ciphertext: ciphertext.toString('hex'),
+      cipherparams,
+      kdf: 'scrypt',
+      kdfparams,
+      mac: computeMac(derivedKey, ciphertext),
+    },
+  };
+}
+
+/** Decrypt a v3 keystore and return the 0x-prefixed private key. Throws on a wrong passphrase. */
+export function decryptKeystore(keystore: KeystoreV3, passphrase: string): string {
+  // Some writers (ethers, MyEtherWallet) capitalise the section as "Crypto"
+  const c = keystore.crypto ?? (keystore as any).Crypto;
+  if (keystore.version !== 3 || !c) throw new Error(`Unsupported keystore version ${keystore.version}`);
+  if (c.kdf !== 'scrypt') throw new Error(`Unsupported keystore KDF ${c.kdf} (only scrypt)`);
+
+  const derivedKey = deriveKey(passphrase, c.kdfparams);
+  const ciphertext = Buffer.from(c.ciphertext, 'hex');
+  const mac = Buffer.from(computeMac(derivedKey, ciphertext), 'hex');
+  const stored = Buffer.from(String(c.mac ?? ''), 'hex');
+  // timingSafeEqual throws on a length mismatch — a truncated or hand-edited mac
+  if (stored.length !== mac.length || !timingSafeEqual(mac, stored)) {
+    throw new Error('Wrong keystore passphrase or corrupt keystore');
+  }
+
+  let plaintext: Buffer;
+  if (c.cipher === 'aes-256-gcm') {
+    if (!c.cipherparams.tag) throw new Error('aes-256-gcm keystore is missing its auth tag');
+    const d = createDecipheriv('aes-256-gcm', derivedKey, Buffer.from(c.cipherparams.iv, 'hex'));
+    d.setAuthTag(Buffer.from(c.cipherparams.tag, 'hex'));
+    plaintext = Buffer.concat([d.update(ciphertext), d.final()]);
+  } else if (c.cipher === 'aes-128-ctr') {
+    const d = createDecipheriv('aes-128-ctr', derivedKey.subarray(0, 16), Buffer.from(c.cipherparams.iv, 'hex'));
+    plaintext = Buffer.concat([d.update(ciphertext), d.final()]);
+  } else {
+    throw new Error(`Unsupported keystore cipher ${c.cipher}`);
+  }
+
+  const privateKey = '0x' + plaintext.toString('hex');
+  const address = new Wallet(privateKey).address.slice(2).toLowerCase();
+  if (keystore.address && keystore.address.toLowerCase().replace(/^0x/, '') !== address) {
+    throw new Error('Keystore address does not match the decrypted key');
+  }
+  return privateKey;
+}
+
+// ---------------------------------------------------------------------------
+// Named wallets on disk
+// ---------------------------------------------------------------------------
+
+export function getKeystoreDir(): string {
+  return process.env.KEYSTORE_DIR ? path.resolve(process.env.KEYSTORE_DIR) : DEFAULT_KEYSTORE_DIR;
+}
+
+function keystorePath(name: string, dir = getKeystoreDir()): string {
+  if (!/^[\w.-]+$/.test(name)) throw new Error(`Invalid wallet name "${name}" (letters, digits, . _ - only)`);
+  return path.join(dir, `${name}.json`);
+}
+
+export function hasKeystore(name = DEFAULT_WALLET_NAME, dir?: string): boolean {
+  return fs.existsSync(keystorePath(name, dir));
+}
+
+export function readKeystore(name = DEFAULT_WALLET_NAME, dir?: string): KeystoreV3 {
+  const file = keystorePath(name, dir);
+  if (!fs.existsSync(file)) throw new Error(`No keystore for wallet "${name}" in ${path.dirname(file)}`);
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+/** Named wallets in the keystore directory, with their addresses. */
+export function listKeystores(dir = getKeystoreDir()): { name: string; address: string }[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .filter(f => f.endsWith('.json'))
+    .map(f => {
+      try {
+        const ks: KeystoreV3 = JSON.parse(fs.readFileSync(path.join(dir, f), 'utf8'));
+        return { name: f.slice(0, -5), address: '0x' + ks.address.replace(/^0x/, '') };
+      } catch {
+        return null;
+      }
+    })
+    .filter((w): w is { name: string; address: string } => w !== null);
+}
+
+/**
+ * Encrypt and save a key as a named wallet. Refuses to overwrite an existing
+ * wallet unless `overwrite` is set. Written 0600 via tmp + rename.
+ */
+export function saveKeystore(
+  name: string,
+  privateKey: string,
+  passphrase: string,
+  opts: EncryptKeystoreOptions & { dir?: string; overwrite?: boolean } = {},
+): KeystoreV3 {
+  const dir = opts.dir ?? getKeystoreDir();
+  const file = keystorePath(name, dir);
+  if (fs.existsSync(file) && !opts.overwrite) throw new Error(`Wallet "${name}" already exists in ${dir}`);
+
+  const keystore = encryptKeystore(privateKey, passphrase, { ...opts, name });
+  fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const tmp = file + '.tmp';
+  fs.writeFileSync(tmp, JSON.stringify(keystore, null, 2), { mode: 0o600 });
+  fs.renameSync(tmp, file);
+  return keystore;
+}
+
+/**
+ * Passphrase from the environment: KEYSTORE_PASSWORD, or the first line of
+ * the file named by KEYSTORE_PASSWORD_FILE (for systemd/docker secrets).
+ */
+export function resolvePassphrase(): string | undefined {
+  if (process.env.KEYSTORE_PASSWORD) return process.env.KEYSTORE_PASSWORD;
+  const file = process.env.KEYSTORE_PASSWORD_FILE;
+  if (!file) return undefined;
+  return fs.readFileSync(path.resolve(file), 'utf8').split(/\r?\n/)[0];
+}
+
+/** Decrypt a named wallet. Passphrase defaults to resolvePassphrase(). */
+export function unlockKeystore(name = DEFAULT_WALLET_NAME, passphrase?: string, dir?: string): UnlockedWallet {
+  const pass = passphrase ?? resolvePassphrase();
+  if (!pass) {
+    throw new Error(`Wallet "${name}" is encrypted — set KEYSTORE_PASSWORD / KEYSTORE_PASSWORD_FILE or pass a passphrase`);
+  }
+  const privateKey = decryptKeystore(readKeystore(name, dir), pass);
+  return { name, address: new Wallet(privateKey).address, privateKey };
+}
@@ -3,6 +3,8 @@ import { GDEXSession } from './auth';
 
 type SDK = ReturnType<typeof createSDK>;
 
+const SOLANA = 622112261;
+
 // ---------------------------------------------------------------------------
 // Unauthenticated market data (uses raw SDK)
 // ---------------------------------------------------------------------------
@@ -41,6 +43,32 @@ export async function getXstocks(sdk: SDK): Promise<any[]> {
   return sdk.tokens.getXstocks();
 }
 
+export interface SpotQuote {
+  /** Native per whole token */
+  priceNative: number;
+  decimals: number;
+  symbol: string;
+}
+
+/** Live spot quote from GDEX token data; falls back to priceUsd / native USD price. */
+export async function getSpotQuote(sdk: SDK, tokenAddress: string, chainId: number): Promise<SpotQuote | null> {
+  const result = await sdk.tokens.getToken(tokenAddress, chainId);
+  const token = Array.isArray(result) ? result[0] : result;
+  if (!token) return null;
+
+  const decimals = typeof token.decimals === 'number' ? token.decimals : chainId === SOLANA ? 6 : 18;
+  const symbol = token.symbol ?? tokenAddress.slice(0, 6);
+
+  let priceNative = parseFloat(token.priceNative ?? '0') || 0;
+  if (priceNative <= 0) {
+    const priceUsd = parseFloat(token.priceUsd ?? '0') || 0;
+    const natives: any[] = (await sdk.tokens.getNativePrices()) ?? [];
+    const nativeUsd = natives.find(p => p.chainId === chainId)?.nativePrice ?? 0;
+    if (priceUsd > 0 && nativeUsd > 0) priceNative = priceUsd / nativeUsd;
+  }
+  return priceNative > 0 ? { priceNative, decimals, symbol } : null;
+}
+
 /** Get pump.fun chart data for a Solana token. */
 export async function getChartTokenPumpfun(
   sdk: SDK,
@@ -63,6 +91,14 @@ export async function getHoldings(session: GDEXSession, chainId?: number): Promi
   );
 }
 
+/** The entry for a token in a holdings list — matched on address, tokenAddress or mint. */
+export function findHolding(holdings: any[], tokenAddress: string): any | undefined {
+  const token = tokenAddress.toLowerCase();
+  return holdings.find((x: any) =>
+    [x.address, x.tokenAddress, x.mint].some((a: any) => typeof a === 'string' && a.toLowerCase() === token),
+  );
+}
+
 /** Get authenticated user info. */
 export async function getUserInfo(session: GDEXSession, chainId?: number): Promise<any> {
   return session.sdk.user.getUserInfo(
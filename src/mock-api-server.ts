@@ -0,0 +1,54 @@
+/**
+ * LOCAL GDEX + HYPERLIQUID MOCK API
+ *
+ * Serves the GDEX endpoints and HyperLiquid info types the project uses from
+ * in-memory state, with orders following a scripted scenario (mock-api.ts).
+ * Point any script, daemon or the CLI at it with GDEX_MOCK_URL; nothing
+ * reaches trade-api.gemach.io, api.hyperliquid.xyz or a chain RPC node —
+ * spot fills are read from the mock too.
+ *
+ * Usage:
+ *   npm run mock:api                                      # 127.0.0.1:8787, "fills"
+ *   npm run mock:api -- --scenario rejects                # fills | rejects | timeouts | pending-forever | mixed
+ *   npm run mock:api -- --scenario ./ci/slow-fills.json --port 9000
+ *
+ *   GDEX_MOCK_URL=http://127.0.0.1:8787 npm run gdex -- hl order BTC long --usd 20
+ *   curl -s -X POST localhost:8787/mock/scenario -d '{"scenario":"timeouts"}'
+ */
+
+import { loadMockScenario, startMockApi, MOCK_API_HOST, MOCK_API_PORT } from './mock-api';
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function log(msg: string) {
+  process.stderr.write(`[MOCK ${new Date().toISOString()}] ${msg}\n`);
+}
+
+function flag(name: string): string | undefined {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+// ─── Main ─────────────────────────────────────────────────────────────────────
+
+async function main() {
+  const port = parseInt(flag('port') ?? String(MOCK_API_PORT), 10);
+  if (!Number.isInteger(port) || port < 0) throw new Error(`--port must be a port number, got ${flag('port')}`);
+  const scenario = loadMockScenario(flag('scenario') ?? 'fills');
+
+  const api = await startMockApi({ port, host: flag('host') ?? MOCK_API_HOST, scenario, log });
+  log(`Listening on ${api.url} — scenario ${scenario.name} (spot: ${scenario.spot.join(', ')} | perp: ${scenario.perp.join(', ')})`);
+  log(`Point the project at it: GDEX_MOCK_URL=${api.url}`);
+
+  const shutdown = () => {
+    log('Shutting down mock API');
+    api.close().then(() => process.exit(0));
+  };
+  process.on('SIGTERM', shutdown);
+  process.on('SIGINT', shutdown);
+}
+
+main().catch((err) => {
+  log(`FATAL: ${err.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,961 @@
+/**
+ * mock-api.ts — local stand-in for the GDEX API and the HyperLiquid info API
+ *
+ * Order flows can't be exercised against trade-api.gemach.io and
+ * api.hyperliquid.xyz without real money, so this server answers the same
+ * calls from in-memory state, following a scripted scenario. Set
+ * GDEX_MOCK_URL=http://127.0.0.1:8787 (npm run mock:api) and the whole
+ * project talks to it: loadConfig() points apiUrl at `<mock>/v1`,
+ * createAuthenticatedSession() routes every SDK call to
+ * `<mock>/v1/sdk/<namespace>/<method>`, hlInfo() posts to `<mock>/info` and
+ * fills.ts reads confirmed trades from `<mock>/rpc/<chainId>`.
+ *
+ * GDEX:
+ *   POST /v1/purchase_v2, /v1/sell_v2   queue a Solana spot order → { requestId }
+ *   GET  /v1/trade-status/:requestId    pending → success / error per scenario
+ *   POST /v1/hl/deposit                 accepted (the amount is sealed in
+ *                                       computedData, so nothing is credited)
+ *   POST /v1/sdk/:namespace/:method     SDK calls, body { args }: login, user
+ *                                       info, holdings, EVM buy/sell, limit
+ *                                       orders, hlCreateOrder, cancels,
+ *                                       hlCloseAll, balances, hlWithdraw,
+ *                                       clearinghouse state, trade history
+ *
+ * HyperLiquid (POST /info, by type): clearinghouseState, frontendOpenOrders,
+ * openOrders, userFills, userFillsByTime, allMids, meta, metaAndAssetCtxs,
+ * candleSnapshot, fundingHistory, portfolio. Candles and funding are
+ * generated around each asset's mid so backtests and the scalper have data.
+ *
+ * Control:
+ *   GET  /mock/state                    scenario, HL account, spot requests
+ *   POST /mock/scenario                 { "scenario": "<preset or file>" } or
+ *                                       a full scenario object; resets state
+ *   POST /mock/reset                    back to the scenario's initial state
+ *
+ * Scenarios script what orders do. Spot orders take the next outcome from
+ * `spot` (fill, reject, timeout, pending — pending never settles), perp
+ * orders from `perp` (fill, rest, reject, timeout); both lists cycle. A
+ * timeout holds the request for hangMs and then answers 504, so clients hit
+ * their own timeouts first. Presets: fills, rejects, timeouts,
+ * pending-forever, mixed. A JSON file can start from a preset
+ * (`"extends": "rejects"`) and override any field.
+ *
+ * Chain RPC (POST /rpc/:chainId, JSON-RPC, batches too): Solana
+ * getTransaction and the EVM calls fills.ts makes for a receipt
+ * (eth_getTransactionReceipt, eth_getBalance, decimals() via eth_call), for
+ * the swaps of filled spot orders. EVM swaps trade the token and amount
+ * sent; purchase_v2/sell_v2 seal theirs in computedData, so a Solana swap
+ * moves `spotFillNative` SOL worth of every Solana token in the scenario at
+ * its priceNative.
+ */
+
+import axios from 'axios';
+import * as crypto from 'crypto';
+import { ethers } from 'ethers';
+import * as fs from 'fs';
+import http from 'http';
+import * as path from 'path';
+
+export const MOCK_API_HOST = '127.0.0.1';
+export const MOCK_API_PORT = 8787;
+
+const SOLANA = 622112261;
+/** Custodial addresses the mock hands out — one HL account behind every login */
+export const MOCK_EVM_ADDRESS = '0x6d6f636b00000000000000000000000000000001';
+export const MOCK_SOLANA_ADDRESS = 'MockCustodia1Wa11et1111111111111111111111111';
+
+const TAKER_FEE = 0.00045;
+const MAX_CANDLES_PER_REQUEST = 5000;
+const MAX_FUNDING_PER_REQUEST = 500;
+const FUNDING_INTERVAL_MS = 3600_000;
+const SDK_TIMEOUT_MS = 60_000;
+const SOLANA_FEE_LAMPORTS = 5000;
+const TOKEN_ACCOUNT_RENT_LAMPORTS = 2_039_280;
+const EVM_GAS_USED = 150_000n;
+const EVM_GAS_PRICE = 1_000_000_000n;
+/** Counterparty of every EVM swap's token Transfer */
+const MOCK_POOL_ADDRESS = '0x6d6f636b00000000000000000000000000000b01';
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+const DECIMALS_SELECTOR = ethers.id('decimals()').slice(0, 10);
+
+const INTERVAL_MS: Record<string, number> = {
+  '1m': 60_000, '3m': 3 * 60_000, '5m': 5 * 60_000, '15m': 15 * 60_000,
+  '30m': 30 * 60_000, '1h': 60 * 60_000, '4h': 4 * 60 * 60_000, '1d': 24 * 60 * 60_000,
+};
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type SpotOutcome = 'fill' | 'reject' | 'timeout' | 'pending';
+export type PerpOutcome = 'fill' | 'rest' | 'reject' | 'timeout';
+
+export interface MockAsset {
+  name: string;
+  mid: number;
+  szDecimals: number;
+  maxLeverage: number;
+}
+
+export interface MockPositionInput {
+  coin: string;
+  /** Signed size, negative = short */
+  szi: number;
+  entryPx: number;
+  leverage?: number;
+}
+
+export interface MockToken {
+  chainId: number;
+  address: string;
+  symbol: string;
+  decimals: number;
+  /** Native per whole token, served by tokens.getToken */
+  priceNative: number;
+  /** Held amount in the holdings list */
+  balance: number;
+}
+
+export interface MockScenario {
+  name: string;
+  /** Outcomes of successive spot buys and sells, cycled */
+  spot: SpotOutcome[];
+  /** Outcomes of successive hlCreateOrder calls, cycled */
+  perp: PerpOutcome[];
+  /** trade-status answers pending this many times before a spot order settles */
+  pendingPolls: number;
+  /** How long a timed-out request hangs before the mock answers 504 */
+  hangMs: number;
+  /** Added to every response */
+  latencyMs: number;
+  /** Error text of rejected orders */
+  rejectMessage: string;
+  hl: {
+    /** Starting USDC on the HL account */
+    usdc: number;
+    assets: MockAsset[];
+    /** Hourly funding rate of every asset */
+    fundingRate: number;
+    positions: MockPositionInput[];
+  };
+  /** Native balance in every chain's holdings list */
+  nativeBalance: number;
+  /** SOL each filled Solana spot order swaps (the order's own amount is sealed) */
+  spotFillNative: number;
+  tokens: MockToken[];
+}
+
+export interface MockApiOptions {
+  /** Default 8787; 0 picks a free port */
+  port?: number;
+  host?: string;
+  scenario?: MockScenario;
+  log?: (msg: string) => void;
+}
+
+export interface MockApi {
+  server: http.Server;
+  /** Base URL to set as GDEX_MOCK_URL */
+  url: string;
+  scenario(): MockScenario;
+  /** Switch scenario and reset state */
+  setScenario(scenario: MockScenario): void;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+interface MockPosition {
+  coin: string;
+  szi: number;
+  entryPx: number;
+  leverage: number;
+}
+
+interface MockHlState {
+  usdc: number;
+  positions: Map<string, MockPosition>;
+  /** Raw HL frontendOpenOrders rows */
+  orders: any[];
+  /** Raw HL fills, oldest first */
+  fills: any[];
+  nextOid: number;
+  nextTid: number;
+}
+
+/** A filled spot order's swap, as the chain RPC serves it */
+interface ChainSwap {
+  hash: string;
+  chainId: number;
+  side: 'buy' | 'sell';
+  /** Native paid (buy) or received (sell), whole units, fee not included */
+  native: number;
+  /** Tokens moved, each native / priceNative of it */
+  tokens: MockToken[];
+  /** Block (EVM) or slot (Solana) — odd, so the block before never holds a swap */
+  block: number;
+  createdAt: number;
+}
+
+interface SpotRequest {
+  id: string;
+  kind: 'purchase' | 'sell';
+  outcome: SpotOutcome;
+  polls: number;
+  hash: string;
+  createdAt: number;
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+type Route = (req: http.IncomingMessage, url: URL, params: string[], body: any) => Promise<unknown> | unknown;
+type SdkMethod = (...args: any[]) => Promise<unknown> | unknown;
+
+// ---------------------------------------------------------------------------
+// Scenarios
+// ---------------------------------------------------------------------------
+
+const BASE_SCENARIO: MockScenario = {
+  name: 'fills',
+  spot: ['fill'],
+  perp: ['fill'],
+  pendingPolls: 1,
+  hangMs: 20_000,
+  latencyMs: 0,
+  rejectMessage: 'Mock: order rejected by the exchange',
+  hl: {
+    usdc: 1000,
+    assets: [
+      { name: 'BTC', mid: 65_000, szDecimals: 5, maxLeverage: 40 },
+      { name: 'ETH', mid: 3_200, szDecimals: 4, maxLeverage: 25 },
+      { name: 'SOL', mid: 150, szDecimals: 2, maxLeverage: 20 },
+    ],
+    fundingRate: 0.0000125,
+    positions: [],
+  },
+  nativeBalance: 1,
+  spotFillNative: 0.001,
+  tokens: [
+    { chainId: SOLANA, address: 'MockToken11111111111111111111111111111111pump', symbol: 'MOCK', decimals: 6, priceNative: 0.00001, balance: 0 },
+    { chainId: 8453, address: '0x6d6f636b0000000000000000000000000000beef', symbol: 'MOCKB', decimals: 18, priceNative: 0.000001, balance: 0 },
+  ],
+};
+
+export const MOCK_SCENARIOS: Record<string, MockScenario> = {
+  fills: BASE_SCENARIO,
+  rejects: { ...BASE_SCENARIO, name: 'rejects', spot: ['reject'], perp: ['reject'] },
+  timeouts: { ...BASE_SCENARIO, name: 'timeouts', spot: ['timeout'], perp: ['timeout'] },
+  'pending-forever': { ...BASE_SCENARIO, name: 'pending-forever', spot: ['pending'], perp: ['rest'] },
+  mixed: { ...BASE_SCENARIO, name: 'mixed', spot: ['fill', 'reject', 'pending', 'timeout'], perp: ['fill', 'rest', 'reject', 'timeout'] },
+};
+
+const SPOT_OUTCOMES: SpotOutcome[] = ['fill', 'reject', 'timeout', 'pending'];
+const PERP_OUTCOMES: PerpOutcome[] = ['fill', 'rest', 'reject', 'timeout'];
+
+function validateScenario(s: MockScenario): string[] {
+  const errors: string[] = [];
+  const outcomes = (field: 'spot' | 'perp', allowed: string[]) => {
+    const list = s[field];
+    if (!Array.isArray(list) || list.length === 0) errors.push(`${field} must be a non-empty list of ${allowed.join(' | ')}`);
+    else for (const o of list) if (!allowed.includes(o)) errors.push(`${field}: unknown outcome "${o}" (expected ${allowed.join(' | ')})`);
+  };
+  outcomes('spot', SPOT_OUTCOMES);
+  outcomes('perp', PERP_OUTCOMES);
+  for (const field of ['pendingPolls', 'hangMs', 'latencyMs', 'nativeBalance'] as const) {
+    if (!(Number.isFinite(s[field]) && s[field] >= 0)) errors.push(`${field} must be a number ≥ 0`);
+  }
+  if (!(Number.isFinite(s.spotFillNative) && s.spotFillNative > 0)) errors.push('spotFillNative must be a number > 0');
+  for (const t of s.tokens ?? []) {
+    if (!t.address || !(t.priceNative > 0) || !Number.isInteger(t.decimals)) {
+      errors.push(`tokens: ${t.address ?? '?'} needs an address, decimals and a positive priceNative`);
+    }
+  }
+  if (!(Number.isFinite(s.hl?.usdc) && s.hl.usdc >= 0)) errors.push('hl.usdc must be a number ≥ 0');
+  if (!Array.isArray(s.hl?.assets) || s.hl.assets.length === 0) errors.push('hl.assets must list at least one asset');
+  for (const a of s.hl?.assets ?? []) {
+    if (!a.name || !(a.mid > 0)) errors.push(`hl.assets: ${a.name ?? '?'} needs a name and a positive mid`);
+  }
+  const listed = new Set((s.hl?.assets ?? []).map((a) => a.name));
+  for (const p of s.hl?.positions ?? []) {
+    if (!listed.has(p.coin)) errors.push(`hl.positions: ${p.coin} is not in hl.assets`);
+    if (!(p.entryPx > 0) || !Number.isFinite(p.szi)) errors.push(`hl.positions: ${p.coin} needs a size and a positive entryPx`);
+  }
+  return errors;
+}
+
+/**
+ * A preset by name, or a JSON scenario file. A file starts from the preset
+ * named in `extends` (default fills) and overrides what it sets; `hl` is
+ * merged one level deep.
+ */
+export function loadMockScenario(spec: string): MockScenario {
+  if (MOCK_SCENARIOS[spec]) return structuredClone(MOCK_SCENARIOS[spec]);
+
+  const file = path.resolve(spec);
+  if (!fs.existsSync(file)) {
+    throw new Error(`Unknown mock scenario "${spec}" — use one of ${Object.keys(MOCK_SCENARIOS).join(', ')} or a JSON file`);
+  }
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (err: any) {
+    throw new Error(`Cannot parse mock scenario ${file}: ${err.message}`);
+  }
+  const base = MOCK_SCENARIOS[raw.extends ?? 'fills'];
+  if (!base) throw new Error(`Mock scenario ${file} extends unknown preset "${raw.extends}"`);
+
+  const { extends: _, hl, ...rest } = raw;
+  const scenario: MockScenario = structuredClone({
+    ...base,
+    name: path.basename(file, '.json'),
+    ...rest,
+    hl: { ...base.hl, ...hl },
+  });
+  const errors = validateScenario(scenario);
+  if (errors.length > 0) throw new Error(`Invalid mock scenario ${file}:\n  - ${errors.join('\n  - ')}`);
+  return scenario;
+}
+
+// ---------------------------------------------------------------------------
+// Client side
+// ---------------------------------------------------------------------------
+
+const SDK_NAMESPACES = ['user', 'trading', 'hyperLiquid', 'tokens', 'copyTrade'];
+
+/**
+ * Send every SDK namespace call to the mock server as
+ * POST <mockUrl>/v1/sdk/<namespace>/<method> { args }. Calls the mock doesn't
+ * implement fail with its 501 message. createAuthenticatedSession() loads
+ * this module and applies it when GDEX_MOCK_URL is set.
+ */
+export function routeSdkToMock(sdk: any, mockUrl: string): void {
+  for (const namespace of SDK_NAMESPACES) {
+    const target = sdk[namespace] ?? {};
+    sdk[namespace] = new Proxy(target, {
+      get(obj, prop, receiver) {
+        const value = Reflect.get(obj, prop, receiver);
+        if (typeof prop !== 'string' || (value !== undefined && typeof value !== 'function')) return value;
+        return async (...args: any[]) => {
+          try {
+            const res = await axios.post(`${mockUrl}/v1/sdk/${namespace}/${prop}`, { args }, { timeout: SDK_TIMEOUT_MS });
+            return res.data;
+          } catch (err: any) {
+            if (err.response?.data?.error) err.message = `${namespace}.${prop}: ${err.response.data.error}`;
+            throw err;
+          }
+        };
+      },
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function readBody(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', (chunk) => (data += chunk));
+    req.on('end', () => {
+      if (!data) return resolve({});
+      try {
+        resolve(JSON.parse(data));
+      } catch {
+        reject(new HttpError(400, 'body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function roundSize(sz: number, szDecimals: number): number {
+  const f = 10 ** szDecimals;
+  return Math.round(sz * f) / f;
+}
+
+function evmHash(): string {
+  return '0x' + crypto.randomBytes(32).toString('hex');
+}
+
+function solanaSignature(): string {
+  return ethers.encodeBase58(crypto.randomBytes(64));
+}
+
+/** A stable base58 address for the owner's token account of a mint */
+function tokenAccount(owner: string, mint: string): string {
+  return ethers.encodeBase58(crypto.createHash('sha256').update(`${owner}:${mint}`).digest());
+}
+
+/** `amount` whole units in a token's base units */
+function baseUnits(amount: number, decimals: number): bigint {
+  return ethers.parseUnits(amount.toFixed(decimals), decimals);
+}
+
+/** Whole tokens a swap of `native` moves — 12 significant digits, so prices come out round */
+function tokensFor(native: number, token: MockToken): number {
+  return Number((native / token.priceNative).toPrecision(12));
+}
+
+const hex = (n: number | bigint) => ethers.toQuantity(n);
+
+/** Deterministic price path around the mid, so repeated candle requests agree */
+function pathPrice(mid: number, t: number, intervalMs: number): number {
+  return mid * (1 + 0.01 * Math.sin(t / (intervalMs * 24)) + 0.002 * Math.sin(t / (intervalMs * 3)));
+}
+
+// ---------------------------------------------------------------------------
+// Server
+// ---------------------------------------------------------------------------
+
+/** Start the mock; resolves once it is listening. */
+export function startMockApi(opts: MockApiOptions = {}): Promise<MockApi> {
+  const log = opts.log ?? (() => {});
+  let scenario = opts.scenario ?? structuredClone(BASE_SCENARIO);
+  let hl: MockHlState;
+  let spotRequests: Map<string, SpotRequest>;
+  let swaps: Map<string, ChainSwap>;
+  let nextBlock = 1001;
+  let limitOrders: any[];
+  let spotCount = 0;
+  let perpCount = 0;
+  const hangs = new Set<NodeJS.Timeout>();
+
+  const reset = () => {
+    hl = {
+      usdc: scenario.hl.usdc,
+      positions: new Map(scenario.hl.positions.map((p) => [p.coin, { leverage: 10, ...p }])),
+      orders: [],
+      fills: [],
+      nextOid: 1000,
+      nextTid: 1,
+    };
+    spotRequests = new Map();
+    swaps = new Map();
+    limitOrders = [];
+    spotCount = 0;
+    perpCount = 0;
+  };
+  reset();
+
+  const nextSpot = (): SpotOutcome => scenario.spot[spotCount++ % scenario.spot.length];
+  const nextPerp = (): PerpOutcome => scenario.perp[perpCount++ % scenario.perp.length];
+
+  /** Hold the request for hangMs, then give up with a 504 */
+  const hang = (what: string): Promise<never> =>
+    new Promise((_, reject) => {
+      log(`${what}: timing out (${scenario.hangMs}ms)`);
+      const timer = setTimeout(() => {
+        hangs.delete(timer);
+        reject(new HttpError(504, `Mock: ${what} timed out`));
+      }, scenario.hangMs);
+      hangs.add(timer);
+    });
+
+  const asset = (coin: string): MockAsset | undefined => scenario.hl.assets.find((a) => a.name === coin);
+  const mid = (coin: string): number => asset(coin)?.mid ?? 0;
+  const custodial = (chainId: number) => (Number(chainId) === SOLANA ? MOCK_SOLANA_ADDRESS : MOCK_EVM_ADDRESS);
+  const isAccount = (user: unknown) => typeof user === 'string' && user.toLowerCase() === MOCK_EVM_ADDRESS;
+
+  // --- HL account ---
+
+  const applyFill = (coin: string, isBuy: boolean, px: number, sz: number, oid: number) => {
+    const pos = hl.positions.get(coin) ?? { coin, szi: 0, entryPx: 0, leverage: 10 };
+    const sign = isBuy ? 1 : -1;
+    const start = pos.szi;
+    const closing = start !== 0 && Math.sign(start) !== sign ? Math.min(sz, Math.abs(start)) : 0;
+    const closedPnl = closing * (px - pos.entryPx) * Math.sign(start);
+    const next = start + sign * sz;
+
+    if (Math.abs(next) < 1e-12) hl.positions.delete(coin);
+    else {
+      if (start === 0 || Math.sign(next) !== Math.sign(start)) pos.entryPx = px;
+      else if (closing === 0) pos.entryPx = (pos.entryPx * Math.abs(start) + px * sz) / Math.abs(next);
+      pos.szi = next;
+      hl.positions.set(coin, pos);
+    }
+
+    const fee = px * sz * TAKER_FEE;
+    hl.usdc += closedPnl - fee;
+    hl.fills.push({
+      coin,
+      px: String(px),
+      sz: String(sz),
+      side: isBuy ? 'B' : 'A',
+      time: Date.now(),
+      dir: closing > 0 ? `Close ${start > 0 ? 'Long' : 'Short'}` : `Open ${isBuy ? 'Long' : 'Short'}`,
+      closedPnl: closedPnl.toFixed(6),
+      fee: fee.toFixed(6),
+      feeToken: 'USDC',
+      oid,
+      tid: hl.nextTid++,
+      hash: evmHash(),
+      crossed: true,
+      startPosition: String(start),
+    });
+  };
+
+  const clearinghouse = (user: unknown) => {
+    const positions = isAccount(user) ? [...hl.positions.values()] : [];
+    let unrealized = 0;
+    let marginUsed = 0;
+    let ntl = 0;
+    const assetPositions = positions.map((p) => {
+      const px = mid(p.coin);
+      const value = Math.abs(p.szi) * px;
+      const upnl = p.szi * (px - p.entryPx);
+      const margin = value / p.leverage;
+      unrealized += upnl;
+      marginUsed += margin;
+      ntl += value;
+      return {
+        type: 'oneWay',
+        position: {
+          coin: p.coin,
+          szi: String(p.szi),
+          entryPx: String(p.entryPx),
+          positionValue: value.toFixed(6),
+          unrealizedPnl: upnl.toFixed(6),
+          returnOnEquity: ((upnl / ((Math.abs(p.szi) * p.entryPx) / p.leverage)) || 0).toFixed(6),
+          leverage: { type: 'cross', value: p.leverage },
+          liquidationPx: null,
+          marginUsed: margin.toFixed(6),
+        },
+      };
+    });
+    const accountValue = isAccount(user) ? hl.usdc + unrealized : 0;
+    const summary = {
+      accountValue: accountValue.toFixed(6),
+      totalNtlPos: ntl.toFixed(6),
+      totalRawUsd: (isAccount(user) ? hl.usdc : 0).toFixed(6),
+      totalMarginUsed: marginUsed.toFixed(6),
+    };
+    return {
+      marginSummary: summary,
+      crossMarginSummary: summary,
+      withdrawable: Math.max(0, accountValue - marginUsed).toFixed(6),
+      assetPositions,
+      time: Date.now(),
+    };
+  };
+
+  const createOrder = async (
+    _address: string, coin: string, isLong: boolean, limitPx: string, size: string,
+    _tpPx: string, _slPx: string, reduceOnly: boolean, isMarket: boolean,
+  ) => {
+    const meta = asset(coin);
+    const reject = (error: string) => ({ isSuccess: true, data: { statuses: [{ error }] } });
+    const outcome = nextPerp();
+    log(`hlCreateOrder ${isMarket ? 'market' : 'limit'} ${isLong ? 'buy' : 'sell'} ${size} ${coin} → ${outcome}`);
+    if (outcome === 'timeout') return hang(`hlCreateOrder ${coin}`);
+    if (!meta) return reject(`Mock: unknown asset ${coin}`);
+    if (outcome === 'reject') return reject(scenario.rejectMessage);
+
+    let sz = roundSize(parseFloat(size), meta.szDecimals);
+    const px = parseFloat(limitPx);
+    if (!(sz > 0) || !(px > 0)) return reject('Mock: order has no size or price');
+    const held = hl.positions.get(coin)?.szi ?? 0;
+    if (reduceOnly) {
+      if (held === 0 || Math.sign(held) === (isLong ? 1 : -1)) return reject('Reduce only order would increase position.');
+      sz = Math.min(sz, Math.abs(held));
+    }
+
+    const oid = hl.nextOid++;
+    if (outcome === 'rest') {
+      hl.orders.push({
+        coin, oid, side: isLong ? 'B' : 'A', limitPx: String(px), sz: String(sz), origSz: String(sz),
+        timestamp: Date.now(), reduceOnly, orderType: 'Limit', isTrigger: false,
+      });
+      return { isSuccess: true, data: { statuses: [{ resting: { oid } }] } };
+    }
+    const fillPx = isMarket ? meta.mid : px;
+    applyFill(coin, isLong, fillPx, sz, oid);
+    return { isSuccess: true, data: { statuses: [{ filled: { oid, avgPx: String(fillPx), totalSz: String(sz) } }] } };
+  };
+
+  const closeAll = () => {
+    const open = [...hl.positions.values()];
+    for (const p of open) applyFill(p.coin, p.szi < 0, mid(p.coin), Math.abs(p.szi), hl.nextOid++);
+    return { isSuccess: true, message: `Mock: closed ${open.length} position(s)` };
+  };
+
+  // --- Spot ---
+
+  const recordSwap = (swap: Omit<ChainSwap, 'block' | 'createdAt'>) => {
+    swaps.set(swap.hash, { ...swap, block: nextBlock, createdAt: Date.now() });
+    nextBlock += 2;
+  };
+
+  const queueSpot = (kind: SpotRequest['kind']) => {
+    const outcome = nextSpot();
+    log(`${kind}_v2 → ${outcome}`);
+    if (outcome === 'timeout') return hang(`${kind}_v2`);
+    const id = crypto.randomUUID();
+    const hash = solanaSignature();
+    spotRequests.set(id, { id, kind, outcome, polls: 0, hash, createdAt: Date.now() });
+    if (outcome === 'fill') {
+      recordSwap({
+        hash, chainId: SOLANA, side: kind === 'purchase' ? 'buy' : 'sell', native: scenario.spotFillNative,
+        tokens: scenario.tokens.filter((t) => t.chainId === SOLANA),
+      });
+    }
+    return { requestId: id };
+  };
+
+  const tradeStatus = (id: string) => {
+    const r = spotRequests.get(id);
+    if (!r) throw new HttpError(404, `Mock: unknown request ${id}`);
+    if (r.outcome === 'pending' || r.polls++ < scenario.pendingPolls) return { status: 'pending' };
+    return r.outcome === 'fill' ? { status: 'success', hash: r.hash } : { status: 'error', error: scenario.rejectMessage };
+  };
+
+  /**
+   * EVM buys and sells answer synchronously — pending hangs like a timeout.
+   * `amount` is wei to spend on a buy, token base units on a sell.
+   */
+  const syncSpot = async (kind: 'buy' | 'sell', amount: string, token: string, chainId: number) => {
+    const outcome = nextSpot();
+    log(`trading.${kind} on chain ${chainId} → ${outcome}`);
+    if (outcome === 'timeout' || outcome === 'pending') return hang(`trading.${kind}`);
+    if (outcome === 'reject') return { isSuccess: false, message: scenario.rejectMessage };
+    const listed = scenario.tokens.find((t) => t.chainId === Number(chainId) && t.address.toLowerCase() === String(token).toLowerCase());
+    const traded = listed ?? { chainId: Number(chainId), address: token, symbol: 'UNKNOWN', decimals: 18, priceNative: 1, balance: 0 };
+    const native = kind === 'buy'
+      ? Number(ethers.formatEther(amount))
+      : Number(ethers.formatUnits(amount, traded.decimals)) * traded.priceNative;
+    const hash = evmHash();
+    recordSwap({ hash, chainId: Number(chainId), side: kind, native, tokens: [traded] });
+    return { isSuccess: true, hash };
+  };
+
+  const holdings = (chainId: number) => [
+    { symbol: Number(chainId) === SOLANA ? 'SOL' : 'ETH', isNative: true, balance: String(scenario.nativeBalance) },
+    ...scenario.tokens
+      .filter((t) => t.chainId === Number(chainId))
+      .map((t) => ({ address: t.address, symbol: t.symbol, decimals: t.decimals, balance: String(t.balance) })),
+  ];
+
+  const limitOrder = (side: 'buy' | 'sell', address: string, amount: string, triggerPrice: string, tokenAddress: string, chainId: number) => {
+    const order = { orderId: crypto.randomUUID(), side, address, amount, triggerPrice, tokenAddress, chainId: Number(chainId), createdAt: Date.now() };
+    limitOrders.push(order);
+    return { isSuccess: true, ...order };
+  };
+
+  const sdk: Record<string, SdkMethod> = {
+    'user.login': (walletAddress: string, _nonce: unknown, _publicKey: unknown, _signature: unknown, _refCode: unknown, chainId: number) =>
+      ({ address: custodial(chainId), userId: String(walletAddress).toLowerCase(), chainId }),
+    'user.getUserInfo': (walletAddress: string, _sessionKey: unknown, chainId: number) =>
+      ({ address: custodial(chainId), userId: String(walletAddress).toLowerCase(), chainId }),
+    'user.getHoldingsList': (_walletAddress: string, chainId: number) => holdings(chainId),
+    'user.getWatchList': () => [],
+    'user.getReferralStats': () => ({ referrals: 0, earnings: 0 }),
+    'tokens.getToken': (address: string, chainId?: number) => {
+      const t = scenario.tokens.find((x) => x.address === address && (chainId === undefined || x.chainId === Number(chainId)));
+      return t ? { address: t.address, symbol: t.symbol, decimals: t.decimals, priceNative: String(t.priceNative), chainId: t.chainId } : null;
+    },
+    'tokens.getNativePrices': () => [],
+    'trading.buy': (_address: string, amount: string, token: string, chainId: number) => syncSpot('buy', amount, token, chainId),
+    'trading.sell': (_address: string, amount: string, token: string, chainId: number) => syncSpot('sell', amount, token, chainId),
+    'trading.createLimitBuy': (address: string, amount: string, triggerPrice: string, _tp: unknown, _sl: unknown, token: string, chainId: number) =>
+      limitOrder('buy', address, amount, triggerPrice, token, chainId),
+    'trading.createLimitSell': (address: string, amount: string, triggerPrice: string, token: string, chainId: number) =>
+      limitOrder('sell', address, amount, triggerPrice, token, chainId),
+    'trading.getOrders': (_address: string, chainId: number) => limitOrders.filter((o) => o.chainId === Number(chainId)),
+    'trading.getTrades': () => [],
+    'hyperLiquid.hlCreateOrder': createOrder,
+    'hyperLiquid.hlCancelOrder': (_address: string, _coin: string, orderId: string) => {
+      const i = hl.orders.findIndex((o) => String(o.oid) === String(orderId));
+      if (i < 0) return { isSuccess: false, message: `Order ${orderId} was never placed, already canceled, or filled.` };
+      hl.orders.splice(i, 1);
+      return { isSuccess: true, message: `Mock: cancelled ${orderId}` };
+    },
+    'hyperLiquid.hlCancelAllOrders': () => {
+      const cancelled = hl.orders.length;
+      hl.orders = [];
+      return { isSuccess: true, message: `Mock: cancelled ${cancelled} order(s)` };
+    },
+    'hyperLiquid.hlCloseAll': closeAll,
+    'hyperLiquid.getHyperliquidUsdcBalance': (address: string) => parseFloat(clearinghouse(address).marginSummary.accountValue),
+    'hyperLiquid.getHyperliquidWithdrawableBalance': (address: string) => parseFloat(clearinghouse(address).withdrawable),
+    'hyperLiquid.hlWithdraw': (_destination: string, amount: string) => {
+      const usd = parseFloat(amount);
+      const withdrawable = parseFloat(clearinghouse(MOCK_EVM_ADDRESS).withdrawable);
+      if (!(usd > 0) || usd > withdrawable) return { isSuccess: false, message: `Mock: only $${withdrawable.toFixed(2)} withdrawable` };
+      hl.usdc -= usd;
+      return { isSuccess: true, message: `Mock: withdrawal of $${usd} queued` };
+    },
+    'hyperLiquid.getHyperliquidClearinghouseState': (address: string) => clearinghouse(address),
+    'hyperLiquid.getHyperliquidMarkPrice': (coin: string) => mid(coin),
+    'hyperLiquid.getHyperliquidTradeHistory': (address: string, _sessionKey: unknown, _isPaged: unknown, page = 1, limit = 50) => {
+      const newest = isAccount(address) ? [...hl.fills].reverse() : [];
+      return { fills: newest.slice((page - 1) * limit, page * limit), total: newest.length };
+    },
+  };
+
+  // --- HL info ---
+
+  const candles = (req: any) => {
+    const coin = req?.coin;
+    const step = INTERVAL_MS[req?.interval];
+    if (!asset(coin)) return [];
+    if (!step) throw new HttpError(422, `Mock: unknown candle interval ${req?.interval}`);
+    const end = Math.min(Number(req.endTime ?? Date.now()), Date.now());
+    let t = Math.ceil(Number(req.startTime ?? 0) / step) * step;
+    if (end - t > step * MAX_CANDLES_PER_REQUEST) t = end - step * MAX_CANDLES_PER_REQUEST;
+    t = Math.floor(t / step) * step;
+    const out: any[] = [];
+    for (; t <= end; t += step) {
+      const o = pathPrice(mid(coin), t, step);
+      const c = pathPrice(mid(coin), t + step, step);
+      out.push({
+        t, T: t + step - 1, s: coin, i: req.interval,
+        o: o.toFixed(6), c: c.toFixed(6), h: (Math.max(o, c) * 1.001).toFixed(6), l: (Math.min(o, c) * 0.999).toFixed(6),
+        v: '100', n: 10,
+      });
+    }
+    return out;
+  };
+
+  const funding = (coin: string, startTime: number, endTime = Date.now()) => {
+    if (!asset(coin)) return [];
+    const out: any[] = [];
+    let t = Math.ceil(startTime / FUNDING_INTERVAL_MS) * FUNDING_INTERVAL_MS;
+    for (; t <= Math.min(endTime, Date.now()) && out.length < MAX_FUNDING_PER_REQUEST; t += FUNDING_INTERVAL_MS) {
+      out.push({ coin, fundingRate: String(scenario.hl.fundingRate), premium: '0', time: t });
+    }
+    return out;
+  };
+
+  const info = (body: any): unknown => {
+    switch (body?.type) {
+      case 'clearinghouseState':
+        return clearinghouse(body.user);
+      case 'frontendOpenOrders':
+      case 'openOrders':
+        return isAccount(body.user) ? hl.orders : [];
+      case 'userFills':
+        return isAccount(body.user) ? [...hl.fills].reverse() : [];
+      case 'userFillsByTime':
+        // Like HL: oldest first, 2000 per page
+        return isAccount(body.user)
+          ? hl.fills.filter((f) => f.time >= body.startTime && f.time <= (body.endTime ?? Date.now())).slice(0, 2000)
+          : [];
+      case 'allMids':
+        return Object.fromEntries(scenario.hl.assets.map((a) => [a.name, String(a.mid)]));
+      case 'meta':
+        return { universe: scenario.hl.assets.map(({ name, szDecimals, maxLeverage }) => ({ name, szDecimals, maxLeverage })) };
+      case 'metaAndAssetCtxs':
+        return [
+          { universe: scenario.hl.assets.map(({ name, szDecimals, maxLeverage }) => ({ name, szDecimals, maxLeverage })) },
+          scenario.hl.assets.map((a) => ({
+            funding: String(scenario.hl.fundingRate), openInterest: '1000', markPx: String(a.mid), midPx: String(a.mid),
+            oraclePx: String(a.mid), premium: '0', dayNtlVlm: '1000000', prevDayPx: String(a.mid),
+          })),
+        ];
+      case 'candleSnapshot':
+        return candles(body.req);
+      case 'fundingHistory':
+        return funding(body.coin, Number(body.startTime ?? 0), body.endTime);
+      case 'portfolio':
+        return [];
+      default:
+        throw new HttpError(422, `Mock: info type ${body?.type} is not mocked`);
+    }
+  };
+
+  // --- Chain RPC ---
+
+  const solanaTransaction = (swap: ChainSwap) => {
+    const owner = MOCK_SOLANA_ADDRESS;
+    const lamports = Math.round(swap.native * 1e9);
+    const before = Math.round(scenario.nativeBalance * 1e9);
+    const after = before + (swap.side === 'buy' ? -lamports : lamports) - SOLANA_FEE_LAMPORTS;
+    const balances = (field: 'pre' | 'post') => swap.tokens.map((t, i) => {
+      const held = baseUnits(t.balance, t.decimals);
+      const moved = baseUnits(tokensFor(swap.native, t), t.decimals);
+      const amount = (swap.side === 'buy') === (field === 'post') ? held + moved : held;
+      return {
+        accountIndex: i + 1, mint: t.address, owner,
+        uiTokenAmount: { amount: amount.toString(), decimals: t.decimals, uiAmountString: ethers.formatUnits(amount, t.decimals) },
+      };
+    });
+    const rent = swap.tokens.map(() => TOKEN_ACCOUNT_RENT_LAMPORTS);
+    return {
+      slot: swap.block,
+      blockTime: Math.floor(swap.createdAt / 1000),
+      version: 0,
+      meta: {
+        err: null,
+        fee: SOLANA_FEE_LAMPORTS,
+        preBalances: [before, ...rent],
+        postBalances: [after, ...rent],
+        preTokenBalances: balances('pre'),
+        postTokenBalances: balances('post'),
+        innerInstructions: [],
+      },
+      transaction: {
+        signatures: [swap.hash],
+        message: {
+          accountKeys: [owner, ...swap.tokens.map((t) => tokenAccount(owner, t.address))]
+            .map((pubkey, i) => ({ pubkey, signer: i === 0, writable: true, source: 'transaction' })),
+          instructions: [],
+        },
+      },
+    };
+  };
+
+  const evmReceipt = (swap: ChainSwap) => {
+    const [token] = swap.tokens;
+    const owner = ethers.zeroPadValue(MOCK_EVM_ADDRESS, 32);
+    const pool = ethers.zeroPadValue(MOCK_POOL_ADDRESS, 32);
+    const blockHash = ethers.id(`mock-block-${swap.block}`);
+    const where = { blockNumber: hex(swap.block), blockHash, transactionHash: swap.hash, transactionIndex: '0x0' };
+    return {
+      ...where,
+      from: MOCK_EVM_ADDRESS,
+      to: MOCK_POOL_ADDRESS,
+      contractAddress: null,
+      gasUsed: hex(EVM_GAS_USED),
+      cumulativeGasUsed: hex(EVM_GAS_USED),
+      effectiveGasPrice: hex(EVM_GAS_PRICE),
+      logs: [{
+        ...where,
+        address: token.address,
+        topics: [TRANSFER_TOPIC, ...(swap.side === 'buy' ? [pool, owner] : [owner, pool])],
+        data: ethers.toBeHex(baseUnits(tokensFor(swap.native, token), token.decimals), 32),
+        logIndex: '0x0',
+        removed: false,
+      }],
+      logsBloom: '0x' + '0'.repeat(512),
+      status: '0x1',
+      type: '0x2',
+    };
+  };
+
+  /** The owner's native balance at a block: moved by the swap mined in it, the scenario's otherwise */
+  const evmBalance = (chainId: number, address: string, blockTag: string): bigint => {
+    const base = baseUnits(scenario.nativeBalance, 18);
+    if (String(address).toLowerCase() !== MOCK_EVM_ADDRESS) return 0n;
+    const swap = [...swaps.values()].find((s) => s.chainId === chainId && hex(s.block) === blockTag);
+    if (!swap) return base;
+    const native = baseUnits(swap.native, 18);
+    return base + (swap.side === 'buy' ? -native : native) - EVM_GAS_USED * EVM_GAS_PRICE;
+  };
+
+  const rpc = (chainId: number, call: any) => {
+    const [first, second] = Array.isArray(call?.params) ? call.params : [];
+    const swap = swaps.get(first);
+    const found = swap?.chainId === chainId ? swap : undefined;
+    switch (call?.method) {
+      case 'getTransaction':
+        return found ? solanaTransaction(found) : null;
+      case 'eth_chainId':
+        return hex(chainId);
+      case 'eth_blockNumber':
+        return hex(nextBlock);
+      case 'eth_getTransactionReceipt':
+        return found ? evmReceipt(found) : null;
+      case 'eth_getBalance':
+        return hex(evmBalance(chainId, first, second));
+      case 'eth_call': {
+        if (!String(first?.data).startsWith(DECIMALS_SELECTOR)) throw new Error('only decimals() is mocked');
+        const token = scenario.tokens.find((t) => t.chainId === chainId && t.address.toLowerCase() === String(first.to).toLowerCase());
+        return ethers.toBeHex(token?.decimals ?? 18, 32);
+      }
+      default:
+        throw new Error(`Mock: RPC method ${call?.method} is not mocked`);
+    }
+  };
+
+  /** One JSON-RPC call → its response; failures become JSON-RPC errors, not HTTP ones */
+  const rpcResponse = (chainId: number, call: any) => {
+    try {
+      return { jsonrpc: '2.0', id: call?.id ?? null, result: rpc(chainId, call) };
+    } catch (err: any) {
+      return { jsonrpc: '2.0', id: call?.id ?? null, error: { code: -32601, message: err.message } };
+    }
+  };
+
+  const setScenario = (next: MockScenario) => {
+    scenario = next;
+    reset();
+    log(`Scenario ${scenario.name}`);
+  };
+
+  const routes: Array<[string, RegExp, Route]> = [
+    ['POST', /^\/info$/, (_req, _url, _params, body) => info(body)],
+    ['POST', /^\/rpc\/(\d+)$/, (_req, _url, [chainId], body) =>
+      Array.isArray(body) ? body.map((call) => rpcResponse(Number(chainId), call)) : rpcResponse(Number(chainId), body)],
+    ['POST', /^\/v1\/purchase_v2$/, () => queueSpot('purchase')],
+    ['POST', /^\/v1\/sell_v2$/, () => queueSpot('sell')],
+    ['GET', /^\/v1\/trade-status\/([^/]+)$/, (_req, _url, [id]) => tradeStatus(id)],
+    ['POST', /^\/v1\/hl\/deposit$/, () => ({ isSuccess: true, message: 'Mock: deposit accepted (not credited)' })],
+    ['POST', /^\/v1\/sdk\/([^/]+)\/([^/]+)$/, (_req, _url, [namespace, method], body) => {
+      const handler = sdk[`${namespace}.${method}`];
+      if (!handler) throw new HttpError(501, `Mock: ${namespace}.${method} is not mocked`);
+      return handler(...(Array.isArray(body?.args) ? body.args : []));
+    }],
+    ['GET', /^\/mock\/state$/, () => ({
+      scenario,
+      hl: { ...clearinghouse(MOCK_EVM_ADDRESS), openOrders: hl.orders, fills: hl.fills },
+      spotRequests: [...spotRequests.values()],
+      swaps: [...swaps.values()],
+      limitOrders,
+    })],
+    ['POST', /^\/mock\/scenario$/, (_req, _url, _params, body) => {
+      const next: MockScenario = typeof body?.scenario === 'string' ? loadMockScenario(body.scenario) : body;
+      const errors = validateScenario(next);
+      if (errors.length > 0) throw new HttpError(400, `Invalid mock scenario:\n  - ${errors.join('\n  - ')}`);
+      setScenario(next);
+      return { scenario: scenario.name };
+    }],
+    ['POST', /^\/mock\/reset$/, () => {
+      reset();
+      log('State reset');
+      return { scenario: scenario.name };
+    }],
+  ];
+
+  const server = http.createServer(async (req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body ?? null));
+    };
+    try {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const matches = routes.filter(([, pattern]) => pattern.test(url.pathname));
+      if (matches.length === 0) throw new HttpError(404, `no route ${url.pathname}`);
+      const route = matches.find(([method]) => method === req.method);
+      if (!route) throw new HttpError(405, `${req.method} not allowed on ${url.pathname}`);
+      const params = route[1].exec(url.pathname)!.slice(1).map(decodeURIComponent);
+      const body = req.method === 'POST' ? await readBody(req) : {};
+      if (scenario.latencyMs > 0) await new Promise((r) => setTimeout(r, scenario.latencyMs));
+      send(200, await route[2](req, url, params, body));
+    } catch (err: any) {
+      send(err instanceof HttpError ? err.status : 500, { error: err?.message ?? String(err) });
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(opts.port ?? MOCK_API_PORT, opts.host ?? MOCK_API_HOST, () => {
+      const { address, port } = server.address() as { address: string; port: number };
+      resolve({
+        server,
+        url: `http://${address}:${port}`,
+        scenario: () => scenario,
+        setScenario,
+        reset,
+        close: () => new Promise<void>((done) => {
+          for (const timer of hangs) clearTimeout(timer);
+          hangs.clear();
+          server.close(() => done());
+          server.closeAllConnections();
+        }),
+      });
+    });
+  });
+}
@@ -0,0 +1,585 @@
+/**
+ * notify.ts — alerts for fills, stop-losses, circuit breaks and failed closes
+ *
+ * Channels: generic JSON webhook, Telegram bot API, Discord webhook and email
+ * over SMTP. They are configured in notifications.json in the repo root
+ * (NOTIFY_CONFIG overrides; no file = alerts off). `${VAR}` inside any string
+ * is read from the environment so tokens and passwords can stay in .env:
+ *
+ *   {
+ *     "channels": [
+ *       { "type": "telegram", "botToken": "${TELEGRAM_BOT_TOKEN}", "chatId": "${TELEGRAM_CHAT_ID}",
+ *         "filter": { "events": ["TRADE_COMPLETE", "CIRCUIT_BREAK"], "exitReasons": ["SL"] } },
+ *       { "type": "webhook", "url": "http://127.0.0.1:9000/alerts",
+ *         "rateLimit": { "max": 5, "perSec": 60 },
+ *         "templates": { "POSITION_OPENED": "bought {{symbol}} for {{amountSol:3}} SOL" } }
+ *     ]
+ *   }
+ *
+ * Events:
+ *   POSITION_OPENED, TRADE_COMPLETE,   pump.fun bus traffic — pumpfun-alpha.ts
+ *   CIRCUIT_BREAK, CIRCUIT_RESUME      forwards it as it crosses the bus
+ *   HL_TRADE_COMPLETE, HL_CLOSE_FAILED hl-momentum-scalper.ts
+ *   HL_TOPUP                           hl-topup-daemon.ts
+ *   HL_COPY_ROTATE                     hl-copytrader.ts
+ *   TEST                               npm run notify:test
+ *
+ * Templates fill `{{field}}` from the event data plus `event`, `from`, `time`,
+ * `channel`, `icon` and `hold`; `{{pnlPct:+1}}` prints a number with a sign
+ * and 1 decimal. Sending never throws — failures are logged and reported in
+ * the DeliveryResult. Telegram takes `apiBase` and the others a plain URL or
+ * host, so a local stand-in server is enough to test every channel.
+ */
+
+import dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import * as tls from 'tls';
+
+const ROOT = path.resolve(__dirname, '..');
+// pumpfun-alpha.ts never loads config.ts — ${VAR} secrets still come from .env
+dotenv.config({ path: path.join(ROOT, '.env') });
+
+const DEFAULT_CONFIG_FILE = path.join(ROOT, 'notifications.json');
+const TELEGRAM_API = 'https://api.telegram.org';
+const HTTP_TIMEOUT_MS = 10_000;
+const SMTP_TIMEOUT_MS = 20_000;
+/** Per channel unless it sets its own rateLimit */
+const DEFAULT_RATE_LIMIT: RateLimit = { max: 20, perSec: 60 };
+const TELEGRAM_MAX_CHARS = 4096;
+const DISCORD_MAX_CHARS = 2000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const NOTIFY_EVENT_TYPES = [
+  'POSITION_OPENED',
+  'TRADE_COMPLETE',
+  'CIRCUIT_BREAK',
+  'CIRCUIT_RESUME',
+  'HL_TRADE_COMPLETE',
+  'HL_CLOSE_FAILED',
+  'HL_TOPUP',
+  'HL_COPY_ROTATE',
+  'TEST',
+] as const;
+
+export type NotifyEventType = typeof NOTIFY_EVENT_TYPES[number];
+
+export interface NotifyEvent {
+  type: NotifyEventType;
+  /** Agent or script that raised it: RISK, SCALPER, ALPHA, HL-SCALPER … */
+  from: string;
+  data: Record<string, any>;
+  ts: number;
+}
+
+export interface ChannelFilter {
+  /** Event types to send (default: all) */
+  events?: NotifyEventType[];
+  /** Books to hear from: trader, scalper, hl-scalper (events without a source, like CIRCUIT_BREAK, pass) */
+  sources?: string[];
+  /** Trade events only: exit reasons to send (SL, TP, TIME, MANUAL, TRAIL, TIMEOUT …) */
+  exitReasons?: string[];
+  /** Trade events only: skip trades whose |pnlPct| is below this */
+  minAbsPnlPct?: number;
+}
+
+/** At most `max` alerts per `perSec` seconds; the rest are counted and dropped */
+export interface RateLimit {
+  max: number;
+  perSec: number;
+}
+
+interface ChannelBase {
+  /** Shown in logs and results (default "<type>#<n>") */
+  name?: string;
+  filter?: ChannelFilter;
+  rateLimit?: RateLimit;
+  /** Per-event message templates replacing DEFAULT_TEMPLATES */
+  templates?: Partial<Record<NotifyEventType, string>>;
+}
+
+/** POSTs { event, from, ts, text, data } as JSON */
+export interface WebhookChannel extends ChannelBase {
+  type: 'webhook';
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export interface TelegramChannel extends ChannelBase {
+  type: 'telegram';
+  botToken: string;
+  chatId: string;
+  /** Bot API base URL (default https://api.telegram.org) */
+  apiBase?: string;
+}
+
+export interface DiscordChannel extends ChannelBase {
+  type: 'discord';
+  /** Channel webhook URL */
+  url: string;
+}
+
+export interface SmtpChannel extends ChannelBase {
+  type: 'smtp';
+  host: string;
+  /** Default 465 when secure, else 587 */
+  port?: number;
+  /** Implicit TLS from the first byte (port 465). Otherwise STARTTLS is used when offered. */
+  secure?: boolean;
+  /** Send user/pass even when the server offers no STARTTLS — they go in cleartext. Default false. */
+  allowInsecureAuth?: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+  to: string[];
+}
+
+export type ChannelConfig = WebhookChannel | TelegramChannel | DiscordChannel | SmtpChannel;
+
+export interface NotifyConfig {
+  channels: ChannelConfig[];
+}
+
+export interface DeliveryResult {
+  channel: string;
+  status: 'sent' | 'filtered' | 'rate-limited' | 'failed';
+  error?: string;
+}
+
+export interface Notifier {
+  /** Send to every matching channel; resolves once all deliveries settle */
+  notify: (event: NotifyEvent) => Promise<DeliveryResult[]>;
+  channels: () => string[];
+}
+
+export const DEFAULT_TEMPLATES: Record<NotifyEventType, string> = {
+  POSITION_OPENED: '🟢 {{source}} bought {{symbol}} — {{amountSol:4}} SOL @ {{entryPrice:8}}',
+  TRADE_COMPLETE: '{{icon}} {{source}} closed {{symbol}} {{reason}} {{pnlPct:+1}}% ({{pnlSol:+4}} SOL) after {{hold}}',
+  CIRCUIT_BREAK: '🚨 Circuit break from {{from}}: {{reason}}',
+  CIRCUIT_RESUME: '▶️ Trading resumed by {{from}}',
+  HL_TRADE_COMPLETE: '{{icon}} HL {{direction}} {{coin}} closed {{exitReason}} {{pnlPct:+2}}% ({{pnlUsd:+2}} USD) after {{duration}}',
+  HL_CLOSE_FAILED: '⚠️ HL close failed for {{direction}} {{coin}} ({{reason}}): {{error}} — still open, retrying every tick',
+  HL_TOPUP: '💵 HL top-up {{status}} (${{amountUsd:2}}) — {{reason}}: {{message}}',
+  HL_COPY_ROTATE: '🔁 HL copy trading: {{action}} leader {{leader}} — {{reason}}',
+  TEST: '🔔 Test alert from {{host}} via {{channel}}',
+};
+
+const TRADE_EVENTS = new Set<NotifyEventType>(['TRADE_COMPLETE', 'HL_TRADE_COMPLETE']);
+
+export function isNotifyEventType(type: string): type is NotifyEventType {
+  return (NOTIFY_EVENT_TYPES as readonly string[]).includes(type);
+}
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+/** Config file in use: NOTIFY_CONFIG, else notifications.json if it exists. */
+export function getNotifyConfigPath(): string | null {
+  if (process.env.NOTIFY_CONFIG) return path.resolve(process.env.NOTIFY_CONFIG);
+  return fs.existsSync(DEFAULT_CONFIG_FILE) ? DEFAULT_CONFIG_FILE : null;
+}
+
+/** Replace `${VAR}` in every string; unset variables are collected in `missing`. */
+function expandEnv(value: unknown, missing: Set<string>): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{(\w+)\}/g, (_, name: string) => {
+      const v = process.env[name];
+      if (v === undefined || v === '') missing.add(name);
+      return v ?? '';
+    });
+  }
+  if (Array.isArray(value)) return value.map((v) => expandEnv(v, missing));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, expandEnv(v, missing)]));
+  }
+  return value;
+}
+
+/** Every problem with a (parsed, env-expanded) config; empty when valid. */
+export function validateNotifyConfig(config: any): string[] {
+  if (!config || typeof config !== 'object' || !Array.isArray(config.channels)) {
+    return ['channels must be an array'];
+  }
+  const errors: string[] = [];
+  const isText = (v: unknown) => typeof v === 'string' && v.trim() !== '';
+  const isUrl = (v: unknown) => isText(v) && /^https?:\/\//.test(v as string);
+  const isStrList = (v: unknown) => Array.isArray(v) && v.length > 0 && v.every(isText);
+
+  config.channels.forEach((ch: any, i: number) => {
+    const at = `channels[${i}]`;
+    if (!ch || typeof ch !== 'object') {
+      errors.push(`${at} must be an object`);
+      return;
+    }
+    switch (ch.type) {
+      case 'webhook':
+        if (!isUrl(ch.url)) errors.push(`${at}.url must be an http(s) URL`);
+        if (ch.headers !== undefined && (typeof ch.headers !== 'object' || !Object.values(ch.headers).every(isText))) {
+          errors.push(`${at}.headers must map header names to strings`);
+        }
+        break;
+      case 'telegram':
+        if (!isText(ch.botToken)) errors.push(`${at}.botToken is required`);
+        if (!isText(String(ch.chatId ?? ''))) errors.push(`${at}.chatId is required`);
+        if (ch.apiBase !== undefined && !isUrl(ch.apiBase)) errors.push(`${at}.apiBase must be an http(s) URL`);
+        break;
+      case 'discord':
+        if (!isUrl(ch.url)) errors.push(`${at}.url must be an http(s) URL`);
+        break;
+      case 'smtp':
+        if (!isText(ch.host)) errors.push(`${at}.host is required`);
+        if (ch.port !== undefined && !(Number.isInteger(ch.port) && ch.port > 0 && ch.port < 65536)) {
+          errors.push(`${at}.port must be a TCP port`);
+        }
+        if (!isText(ch.from)) errors.push(`${at}.from is required`);
+        if (!isStrList(ch.to)) errors.push(`${at}.to must be a non-empty list of addresses`);
+        if ((ch.user === undefined) !== (ch.pass === undefined)) errors.push(`${at}: set both user and pass, or neither`);
+        if (ch.allowInsecureAuth !== undefined && typeof ch.allowInsecureAuth !== 'boolean') {
+          errors.push(`${at}.allowInsecureAuth must be true or false`);
+        }
+        break;
+      default:
+        errors.push(`${at}.type must be webhook, telegram, discord or smtp`);
+    }
+
+    const f = ch.filter;
+    if (f !== undefined) {
+      if (typeof f !== 'object') errors.push(`${at}.filter must be an object`);
+      else {
+        if (f.events !== undefined && !(Array.isArray(f.events) && f.events.every(isNotifyEventType))) {
+          errors.push(`${at}.filter.events must list ${NOTIFY_EVENT_TYPES.join(', ')}`);
+        }
+        for (const key of ['sources', 'exitReasons']) {
+          if (f[key] !== undefined && !isStrList(f[key])) errors.push(`${at}.filter.${key} must be a list of strings`);
+        }
+        if (f.minAbsPnlPct !== undefined && !(typeof f.minAbsPnlPct === 'number' && f.minAbsPnlPct >= 0)) {
+          errors.push(`${at}.filter.minAbsPnlPct must be a number ≥ 0`);
+        }
+      }
+    }
+    const r = ch.rateLimit;
+    if (r !== undefined && !(r && Number.isInteger(r.max) && r.max > 0 && typeof r.perSec === 'number' && r.perSec > 0)) {
+      errors.push(`${at}.rateLimit needs a whole max > 0 and perSec > 0`);
+    }
+    if (ch.templates !== undefined) {
+      for (const [event, template] of Object.entries(ch.templates ?? {})) {
+        if (!isNotifyEventType(event)) errors.push(`${at}.templates.${event} is not an event type`);
+        else if (!isText(template)) errors.push(`${at}.templates.${event} must be a string`);
+      }
+    }
+  });
+  return errors;
+}
+
+/**
+ * Read and validate the notifications config. Null when there is no file;
+ * throws with every problem listed when it is invalid.
+ */
+export function loadNotifyConfig(file = getNotifyConfigPath()): NotifyConfig | null {
+  if (!file) return null;
+  if (!fs.existsSync(file)) throw new Error(`NOTIFY_CONFIG ${file} does not exist`);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (err: any) {
+    throw new Error(`Cannot parse notifications config ${file}: ${err.message}`);
+  }
+  const missing = new Set<string>();
+  const config = expandEnv(raw, missing);
+  const errors = [
+    ...[...missing].map((name) => `\${${name}} is not set in the environment`),
+    ...validateNotifyConfig(config),
+  ];
+  if (errors.length > 0) {
+    throw new Error(`Invalid notifications config ${file}:\n  - ${errors.join('\n  - ')}`);
+  }
+  return config as NotifyConfig;
+}
+
+// ---------------------------------------------------------------------------
+// Templates and filters
+// ---------------------------------------------------------------------------
+
+function fmtHold(ms: number): string {
+  const s = Math.round(ms / 1000);
+  if (s < 60) return `${s}s`;
+  if (s < 3600) return `${Math.floor(s / 60)}m ${String(s % 60).padStart(2, '0')}s`;
+  return `${Math.floor(s / 3600)}h ${String(Math.floor((s % 3600) / 60)).padStart(2, '0')}m`;
+}
+
+function tradeIcon(data: Record<string, any>): string {
+  const reason = data.reason ?? data.exitReason;
+  if (reason === 'SL') return '🛑';
+  if (reason === 'MANUAL') return '✋';
+  return (data.pnlPct ?? 0) >= 0 ? '✅' : '🔻';
+}
+
+/** Fill `{{field}}` / `{{field:+2}}` placeholders; unknown fields print as "—". */
+export function renderTemplate(template: string, values: Record<string, unknown>): string {
+  return template.replace(/\{\{\s*(\w+)(?::(\+?)(\d+))?\s*\}\}/g, (_, key: string, sign: string, digits?: string) => {
+    const v = values[key];
+    if (v === undefined || v === null || v === '') return '—';
+    if (typeof v === 'number' && digits !== undefined) {
+      return `${sign && v >= 0 ? '+' : ''}${v.toFixed(parseInt(digits, 10))}`;
+    }
+    return String(v);
+  });
+}
+
+function templateValues(event: NotifyEvent, channel: string): Record<string, unknown> {
+  const { data } = event;
+  return {
+    ...data,
+    event: event.type,
+    from: event.from,
+    time: new Date(event.ts).toISOString(),
+    channel,
+    host: os.hostname(),
+    icon: TRADE_EVENTS.has(event.type) ? tradeIcon(data) : '',
+    hold: typeof data.holdMs === 'number' ? fmtHold(data.holdMs) : undefined,
+  };
+}
+
+function passes(filter: ChannelFilter | undefined, event: NotifyEvent): boolean {
+  if (!filter) return true;
+  const { data } = event;
+  if (filter.events && !filter.events.includes(event.type)) return false;
+  if (filter.sources && data.source !== undefined && !filter.sources.includes(data.source)) return false;
+  if (!TRADE_EVENTS.has(event.type)) return true;
+  const reason = data.reason ?? data.exitReason;
+  if (filter.exitReasons && !filter.exitReasons.includes(reason)) return false;
+  if (filter.minAbsPnlPct !== undefined && Math.abs(data.pnlPct ?? 0) < filter.minAbsPnlPct) return false;
+  return true;
+}
+
+function truncate(text: string, max: number): string {
+  return text.length <= max ? text : `${text.slice(0, max - 1)}…`;
+}
+
+// ---------------------------------------------------------------------------
+// Transports
+// ---------------------------------------------------------------------------
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<string> {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+  });
+  const text = await res.text();
+  if (!res.ok) throw new Error(`HTTP ${res.status}: ${text.slice(0, 200)}`);
+  return text;
+}
+
+async function sendTelegram(ch: TelegramChannel, text: string): Promise<void> {
+  const base = (ch.apiBase ?? TELEGRAM_API).replace(/\/+$/, '');
+  const reply = await postJson(`${base}/bot${ch.botToken}/sendMessage`, {
+    chat_id: ch.chatId,
+    text: truncate(text, TELEGRAM_MAX_CHARS),
+    disable_web_page_preview: true,
+  });
+  // The bot API answers 200 with ok:false for some errors
+  let parsed: any = null;
+  try { parsed = JSON.parse(reply); } catch { /* not JSON — treat the 2xx as sent */ }
+  if (parsed && parsed.ok === false) throw new Error(`Telegram: ${parsed.description ?? 'not ok'}`);
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/** Line reader over an SMTP socket; the socket can be swapped for STARTTLS. */
+function smtpConnection(first: net.Socket) {
+  let socket = first;
+  let buffer = '';
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  const waiters: Array<{ resolve: (r: SmtpReply) => void; reject: (e: Error) => void }> = [];
+  let failure: Error | null = null;
+
+  const settle = () => {
+    while (waiters.length > 0 && (replies.length > 0 || failure)) {
+      const w = waiters.shift()!;
+      if (replies.length > 0) w.resolve(replies.shift()!);
+      else w.reject(failure!);
+    }
+  };
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let nl: number;
+    while ((nl = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, nl).replace(/\r$/, '');
+      buffer = buffer.slice(nl + 1);
+      lines.push(line);
+      // "250-" continues a multi-line reply, "250 " ends it
+      if (/^\d{3}(?!-)/.test(line)) {
+        replies.push({ code: parseInt(line.slice(0, 3), 10), text: lines.join('\n') });
+        lines = [];
+      }
+    }
+    settle();
+  };
+  const onError = (err: Error) => {
+    failure ??= err;
+    settle();
+  };
+  const onClose = () => onError(new Error('SMTP connection closed'));
+  const onTimeout = () => socket.destroy(new Error('SMTP timeout'));
+
+  const attach = (s: net.Socket) => {
+    s.on('data', onData);
+    s.on('error', onError);
+    s.on('close', onClose);
+    s.setTimeout(SMTP_TIMEOUT_MS, onTimeout);
+  };
+  attach(socket);
+
+  return {
+    /** Send a command (null = read the greeting) and require a reply in the same class as `expect` */
+    async cmd(line: string | null, expect: number, label = line?.split(' ')[0] ?? 'greeting'): Promise<SmtpReply> {
+      if (line !== null) socket.write(`${line}\r\n`);
+      const reply = await new Promise<SmtpReply>((resolve, reject) => {
+        waiters.push({ resolve, reject });
+        settle();
+      });
+      if (Math.floor(reply.code / 100) !== Math.floor(expect / 100)) {
+        throw new Error(`SMTP ${label}: ${reply.text.replace(/\n/g, ' ')}`);
+      }
+      return reply;
+    },
+    async startTls(servername: string): Promise<void> {
+      socket.removeListener('data', onData);
+      socket.removeListener('error', onError);
+      socket.removeListener('close', onClose);
+      socket.setTimeout(0);
+      const secured = tls.connect({ socket, servername });
+      await new Promise<void>((resolve, reject) => {
+        secured.once('secureConnect', resolve);
+        secured.once('error', reject);
+      });
+      socket = secured;
+      attach(socket);
+    },
+    close(): void {
+      socket.end();
+    },
+  };
+}
+
+/** Address part of "Name <addr@host>" */
+function mailbox(address: string): string {
+  return address.match(/<([^>]+)>/)?.[1] ?? address.trim();
+}
+
+async function sendMail(ch: SmtpChannel, subject: string, text: string): Promise<void> {
+  const port = ch.port ?? (ch.secure ? 465 : 587);
+  const socket = ch.secure
+    ? tls.connect({ host: ch.host, port, servername: ch.host })
+    : net.connect({ host: ch.host, port });
+  const smtp = smtpConnection(socket);
+  try {
+    await smtp.cmd(null, 220);
+    let ehlo = await smtp.cmd(`EHLO ${os.hostname()}`, 250);
+    let encrypted = !!ch.secure;
+    if (!encrypted && /^250[- ]STARTTLS/im.test(ehlo.text)) {
+      await smtp.cmd('STARTTLS', 220);
+      await smtp.startTls(ch.host);
+      encrypted = true;
+      ehlo = await smtp.cmd(`EHLO ${os.hostname()}`, 250);
+    }
+    if (ch.user) {
+      if (!encrypted && !ch.allowInsecureAuth) {
+        throw new Error(`SMTP ${ch.host}:${port} offers no STARTTLS — not sending the password in cleartext (set secure, or allowInsecureAuth)`);
+      }
+      const token = Buffer.from(`\0${ch.user}\0${ch.pass ?? ''}`).toString('base64');
+      await smtp.cmd(`AUTH PLAIN ${token}`, 235, 'AUTH');
+    }
+    await smtp.cmd(`MAIL FROM:<${mailbox(ch.from)}>`, 250);
+    for (const to of ch.to) await smtp.cmd(`RCPT TO:<${mailbox(to)}>`, 250);
+    await smtp.cmd('DATA', 354);
+    // base64 body: no dot-stuffing, no 8BITMIME needed for emoji
+    const body = Buffer.from(text, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+    const message = [
+      `From: ${ch.from}`,
+      `To: ${ch.to.join(', ')}`,
+      `Subject: =?UTF-8?B?${Buffer.from(subject, 'utf8').toString('base64')}?=`,
+      `Date: ${new Date().toUTCString()}`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      body,
+    ].join('\r\n');
+    await smtp.cmd(`${message}\r\n.`, 250, 'message');
+    await smtp.cmd('QUIT', 221).catch(() => undefined);
+  } finally {
+    smtp.close();
+  }
+}
+
+function deliver(ch: ChannelConfig, event: NotifyEvent, text: string): Promise<unknown> {
+  switch (ch.type) {
+    case 'webhook':
+      return postJson(ch.url, { event: event.type, from: event.from, ts: event.ts, text, data: event.data }, ch.headers);
+    case 'telegram':
+      return sendTelegram(ch, text);
+    case 'discord':
+      return postJson(ch.url, { content: truncate(text, DISCORD_MAX_CHARS) });
+    case 'smtp':
+      return sendMail(ch, text.split('\n')[0], text);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Notifier
+// ---------------------------------------------------------------------------
+
+export function createNotifier(config: NotifyConfig, log: (msg: string) => void): Notifier {
+  const channels = config.channels.map((ch, i) => ({
+    ch,
+    name: ch.name ?? `${ch.type}#${i + 1}`,
+    /** Send times inside the current rate-limit window */
+    sent: [] as number[],
+    /** Dropped by the rate limit since the last alert that went out */
+    suppressed: 0,
+  }));
+
+  return {
+    notify: (event) => Promise.all(channels.map(async (entry): Promise<DeliveryResult> => {
+      const { ch, name } = entry;
+      if (!passes(ch.filter, event)) return { channel: name, status: 'filtered' };
+
+      const now = Date.now();
+      const limit = ch.rateLimit ?? DEFAULT_RATE_LIMIT;
+      entry.sent = entry.sent.filter((t) => now - t < limit.perSec * 1000);
+      if (entry.sent.length >= limit.max) {
+        entry.suppressed++;
+        return { channel: name, status: 'rate-limited' };
+      }
+      entry.sent.push(now);
+
+      let text = renderTemplate(ch.templates?.[event.type] ?? DEFAULT_TEMPLATES[event.type], templateValues(event, name));
+      if (entry.suppressed > 0) {
+        text += `\n(${entry.suppressed} earlier alert(s) dropped by the rate limit)`;
+        entry.suppressed = 0;
+      }
+      try {
+        await deliver(ch, event, text);
+        return { channel: name, status: 'sent' };
+      } catch (err: any) {
+        const error = err?.cause?.message ?? err?.message ?? String(err);
+        log(`${name}: ${event.type} alert failed — ${error}`);
+        return { channel: name, status: 'failed', error };
+      }
+    })),
+    channels: () => channels.map((c) => c.name),
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * order-registry.ts — client order ids for spot buys and sells
+ *
+ * buyToken and sellToken (trading.ts) register every live order here under a
+ * client order id before anything is sent. Retrying a logical order with the
+ * same `clientOrderId` never sends it twice:
+ *   pending  sent (or about to be) and the outcome is unknown — not sent
+ *            again until reconcileClientOrder() settles it: a few minutes
+ *            once both balance reads show no fill, up to a day while the
+ *            API reports it queued, else until marked by hand
+ *   filled   landed; a repeat returns the recorded hash without sending
+ *   failed   did not land, expired unsettled, or marked by hand (`gdex
+ *            orders fail`) — the next attempt may send it again (Solana
+ *            signs it with the same nonce; EVM sends a new order)
+ *
+ * The registry lives in the trade journal (journal.ts), so agents in other
+ * processes and a restarted agent see the same orders. Paper sessions don't
+ * register.
+ */
+
+import { randomUUID } from 'crypto';
+import { sharedJournal, ClientOrderStatus, Journal, JournalClientOrder } from './journal';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ClientOrder extends JournalClientOrder {
+  chainId: number;
+  token: string;
+  side: 'buy' | 'sell';
+  /** Smallest units, as sent */
+  amount: string;
+  /** Signed into every submission of this order */
+  nonce: string;
+  /** /purchase_v2 or /sell_v2 request id once the API queued it */
+  requestId: string | null;
+  hash: string | null;
+  /** Last error, or how the order was reconciled */
+  message: string | null;
+  /** Token balance from the holdings API just before sending — null when unknown */
+  balanceBefore: number | null;
+  submissions: number;
+  updatedAt: string;
+}
+
+export type ClientOrderInit = Pick<ClientOrder, 'id' | 'chainId' | 'token' | 'side' | 'amount' | 'nonce' | 'balanceBefore'>;
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+function getJournal(): Journal {
+  return sharedJournal();
+}
+
+/** Fresh client order id, e.g. `trader-3f0c…` */
+export function newClientOrderId(prefix = 'order'): string {
+  return `${prefix}-${randomUUID()}`;
+}
+
+export function getClientOrder(id: string): ClientOrder | null {
+  return getJournal().getClientOrder<ClientOrder>(id);
+}
+
+export function listClientOrders(status?: ClientOrderStatus): ClientOrder[] {
+  return getJournal().getClientOrders<ClientOrder>(status);
+}
+
+/**
+ * Take the right to send an order: registers a new id as pending, or reopens
+ * a failed one (keeping its nonce). Returns null — send nothing — when the id
+ * is already pending or filled, e.g. another process got there first.
+ */
+export function beginSubmission(init: ClientOrderInit): ClientOrder | null {
+  const j = getJournal();
+  return j.db.transaction(() => {
+    const existing = j.getClientOrder<ClientOrder>(init.id);
+    if (existing && existing.status !== 'failed') return null;
+    const now = new Date().toISOString();
+    const order: ClientOrder = existing
+      ? { ...existing, ...init, nonce: existing.nonce, status: 'pending', requestId: null, message: null, submissions: existing.submissions + 1, updatedAt: now }
+      : { ...init, status: 'pending', requestId: null, hash: null, message: null, submissions: 1, createdAt: now, updatedAt: now };
+    j.saveClientOrder(order);
+    return order;
+  }).immediate();
+}
+
+/** Merge fields into a registered order and return it. */
+export function updateClientOrder(id: string, patch: Partial<Omit<ClientOrder, 'id'>>): ClientOrder {
+  const j = getJournal();
+  return j.db.transaction(() => {
+    const current = j.getClientOrder<ClientOrder>(id);
+    if (!current) throw new Error(`Unknown client order ${id}`);
+    const order: ClientOrder = { ...current, ...patch, updatedAt: new Date().toISOString() };
+    j.saveClientOrder(order);
+    return order;
+  }).immediate();
+}
@@ -0,0 +1,528 @@
+import * as fs from 'fs';
+import { GDEXSession } from './auth';
+import { TradeResult, BuyOptions, SellOptions } from './trading';
+import { getMids, routeHlAccountToPaper, ClearinghouseState, Fill, PaperHlAccount, Position } from './hyperliquid';
+import { getSpotQuote } from './market';
+
+const SOLANA = 622112261;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Paper-trading knobs, read from PAPER_* env vars by loadPaperConfig(). */
+export interface PaperConfig {
+  /** Adverse slippage applied to every fill, in basis points */
+  slippageBps: number;
+  /** Spot swap fee in basis points, charged on the native side */
+  feeBps: number;
+  /** Perp taker fee in basis points, charged on notional in USDC */
+  perpFeeBps: number;
+  /** Max perp leverage used for the margin check */
+  perpLeverage: number;
+  /** Starting native balance per chain (SOL on Solana, ETH/BNB on EVM) */
+  startNative: number;
+  /** Starting HyperLiquid USDC balance */
+  startUsdc: number;
+  /** JSON file holding balances/positions — shared by every process in paper mode, locked per update */
+  stateFile: string;
+}
+
+export interface PaperHolding {
+  chainId: number;
+  tokenAddress: string;
+  symbol: string;
+  decimals: number;
+  /** Token amount in whole units */
+  amount: number;
+  /** Native spent on the tokens still held (for avg cost) */
+  costNative: number;
+}
+
+export interface PaperPerpPosition {
+  coin: string;
+  /** Signed size in contracts — positive long, negative short */
+  szi: number;
+  entryPx: number;
+}
+
+export interface PaperFill {
+  id: string;
+  time: number;
+  venue: 'spot' | 'perp';
+  chainId?: number;
+  asset: string;
+  side: 'BUY' | 'SELL';
+  /** Fill price — native per token for spot, USD for perps */
+  price: number;
+  size: number;
+  fee: number;
+  realizedPnl?: number;
+}
+
+export interface PaperState {
+  /** Native balance per chain ID, in whole units */
+  native: Record<string, number>;
+  /** Keyed by `${chainId}:${tokenAddress}` */
+  holdings: Record<string, PaperHolding>;
+  usdc: number;
+  perps: Record<string, PaperPerpPosition>;
+  fills: PaperFill[];
+}
+
+/** Simulated execution venue attached to a session in PAPER_TRADING mode. */
+export interface PaperEngine {
+  config: PaperConfig;
+  buy(opts: BuyOptions, chainId: number): Promise<TradeResult>;
+  sell(opts: SellOptions, chainId: number): Promise<TradeResult>;
+  hlCreateOrder(
+    coin: string,
+    isLong: boolean,
+    limitPx: string,
+    size: string,
+    reduceOnly: boolean,
+  ): Promise<TradeResult>;
+  hlCloseAll(): Promise<TradeResult>;
+  /** The perp book as HL account reads (clearinghouseState, open orders, fills) */
+  hlAccount: PaperHlAccount;
+  getState(): PaperState;
+  reset(): void;
+}
+
+// ---------------------------------------------------------------------------
+// Config + persistence
+// ---------------------------------------------------------------------------
+
+const MAX_FILLS = 500;
+// Retry interval while another process holds the state lock
+const LOCK_RETRY_MS = 10;
+// A lock this old was left by a process that died mid-update
+const LOCK_STALE_MS = 10_000;
+
+export function loadPaperConfig(): PaperConfig {
+  const num = (key: string, fallback: number) => {
+    const v = parseFloat(process.env[key] || '');
+    return isNaN(v) ? fallback : v;
+  };
+  return {
+    slippageBps: num('PAPER_SLIPPAGE_BPS', 100),
+    feeBps: num('PAPER_FEE_BPS', 100),
+    perpFeeBps: num('PAPER_PERP_FEE_BPS', 4.5),
+    perpLeverage: num('PAPER_PERP_LEVERAGE', 10),
+    startNative: num('PAPER_START_NATIVE', 1),
+    startUsdc: num('PAPER_START_USDC', 100),
+    stateFile: process.env.PAPER_STATE_FILE || '/tmp/gdex-paper-state.json',
+  };
+}
+
+function emptyState(config: PaperConfig): PaperState {
+  return { native: {}, holdings: {}, usdc: config.startUsdc, perps: {}, fills: [] };
+}
+
+function readState(config: PaperConfig): PaperState {
+  try {
+    return { ...emptyState(config), ...JSON.parse(fs.readFileSync(config.stateFile, 'utf8')) };
+  } catch {
+    return emptyState(config);
+  }
+}
+
+function writeState(config: PaperConfig, state: PaperState): void {
+  if (state.fills.length > MAX_FILLS) state.fills = state.fills.slice(-MAX_FILLS);
+  // Per process, so concurrent writers never rename each other's file away
+  const tmp = `${config.stateFile}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(state, null, 2));
+  fs.renameSync(tmp, config.stateFile);
+}
+
+/** Run fn holding the state file's lock, which every paper process shares. fn must not await. */
+function withStateLock<T>(config: PaperConfig, fn: () => T): T {
+  const lock = config.stateFile + '.lock';
+  for (;;) {
+    try {
+      fs.closeSync(fs.openSync(lock, 'wx'));
+      break;
+    } catch (err: any) {
+      if (err.code !== 'EEXIST') throw err;
+      try {
+        if (Date.now() - fs.statSync(lock).mtimeMs > LOCK_STALE_MS) fs.rmSync(lock, { force: true });
+      } catch {
+        // Released between the open and the stat
+      }
+      Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, LOCK_RETRY_MS);
+    }
+  }
+  try {
+    return fn();
+  } finally {
+    fs.rmSync(lock, { force: true });
+  }
+}
+
+/**
+ * Read-modify-write the state under the lock: fn sees the latest state and
+ * its changes are saved only when the trade it returns succeeded.
+ */
+function trade(config: PaperConfig, fn: (state: PaperState) => TradeResult): TradeResult {
+  return withStateLock(config, () => {
+    const state = readState(config);
+    const result = fn(state);
+    if (result.isSuccess) writeState(config, state);
+    return result;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function nativeDecimals(chainId: number): number {
+  return chainId === SOLANA ? 9 : 18;
+}
+
+function nativeSymbol(chainId: number): string {
+  if (chainId === SOLANA) return 'SOL';
+  if (chainId === 56) return 'BNB';
+  if (chainId === 146) return 'S';
+  return 'ETH';
+}
+
+function fromBaseUnits(amount: string, decimals: number): number {
+  return Number(amount) / Math.pow(10, decimals);
+}
+
+function fillId(prefix: string): string {
+  return `paper-${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function nativeBalance(state: PaperState, config: PaperConfig, chainId: number): number {
+  return state.native[chainId] ?? config.startNative;
+}
+
+async function getPerpMark(coin: string): Promise<number | null> {
+  const mids = await getMids();
+  return mids[coin] ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Engine
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a simulated fill engine for a session. Spot fills use the live GDEX
+ * token quote, perp fills the live HyperLiquid mid; both take adverse
+ * slippage and fees from config. State lives in config.stateFile so every
+ * agent process sees the same balances; each fill re-reads and writes it
+ * under a lock after its last await, so concurrent agents don't lose fills.
+ */
+export function createPaperEngine(session: GDEXSession, config: PaperConfig = loadPaperConfig()): PaperEngine {
+  async function buy(opts: BuyOptions, chainId: number): Promise<TradeResult> {
+    const quote = await getSpotQuote(session.sdk, opts.tokenAddress, chainId);
+    if (!quote) return { isSuccess: false, paper: true, message: 'Paper: no quote for token' };
+
+    return trade(config, (state) => {
+      const nativeIn = fromBaseUnits(opts.amount, nativeDecimals(chainId));
+      const balance = nativeBalance(state, config, chainId);
+      if (nativeIn <= 0) return { isSuccess: false, paper: true, message: 'Paper: amount must be positive' };
+      if (nativeIn > balance) {
+        return { isSuccess: false, paper: true, message: `Paper: insufficient ${nativeSymbol(chainId)} (${balance} < ${nativeIn})` };
+      }
+
+      const fee = nativeIn * config.feeBps / 10_000;
+      const fillPrice = quote.priceNative * (1 + config.slippageBps / 10_000);
+      const tokens = (nativeIn - fee) / fillPrice;
+
+      const key = `${chainId}:${opts.tokenAddress}`;
+      const held = state.holdings[key] ?? {
+        chainId, tokenAddress: opts.tokenAddress, symbol: quote.symbol, decimals: quote.decimals, amount: 0, costNative: 0,
+      };
+      held.amount += tokens;
+      held.costNative += nativeIn;
+      state.holdings[key] = held;
+      state.native[chainId] = balance - nativeIn;
+
+      const id = fillId('buy');
+      state.fills.push({ id, time: Date.now(), venue: 'spot', chainId, asset: opts.tokenAddress, side: 'BUY', price: fillPrice, size: tokens, fee });
+
+      return {
+        isSuccess: true,
+        paper: true,
+        hash: id,
+        message: `Paper buy ${tokens.toFixed(4)} ${quote.symbol} @ ${fillPrice.toPrecision(6)} ${nativeSymbol(chainId)}`,
+        executedPrice: fillPrice,
+        quotedPrice: quote.priceNative,
+        slippagePct: config.slippageBps / 100,
+        tokenAmount: tokens,
+        nativeAmount: nativeIn,
+        fee,
+        tip: 0,
+      };
+    });
+  }
+
+  async function sell(opts: SellOptions, chainId: number): Promise<TradeResult> {
+    const key = `${chainId}:${opts.tokenAddress}`;
+    const noHolding: TradeResult = { isSuccess: false, paper: true, message: 'Paper: no holding for token' };
+    const holding = readState(config).holdings[key];
+    if (!holding || holding.amount <= 0) return noHolding;
+
+    const quote = await getSpotQuote(session.sdk, opts.tokenAddress, chainId);
+    if (!quote) return { isSuccess: false, paper: true, message: 'Paper: no quote for token' };
+
+    // Re-read after the quote: another process may have sold meanwhile
+    return trade(config, (state) => {
+      const held = state.holdings[key];
+      if (!held || held.amount <= 0) return noHolding;
+
+      const tokens = Math.min(fromBaseUnits(opts.amount, held.decimals), held.amount);
+      if (tokens <= 0) return { isSuccess: false, paper: true, message: 'Paper: amount must be positive' };
+
+      const fillPrice = quote.priceNative * (1 - config.slippageBps / 10_000);
+      const gross = tokens * fillPrice;
+      const fee = gross * config.feeBps / 10_000;
+      const costShare = held.costNative * (tokens / held.amount);
+
+      held.amount -= tokens;
+      held.costNative -= costShare;
+      if (held.amount <= 1e-12) delete state.holdings[key];
+      state.native[chainId] = nativeBalance(state, config, chainId) + gross - fee;
+
+      const id = fillId('sell');
+      const realizedPnl = gross - fee - costShare;
+      state.fills.push({ id, time: Date.now(), venue: 'spot', chainId, asset: opts.tokenAddress, side: 'SELL', price: fillPrice, size: tokens, fee, realizedPnl });
+
+      return {
+        isSuccess: true,
+        paper: true,
+        hash: id,
+        message: `Paper sell ${tokens.toFixed(4)} ${held.symbol} @ ${fillPrice.toPrecision(6)} ${nativeSymbol(chainId)}`,
+        executedPrice: fillPrice,
+        quotedPrice: quote.priceNative,
+        slippagePct: config.slippageBps / 100,
+        tokenAmount: tokens,
+        nativeAmount: gross - fee,
+        fee,
+        tip: 0,
+        realizedPnl,
+      };
+    });
+  }
+
+  /** Apply a perp fill to state; returns realized P&L (before fee). */
+  function applyPerpFill(state: PaperState, coin: string, signedSz: number, px: number): number {
+    const pos = state.perps[coin] ?? { coin, szi: 0, entryPx: 0 };
+    let realized = 0;
+
+    if (pos.szi !== 0 && Math.sign(pos.szi) !== Math.sign(signedSz)) {
+      const closing = Math.min(Math.abs(signedSz), Math.abs(pos.szi));
+      realized = (px - pos.entryPx) * closing * Math.sign(pos.szi);
+    }
+
+    const newSzi = pos.szi + signedSz;
+    if (Math.abs(newSzi) < 1e-12) {
+      delete state.perps[coin];
+    } else if (pos.szi === 0 || Math.sign(newSzi) !== Math.sign(pos.szi)) {
+      state.perps[coin] = { coin, szi: newSzi, entryPx: px };   // opened or flipped
+    } else if (Math.abs(newSzi) > Math.abs(pos.szi)) {
+      const entryPx = (pos.entryPx * Math.abs(pos.szi) + px * Math.abs(signedSz)) / Math.abs(newSzi);
+      state.perps[coin] = { coin, szi: newSzi, entryPx };        // added
+    } else {
+      state.perps[coin] = { ...pos, szi: newSzi };               // reduced
+    }
+    return realized;
+  }
+
+  async function hlCreateOrder(
+    coin: string,
+    isLong: boolean,
+    limitPx: string,
+    size: string,
+    reduceOnly: boolean,
+  ): Promise<TradeResult> {
+    const mark = await getPerpMark(coin);
+    if (!mark) return { isSuccess: false, paper: true, message: `Paper: no mark price for ${coin}` };
+
+    const fillPx = mark * (1 + (isLong ? 1 : -1) * config.slippageBps / 10_000);
+    const limit = parseFloat(limitPx);
+    if (limit > 0 && (isLong ? fillPx > limit : fillPx < limit)) {
+      return { isSuccess: false, paper: true, message: `Paper: limit ${limitPx} not marketable (fill ${fillPx.toFixed(4)})` };
+    }
+
+    return trade(config, (state) => {
+      const pos = state.perps[coin];
+      let sz = parseFloat(size);
+      if (!(sz > 0)) return { isSuccess: false, paper: true, message: 'Paper: size must be positive' };
+
+      if (reduceOnly) {
+        if (!pos || Math.sign(pos.szi) === (isLong ? 1 : -1)) {
+          return { isSuccess: false, paper: true, message: `Paper: reduce-only order would increase ${coin} position` };
+        }
+        sz = Math.min(sz, Math.abs(pos.szi));
+      }
+
+      const fee = sz * fillPx * config.perpFeeBps / 10_000;
+      const realized = applyPerpFill(state, coin, isLong ? sz : -sz, fillPx);
+      state.usdc += realized - fee;
+
+      const marginUsed = Object.values(state.perps)
+        .reduce((s, p) => s + Math.abs(p.szi) * p.entryPx, 0) / config.perpLeverage;
+      if (!reduceOnly && marginUsed > state.usdc) {
+        return { isSuccess: false, paper: true, message: `Paper: insufficient margin ($${marginUsed.toFixed(2)} > $${state.usdc.toFixed(2)})` };
+      }
+
+      const oid = fillId('hl');
+      state.fills.push({ id: oid, time: Date.now(), venue: 'perp', asset: coin, side: isLong ? 'BUY' : 'SELL', price: fillPx, size: sz, fee, realizedPnl: realized });
+
+      return {
+        isSuccess: true,
+        paper: true,
+        oid,
+        message: `Paper ${isLong ? 'buy' : 'sell'} ${sz} ${coin} @ ${fillPx.toFixed(4)}`,
+        avgPx: fillPx.toString(),
+        totalSz: sz.toString(),
+        fee,
+        realizedPnl: realized,
+      };
+    });
+  }
+
+  async function hlCloseAll(): Promise<TradeResult> {
+    const positions = Object.values(readState(config).perps);
+    const results = [];
+    for (const p of positions) {
+      results.push(await hlCreateOrder(p.coin, p.szi < 0, '0', Math.abs(p.szi).toString(), true));
+    }
+    const failed = results.filter(r => !r.isSuccess);
+    return failed.length === 0
+      ? { isSuccess: true, paper: true, message: `Paper: closed ${results.length} position(s)` }
+      : { isSuccess: false, paper: true, message: failed.map(r => r.message).join('; ') };
+  }
+
+  /** Positions carry only size + entry — mark them against live mids */
+  async function clearinghouseState(): Promise<ClearinghouseState> {
+    const state = readState(config);
+    const mids = await getMids();
+    const positions = Object.values(state.perps)
+      .filter(p => p.szi !== 0)
+      .map((p): Position => {
+        const mark = mids[p.coin] ?? p.entryPx;
+        const size = Math.abs(p.szi);
+        const marginUsed = (size * mark) / config.perpLeverage;
+        const unrealizedPnl = p.szi * (mark - p.entryPx);
+        return {
+          coin: p.coin, szi: p.szi, size, isLong: p.szi > 0, entryPx: p.entryPx,
+          positionValue: size * mark, unrealizedPnl, returnOnEquity: marginUsed > 0 ? unrealizedPnl / marginUsed : 0,
+          leverage: config.perpLeverage, leverageType: 'cross', liquidationPx: null, marginUsed,
+        };
+      });
+    const sum = (f: (p: Position) => number) => positions.reduce((s, p) => s + f(p), 0);
+    const summary = {
+      accountValue: state.usdc + sum(p => p.unrealizedPnl),
+      totalNtlPos: sum(p => p.positionValue),
+      totalRawUsd: state.usdc,
+      totalMarginUsed: sum(p => p.marginUsed),
+    };
+    return {
+      marginSummary: summary,
+      crossMarginSummary: summary,
+      withdrawable: Math.max(0, summary.accountValue - summary.totalMarginUsed),
+      positions,
+      time: Date.now(),
+    };
+  }
+
+  async function fills(startTime = 0, endTime = Date.now()): Promise<Fill[]> {
+    return readState(config).fills
+      .filter(f => f.venue === 'perp' && f.time >= startTime && f.time <= endTime)
+      .map((f): Fill => ({
+        coin: f.asset, px: f.price, sz: f.size, side: f.side === 'BUY' ? 'B' : 'A', isBuy: f.side === 'BUY',
+        time: f.time, dir: '', closedPnl: f.realizedPnl ?? 0, fee: f.fee, feeToken: 'USDC',
+        oid: 0, tid: 0, hash: f.id, crossed: true, startPosition: 0,
+      }))
+      .sort((a, b) => b.time - a.time);
+  }
+
+  return {
+    config,
+    buy,
+    sell,
+    hlCreateOrder,
+    hlCloseAll,
+    // Every paper perp order fills or is refused at once — nothing rests
+    hlAccount: { clearinghouseState, openOrders: async () => [], fills },
+    getState: () => readState(config),
+    reset: () => withStateLock(config, () => writeState(config, emptyState(config))),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Session wiring
+// ---------------------------------------------------------------------------
+
+function paperRejected(method: string): (...args: any[]) => Promise<TradeResult> {
+  return async () => ({ isSuccess: false, paper: true, message: `${method} is not available in paper trading mode` });
+}
+
+/**
+ * Route a session's order flow to a paper engine. The SDK's `trading`,
+ * `hyperLiquid` and `user` namespaces are wrapped so bots that call the SDK
+ * directly (e.g. hlCreateOrder) get simulated fills without code changes.
+ * Read-only calls pass through; order-mutating calls that are not simulated
+ * (limit orders, deposits, copy trading) are rejected instead of sent live.
+ * The custodial address's HL account reads (hyperliquid.ts) come from the
+ * engine too; getHlAddress() adds the HL address when it differs.
+ */
+export function enablePaperTrading(session: GDEXSession, config?: PaperConfig): PaperEngine {
+  const engine = createPaperEngine(session, config);
+  const sdk = session.sdk as any;
+  if (session.custodialAddress) routeHlAccountToPaper(session.custodialAddress, engine.hlAccount);
+
+  const wrap = (target: any, overrides: Record<string, Function>, isMutating: (name: string) => boolean) =>
+    new Proxy(target, {
+      get(obj, prop, receiver) {
+        if (typeof prop === 'string' && prop in overrides) return overrides[prop];
+        const value = Reflect.get(obj, prop, receiver);
+        if (typeof value !== 'function') return value;
+        if (typeof prop === 'string' && isMutating(prop)) return paperRejected(prop);
+        return value.bind(obj);
+      },
+    });
+
+  sdk.trading = wrap(sdk.trading, {
+    buy: (_addr: string, amount: string, tokenAddress: string, chainId: number) =>
+      engine.buy({ tokenAddress, amount }, chainId),
+    sell: (_addr: string, amount: string, tokenAddress: string, chainId: number) =>
+      engine.sell({ tokenAddress, amount }, chainId),
+  }, name => !name.startsWith('get'));
+
+  sdk.hyperLiquid = wrap(sdk.hyperLiquid, {
+    hlCreateOrder: (_addr: string, coin: string, isLong: boolean, limitPx: string, size: string,
+      _tpPx: string, _slPx: string, reduceOnly: boolean) =>
+      engine.hlCreateOrder(coin, isLong, limitPx, size, reduceOnly),
+    hlCloseAll: () => engine.hlCloseAll(),
+    getHyperliquidUsdcBalance: async () => engine.getState().usdc,
+  }, name => /^hl[A-Z]/.test(name));
+
+  sdk.user = wrap(sdk.user, {
+    getHoldingsList: async (_addr: string, chainId: number) => {
+      const state = engine.getState();
+      const native = {
+        symbol: nativeSymbol(chainId),
+        isNative: true,
+        balance: nativeBalance(state, engine.config, chainId).toString(),
+      };
+      const tokens = Object.values(state.holdings)
+        .filter(h => h.chainId === chainId)
+        .map(h => ({
+          address: h.tokenAddress,
+          symbol: h.symbol,
+          decimals: h.decimals,
+          balance: h.amount.toString(),
+          costNative: h.costNative,
+        }));
+      return [native, ...tokens];
+    },
+  }, () => false);
+
+  return engine;
+}
@@ -0,0 +1,300 @@
+/**
+ * portfolio-risk.ts — portfolio-wide limits every order passes through
+ *
+ * buyToken, sellToken, the limit-order helpers and placePerpOrder (trading.ts)
+ * ask checkOrder() before anything is sent. A refused order comes back as a
+ * TradeResult with isSuccess false and `rejected` describing the rule.
+ *
+ * State is shared through the trade journal (journal.ts), so the pump.fun
+ * agents, the HL scalper and one-off CLI trades all count against the same
+ * limits:
+ *   - kill switch       RISK_KILL_SWITCH=1, or `gdex risk kill` (persisted)
+ *   - orders per minute RISK_MAX_ORDERS_PER_MIN
+ *   - daily loss        RISK_MAX_DAILY_LOSS      realized since 00:00 UTC
+ *   - chain exposure    RISK_MAX_CHAIN_EXPOSURE  open positions + this order
+ *   - concentration     RISK_MAX_TOKEN_EXPOSURE  same, for one token
+ * The last three are per chain, e.g. `solana:0.05,hl:150`, in the chain's
+ * native unit (SOL, ETH, BNB …) or USD for `hl`. Every rule only holds back
+ * orders that add risk — sells and reduce-only perp orders always get
+ * through, so stop-losses still fire with the kill switch on or a malformed
+ * RISK_* variable (which refuses every entry). Exits do count toward the
+ * order rate seen by later entries.
+ *
+ * Exposure and P&L come from the journaled books (trader/scalper → solana,
+ * hl-scalper → hl); trades made outside them only count toward the order
+ * rate and their own order size.
+ */
+
+import { CHAIN_NAMES } from './config';
+import { sharedJournal, Book, Journal } from './journal';
+
+const SOLANA = 622112261;
+const SUI = 1313131213;
+const ORDER_WINDOW_MS = 60_000;
+const KILL_SWITCH_KEY = 'risk.kill_switch';
+
+/** Which chain each journal book trades on */
+const BOOK_CHAINS: Record<Book, RiskChain> = {
+  trader: 'solana',
+  scalper: 'solana',
+  'hl-scalper': 'hl',
+};
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Lower-case CHAIN_NAMES entry ("solana", "base" …) or "hl" for HyperLiquid perps */
+export type RiskChain = string;
+
+export type RiskRule = 'config' | 'kill-switch' | 'order-rate' | 'daily-loss' | 'chain-exposure' | 'token-concentration';
+
+export interface RiskRejection {
+  rule: RiskRule;
+  message: string;
+  chain: RiskChain;
+  limit?: number;
+  /** Value that breaches the limit — including this order for the exposure caps */
+  value?: number;
+  unit?: string;
+}
+
+export interface RiskLimits {
+  /** Per chain, positive number: stop entries once today's realized loss reaches it */
+  maxDailyLoss: Record<RiskChain, number>;
+  maxChainExposure: Record<RiskChain, number>;
+  maxTokenExposure: Record<RiskChain, number>;
+  maxOrdersPerMin: number | null;
+  /** RISK_KILL_SWITCH — the persisted switch is read per order */
+  killSwitch: boolean;
+}
+
+export interface OrderIntent {
+  chain: RiskChain;
+  /** Token address, or coin for HL */
+  token: string;
+  side: 'buy' | 'sell';
+  /** Sells and reduce-only orders skip every rule */
+  reduceOnly: boolean;
+  /** Size in the chain's unit (SOL, ETH … or USD for hl); null when unknown */
+  notional: number | null;
+}
+
+export interface KillSwitchState {
+  reason: string;
+  since: string;
+}
+
+export interface RiskStatus {
+  limits: RiskLimits;
+  killSwitch: KillSwitchState | null;
+  ordersLastMinute: number;
+  chains: Array<{ chain: RiskChain; unit: string; exposure: number; realizedToday: number }>;
+}
+
+// ---------------------------------------------------------------------------
+// Limits
+// ---------------------------------------------------------------------------
+
+export function chainKey(chainId: number): RiskChain {
+  return (CHAIN_NAMES[chainId] ?? String(chainId)).toLowerCase();
+}
+
+export function chainUnit(chain: RiskChain): string {
+  switch (chain) {
+    case 'hl': return 'USD';
+    case 'solana': return 'SOL';
+    case 'bsc': return 'BNB';
+    case 'sonic': return 'S';
+    case 'sui': return 'SUI';
+    case 'berachain': return 'BERA';
+    case 'nibiru': return 'NIBI';
+    case 'fraxtal': return 'frxETH';
+    default: return 'ETH';
+  }
+}
+
+/** Native amount in smallest units (lamports, wei, MIST) → whole coins */
+export function nativeAmount(amount: string, chainId: number): number {
+  const decimals = chainId === SOLANA || chainId === SUI ? 9 : 18;
+  return Number(amount) / 10 ** decimals;
+}
+
+const KNOWN_CHAINS = new Set(['hl', ...Object.values(CHAIN_NAMES).map((n) => n.toLowerCase())]);
+
+function parseChainMap(name: string, raw: string | undefined, errors: string[]): Record<RiskChain, number> {
+  const out: Record<RiskChain, number> = {};
+  for (const part of (raw ?? '').split(',').map((p) => p.trim()).filter(Boolean)) {
+    const [chain, value] = part.split(':').map((s) => s.trim().toLowerCase());
+    const n = Number(value);
+    if (!KNOWN_CHAINS.has(chain)) errors.push(`${name}: unknown chain "${chain}" (${[...KNOWN_CHAINS].join(', ')})`);
+    else if (!(n > 0)) errors.push(`${name}: ${chain} needs a positive number, got "${value ?? ''}"`);
+    else out[chain] = n;
+  }
+  return out;
+}
+
+/** Read the RISK_* variables. Throws with every problem listed. */
+export function loadRiskLimits(env: NodeJS.ProcessEnv = process.env): RiskLimits {
+  const errors: string[] = [];
+  const limits: RiskLimits = {
+    maxDailyLoss: parseChainMap('RISK_MAX_DAILY_LOSS', env.RISK_MAX_DAILY_LOSS, errors),
+    maxChainExposure: parseChainMap('RISK_MAX_CHAIN_EXPOSURE', env.RISK_MAX_CHAIN_EXPOSURE, errors),
+    maxTokenExposure: parseChainMap('RISK_MAX_TOKEN_EXPOSURE', env.RISK_MAX_TOKEN_EXPOSURE, errors),
+    maxOrdersPerMin: null,
+    killSwitch: ['1', 'true', 'yes'].includes((env.RISK_KILL_SWITCH ?? '').toLowerCase()),
+  };
+  if (env.RISK_MAX_ORDERS_PER_MIN) {
+    const n = Number(env.RISK_MAX_ORDERS_PER_MIN);
+    if (!(Number.isInteger(n) && n > 0)) errors.push(`RISK_MAX_ORDERS_PER_MIN must be a whole number > 0`);
+    else limits.maxOrdersPerMin = n;
+  }
+  if (errors.length > 0) throw new Error(`Invalid risk limits:\n  - ${errors.join('\n  - ')}`);
+  return limits;
+}
+
+// ---------------------------------------------------------------------------
+// Shared state
+// ---------------------------------------------------------------------------
+
+let limits: RiskLimits | null = null;
+
+function getJournal(): Journal {
+  return sharedJournal();
+}
+
+function booksFor(chain: RiskChain): Book[] {
+  return (Object.keys(BOOK_CHAINS) as Book[]).filter((b) => BOOK_CHAINS[b] === chain);
+}
+
+function startOfUtcDay(now = new Date()): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())).toISOString();
+}
+
+export function getKillSwitch(): KillSwitchState | null {
+  const raw = getJournal().getSetting(KILL_SWITCH_KEY);
+  return raw ? JSON.parse(raw) : null;
+}
+
+/** Engage (reason) or release (null) the persisted kill switch for every process. */
+export function setKillSwitch(reason: string | null): void {
+  getJournal().setSetting(
+    KILL_SWITCH_KEY,
+    reason === null ? null : JSON.stringify({ reason, since: new Date().toISOString() } satisfies KillSwitchState),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Checks
+// ---------------------------------------------------------------------------
+
+function evaluate(j: Journal, l: RiskLimits, o: OrderIntent): RiskRejection | null {
+  const unit = chainUnit(o.chain);
+  const fmt = (n: number) => `${Number(n.toFixed(6))} ${unit}`;
+
+  const kill = getKillSwitch();
+  if (l.killSwitch || kill) {
+    const why = kill ? `${kill.reason} (since ${kill.since})` : 'RISK_KILL_SWITCH is set';
+    return { rule: 'kill-switch', chain: o.chain, message: `Kill switch engaged: ${why}` };
+  }
+
+  if (l.maxOrdersPerMin !== null) {
+    const recent = j.countOrders(new Date(Date.now() - ORDER_WINDOW_MS).toISOString());
+    if (recent >= l.maxOrdersPerMin) {
+      return {
+        rule: 'order-rate', chain: o.chain, limit: l.maxOrdersPerMin, value: recent + 1,
+        message: `${recent} orders in the last minute — limit is ${l.maxOrdersPerMin}/min`,
+      };
+    }
+  }
+
+  const books = booksFor(o.chain);
+
+  const maxLoss = l.maxDailyLoss[o.chain];
+  if (maxLoss !== undefined && books.length > 0) {
+    const pnl = j.realizedPnl(books, startOfUtcDay());
+    if (-pnl >= maxLoss) {
+      return {
+        rule: 'daily-loss', chain: o.chain, unit, limit: maxLoss, value: -pnl,
+        message: `Daily loss ${fmt(-pnl)} on ${o.chain} reached the ${fmt(maxLoss)} limit — entries resume 00:00 UTC`,
+      };
+    }
+  }
+
+  const size = o.notional ?? 0;
+  const maxChain = l.maxChainExposure[o.chain];
+  if (maxChain !== undefined) {
+    const after = (books.length > 0 ? j.openExposure(books) : 0) + size;
+    if (after > maxChain) {
+      return {
+        rule: 'chain-exposure', chain: o.chain, unit, limit: maxChain, value: after,
+        message: `${o.chain} exposure would be ${fmt(after)} — limit ${fmt(maxChain)}`,
+      };
+    }
+  }
+
+  const maxToken = l.maxTokenExposure[o.chain];
+  if (maxToken !== undefined) {
+    const after = (books.length > 0 ? j.openExposure(books, o.token) : 0) + size;
+    if (after > maxToken) {
+      return {
+        rule: 'token-concentration', chain: o.chain, unit, limit: maxToken, value: after,
+        message: `${o.token} exposure would be ${fmt(after)} — per-token limit ${fmt(maxToken)}`,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Decide on an order and log it to the journal. Returns null when it may be
+ * sent; an accepted order counts toward the per-minute limit straight away.
+ */
+export function checkOrder(order: OrderIntent): RiskRejection | null {
+  // Exits skip every rule — a malformed RISK_* variable mustn't block a stop-loss either
+  let l: RiskLimits | null = null;
+  if (!order.reduceOnly) {
+    try {
+      l = limits ??= loadRiskLimits();
+    } catch (err: any) {
+      return { rule: 'config', chain: order.chain, message: err.message.replace(/\n\s*/g, ' ') };
+    }
+  }
+  const j = getJournal();
+  // Immediate transaction: concurrent agents can't both take the last slot
+  return j.db.transaction(() => {
+    const rejection = l ? evaluate(j, l, order) : null;
+    j.recordOrder({
+      ...order,
+      status: rejection ? 'rejected' : 'accepted',
+      rule: rejection?.rule ?? null,
+      source: process.argv[1] ? process.argv[1].split(/[\\/]/).pop() : null,
+    });
+    return rejection;
+  }).immediate();
+}
+
+/** Limits, kill switch and where each configured or journaled chain stands now. */
+export function getRiskStatus(): RiskStatus {
+  const l = loadRiskLimits();
+  const j = getJournal();
+  const chains = new Set<RiskChain>([
+    ...Object.values(BOOK_CHAINS),
+    ...Object.keys(l.maxDailyLoss), ...Object.keys(l.maxChainExposure), ...Object.keys(l.maxTokenExposure),
+  ]);
+  const today = startOfUtcDay();
+  return {
+    limits: l,
+    killSwitch: getKillSwitch(),
+    ordersLastMinute: j.countOrders(new Date(Date.now() - ORDER_WINDOW_MS).toISOString()),
+    chains: [...chains].map((chain) => {
+      const books = booksFor(chain);
+      return {
+        chain,
+        unit: chainUnit(chain),
+        exposure: books.length > 0 ? j.openExposure(books) : 0,
+        realizedToday: books.length > 0 ? j.realizedPnl(books, today) : 0,
+      };
+    }),
+  };
+}
@@ -9,30 +9,54 @@
  *   • Agent 5 — SCALPER   (pumpfun-scalper.ts)
  *   • Agent 6 — ANALYTICS (pumpfun-analytics.ts)
  *
+ * Agents run under a supervisor (pumpfun-supervisor.ts): bus heartbeats,
+ * restart with exponential backoff, a crash-loop limit, and CIRCUIT_BREAK
+ * while RISK is down so nothing new is bought without exit protection.
+ *
  * Renders a live ASCII terminal dashboard every 10s showing:
  *   - Active watchlist
  *   - Scores
  *   - Open positions with unrealized P&L
  *   - Closed trades with realized P&L
  *   - Win rate
+ *   - Per-agent status, uptime and restart count
+ *
+ * Reads positions, trades, watchlist and scores from the trade journal
+ * (journal.ts), importing any legacy /tmp JSON logs on startup.
+ *
+ * Watches the strategy profile (pumpfun-profile.ts) and broadcasts
+ * PROFILE_UPDATE when it changes — edit the file to retune live agents.
+ *
+ * Headless (--headless, PUMPFUN_HEADLESS=1, or no TTY on stdout — systemd,
+ * docker): same bus, agents and supervisor, no dashboard; agent logs go to
+ * stdout. Either way a local HTTP API (pumpfun-api.ts, 127.0.0.1:7778)
+ * serves status/positions/trades/analytics/balance and pause/resume/
+ * force-close, plus a live browser dashboard at / (pumpfun-web.ts).
+ *
+ * Alerts (notify.ts): entries, exits and circuit breaks crossing the bus go
+ * to the channels in notifications.json — webhook, Telegram, Discord, email.
  *
  * Usage: npm run pumpfun:alpha
- *        ts-node src/pumpfun-alpha.ts
+ *        npm run pumpfun:headless
+ *        PUMPFUN_PRESET=conservative npm run pumpfun:alpha
+ *        PUMPFUN_PROFILE=./my-profile.yaml ts-node src/pumpfun-alpha.ts
  */
 
 import { spawn, ChildProcess } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import { startBusServer, BUS_PORT } from './pumpfun-bus';
+import { loadProfile, watchProfile, describeProfile, LoadedProfile } from './pumpfun-profile';
+import { openJournal, migrateJsonLogs, Journal } from './journal';
+import { createSupervisor, createEntryGate, Supervisor, AgentState } from './pumpfun-supervisor';
+import { startStatusApi, API_HOST, API_PORT } from './pumpfun-api';
+import { loadNotifyConfig, createNotifier, isNotifyEventType } from './notify';
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
 const RENDER_MS = 10_000;
-const WATCHLIST_PATH = '/tmp/pumpfun-watchlist.json';
-const SCORES_PATH = '/tmp/pumpfun-scores.json';
-const POSITIONS_PATH = '/tmp/pumpfun-positions.json';
-const SCALP_POSITIONS_PATH = '/tmp/pumpfun-scalp-positions.json';
-const LOG_PATH = '/tmp/pumpfun-log.json';
+const HEADLESS =
+  process.argv.includes('--headless') || process.env.PUMPFUN_HEADLESS === '1' || !process.stdout.isTTY;
 const ANALYTICS_PATH = '/tmp/pumpfun-analytics.json';
 const BALANCE_PATH = '/tmp/pumpfun-balance.json';
 const AGENT_LOG_PATH = '/tmp/pumpfun-agents.log';
@@ -118,6 +142,27 @@ function fmtAge(iso: string): string {
   return `${Math.floor(m / 60)}h${m % 60}m`;
 }
 
+/** One dashboard cell per agent: name + uptime, or why it isn't up. */
+function fmtAgentState(a: AgentState): string {
+  const restarts = a.restarts > 0 ? c(` ↻${a.restarts}`, YEL) : '';
+  switch (a.status) {
+    case 'up':
+      return c(`${a.name} ${fmtAge(new Date(a.startedAt!).toISOString())}`, GRN) + restarts;
+    case 'starting':
+      return c(`${a.name} …`, YEL) + restarts;
+    case 'unresponsive':
+      return c(`${a.name} ?${a.missedHeartbeats}`, YEL) + restarts;
+    case 'backoff': {
+      const secs = Math.max(0, Math.ceil(((a.nextStartAt ?? Date.now()) - Date.now()) / 1000));
+      return c(`${a.name} down ${secs}s`, RED) + restarts;
+    }
+    case 'failed':
+      return c(`${a.name} ✗ failed`, `${BOLD}${RED}`) + restarts;
+    case 'stopped':
+      return c(`${a.name} stopped`, DIM);
+  }
+}
+
 function fmtAgeShort(iso: string): string {
   const ms = Date.now() - new Date(iso).getTime();
   const s = Math.floor(ms / 1000);
@@ -127,6 +172,15 @@ function fmtAgeShort(iso: string): string {
 
 // ─── Data readers ─────────────────────────────────────────────────────────────
 
+// Journal reads for the dashboard — a busy or missing journal renders empty
+function journalRead<T>(read: (j: Journal) => T, fallback: T): T {
+  try {
+    return journal ? read(journal) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
 function safeRead(filePath: string): any {
   try {
     if (!fs.existsSync(filePath)) return null;
@@ -212,23 +266,15 @@ function renderDashboard() {
   const termRows = process.stdout.rows || 40;
   WIDTH = Math.max(80, Math.min(termCols, 200));
 
-  const wl = safeRead(WATCHLIST_PATH);
-  const sc = safeRead(SCORES_PATH);
-  const pos = safeRead(POSITIONS_PATH);
-  const scalp = safeRead(SCALP_POSITIONS_PATH);
-  const logData = safeRead(LOG_PATH);
   const balData = safeRead(BALANCE_PATH);
 
-  const tokens: any[] = wl?.tokens ?? [];
-  const scores: any[] = sc?.scores ?? [];
-  const positions: any[] = pos?.positions ?? [];
-  const scalpPositions: any[] = scalp?.positions ?? [];
-  const trades: any[] = logData?.trades ?? [];
+  const tokens: any[] = journalRead((j) => j.getWatchlist<any>().tokens, []);
+  const scores: any[] = journalRead((j) => j.getScores<any>().scores, []);
+  const openPos: any[] = journalRead((j) => j.getPositions('trader', 'open'), []);
+  const openScalps: any[] = journalRead((j) => j.getPositions('scalper', 'open'), []);
+  const trades: any[] = journalRead((j) => j.getTrades(['trader', 'scalper']), []);
   const custodialAddr: string | null = balData?.custodialAddress ?? null;
 
-  const openPos = positions.filter((p: any) => p.status === 'open');
-  const openScalps = scalpPositions.filter((p: any) => p.status === 'open');
-
   const wins = trades.filter((t: any) => t.pnlPct >= 0).length;
   const winRate = trades.length > 0
     ? ((wins / trades.length) * 100).toFixed(0) : '—';
@@ -237,9 +283,9 @@ function renderDashboard() {
   );
 
   // ── Dynamic layout based on actual terminal size and data ──────────────────
-  // Fixed chrome: borders, section headers, column headers = 19 lines
+  // Fixed chrome: borders, section headers, column headers = 21 lines
   // Splash art = 15 lines   Positions/scalps show all (min 1 each)
-  const CHROME = 19;
+  const CHROME = 21;
   const SPLASH_COST = 15;
   const posRows = Math.max(1, openPos.length);
   const scalpRows = Math.max(1, openScalps.length);
@@ -300,12 +346,27 @@ function renderDashboard() {
     : busCount > 0
       ? c(`bus:${busCount}/6`, YEL)
       : c('bus:offline', RED);
-  const status =
-    `${c('SCANNER', GRN)} ${c('ANALYST', YEL)} ${c('TRADER', MAG)} ` +
-    `${c('RISK', RED)} ${c('SCALPER', CYN)}  |  ${busStatus}  |  ${c(now, DIM)}`;
+  const agentStates = supervisor?.agents() ?? [];
+  const agentsDisplay = agentStates.length > 0
+    ? agentStates.map(fmtAgentState).join('  ')
+    : c('starting...', DIM);
   lines.push(
     c('║', CYN) + ' ' +
-    padV(`Agents: ${status}`, WIDTH - 4) +
+    padV(truncAnsi(`Agents: ${agentsDisplay}`, WIDTH - 4), WIDTH - 4) +
+    ' ' + c('║', CYN),
+  );
+  lines.push(
+    c('║', CYN) + ' ' +
+    padV(`Bus: ${busStatus}  |  ${c(now, DIM)}`, WIDTH - 4) +
+    ' ' + c('║', CYN),
+  );
+
+  const profileDisplay = activeProfile
+    ? c(describeProfile(activeProfile.profile), WHT)
+    : c('loading...', DIM);
+  lines.push(
+    c('║', CYN) + ' ' +
+    padV(`Profile: ${profileDisplay}`, WIDTH - 4) +
     ' ' + c('║', CYN),
   );
 
@@ -681,9 +742,12 @@ const AGENTS: AgentConfig[] = [
   { name: 'ANALYTICS', script: 'pumpfun-analytics.ts', color: BLU },
 ];
 
-const children: ChildProcess[] = [];
+let supervisor: Supervisor | null = null; // created in main()
 let agentLogFd: number | null = null;
 let busClientCount = () => 0; // updated once bus server starts
+let activeProfile: LoadedProfile | null = null;
+let journal: Journal | null = null; // opened in main()
+let pushWebLog: (line: string) => void = () => {}; // set once the status API is up
 
 function appendAgentLog(msg: string): void {
   if (agentLogFd === null) {
@@ -691,6 +755,9 @@ function appendAgentLog(msg: string): void {
   }
   const ts = new Date().toLocaleTimeString();
   fs.writeSync(agentLogFd, `${DIM}${ts}${RST} ${msg}\n`);
+  pushWebLog(msg);
+  // No dashboard to tail the log — journald/docker collect stdout instead
+  if (HEADLESS) process.stdout.write(`${new Date().toISOString()} ${stripAnsi(msg)}\n`);
 }
 
 function spawnAgent(agent: AgentConfig): ChildProcess {
@@ -721,10 +788,6 @@ function spawnAgent(agent: AgentConfig): ChildProcess {
     }
   });
 
-  child.on('exit', (code, signal) => {
-    appendAgentLog(`${tag} exited (code=${code} signal=${signal})`);
-  });
-
   appendAgentLog(`${tag} spawned (pid=${child.pid})`);
   return child;
 }
@@ -736,44 +799,109 @@ async function main() {
   fs.writeFileSync(AGENT_LOG_PATH, '');
 
   // Enter alternate screen buffer and hide cursor
-  process.stdout.write(ALT_SCREEN_ON + HIDE_CURSOR);
+  if (!HEADLESS) process.stdout.write(ALT_SCREEN_ON + HIDE_CURSOR);
 
   appendAgentLog('PUMP.FUN ALPHA HUNTER — STARTING UP');
 
+  // Validate the strategy profile up front — agents would each die on a bad one
+  activeProfile = loadProfile();
+  appendAgentLog(`Strategy profile: ${describeProfile(activeProfile.profile)} (${activeProfile.source})`);
+
+  // Open the trade journal and import any JSON logs left by older versions
+  journal = openJournal();
+  const migrated = migrateJsonLogs(journal);
+  if (migrated.files.length > 0) {
+    appendAgentLog(
+      `Journal: imported ${migrated.positions} positions, ${migrated.trades} trades ` +
+      `from ${migrated.files.length} legacy JSON file(s) into ${journal.file}`,
+    );
+  }
+
   // Start message bus BEFORE spawning agents (they connect on boot)
-  const busServer = startBusServer();
+  const busServer = startBusServer({
+    onReject: (agent, errors) => appendAgentLog(`${c('BUS', RED)} Rejected message from ${agent}: ${errors.join('; ')}`),
+    // A restarted TRADER/SCALPER must learn about a break that is already on
+    onRegister: (agent) => gate.reassert(agent),
+  });
   busClientCount = busServer.clientCount;
   appendAgentLog(`Message bus started on port ${BUS_PORT} — agents will connect shortly`);
 
-  // Spawn all agents
-  for (const agent of AGENTS) {
-    children.push(spawnAgent(agent));
-    // Stagger startup slightly to avoid login races
-    await new Promise((r) => setTimeout(r, 2000));
+  // Alerts: every bus message passes the tap once, whichever agent sent it
+  const notifyConfig = loadNotifyConfig();
+  if (notifyConfig) {
+    const notifier = createNotifier(notifyConfig, (msg) => appendAgentLog(`${c('[NOTIFY]', YEL)} ${msg}`));
+    busServer.tap((msg) => {
+      if (isNotifyEventType(msg.type)) notifier.notify({ type: msg.type, from: msg.from, data: msg.data, ts: msg.ts });
+    });
+    appendAgentLog(`Alerts → ${notifier.channels().join(', ')}`);
   }
 
+  // RISK-down breaks and API pauses share one gate → one CIRCUIT_BREAK/RESUME
+  const gate = createEntryGate(busServer, (msg) => appendAgentLog(`${c('[GATE]', WHT)} ${msg}`));
+
+  supervisor = createSupervisor({
+    agents: AGENTS.map((a) => a.name),
+    spawn: (name) => spawnAgent(AGENTS.find((a) => a.name === name)!),
+    bus: busServer,
+    gate,
+    log: (msg) => appendAgentLog(`${c('[SUPERVISOR]', WHT)} ${msg}`),
+  });
+
+  const api = await startStatusApi({
+    supervisor,
+    bus: busServer,
+    gate,
+    journal: () => journal,
+    profile: () => activeProfile,
+    readSnapshot: (name) => safeRead(name === 'analytics' ? ANALYTICS_PATH : BALANCE_PATH),
+    log: (msg) => appendAgentLog(`${c('[API]', WHT)} ${msg}`),
+  });
+  if (api) {
+    pushWebLog = api.pushLog;
+    appendAgentLog(`Web dashboard + status API on http://${API_HOST}:${API_PORT}/?token=${api.token}`);
+  }
+
+  // Spawn all agents under the supervisor (staggered to avoid login races)
+  await supervisor.start();
+
   appendAgentLog(
-    `All agents running. Dashboard renders every ${RENDER_MS / 1000}s`,
+    HEADLESS
+      ? 'All agents running (headless — no dashboard)'
+      : `All agents running. Dashboard renders every ${RENDER_MS / 1000}s`,
   );
 
-  // Initial render after brief delay (let agents write first data)
-  setTimeout(renderDashboard, 5000);
+  // Hot-reload: push every valid profile edit to the agents over the bus
+  const stopProfileWatch = watchProfile(
+    (loaded) => {
+      activeProfile = loaded;
+      busServer.broadcast({ type: 'PROFILE_UPDATE', from: 'ALPHA', data: loaded, ts: Date.now() });
+      appendAgentLog(`${c('PROFILE', YEL)} Reloaded ${loaded.source}: ${describeProfile(loaded.profile)}`);
+    },
+    (err) => appendAgentLog(`${c('PROFILE', RED)} ${err.message.replace(/\n\s*/g, ' ')} — keeping the current profile`),
+  );
 
-  // Recurring render
-  const renderInterval = setInterval(renderDashboard, RENDER_MS);
+  let renderInterval: NodeJS.Timeout | undefined;
+  if (!HEADLESS) {
+    // Initial render after brief delay (let agents write first data)
+    setTimeout(renderDashboard, 5000);
 
-  // Re-render on terminal resize
-  process.stdout.on('resize', renderDashboard);
+    // Recurring render
+    renderInterval = setInterval(renderDashboard, RENDER_MS);
+
+    // Re-render on terminal resize
+    process.stdout.on('resize', renderDashboard);
+  }
 
   // ── Graceful shutdown ───────────────────────────────────────────────────────
   const shutdown = () => {
     clearInterval(renderInterval);
-    for (const child of children) {
-      child.kill('SIGTERM');
-    }
+    stopProfileWatch();
+    supervisor?.stop();
+    api?.close();
     busServer.close();
+    journal?.close();
     // Restore terminal: show cursor, exit alternate screen
-    process.stdout.write(SHOW_CURSOR + ALT_SCREEN_OFF);
+    if (!HEADLESS) process.stdout.write(SHOW_CURSOR + ALT_SCREEN_OFF);
     if (agentLogFd !== null) {
       fs.closeSync(agentLogFd);
       agentLogFd = null;
@@ -786,16 +914,14 @@ async function main() {
   // ── Reset stats (R key) — wipes trades/positions/analytics, keeps watchlist ──
   function resetStats() {
     const now = new Date().toISOString();
-    try { fs.writeFileSync(LOG_PATH, JSON.stringify({ lastUpdated: now, trades: [] }, null, 2)); } catch {}
-    try { fs.writeFileSync(POSITIONS_PATH, JSON.stringify({ lastUpdated: now, positions: [] }, null, 2)); } catch {}
-    try { fs.writeFileSync(SCALP_POSITIONS_PATH, JSON.stringify({ lastUpdated: now, positions: [] }, null, 2)); } catch {}
+    try { journal?.reset(['trader', 'scalper']); } catch {}
     try { if (fs.existsSync(ANALYTICS_PATH)) fs.unlinkSync(ANALYTICS_PATH); } catch {}
     appendAgentLog(`${c('RESET', YEL)} Stats cleared — fresh session started at ${now}`);
     renderDashboard();
   }
 
   // ── Keyboard input ──────────────────────────────────────────────────────────
-  if (process.stdin.isTTY) {
+  if (!HEADLESS && process.stdin.isTTY) {
     process.stdin.setRawMode(true);
     process.stdin.resume();
     process.stdin.setEncoding('utf8');
@@ -811,7 +937,7 @@ async function main() {
 }
 
 main().catch((err) => {
-  process.stdout.write(SHOW_CURSOR + ALT_SCREEN_OFF);
+  if (!HEADLESS) process.stdout.write(SHOW_CURSOR + ALT_SCREEN_OFF);
   process.stderr.write(`[ALPHA FATAL] ${err?.message ?? err}\n`);
   process.exit(1);
 });
@@ -1,13 +1,14 @@
 /**
  * Agent 2 — ANALYST
- * Reads /tmp/pumpfun-watchlist.json every 15s, applies hard filters,
- * then scores surviving tokens 0–100.
+ * Scores the watchlist on every TOKENS_UPDATE (60s fallback poll of the
+ * trade journal), applies hard filters, then scores surviving tokens 0–100.
+ * Scores are saved to the journal for TRADER and the dashboard.
  *
- * Hard filters (reject before scoring):
+ * Hard filters (reject before scoring) — defaults, see pumpfun-profile.ts:
  *   mintAbility, freezeAbility, buyTax/sellTax > 5%,
  *   age > 60min, mcap < $1K
  *
- * Scoring model (100 pts max):
+ * Scoring model (100 pts max with the default bands):
  *   Bonding curve   30 pts  — 85–95% graduation OR 30–70% sweet spot
  *   Transaction count 20 pts
  *   Market cap       20 pts
@@ -17,16 +18,13 @@
  * Run standalone: ts-node src/pumpfun-analyst.ts
  */
 
-import * as fs from 'fs';
-import { tryConnectBus, BusClient } from './pumpfun-bus';
+import { tryConnectBus, offlineBus, BusClient } from './pumpfun-bus';
+import { loadProfile, validateProfile, describeProfile, tierPoints, StrategyProfile } from './pumpfun-profile';
+import { openJournal, Journal } from './journal';
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
 const POLL_MS = 60_000; // safety-net fallback — primary trigger is TOKENS_UPDATE event
-const SCORE_THRESHOLD = 60;
-const MAX_AGE_MS = 60 * 60 * 1000;  // reject tokens older than 60 min
-const WATCHLIST_PATH = '/tmp/pumpfun-watchlist.json';
-const SCORES_PATH = '/tmp/pumpfun-scores.json';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -80,13 +78,14 @@ interface TokenScore {
   isGraduationCandidate: boolean;
 }
 
-interface ScoresFile {
-  lastUpdated: string;
-  scores: TokenScore[];
-}
+// Strategy profile — loaded in main(), replaced by PROFILE_UPDATE from ALPHA
+let profile: StrategyProfile;
+
+// Trade journal — opened in main(); watchlist in, scores out
+let journal: Journal;
 
 // Bus client — no-op until connected
-let bus: BusClient = { publish: () => {}, log: () => {}, close: () => {} };
+let bus: BusClient = offlineBus();
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -99,12 +98,13 @@ function log(msg: string) {
 
 function hardFilter(t: WatchedToken): string | null {
   // Age filter — firstSeen is scanner-relative, so only enforce max age
+  const { maxAgeMin, minMcap, maxTaxPct } = profile.analyst;
   const ageMs = Date.now() - new Date(t.firstSeen).getTime();
-  if (ageMs > MAX_AGE_MS) {
-    return `stale (${(ageMs / 60_000).toFixed(0)}min > 60min)`;
+  if (ageMs > maxAgeMin * 60_000) {
+    return `stale (${(ageMs / 60_000).toFixed(0)}min > ${maxAgeMin}min)`;
   }
 
-  if ((t.marketCap ?? 0) < 1_000) {
+  if ((t.marketCap ?? 0) < minMcap) {
     return `dead (mcap $${(t.marketCap ?? 0).toFixed(0)})`;
   }
 
@@ -112,8 +112,8 @@ function hardFilter(t: WatchedToken): string | null {
   if (sec) {
     if (sec.mintAbility) return 'mint enabled';
     if (sec.freezeAbility) return 'freeze enabled';
-    if (sec.buyTax > 5) return `buy tax ${sec.buyTax}%`;
-    if (sec.sellTax > 5) return `sell tax ${sec.sellTax}%`;
+    if (sec.buyTax > maxTaxPct) return `buy tax ${sec.buyTax}%`;
+    if (sec.sellTax > maxTaxPct) return `sell tax ${sec.sellTax}%`;
   }
 
   return null;
@@ -125,50 +125,54 @@ function scoreToken(t: WatchedToken): TokenScore {
   const reasons: string[] = [];
   const bd: ScoreBreakdown = { bondingCurve: 0, txCount: 0, marketCap: 0, velocity: 0, security: 0 };
 
-  // 1. Bonding curve (30 pts) — graduation imminent OR sweet spot
+  const bands = profile.analyst;
+
+  // 1. Bonding curve — graduation imminent OR sweet spot
+  const bcBand = bands.bondingCurve;
   const bc = t.bondingCurveProgress ?? 0;
-  const isGrad = bc >= 85 && bc <= 95;
+  const isGrad = bc >= bcBand.gradMin && bc <= bcBand.gradMax;
   if (isGrad) {
-    bd.bondingCurve = 30;
-    reasons.push(`BC ${bc.toFixed(0)}% graduation imminent (+30)`);
-  } else if (bc >= 30 && bc <= 70) {
-    bd.bondingCurve = 25;
-    reasons.push(`BC ${bc.toFixed(0)}% sweet spot (+25)`);
-  } else if ((bc >= 15 && bc < 30) || (bc > 70 && bc < 85)) {
-    bd.bondingCurve = 12;
-    reasons.push(`BC ${bc.toFixed(0)}% outer range (+12)`);
+    bd.bondingCurve = bcBand.gradPts;
+    reasons.push(`BC ${bc.toFixed(0)}% graduation imminent (+${bcBand.gradPts})`);
+  } else if (bc >= bcBand.sweetMin && bc <= bcBand.sweetMax) {
+    bd.bondingCurve = bcBand.sweetPts;
+    reasons.push(`BC ${bc.toFixed(0)}% sweet spot (+${bcBand.sweetPts})`);
+  } else if (bc >= bcBand.outerMin && bc < bcBand.outerMax) {
+    bd.bondingCurve = bcBand.outerPts;
+    reasons.push(`BC ${bc.toFixed(0)}% outer range (+${bcBand.outerPts})`);
   } else {
     reasons.push(`BC ${bc.toFixed(0)}% outside scoring range (+0)`);
   }
 
-  // 2. Transaction count (20 pts)
+  // 2. Transaction count tiers
   const tx = t.txCount ?? 0;
-  if (tx >= 100)     { bd.txCount = 20; reasons.push(`txCount ${tx} ≥ 100 (+20)`); }
-  else if (tx >= 50) { bd.txCount = 15; reasons.push(`txCount ${tx} ≥ 50 (+15)`);  }
-  else if (tx >= 20) { bd.txCount = 10; reasons.push(`txCount ${tx} ≥ 20 (+10)`);  }
-  else if (tx >= 5)  { bd.txCount = 4;  reasons.push(`txCount ${tx} ≥ 5 (+4)`);    }
-  else               { reasons.push(`txCount ${tx} < 5 (+0)`);                      }
-
-  // 3. Market cap (20 pts)
+  const txTier = tierPoints(bands.txCount, tx);
+  bd.txCount = txTier.points;
+  reasons.push(txTier.bound !== null
+    ? `txCount ${tx} ≥ ${txTier.bound} (+${txTier.points})`
+    : `txCount ${tx} below every tier (+0)`);
+
+  // 3. Market cap — sweet spot, then the outer band around it
+  const mcBand = bands.marketCap;
   const mc = t.marketCap ?? 0;
-  if (mc >= 5_000 && mc <= 80_000) {
-    bd.marketCap = 20;
-    reasons.push(`mcap $${(mc / 1000).toFixed(1)}K in $5K–$80K (+20)`);
-  } else if ((mc >= 2_000 && mc < 5_000) || (mc > 80_000 && mc <= 200_000)) {
-    bd.marketCap = 8;
-    reasons.push(`mcap $${(mc / 1000).toFixed(1)}K outer range (+8)`);
+  if (mc >= mcBand.sweetMin && mc <= mcBand.sweetMax) {
+    bd.marketCap = mcBand.sweetPts;
+    reasons.push(`mcap $${(mc / 1000).toFixed(1)}K in $${mcBand.sweetMin / 1000}K–$${mcBand.sweetMax / 1000}K (+${mcBand.sweetPts})`);
+  } else if (mc >= mcBand.outerMin && mc <= mcBand.outerMax) {
+    bd.marketCap = mcBand.outerPts;
+    reasons.push(`mcap $${(mc / 1000).toFixed(1)}K outer range (+${mcBand.outerPts})`);
   } else {
     reasons.push(`mcap $${(mc / 1000).toFixed(1)}K outside range (+0)`);
   }
 
-  // 4. Price velocity via m5 (20 pts) — falls back to prevPrice diff if missing
+  // 4. Price velocity via m5 tiers — falls back to prevPrice diff if missing
   const m5 = t.priceChanges?.m5 ??
     (t.prevPrice && t.prevPrice > 0 ? ((t.price - t.prevPrice) / t.prevPrice) * 100 : 0);
-  if (m5 >= 100)     { bd.velocity = 20; reasons.push(`m5 +${m5.toFixed(0)}% surge (+20)`);    }
-  else if (m5 >= 30) { bd.velocity = 15; reasons.push(`m5 +${m5.toFixed(0)}% strong (+15)`);   }
-  else if (m5 >= 10) { bd.velocity = 10; reasons.push(`m5 +${m5.toFixed(0)}% momentum (+10)`); }
-  else if (m5 >= 3)  { bd.velocity = 5;  reasons.push(`m5 +${m5.toFixed(0)}% slight (+5)`);    }
-  else               { reasons.push(`m5 ${m5.toFixed(0)}% flat/down (+0)`);                     }
+  const vTier = tierPoints(bands.velocity, m5);
+  bd.velocity = vTier.points;
+  reasons.push(vTier.bound !== null
+    ? `m5 ${m5 >= 0 ? '+' : ''}${m5.toFixed(0)}% ≥ ${vTier.bound}% (+${vTier.points})`
+    : `m5 ${m5.toFixed(0)}% flat/down (+0)`);
 
   // 5. Security bonus (10 pts)
   const sec = t.securities;
@@ -229,12 +233,12 @@ function analyze(incomingTokens?: WatchedToken[]) {
     if (incomingTokens) {
       tokens = incomingTokens;
     } else {
-      if (!fs.existsSync(WATCHLIST_PATH)) {
+      const wl = journal.getWatchlist<WatchedToken>();
+      if (!wl.lastUpdated) {
         log('Watchlist not ready yet, waiting...');
         return;
       }
-      const wl = JSON.parse(fs.readFileSync(WATCHLIST_PATH, 'utf8'));
-      tokens = wl.tokens ?? [];
+      tokens = wl.tokens;
     }
 
     if (tokens.length === 0) {
@@ -267,20 +271,18 @@ function analyze(incomingTokens?: WatchedToken[]) {
 
     scores.sort((a, b) => b.score - a.score);
 
-    const output: ScoresFile = { lastUpdated: new Date().toISOString(), scores };
-    const tmp = SCORES_PATH + '.tmp';
-    fs.writeFileSync(tmp, JSON.stringify(output, null, 2));
-    fs.renameSync(tmp, SCORES_PATH);
+    journal.saveScores(scores);
 
     // Push scores to TRADER and SCALPER immediately — no polling delay
     bus.publish('SCORES_UPDATE', { scores });
 
     const top3 = scores.slice(0, 3).map((s) => `${s.symbol}:${s.score}`).join(', ');
-    const hot = scores.filter((s) => s.score >= SCORE_THRESHOLD).length;
+    const threshold = profile.trader.scoreThreshold;
+    const hot = scores.filter((s) => s.score >= threshold).length;
     const grads = scores.filter((s) => s.isGraduationCandidate).length;
     log(
       `Scored ${scores.length}/${tokens.length} tokens (${rejected} filtered) ` +
-      `| top3: [${top3}] | >${SCORE_THRESHOLD}pts: ${hot} | grads: ${grads}`
+      `| top3: [${top3}] | >${threshold}pts: ${hot} | grads: ${grads}`
     );
   } catch (err: any) {
     log(`Analyze error: ${err?.message ?? err}`);
@@ -292,16 +294,26 @@ function analyze(incomingTokens?: WatchedToken[]) {
 async function main() {
   log('Starting analyst...');
 
+  const loaded = loadProfile();
+  profile = loaded.profile;
+  log(`Strategy profile: ${describeProfile(profile)} (${loaded.source})`);
+
+  journal = openJournal();
+
   // Connect to bus — react to TOKENS_UPDATE instantly instead of polling
   bus = await tryConnectBus('ANALYST', (msg) => {
     if (msg.type === 'TOKENS_UPDATE') {
       const tokens: WatchedToken[] = msg.data?.tokens ?? [];
       if (tokens.length > 0) analyze(tokens);
+    } else if (msg.type === 'PROFILE_UPDATE') {
+      if (validateProfile(msg.data?.profile).length > 0) return log('Ignoring invalid PROFILE_UPDATE');
+      profile = msg.data.profile;
+      log(`Strategy profile updated: ${describeProfile(profile)}`);
     }
-  });
+  }, { topics: ['TOKENS_UPDATE', 'PROFILE_UPDATE'] });
   log('Connected to message bus — event-driven scoring active');
 
-  // Initial run from file (bus may not have data yet on first launch)
+  // Initial run from the journal (bus may not have data yet on first launch)
   analyze();
 
   // Safety-net fallback: full rescan every 60s in case bus event was missed
@@ -311,6 +323,7 @@ async function main() {
     log('Shutting down analyst');
     clearInterval(interval);
     bus.close();
+    journal.close();
     process.exit(0);
   };
   process.on('SIGTERM', shutdown);
@@ -319,4 +332,7 @@ async function main() {
   log(`Analyst running — event-driven + ${POLL_MS / 1000}s fallback | hard filters active`);
 }
 
-main();
+main().catch((err) => {
+  process.stderr.write(`[ANALYST FATAL] ${err?.message ?? err}\n`);
+  process.exit(1);
+});
@@ -1,7 +1,7 @@
 /**
  * Agent 6 — ANALYTICS
- * Reads trade log + positions every 30s, computes rolling stats,
- * writes a strategy report to /tmp/pumpfun-analytics.json.
+ * Reads trades + positions from the trade journal every 30s, computes
+ * rolling stats, writes a strategy report to /tmp/pumpfun-analytics.json.
  *
  * Tracks:
  *   - Overall win rate, P&L, expectancy
@@ -16,13 +16,12 @@
  */
 
 import * as fs from 'fs';
-import { tryConnectBus, BusClient } from './pumpfun-bus';
+import { tryConnectBus, offlineBus, BusClient } from './pumpfun-bus';
+import { openJournal, Journal } from './journal';
 
 // ─── Constants ──────────────────────────────────────────────────────────────
 
 const POLL_MS = 30_000;
-const LOG_PATH = '/tmp/pumpfun-log.json';
-const POSITIONS_PATH = '/tmp/pumpfun-positions.json';
 const ANALYTICS_PATH = '/tmp/pumpfun-analytics.json';
 const REPORT_PATH = '/tmp/pumpfun-strategy-report.txt';
 
@@ -39,7 +38,7 @@ interface TradeLog {
   exitPrice: number;
   entryTime: string;
   exitTime: string;
-  exitReason: 'TP' | 'SL' | 'TIME';
+  exitReason: 'TP' | 'SL' | 'TIME' | 'MANUAL';
   solSpent: number;
   pnlSol: number;
   pnlPct: number;
@@ -121,14 +120,6 @@ function log(msg: string) {
   );
 }
 
-function readJson<T>(path: string, fallback: T): T {
-  try {
-    return JSON.parse(fs.readFileSync(path, 'utf8'));
-  } catch {
-    return fallback;
-  }
-}
-
 function writeJson(path: string, data: unknown) {
   const tmp = path + '.tmp';
   fs.writeFileSync(tmp, JSON.stringify(data, null, 2));
@@ -180,6 +171,8 @@ function tagTrade(t: TradeLog, score: number): TaggedTrade {
     tag = holdMs < 30_000 ? 'instant_pump' : 'clean_tp';
   } else if (t.exitReason === 'TIME') {
     tag = 'timeout';
+  } else if (t.exitReason === 'MANUAL') {
+    tag = 'manual';
   } else {
     // SL
     if (holdMs < 15_000) {
@@ -235,18 +228,11 @@ function holdBucket(ms: number): string {
 
 // ─── Main analysis ──────────────────────────────────────────────────────────
 
-function analyze(): Analytics | null {
-  const logFile = readJson<{ trades: TradeLog[] }>(
-    LOG_PATH, { trades: [] },
-  );
-  const posFile = readJson<{ positions: Position[] }>(
-    POSITIONS_PATH, { positions: [] },
-  );
-
-  const trades = logFile.trades;
+function analyze(journal: Journal): Analytics | null {
+  const trades = journal.getTrades<TradeLog>(['trader', 'scalper']);
   if (trades.length === 0) return null;
 
-  const positions = posFile.positions;
+  const positions = journal.getPositions<Position>('trader');
   const scoreMap = buildScoreMap(positions);
 
   // Ghost positions: closed without exit data
@@ -266,7 +252,7 @@ function analyze(): Analytics | null {
 
   // By exit reason
   const byExitReason: Record<string, BucketStats> = {};
-  for (const reason of ['TP', 'SL', 'TIME']) {
+  for (const reason of ['TP', 'SL', 'TIME', 'MANUAL']) {
     byExitReason[reason] = bucketStats(
       trades.filter((t) => t.exitReason === reason),
     );
@@ -542,9 +528,9 @@ function writeReport(a: Analytics) {
 
 // ─── Main loop ──────────────────────────────────────────────────────────────
 
-function run() {
+function run(journal: Journal) {
   try {
-    const analytics = analyze();
+    const analytics = analyze(journal);
     if (!analytics) {
       log('No trades yet');
       return;
@@ -577,24 +563,27 @@ function run() {
 async function main() {
   log('Starting analytics...');
 
+  const journal = openJournal();
+
   // Connect to bus — recompute immediately when a trade closes (not every 30s)
-  let bus: BusClient = { publish: () => {}, log: () => {}, close: () => {} };
+  let bus: BusClient = offlineBus();
   bus = await tryConnectBus('ANALYTICS', (msg) => {
     if (msg.type === 'TRADE_COMPLETE') {
       log(`Trade complete received: ${msg.data?.symbol} ${msg.data?.reason} ${msg.data?.pnlPct?.toFixed(1)}%`);
-      // Brief delay so log file is written before we read it
-      setTimeout(() => run(), 500);
+      // RISK/SCALPER commit the trade to the journal before publishing
+      run(journal);
     }
-  });
+  }, { topics: ['TRADE_COMPLETE'] });
   log('Connected to message bus — real-time analytics active');
 
-  run();
-  const interval = setInterval(run, POLL_MS);
+  run(journal);
+  const interval = setInterval(() => run(journal), POLL_MS);
 
   const shutdown = () => {
     log('Shutting down analytics');
     clearInterval(interval);
     bus.close();
+    journal.close();
     process.exit(0);
   };
   process.on('SIGTERM', shutdown);
@@ -0,0 +1,219 @@
+/**
+ * pumpfun-api.ts — local HTTP status API for pumpfun-alpha.ts
+ *
+ * Browser:
+ *   GET  /                       live web dashboard (pumpfun-web.ts, feed on /ws)
+ *
+ * Read-only:
+ *   GET  /status                 agents, bus, entry holds, profile
+ *   GET  /positions              open trader + scalper positions
+ *   GET  /trades?limit=50        most recent closed trades (newest first)
+ *   GET  /analytics              latest ANALYTICS report
+ *   GET  /balance                latest SCANNER balance snapshot
+ *   GET  /breakers               RISK's active circuit breakers
+ *
+ * Control:
+ *   POST /pause                  halt new entries (CIRCUIT_BREAK from ALPHA)
+ *   POST /resume                 lift the pause
+ *   POST /positions/:id/close    sell a position now (via RISK or SCALPER)
+ *   POST /breakers/resume        lift every active RISK breaker (manual resume)
+ *   POST /breakers/:rule/resume  lift one, e.g. /breakers/drawdown/resume
+ *
+ * Binds 127.0.0.1:7778 by default (PUMPFUN_API_HOST / PUMPFUN_API_PORT,
+ * port 0 disables). Control routes and /ws always need a token:
+ * PUMPFUN_API_TOKEN, or one generated at startup (StatusApi.token, logged by
+ * alpha). POSTs take it only as `Authorization: Bearer <token>`; the browser
+ * dashboard reads it from its own URL (open http://127.0.0.1:7778/?token=<token>)
+ * and /ws also accepts `?token=`. Read-only routes are open unless
+ * PUMPFUN_API_TOKEN is set. Requests from a browser page on any other origin
+ * are refused, so a web page can't drive the API through the operator's browser,
+ * and so is any Host but localhost, 127.0.0.1 or the bind address, so a
+ * DNS-rebinding page can't read it as same-origin either.
+ */
+
+import { randomBytes } from 'crypto';
+import http from 'http';
+import type { BusServer } from './pumpfun-bus';
+import type { Journal } from './journal';
+import type { Supervisor, EntryGate } from './pumpfun-supervisor';
+import type { LoadedProfile } from './pumpfun-profile';
+import { attachWebDashboard, DASHBOARD_HTML } from './pumpfun-web';
+
+export const API_HOST = process.env.PUMPFUN_API_HOST || '127.0.0.1';
+export const API_PORT = parseInt(process.env.PUMPFUN_API_PORT ?? '7778', 10);
+
+const DEFAULT_TRADE_LIMIT = 50;
+const MAX_TRADE_LIMIT = 1000;
+/** Sells can take a while to land — give RISK/SCALPER time to report */
+const FORCE_CLOSE_TIMEOUT_MS = 60_000;
+const BREAKER_TIMEOUT_MS = 5_000;
+/** Entry-gate key for operator pauses */
+const PAUSE_KEY = 'api';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface StatusApiDeps {
+  supervisor: Supervisor;
+  bus: BusServer;
+  gate: EntryGate;
+  journal: () => Journal | null;
+  profile: () => LoadedProfile | null;
+  /** Read a JSON snapshot file written by an agent (null when missing) */
+  readSnapshot: (name: 'analytics' | 'balance') => any;
+  log: (msg: string) => void;
+}
+
+export interface StatusApi {
+  server: http.Server;
+  /** Forward an agent log line to browser dashboards */
+  pushLog: (line: string) => void;
+  /** Token for control routes — PUMPFUN_API_TOKEN, or generated at startup */
+  token: string;
+  close: () => void;
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+type Route = (req: http.IncomingMessage, url: URL, params: string[]) => Promise<unknown> | unknown;
+
+// ─── Server ───────────────────────────────────────────────────────────────────
+
+/** Start the API; resolves to null when disabled (PUMPFUN_API_PORT=0). */
+export function startStatusApi(deps: StatusApiDeps): Promise<StatusApi | null> {
+  if (API_PORT === 0) return Promise.resolve(null);
+  const startedAt = Date.now();
+  const configuredToken = process.env.PUMPFUN_API_TOKEN || null;
+  const token = configuredToken ?? randomBytes(24).toString('hex');
+  const ownHosts = new Set([API_HOST, '127.0.0.1', 'localhost'].map((host) => `${host}:${API_PORT}`));
+  const ownOrigins = new Set([...ownHosts].map((host) => `http://${host}`));
+
+  /** Why a request is refused, or null. `control` = POST, `ws` = the /ws upgrade. */
+  const refusal = (req: http.IncomingMessage, kind: 'read' | 'control' | 'ws'): HttpError | null => {
+    // A rebound DNS name still carries its own Host, with or without an Origin
+    const host = req.headers.host;
+    if (!host || !ownHosts.has(host.toLowerCase())) return new HttpError(403, `host ${host ?? '(none)'} not allowed`);
+    const origin = req.headers.origin;
+    if (origin !== undefined && !ownOrigins.has(origin)) return new HttpError(403, `origin ${origin} not allowed`);
+    const bearer = req.headers.authorization === `Bearer ${token}`;
+    const query = new URL(req.url ?? '/', 'http://localhost').searchParams.get('token') === token;
+    const ok = kind === 'control' ? bearer
+      : kind === 'ws' ? bearer || query
+      : !configuredToken || bearer || query;
+    return ok ? null : new HttpError(401, 'unauthorized');
+  };
+
+  const journal = () => {
+    const j = deps.journal();
+    if (!j) throw new HttpError(503, 'journal not open yet');
+    return j;
+  };
+
+  const askRisk = async <T>(call: () => Promise<T>): Promise<T> => {
+    try {
+      return await call();
+    } catch (err: any) {
+      throw new HttpError(502, `RISK: ${err?.message ?? err}`);
+    }
+  };
+
+  const resumeBreakers = (rule?: string) => {
+    deps.log(`Breaker resume requested (${rule ?? 'all'}) — asking RISK`);
+    return askRisk(() => deps.bus.request('RISK', 'risk.resume', rule === undefined ? {} : { rule }, BREAKER_TIMEOUT_MS));
+  };
+
+  const routes: Array<[string, RegExp, Route]> = [
+    ['GET', /^\/status$/, () => ({
+      uptimeSec: Math.round((Date.now() - startedAt) / 1000),
+      agents: deps.supervisor.agents(),
+      bus: { clients: deps.bus.clientCount(), unacked: deps.bus.unacked() },
+      paused: PAUSE_KEY in deps.gate.holds(),
+      entryHolds: deps.gate.holds(),
+      profile: deps.profile(),
+    })],
+    ['GET', /^\/positions$/, () => ({
+      trader: journal().getPositions('trader', 'open'),
+      scalper: journal().getPositions('scalper', 'open'),
+    })],
+    ['GET', /^\/trades$/, (_req, url) => {
+      const limit = Number(url.searchParams.get('limit') ?? DEFAULT_TRADE_LIMIT);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_TRADE_LIMIT) {
+        throw new HttpError(400, `limit must be a whole number 1..${MAX_TRADE_LIMIT}`);
+      }
+      return { trades: journal().getTrades(['trader', 'scalper']).slice(-limit).reverse() };
+    }],
+    ['GET', /^\/analytics$/, () => deps.readSnapshot('analytics') ?? notReady('analytics')],
+    ['GET', /^\/balance$/, () => deps.readSnapshot('balance') ?? notReady('balance')],
+    ['GET', /^\/breakers$/, () => askRisk(() => deps.bus.request('RISK', 'risk.breakers', {}, BREAKER_TIMEOUT_MS))],
+    ['POST', /^\/breakers\/resume$/, () => resumeBreakers()],
+    ['POST', /^\/breakers\/([^/]+)\/resume$/, (_req, _url, [rule]) => resumeBreakers(rule)],
+    ['POST', /^\/pause$/, () => {
+      deps.gate.hold(PAUSE_KEY, 'paused via status API');
+      return { paused: true, entryHolds: deps.gate.holds() };
+    }],
+    ['POST', /^\/resume$/, () => {
+      deps.gate.release(PAUSE_KEY);
+      return { paused: false, entryHolds: deps.gate.holds() };
+    }],
+    ['POST', /^\/positions\/([^/]+)\/close$/, async (_req, _url, [id]) => {
+      const j = journal();
+      const owner = j.getPositions('trader', 'open').some((p) => p.id === id) ? 'RISK'
+        : j.getPositions('scalper', 'open').some((p) => p.id === id) ? 'SCALPER'
+        : null;
+      if (!owner) throw new HttpError(404, `no open position ${id}`);
+      deps.log(`Force-close ${id} requested — asking ${owner}`);
+      try {
+        return await deps.bus.request(owner, 'position.forceClose', { positionId: id }, FORCE_CLOSE_TIMEOUT_MS);
+      } catch (err: any) {
+        throw new HttpError(502, `${owner}: ${err?.message ?? err}`);
+      }
+    }],
+  ];
+
+  const server = http.createServer(async (req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body, null, 2));
+    };
+    try {
+      const refused = refusal(req, req.method === 'GET' ? 'read' : 'control');
+      if (refused) throw refused;
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      if (req.method === 'GET' && url.pathname === '/') {
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        res.end(DASHBOARD_HTML);
+        return;
+      }
+      const matches = routes.filter(([, pattern]) => pattern.test(url.pathname));
+      if (matches.length === 0) throw new HttpError(404, `no route ${url.pathname}`);
+      const route = matches.find(([method]) => method === req.method);
+      if (!route) throw new HttpError(405, `${req.method} not allowed on ${url.pathname}`);
+      const params = route[1].exec(url.pathname)!.slice(1).map(decodeURIComponent);
+      send(200, await route[2](req, url, params));
+    } catch (err: any) {
+      send(err instanceof HttpError ? err.status : 500, { error: err?.message ?? String(err) });
+    }
+  });
+
+  const dashboard = attachWebDashboard(server, deps, (req) => !refusal(req, 'ws'));
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(API_PORT, API_HOST, () => resolve({
+      server,
+      pushLog: dashboard.pushLog,
+      token,
+      close: () => {
+        dashboard.close();
+        server.close();
+      },
+    }));
+  });
+}
+
+function notReady(what: string): never {
+  throw new HttpError(503, `no ${what} snapshot yet`);
+}
@@ -0,0 +1,262 @@
+/**
+ * pumpfun-breakers.ts — circuit breaker rules for pumpfun-risk.ts
+ *
+ * While any rule is tripped RISK holds TRADER and SCALPER (CIRCUIT_BREAK) and
+ * refuses risk.canOpen. The rules and their thresholds come from the strategy
+ * profile (risk.breakers, pumpfun-profile.ts):
+ *   consecutiveSl  `count` SL exits in a row inside `windowMin` (TP/TIME reset the run)
+ *   drawdown       realized loss of `maxLossSol` or more inside `windowMin`
+ *   slOvershoot    `count` SL exits that closed `maxOvershootPct` points or more past their stop
+ *   balanceFloor   wallet balance (SCANNER's BALANCE_UPDATE) below `minSol`
+ *   apiErrors      `maxErrorPct`% of RISK's price and sell calls failing inside
+ *                  `windowMin`, once there were `minCalls`
+ * The trade rules read both books from the trade journal and only count exits
+ * after the rule last lifted, so a resumed rule doesn't trip again on the
+ * same losses.
+ *
+ * A tripped rule lifts itself after `coolOffMin` — balanceFloor and apiErrors
+ * start another cool-off if their condition still holds — or, with
+ * `manualResume`, stays until an operator resumes it (risk.resume on the bus,
+ * POST /breakers/resume on the status API).
+ *
+ * Active breakers and resume times are persisted in the journal, so a RISK
+ * restart announces them again instead of silently trading.
+ */
+
+import type { Book, Journal, JournalTrade } from './journal';
+import type { StrategyProfile } from './pumpfun-profile';
+
+const STATE_KEY = 'pumpfun.breakers';
+const BOOKS: Book[] = ['trader', 'scalper'];
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type BreakerRule = keyof StrategyProfile['risk']['breakers'];
+
+export const BREAKER_RULES: BreakerRule[] = ['consecutiveSl', 'drawdown', 'slOvershoot', 'balanceFloor', 'apiErrors'];
+
+export interface ActiveBreaker {
+  rule: BreakerRule;
+  reason: string;
+  /** Measured value that tripped the rule, and its limit */
+  value: number;
+  limit: number;
+  trippedAt: string;
+  /** When the cool-off ends — null while it waits for a manual resume */
+  resumeAt: string | null;
+}
+
+export interface BreakerStatus {
+  active: ActiveBreaker[];
+  /** When each rule last lifted — the trade rules only count exits after it */
+  resumedAt: Partial<Record<BreakerRule, string>>;
+}
+
+export interface BreakerOptions {
+  journal: Journal;
+  /** Current strategy profile — read on every check */
+  profile: () => StrategyProfile;
+  /** A rule tripped */
+  onTrip: (breaker: ActiveBreaker) => void;
+  /** A rule lifted; `remaining` is what still holds trading */
+  onResume: (breaker: ActiveBreaker, how: 'cool-off' | 'manual', remaining: ActiveBreaker[]) => void;
+  log: (msg: string) => void;
+}
+
+export interface CircuitBreakers {
+  /** Re-check the trade rules — after every exit */
+  checkTrades(): void;
+  noteBalance(solBalance: number): void;
+  /** Record one API call for the apiErrors rule */
+  noteApiCall(ok: boolean): void;
+  /** Lift breakers whose cool-off is over; call periodically */
+  tick(): void;
+  /** Operator resume of one rule, or every active one. Returns what was lifted. */
+  resume(rule?: BreakerRule): ActiveBreaker[];
+  active(): ActiveBreaker[];
+  status(): BreakerStatus;
+}
+
+type TradeRow = JournalTrade & { book: Book };
+
+// ─── Breakers ─────────────────────────────────────────────────────────────────
+
+export function isBreakerRule(rule: unknown): rule is BreakerRule {
+  return BREAKER_RULES.includes(rule as BreakerRule);
+}
+
+/** Load the persisted breaker state; returns the rule set RISK works with. */
+export function createCircuitBreakers(opts: BreakerOptions): CircuitBreakers {
+  const { journal, log } = opts;
+  const state = loadState(journal, log);
+  const apiCalls: Array<{ at: number; ok: boolean }> = [];
+  let lastBalance: number | null = null;
+
+  const save = () => journal.setSetting(STATE_KEY, JSON.stringify(state));
+  const policies = () => opts.profile().risk.breakers;
+  const isActive = (rule: BreakerRule) => state.active.some((b) => b.rule === rule);
+
+  /** Start of the counting window: windowMin back, or the rule's last resume if later */
+  const windowStart = (rule: BreakerRule, windowMin: number) => {
+    const start = Date.now() - windowMin * 60_000;
+    const resumed = state.resumedAt[rule] ? Date.parse(state.resumedAt[rule]!) : 0;
+    return new Date(Math.max(start, resumed)).toISOString();
+  };
+
+  const trip = (rule: BreakerRule, reason: string, value: number, limit: number) => {
+    if (isActive(rule)) return;
+    const policy = policies()[rule];
+    const now = Date.now();
+    const breaker: ActiveBreaker = {
+      rule, reason, value, limit,
+      trippedAt: new Date(now).toISOString(),
+      resumeAt: policy.manualResume ? null : new Date(now + policy.coolOffMin * 60_000).toISOString(),
+    };
+    state.active.push(breaker);
+    save();
+    opts.onTrip(breaker);
+  };
+
+  const lift = (breaker: ActiveBreaker, how: 'cool-off' | 'manual') => {
+    state.active = state.active.filter((b) => b !== breaker);
+    state.resumedAt[breaker.rule] = new Date().toISOString();
+    save();
+    opts.onResume(breaker, how, [...state.active]);
+  };
+
+  const apiErrorRate = (): { calls: number; pct: number } => {
+    const { windowMin } = policies().apiErrors;
+    const cutoff = Date.now() - windowMin * 60_000;
+    while (apiCalls.length > 0 && apiCalls[0].at < cutoff) apiCalls.shift();
+    const errors = apiCalls.filter((c) => !c.ok).length;
+    return { calls: apiCalls.length, pct: apiCalls.length > 0 ? (errors / apiCalls.length) * 100 : 0 };
+  };
+
+  /** balanceFloor / apiErrors still breached — another cool-off instead of resuming */
+  const stillBreached = (rule: BreakerRule): boolean => {
+    const p = policies();
+    if (rule === 'balanceFloor') return lastBalance !== null && lastBalance < p.balanceFloor.minSol;
+    if (rule === 'apiErrors') {
+      const { calls, pct } = apiErrorRate();
+      return calls >= p.apiErrors.minCalls && pct >= p.apiErrors.maxErrorPct;
+    }
+    return false;
+  };
+
+  const trades = (since: string): TradeRow[] =>
+    BOOKS.flatMap((book) => journal.getTrades(book, since).map((t): TradeRow => ({ ...t, book })))
+      .sort((a, b) => String(a.exitTime).localeCompare(String(b.exitTime)));
+
+  /** Stop the exit was aiming for: the scalper's slPct, or the trader's stage-ratcheted stop */
+  const stopFor = (t: TradeRow, all: TradeRow[], p: StrategyProfile): number => {
+    if (t.book === 'scalper') return p.scalper.slPct;
+    const stage = all.filter((o) => o.book === 'trader' && String(o.id).startsWith(`${t.id}-partial`)).length;
+    return stage >= 2 ? p.risk.trailingSlStage2Pct : stage >= 1 ? p.risk.trailingSlStage1Pct : p.risk.stopLossPct;
+  };
+
+  return {
+    checkTrades() {
+      const profile = opts.profile();
+      const p = profile.risk.breakers;
+
+      if (p.consecutiveSl.enabled && !isActive('consecutiveSl')) {
+        let run = 0;
+        for (const t of trades(windowStart('consecutiveSl', p.consecutiveSl.windowMin)).reverse()) {
+          if (t.exitReason === 'MANUAL') continue;
+          if (t.exitReason !== 'SL') break;
+          run++;
+        }
+        if (run >= p.consecutiveSl.count) {
+          trip('consecutiveSl', `${run} consecutive SL hits`, run, p.consecutiveSl.count);
+        }
+      }
+
+      if (p.drawdown.enabled && !isActive('drawdown')) {
+        const since = windowStart('drawdown', p.drawdown.windowMin);
+        const loss = -journal.realizedPnl(BOOKS, since);
+        if (loss >= p.drawdown.maxLossSol) {
+          trip('drawdown', `lost ${loss.toFixed(4)} SOL in ${p.drawdown.windowMin}min`, loss, p.drawdown.maxLossSol);
+        }
+      }
+
+      if (p.slOvershoot.enabled && !isActive('slOvershoot')) {
+        const all = trades(windowStart('slOvershoot', p.slOvershoot.windowMin));
+        const misses = all
+          .filter((t) => t.exitReason === 'SL')
+          .map((t) => t.pnlPct - stopFor(t, all, profile))
+          .filter((overshoot) => overshoot <= -p.slOvershoot.maxOvershootPct);
+        if (misses.length >= p.slOvershoot.count) {
+          const worst = Math.min(...misses);
+          trip(
+            'slOvershoot',
+            `${misses.length} SL exits ≥${p.slOvershoot.maxOvershootPct}% past their stop (worst ${worst.toFixed(1)}%)`,
+            misses.length, p.slOvershoot.count,
+          );
+        }
+      }
+    },
+
+    noteBalance(solBalance) {
+      lastBalance = solBalance;
+      const { enabled, minSol } = policies().balanceFloor;
+      if (enabled && solBalance < minSol) {
+        trip('balanceFloor', `balance ${solBalance.toFixed(4)} SOL below the ${minSol} SOL floor`, solBalance, minSol);
+      }
+    },
+
+    noteApiCall(ok) {
+      apiCalls.push({ at: Date.now(), ok });
+      const { enabled, minCalls, maxErrorPct, windowMin } = policies().apiErrors;
+      if (!enabled || isActive('apiErrors')) return;
+      const { calls, pct } = apiErrorRate();
+      if (calls >= minCalls && pct >= maxErrorPct) {
+        trip('apiErrors', `${pct.toFixed(0)}% of ${calls} API calls failed in ${windowMin}min`, pct, maxErrorPct);
+      }
+    },
+
+    tick() {
+      const now = Date.now();
+      for (const b of [...state.active]) {
+        const policy = policies()[b.rule];
+        // manualResume switched off by a profile edit — start counting the cool-off
+        if (b.resumeAt === null && !policy.manualResume) {
+          b.resumeAt = new Date(Date.parse(b.trippedAt) + policy.coolOffMin * 60_000).toISOString();
+          save();
+        }
+        if (b.resumeAt === null || Date.parse(b.resumeAt) > now) continue;
+        if (policy.enabled && stillBreached(b.rule)) {
+          b.resumeAt = new Date(now + policy.coolOffMin * 60_000).toISOString();
+          save();
+          log(`Breaker ${b.rule} still breached — holding until ${b.resumeAt}`);
+          continue;
+        }
+        lift(b, 'cool-off');
+      }
+    },
+
+    resume(rule) {
+      const lifted = state.active.filter((b) => rule === undefined || b.rule === rule);
+      for (const b of lifted) lift(b, 'manual');
+      return lifted;
+    },
+
+    active: () => [...state.active],
+
+    status: () => ({ active: [...state.active], resumedAt: { ...state.resumedAt } }),
+  };
+}
+
+function loadState(journal: Journal, log: (msg: string) => void): BreakerStatus {
+  const raw = journal.getSetting(STATE_KEY);
+  if (!raw) return { active: [], resumedAt: {} };
+  try {
+    const parsed = JSON.parse(raw) as BreakerStatus;
+    return {
+      active: (parsed.active ?? []).filter((b) => isBreakerRule(b.rule)),
+      resumedAt: parsed.resumedAt ?? {},
+    };
+  } catch {
+    log(`⚠️  Breaker state in the journal is unreadable — starting with no active breakers`);
+    return { active: [], resumedAt: {} };
+  }
+}
@@ -4,38 +4,115 @@
  * Architecture:
  *   pumpfun-alpha.ts starts the server via startBusServer().
  *   Each agent connects via connectBus() and gets a publish() fn.
- *   Server broadcasts every message to all other connected clients.
+ *   Server forwards each message to the other clients subscribed to its
+ *   type (REGISTER topics; no topics = everything).
  *   Agents fall back to file polling if bus is unavailable.
  *
+ * Delivery:
+ *   - Every payload is validated against its MsgType schema on publish and
+ *     again on the server; malformed messages are dropped and reported.
+ *   - The server stamps each message with a sequence number and keeps the
+ *     last PUMPFUN_BUS_REPLAY (default 1000) in a ring buffer. A reconnecting
+ *     agent sends its last seq in REGISTER and gets what it missed.
+ *   - Critical messages (ACK_REQUIRED) carry an id. The publisher retries
+ *     them until the server ACKs, and the server redelivers them to each
+ *     named recipient until that agent ACKs — even across agent restarts.
+ *
+ * Request/response:
+ *   client.request('RISK', 'risk.canOpen', {...}) sends a REQUEST routed to
+ *   that one agent; its handle()r's return value comes back as a RESPONSE
+ *   with the same correlation id. Rejects on timeout or when the target
+ *   isn't connected. Every client answers 'health' out of the box.
+ *
  * Latency improvement: ~30-55 s (file poll chain) → ~50-200 ms (WS push).
  */
 
 import WebSocket, { WebSocketServer } from 'ws';
+import { validateProfile, StrategyProfile } from './pumpfun-profile';
+import type { BreakerStatus, ActiveBreaker } from './pumpfun-breakers';
 
 export const BUS_PORT = parseInt(process.env.PUMPFUN_BUS_PORT || '7777', 10);
+/** Messages kept for replay to reconnecting agents */
+export const REPLAY_BUFFER_SIZE = parseInt(process.env.PUMPFUN_BUS_REPLAY || '1000', 10);
+/** Unacked critical messages are redelivered this often */
+const ACK_RETRY_MS = 5_000;
+/** Critical message ids an agent remembers, to drop redeliveries it already handled */
+const HANDLED_ID_LIMIT = 500;
+/** Default wait for a RESPONSE */
+export const REQUEST_TIMEOUT_MS = 5_000;
+/** Name the server uses when it publishes or sends requests itself */
+const SERVER_NAME = 'ALPHA';
 
 // ─── Message types ──────────────────────────────────────────────────────────
 
 export type MsgType =
-  | 'REGISTER'        // agent → server: "I'm SCANNER"
+  | 'REGISTER'        // agent → server: "I'm SCANNER" (+ last seq seen)
+  | 'WELCOME'         // server → agent: bus epoch + current seq
+  | 'ACK'             // agent ↔ server: critical message received
+  | 'REQUEST'         // agent | ALPHA → one agent: RPC call
+  | 'RESPONSE'        // agent → requester: RPC result
   | 'TOKENS_UPDATE'   // SCANNER → all: fresh watchlist
   | 'PRICE_UPDATE'    // SCANNER → RISK, SCALPER: real-time tick data
   | 'SCORES_UPDATE'   // ANALYST → TRADER, SCALPER: scored candidates
   | 'POSITION_OPENED' // TRADER | SCALPER → RISK, ANALYTICS: new position
-  | 'TRADE_COMPLETE'  // RISK → ANALYTICS, ALPHA: position closed
+  | 'TRADE_COMPLETE'  // RISK | SCALPER → ANALYTICS, ALPHA: position closed
   | 'CIRCUIT_BREAK'   // RISK → TRADER, SCALPER: halt trading
   | 'CIRCUIT_RESUME'  // RISK → TRADER, SCALPER: resume trading
   | 'BALANCE_UPDATE'  // SCANNER → TRADER, SCALPER: live SOL balance
+  | 'PROFILE_UPDATE'  // ALPHA → all: strategy profile file changed
   | 'LOG';            // any agent → ALPHA: status text for dashboard
 
-export interface BusMsg {
-  type: MsgType;
-  from: string;
-  data: any;
-  ts: number;
+/**
+ * Messages that must reach specific agents. The server tracks an ACK from
+ * each listed recipient and keeps redelivering until it gets one.
+ */
+export const ACK_REQUIRED: Partial<Record<MsgType, string[]>> = {
+  POSITION_OPENED: ['RISK'],
+  CIRCUIT_BREAK: ['TRADER', 'SCALPER'],
+};
+
+/** Connection control and RPC — always delivered, never subscribed to */
+export type ControlMsgType = 'REGISTER' | 'WELCOME' | 'ACK' | 'REQUEST' | 'RESPONSE';
+export type TopicMsgType = Exclude<MsgType, ControlMsgType>;
+
+const CONTROL_TYPES = new Set<MsgType>(['REGISTER', 'WELCOME', 'ACK', 'REQUEST', 'RESPONSE']);
+
+export interface RegisterData {
+  /** Bus epoch the agent last saw (replay only happens within one epoch) */
+  epoch?: number;
+  /** Highest seq the agent has handled */
+  lastSeq?: number;
+  /** Message types to receive; omitted = all of them */
+  topics?: TopicMsgType[];
+}
+
+export interface WelcomeData {
+  /** Server start time — changes when ALPHA restarts and seq resets */
+  epoch: number;
+  seq: number;
+}
+
+export interface AckData {
+  id: string;
+}
+
+export interface RequestData {
+  /** Correlation id, echoed in the RESPONSE */
+  id: string;
+  to: string;
+  method: string;
+  params: Record<string, any>;
+}
+
+export interface ResponseData {
+  id: string;
+  /** The requester */
+  to: string;
+  ok: boolean;
+  result?: any;
+  error?: string;
 }
 
-// Typed payloads (not enforced at runtime but documented for devs)
 export interface TokensUpdateData {
   tokens: any[];
   count: number;
@@ -46,7 +123,8 @@ export interface PriceUpdateData {
 }
 
 export interface ScoresUpdateData {
-  scores: Record<string, { score: number; token: any }>;
+  /** Best first; each entry is an ANALYST TokenScore */
+  scores: Array<{ address: string; symbol: string; score: number; [key: string]: any }>;
 }
 
 export interface PositionOpenedData {
@@ -65,7 +143,7 @@ export interface TradeCompleteData {
   symbol: string;
   pnlPct: number;
   pnlSol: number;
-  reason: 'TP1' | 'TP2' | 'TP3' | 'SL' | 'TIME' | 'MANUAL';
+  reason: 'TP' | 'TP1' | 'TP2' | 'TP3' | 'SL' | 'TIME' | 'MANUAL';
   holdMs: number;
   source: 'trader' | 'scalper';
 }
@@ -73,103 +151,559 @@ export interface TradeCompleteData {
 export interface CircuitBreakData {
   reason: string;
   consecutiveLosses: number;
+  /** RISK breaker rule that tripped (pumpfun-breakers.ts) */
+  rule?: string;
+}
+
+export interface BalanceUpdateData {
+  solBalance: number;
+}
+
+export interface ProfileUpdateData {
+  profile: StrategyProfile;
+  /** Profile file path, or "preset:<name>" */
+  source: string;
+}
+
+export interface LogData {
+  message: string;
+}
+
+export interface BusPayloads {
+  REGISTER: RegisterData;
+  WELCOME: WelcomeData;
+  ACK: AckData;
+  REQUEST: RequestData;
+  RESPONSE: ResponseData;
+  TOKENS_UPDATE: TokensUpdateData;
+  PRICE_UPDATE: PriceUpdateData;
+  SCORES_UPDATE: ScoresUpdateData;
+  POSITION_OPENED: PositionOpenedData;
+  TRADE_COMPLETE: TradeCompleteData;
+  CIRCUIT_BREAK: CircuitBreakData;
+  CIRCUIT_RESUME: Record<string, never>;
+  BALANCE_UPDATE: BalanceUpdateData;
+  PROFILE_UPDATE: ProfileUpdateData;
+  LOG: LogData;
+}
+
+/** RPC methods: params in, result out. */
+export interface BusMethods {
+  /** Every agent: liveness and resource use */
+  health: {
+    params: Record<string, never>;
+    result: { agent: string; pid: number; uptimeSec: number; rssMb: number; lastSeq: number | null };
+  };
+  /** RISK: may a new position be opened right now? */
+  'risk.canOpen': {
+    params: { source: 'trader' | 'scalper'; tokenAddress: string; amountSol: number };
+    result: { allowed: boolean; reason?: string };
+  };
+  /** RISK (trader book) / SCALPER (scalper book): sell a position now */
+  'position.forceClose': {
+    params: { positionId: string };
+    result: { positionId: string; symbol: string; exitPrice: number; pnlPct: number };
+  };
+  /** RISK: active circuit breakers */
+  'risk.breakers': {
+    params: Record<string, never>;
+    result: BreakerStatus;
+  };
+  /** RISK: operator resume of one breaker rule, or all of them */
+  'risk.resume': {
+    params: { rule?: string };
+    result: { resumed: ActiveBreaker[]; status: BreakerStatus };
+  };
+}
+
+export type BusMethod = keyof BusMethods;
+export type BusHandler<M extends BusMethod> = (
+  params: BusMethods[M]['params'],
+  from: string,
+) => BusMethods[M]['result'] | Promise<BusMethods[M]['result']>;
+
+/** A bus message; narrows `data` when switching on `type`. */
+export type BusMsg<T extends MsgType = MsgType> = {
+  [K in T]: {
+    type: K;
+    from: string;
+    data: BusPayloads[K];
+    ts: number;
+    /** Assigned by the server, increasing within one epoch */
+    seq?: number;
+    /** Set on ACK_REQUIRED messages; stable across retries */
+    id?: string;
+  };
+}[T];
+
+// ─── Schemas ────────────────────────────────────────────────────────────────
+
+interface Check {
+  desc: string;
+  ok: (v: any) => boolean;
+}
+
+const text: Check = { desc: 'a string', ok: (v) => typeof v === 'string' };
+const str: Check = { desc: 'a non-empty string', ok: (v) => typeof v === 'string' && v.length > 0 };
+const bool: Check = { desc: 'true or false', ok: (v) => typeof v === 'boolean' };
+const num: Check = { desc: 'a number', ok: (v) => typeof v === 'number' && isFinite(v) };
+const int: Check = { desc: 'a whole number ≥ 0', ok: (v) => Number.isInteger(v) && v >= 0 };
+const oneOf = (...values: string[]): Check => ({ desc: values.join(' | '), ok: (v) => values.includes(v) });
+const optional = (c: Check): Check => ({ desc: `${c.desc} (optional)`, ok: (v) => v === undefined || c.ok(v) });
+const isMapping = (v: any) => !!v && typeof v === 'object' && !Array.isArray(v);
+const mapping: Check = { desc: 'an object', ok: isMapping };
+const topics: Check = {
+  desc: 'a list of message types',
+  ok: (v) => Array.isArray(v) && v.every((t) => t in SCHEMAS && !CONTROL_TYPES.has(t)),
+};
+
+type Schema = Record<string, Check>;
+
+const arrayOf = (item?: Schema): Check => ({
+  desc: item ? `a list of { ${Object.keys(item).join(', ')} }` : 'a list',
+  ok: (v) => Array.isArray(v) && (!item || v.every((e) => isMapping(e) && schemaErrors(e, item, '').length === 0)),
+});
+
+const profile: Check = {
+  desc: 'a valid strategy profile',
+  ok: (v) => isMapping(v) && validateProfile(v).length === 0,
+};
+
+const SOURCE = oneOf('trader', 'scalper');
+
+const SCHEMAS: Record<MsgType, Schema> = {
+  REGISTER: { epoch: optional(num), lastSeq: optional(int), topics: optional(topics) },
+  WELCOME: { epoch: num, seq: int },
+  ACK: { id: str },
+  REQUEST: { id: str, to: str, method: str, params: mapping },
+  RESPONSE: { id: str, to: str, ok: bool, error: optional(text) },
+  TOKENS_UPDATE: { tokens: arrayOf(), count: int },
+  PRICE_UPDATE: { updates: arrayOf({ address: str, price: num, priceChangePct: num }) },
+  SCORES_UPDATE: { scores: arrayOf({ address: str, symbol: text, score: num }) },
+  POSITION_OPENED: {
+    positionId: str, tokenAddress: str, symbol: text, entryPrice: num,
+    amountSol: num, source: SOURCE, openedAt: num,
+  },
+  TRADE_COMPLETE: {
+    positionId: str, tokenAddress: str, symbol: text, pnlPct: num, pnlSol: num,
+    reason: oneOf('TP', 'TP1', 'TP2', 'TP3', 'SL', 'TIME', 'MANUAL'), holdMs: num, source: SOURCE,
+  },
+  CIRCUIT_BREAK: { reason: str, consecutiveLosses: int, rule: optional(str) },
+  CIRCUIT_RESUME: {},
+  BALANCE_UPDATE: { solBalance: num },
+  PROFILE_UPDATE: { profile, source: str },
+  LOG: { message: text },
+};
+
+function schemaErrors(data: any, schema: Schema, at: string): string[] {
+  const errors: string[] = [];
+  for (const [key, check] of Object.entries(schema)) {
+    if (!check.ok(data[key])) errors.push(`${at}${key}: expected ${check.desc}`);
+  }
+  return errors;
+}
+
+/**
+ * Validate a message envelope and its payload against the MsgType schema.
+ * Returns a list of problems (empty = valid), like validateProfile().
+ */
+export function validateBusMsg(msg: any): string[] {
+  if (!isMapping(msg)) return ['message must be an object'];
+  if (!(msg.type in SCHEMAS)) return [`type: unknown message type ${JSON.stringify(msg.type)}`];
+  const errors = schemaErrors(msg, { from: str, ts: num, seq: optional(int), id: optional(str) }, '');
+  if (!isMapping(msg.data)) errors.push('data: expected an object');
+  else errors.push(...schemaErrors(msg.data, SCHEMAS[msg.type as MsgType], 'data.'));
+  return errors.map((e) => `${msg.type} ${e}`);
+}
+
+function parseMsg(raw: WebSocket.RawData): { msg?: BusMsg; errors: string[] } {
+  let msg: any;
+  try {
+    msg = JSON.parse(raw.toString());
+  } catch {
+    return { errors: ['malformed JSON'] };
+  }
+  const errors = validateBusMsg(msg);
+  return errors.length > 0 ? { errors } : { msg, errors };
+}
+
+// ─── RPC plumbing ───────────────────────────────────────────────────────────
+
+/** Outstanding requests of one bus participant, keyed by correlation id. */
+function createRpc(self: string) {
+  let nextId = 0;
+  const waiting = new Map<string, { resolve: (v: any) => void; reject: (e: Error) => void; timer: NodeJS.Timeout }>();
+
+  return {
+    /** Build and track a REQUEST; `send` returns false when it couldn't go out. */
+    call(to: string, method: string, params: Record<string, any>, timeoutMs: number, send: (msg: BusMsg) => boolean): Promise<any> {
+      const id = `${self}-rpc-${Date.now().toString(36)}-${nextId++}`;
+      return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+          waiting.delete(id);
+          reject(new Error(`${method} → ${to} timed out after ${timeoutMs}ms`));
+        }, timeoutMs);
+        waiting.set(id, { resolve, reject, timer });
+        const msg: BusMsg<'REQUEST'> = { type: 'REQUEST', from: self, data: { id, to, method, params }, ts: Date.now() };
+        if (!send(msg)) this.settle({ id, to: self, ok: false, error: `${to} is not reachable over the bus` });
+      });
+    },
+    /** Resolve the matching call; false if the id isn't ours (or already timed out). */
+    settle(res: ResponseData): boolean {
+      const entry = waiting.get(res.id);
+      if (!entry) return false;
+      waiting.delete(res.id);
+      clearTimeout(entry.timer);
+      if (res.ok) entry.resolve(res.result);
+      else entry.reject(new Error(res.error ?? 'request failed'));
+      return true;
+    },
+  };
+}
+
+/** Run a handler and turn its outcome into a RESPONSE. */
+async function answer(
+  handlers: Map<string, BusHandler<any>>,
+  req: RequestData,
+  from: string,
+): Promise<ResponseData> {
+  const handler = handlers.get(req.method);
+  if (!handler) return { id: req.id, to: from, ok: false, error: `${req.to} has no handler for ${req.method}` };
+  try {
+    return { id: req.id, to: from, ok: true, result: await handler(req.params, from) };
+  } catch (err: any) {
+    return { id: req.id, to: from, ok: false, error: err?.message ?? String(err) };
+  }
 }
 
 // ─── Server ─────────────────────────────────────────────────────────────────
 
+/** Each replay only needs the newest of these — later ones supersede earlier */
+const SNAPSHOT_TYPES = new Set<MsgType>(['TOKENS_UPDATE', 'SCORES_UPDATE', 'BALANCE_UPDATE', 'PROFILE_UPDATE']);
+/** Never buffered: connection control, RPC and dashboard chatter */
+const UNBUFFERED_TYPES = new Set<MsgType>([...CONTROL_TYPES, 'LOG']);
+
+export interface BusServerOptions {
+  /** Called when a client sends a message that fails validation */
+  onReject?: (agentName: string, errors: string[]) => void;
+  /** Called after an agent (re)registers and got its WELCOME and replay */
+  onRegister?: (agentName: string) => void;
+}
+
 export interface BusServer {
   broadcast: (msg: BusMsg, excludeAgent?: string) => void;
+  /** Call an RPC method on a connected agent as ALPHA */
+  request: <M extends BusMethod>(
+    to: string, method: M, params: BusMethods[M]['params'], timeoutMs?: number,
+  ) => Promise<BusMethods[M]['result']>;
   clientCount: () => number;
+  /** Critical messages still waiting for an ACK, per recipient agent */
+  unacked: () => Record<string, number>;
+  /** See every published message (after seq assignment); returns an unsubscribe fn */
+  tap: (listener: (msg: BusMsg) => void) => () => void;
   close: () => void;
 }
 
-export function startBusServer(): BusServer {
-  const clients = new Map<string, WebSocket>();
+interface ServerClient {
+  ws: WebSocket;
+  /** null = subscribed to everything */
+  topics: Set<MsgType> | null;
+}
+
+export function startBusServer(opts: BusServerOptions = {}): BusServer {
+  const clients = new Map<string, ServerClient>();
   const wss = new WebSocketServer({ port: BUS_PORT });
+  const epoch = Date.now();
+  const rpc = createRpc(SERVER_NAME);
+  let seq = 0;
+  let nextId = 0;
+  const buffer: BusMsg[] = [];
+  // Critical message id → seq, so publisher retries aren't broadcast twice
+  const seenIds = new Map<string, number>();
+  // recipient → message id → delivery state
+  const pending = new Map<string, Map<string, { msg: BusMsg; sentAt: number }>>();
+  const taps = new Set<(msg: BusMsg) => void>();
+
+  const send = (ws: WebSocket | undefined, msg: BusMsg): boolean => {
+    if (ws?.readyState !== WebSocket.OPEN) return false;
+    ws.send(JSON.stringify(msg));
+    return true;
+  };
+  const control = <T extends 'WELCOME' | 'ACK' | 'RESPONSE'>(type: T, data: BusPayloads[T]) =>
+    ({ type, from: 'BUS', data, ts: Date.now() }) as BusMsg;
+  const wants = (client: ServerClient, type: MsgType) => !client.topics || client.topics.has(type);
+
+  function remember(msg: BusMsg) {
+    buffer.push(msg);
+    while (buffer.length > REPLAY_BUFFER_SIZE) {
+      const evicted = buffer.shift()!;
+      if (!evicted.id) continue;
+      // Past the replay window — stop chasing ACKs for it
+      seenIds.delete(evicted.id);
+      for (const inbox of pending.values()) inbox.delete(evicted.id);
+    }
+  }
+
+  function dispatch(msg: BusMsg, sender: string) {
+    if (msg.id && seenIds.has(msg.id)) return; // publisher retry — already delivered
+    msg.seq = ++seq;
+    if (!UNBUFFERED_TYPES.has(msg.type)) remember(msg);
+    const recipients = new Set(msg.id ? ACK_REQUIRED[msg.type] ?? [] : []);
+    recipients.delete(sender);
+    if (msg.id) {
+      seenIds.set(msg.id, msg.seq);
+      for (const recipient of recipients) {
+        if (!pending.has(recipient)) pending.set(recipient, new Map());
+        pending.get(recipient)!.set(msg.id, { msg, sentAt: Date.now() });
+      }
+    }
+    for (const listener of taps) listener(msg);
+    const payload = JSON.stringify(msg);
+    for (const [name, client] of clients) {
+      // Named ACK recipients get critical messages whatever they subscribed to
+      if (name === sender || !(wants(client, msg.type) || recipients.has(name))) continue;
+      if (client.ws.readyState === WebSocket.OPEN) client.ws.send(payload);
+    }
+  }
+
+  /** Missed messages since lastSeq plus anything unacked for this agent, in seq order */
+  function replay(agentName: string, client: ServerClient, reg: RegisterData): BusMsg[] {
+    const out = new Map<number, BusMsg>();
+    if (reg.epoch === epoch && reg.lastSeq !== undefined) {
+      const latest = new Map<MsgType, number>();
+      for (const m of buffer) if (m.seq! > reg.lastSeq && SNAPSHOT_TYPES.has(m.type)) latest.set(m.type, m.seq!);
+      for (const m of buffer) {
+        if (m.seq! <= reg.lastSeq || m.from === agentName || !wants(client, m.type)) continue;
+        if (SNAPSHOT_TYPES.has(m.type) && latest.get(m.type) !== m.seq) continue;
+        out.set(m.seq!, m);
+      }
+    }
+    for (const entry of pending.get(agentName)?.values() ?? []) {
+      entry.sentAt = Date.now();
+      out.set(entry.msg.seq!, entry.msg);
+    }
+    return [...out.entries()].sort((a, b) => a[0] - b[0]).map(([, m]) => m);
+  }
+
+  /** Route a REQUEST/RESPONSE to the one agent it names. */
+  function route(msg: BusMsg<'REQUEST' | 'RESPONSE'>, ws: WebSocket, sender: string) {
+    if (msg.type === 'RESPONSE' && rpc.settle(msg.data)) return;
+    const target = clients.get(msg.data.to);
+    if (send(target?.ws, { ...msg, from: sender })) return;
+    if (msg.type === 'REQUEST') {
+      send(ws, control('RESPONSE', { id: msg.data.id, to: sender, ok: false, error: `${msg.data.to} is not connected` }));
+    }
+  }
 
   wss.on('connection', (ws) => {
     let agentName = `anon-${Date.now()}`;
 
     ws.on('message', (raw) => {
-      try {
-        const msg: BusMsg = JSON.parse(raw.toString());
-        if (msg.type === 'REGISTER') {
+      const { msg, errors } = parseMsg(raw);
+      if (!msg) {
+        opts.onReject?.(agentName, errors);
+        return;
+      }
+      switch (msg.type) {
+        case 'REGISTER': {
           agentName = msg.from;
-          clients.set(agentName, ws);
+          const client: ServerClient = { ws, topics: msg.data.topics ? new Set(msg.data.topics) : null };
+          clients.set(agentName, client);
+          send(ws, control('WELCOME', { epoch, seq }));
+          for (const missed of replay(agentName, client, msg.data)) send(ws, missed);
+          opts.onRegister?.(agentName);
           return;
         }
-        // Broadcast to every other connected client
-        const payload = raw.toString();
-        for (const [name, client] of clients) {
-          if (name !== agentName && client.readyState === WebSocket.OPEN) {
-            client.send(payload);
-          }
-        }
-      } catch (_) {}
+        case 'ACK':
+          pending.get(agentName)?.delete(msg.data.id);
+          return;
+        case 'REQUEST':
+        case 'RESPONSE':
+          return route(msg, ws, agentName);
+      }
+      dispatch(msg, agentName);
+      // Confirm receipt so the publisher can drop it from its outbox
+      if (msg.id) send(ws, control('ACK', { id: msg.id }));
     });
 
-    ws.on('close', () => clients.delete(agentName));
-    ws.on('error', () => clients.delete(agentName));
+    ws.on('close', () => { if (clients.get(agentName)?.ws === ws) clients.delete(agentName); });
+    ws.on('error', () => { if (clients.get(agentName)?.ws === ws) clients.delete(agentName); });
   });
 
+  // Redeliver critical messages to connected recipients that haven't ACKed
+  const retryTimer = setInterval(() => {
+    const now = Date.now();
+    for (const [name, inbox] of pending) {
+      const client = clients.get(name);
+      if (!client) continue;
+      for (const entry of inbox.values()) {
+        if (now - entry.sentAt < ACK_RETRY_MS) continue;
+        entry.sentAt = now;
+        send(client.ws, entry.msg);
+      }
+    }
+  }, ACK_RETRY_MS);
+  retryTimer.unref();
+
   return {
     broadcast: (msg, excludeAgent) => {
-      const payload = JSON.stringify(msg);
-      for (const [name, client] of clients) {
-        if (name !== excludeAgent && client.readyState === WebSocket.OPEN) {
-          client.send(payload);
-        }
+      const errors = validateBusMsg(msg);
+      if (errors.length > 0) {
+        opts.onReject?.(msg.from, errors);
+        return;
       }
+      const out = { ...msg };
+      // ALPHA's own critical messages get the same redelivery as agents'
+      if (ACK_REQUIRED[out.type] && !out.id) out.id = `${SERVER_NAME}-${epoch.toString(36)}-${nextId++}`;
+      dispatch(out, excludeAgent ?? msg.from);
     },
+    request: (to, method, params, timeoutMs = REQUEST_TIMEOUT_MS) =>
+      rpc.call(to, method, params, timeoutMs, (msg) => send(clients.get(to)?.ws, msg)),
     clientCount: () => clients.size,
-    close: () => wss.close(),
+    unacked: () => Object.fromEntries([...pending].map(([name, inbox]) => [name, inbox.size])),
+    tap: (listener) => {
+      taps.add(listener);
+      return () => { taps.delete(listener); };
+    },
+    close: () => {
+      clearInterval(retryTimer);
+      wss.close();
+    },
   };
 }
 
 // ─── Client ─────────────────────────────────────────────────────────────────
 
 export interface BusClient {
-  publish: (type: MsgType, data: any) => void;
+  publish: <T extends TopicMsgType>(type: T, data: BusPayloads[T]) => void;
   log: (message: string) => void;
+  /** Call an RPC method on another agent; rejects on error, timeout or no connection */
+  request: <M extends BusMethod>(
+    to: string, method: M, params: BusMethods[M]['params'], timeoutMs?: number,
+  ) => Promise<BusMethods[M]['result']>;
+  /** Answer an RPC method (replaces any earlier handler for it) */
+  handle: <M extends BusMethod>(method: M, handler: BusHandler<M>) => void;
   close: () => void;
 }
 
+export interface ConnectOptions {
+  /** Message types to receive (default: all). Critical messages addressed to this agent always arrive. */
+  topics?: TopicMsgType[];
+  /** Max ms to wait for initial connection (default 8000) */
+  timeoutMs?: number;
+}
+
 /**
- * Connect an agent to the message bus. Auto-reconnects on disconnect.
+ * Connect an agent to the message bus. Auto-reconnects on disconnect and
+ * picks up missed messages from the server's replay buffer.
  * Returns a BusClient with a publish() helper.
  *
  * @param agentName  Unique name shown in dashboard (e.g. 'SCANNER')
- * @param onMessage  Called for every inbound message from other agents
- * @param timeoutMs  Max ms to wait for initial connection (default 8000)
+ * @param onMessage  Called for every subscribed message from other agents
+ * @param opts       Topic subscriptions and connect timeout
  */
 export function connectBus(
   agentName: string,
   onMessage: (msg: BusMsg) => void,
-  timeoutMs = 8000
+  opts: ConnectOptions = {}
 ): Promise<BusClient> {
+  const { topics, timeoutMs = 8000 } = opts;
+  const startedAt = Date.now();
   let currentWs: WebSocket | null = null;
   let closed = false;
+  let epoch: number | undefined;
+  let lastSeq: number | undefined;
+  let nextId = 0;
+  // Critical messages not yet confirmed by the server — resent after reconnect
+  const outbox = new Map<string, string>();
+  const handledIds: string[] = [];
+  const rpc = createRpc(agentName);
+  const handlers = new Map<string, BusHandler<any>>();
+
+  const sendRaw = (payload: string): boolean => {
+    if (currentWs?.readyState !== WebSocket.OPEN) return false;
+    currentWs.send(payload);
+    return true;
+  };
 
   // publish always uses currentWs so reconnects are transparent
   const client: BusClient = {
     publish: (type, data) => {
-      if (currentWs?.readyState === WebSocket.OPEN) {
-        currentWs.send(JSON.stringify({ type, from: agentName, data, ts: Date.now() }));
+      const msg = { type, from: agentName, data, ts: Date.now() } as BusMsg;
+      const errors = validateBusMsg(msg);
+      if (errors.length > 0) {
+        console.warn(`[${agentName}] Dropping invalid bus message: ${errors.join('; ')}`);
+        return;
       }
-    },
-    log: (message) => {
-      if (currentWs?.readyState === WebSocket.OPEN) {
-        currentWs.send(JSON.stringify({
-          type: 'LOG', from: agentName, data: { message }, ts: Date.now()
-        }));
+      if (ACK_REQUIRED[type]) {
+        msg.id = `${agentName}-${Date.now().toString(36)}-${nextId++}`;
+        outbox.set(msg.id, JSON.stringify(msg));
+        sendRaw(outbox.get(msg.id)!);
+        return;
       }
+      sendRaw(JSON.stringify(msg));
     },
+    log: (message) => client.publish('LOG', { message }),
+    request: (to, method, params, timeoutMs = REQUEST_TIMEOUT_MS) =>
+      rpc.call(to, method, params, timeoutMs, (msg) => sendRaw(JSON.stringify(msg))),
+    handle: (method, handler) => { handlers.set(method, handler); },
     close: () => {
       closed = true;
       currentWs?.close();
     },
   };
 
+  client.handle('health', () => ({
+    agent: agentName,
+    pid: process.pid,
+    uptimeSec: Math.round((Date.now() - startedAt) / 1000),
+    rssMb: Math.round(process.memoryUsage().rss / 1024 / 1024),
+    lastSeq: lastSeq ?? null,
+  }));
+
+  function receive(ws: WebSocket, msg: BusMsg) {
+    if (msg.type === 'WELCOME') {
+      // New epoch (first connect or ALPHA restarted): nothing to replay from before
+      if (msg.data.epoch !== epoch) {
+        epoch = msg.data.epoch;
+        lastSeq = msg.data.seq;
+      }
+      for (const payload of outbox.values()) ws.send(payload);
+      return;
+    }
+    if (msg.type === 'ACK') {
+      outbox.delete(msg.data.id);
+      return;
+    }
+    if (msg.type === 'REQUEST') {
+      answer(handlers, msg.data, msg.from).then((res) => {
+        sendRaw(JSON.stringify({ type: 'RESPONSE', from: agentName, data: res, ts: Date.now() }));
+      });
+      return;
+    }
+    if (msg.type === 'RESPONSE') {
+      rpc.settle(msg.data);
+      return;
+    }
+    if (msg.type === 'REGISTER') return;
+
+    if (msg.id) {
+      // Critical: always ACK (the last one may have been lost), handle once
+      ws.send(JSON.stringify({ type: 'ACK', from: agentName, data: { id: msg.id }, ts: Date.now() }));
+      if (handledIds.includes(msg.id)) return;
+      handledIds.push(msg.id);
+      if (handledIds.length > HANDLED_ID_LIMIT) handledIds.shift();
+    } else if (msg.seq !== undefined && lastSeq !== undefined && msg.seq <= lastSeq) {
+      return; // replay overlap
+    }
+    if (msg.seq !== undefined) lastSeq = Math.max(lastSeq ?? 0, msg.seq);
+    try {
+      onMessage(msg);
+    } catch (err: any) {
+      console.warn(`[${agentName}] Bus handler error on ${msg.type}: ${err?.message ?? err}`);
+    }
+  }
+
   function connect(): Promise<void> {
     return new Promise((resolve, reject) => {
       const ws = new WebSocket(`ws://localhost:${BUS_PORT}`);
@@ -178,15 +712,15 @@ export function connectBus(
       ws.on('open', () => {
         clearTimeout(timer);
         currentWs = ws;
-        ws.send(JSON.stringify({ type: 'REGISTER', from: agentName, data: null, ts: Date.now() }));
+        const register: RegisterData = { epoch, lastSeq, topics };
+        ws.send(JSON.stringify({ type: 'REGISTER', from: agentName, data: register, ts: Date.now() }));
         resolve();
       });
 
       ws.on('message', (raw) => {
-        try {
-          const msg: BusMsg = JSON.parse(raw.toString());
-          if (msg.type !== 'REGISTER') onMessage(msg);
-        } catch (_) {}
+        const { msg, errors } = parseMsg(raw);
+        if (msg) receive(ws, msg);
+        else console.warn(`[${agentName}] Dropping invalid bus message: ${errors.join('; ')}`);
       });
 
       ws.on('error', (err) => {
@@ -207,22 +741,30 @@ export function connectBus(
   return connect().then(() => client);
 }
 
+/** A BusClient that drops everything — used before connecting and in file-only mode. */
+export function offlineBus(): BusClient {
+  return {
+    publish: () => {},
+    log: () => {},
+    request: (to) => Promise.reject(new Error(`bus offline — can't reach ${to}`)),
+    handle: () => {},
+    close: () => {},
+  };
+}
+
 /**
  * Gracefully try to connect, falling back silently on failure.
  * Returns a no-op BusClient if the bus isn't running yet.
  */
 export async function tryConnectBus(
   agentName: string,
-  onMessage: (msg: BusMsg) => void
+  onMessage: (msg: BusMsg) => void,
+  opts: Omit<ConnectOptions, 'timeoutMs'> = {}
 ): Promise<BusClient> {
   try {
-    return await connectBus(agentName, onMessage, 5000);
+    return await connectBus(agentName, onMessage, { ...opts, timeoutMs: 5000 });
   } catch (_) {
     console.warn(`[${agentName}] Bus unavailable — running in file-only mode`);
-    return {
-      publish: () => {},
-      log: () => {},
-      close: () => {},
-    };
+    return offlineBus();
   }
 }
@@ -0,0 +1,540 @@
+/**
+ * pumpfun-profile.ts — strategy profile shared by the pump.fun agents.
+ *
+ * Every tunable threshold (buy sizes, position caps, exits, filters, scoring
+ * bands, circuit breaker) lives in one validated profile instead of
+ * constants spread over the agent files.
+ *
+ * Resolution:
+ *   PUMPFUN_PROFILE=<path>  YAML or JSON profile file
+ *                           (default: pumpfun-profile.yaml|yml|json in the repo root)
+ *   PUMPFUN_PRESET=<name>   preset used when there is no file (default "default")
+ *
+ * A file starts from the preset named in its `preset:` key (default
+ * "default") and overrides any subset of fields:
+ *
+ *   preset: conservative
+ *   trader:
+ *     buySol: 0.004
+ *   risk:
+ *     stopLossPct: -4
+ *
+ * YAML support covers what profiles need — nested mappings of numbers,
+ * booleans and strings, with # comments. Use JSON for anything fancier.
+ *
+ * pumpfun-alpha.ts watches the file and broadcasts PROFILE_UPDATE on the
+ * bus; each agent swaps the new profile in without restarting.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const ROOT = path.resolve(__dirname, '..');
+const DEFAULT_FILES = ['pumpfun-profile.yaml', 'pumpfun-profile.yml', 'pumpfun-profile.json'];
+const WATCH_INTERVAL_MS = 2_000;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Score tiers: lower bound → points (highest bound the value reaches wins). */
+export type ScoreTiers = Record<string, number>;
+
+export interface StrategyProfile {
+  /** Preset the profile started from */
+  preset: PresetName;
+  /** Shared SOL guards for TRADER and SCALPER */
+  wallet: {
+    /** SOL kept back per open position to pay for its exit */
+    gasReservePerPosition: number;
+    /** Never let the wallet drop below this */
+    minSolFloor: number;
+  };
+  trader: {
+    buySol: number;
+    maxPositions: number;
+    /** Buy tokens scoring above this */
+    scoreThreshold: number;
+    retryCooldownSec: number;
+    /** Skip/abort when price fell more than this % (m5, since last scan, since scoring) */
+    maxDropPct: number;
+  };
+  scalper: {
+    buySol: number;
+    maxPositions: number;
+    /** Only tokens first seen less than this long ago */
+    freshMaxAgeSec: number;
+    tpPct: number;
+    /** Negative */
+    slPct: number;
+    trailActivatePct: number;
+    trailDropPct: number;
+    maxHoldSec: number;
+    minTxCount: number;
+    minBcProgress: number;
+    minMcap: number;
+    retryCooldownSec: number;
+  };
+  risk: {
+    /** Stage-0 stop, negative */
+    stopLossPct: number;
+    /** Stop after the first partial (0 = breakeven) */
+    trailingSlStage1Pct: number;
+    /** Stop after the second partial */
+    trailingSlStage2Pct: number;
+    partial1Pct: number;
+    partial2Pct: number;
+    finalTpPct: number;
+    maxHoldMin: number;
+    /** Circuit breaker rules (pumpfun-breakers.ts) — any tripped rule halts TRADER and SCALPER */
+    breakers: {
+      /** `count` SL exits in a row inside the window (TP and TIME exits reset the run) */
+      consecutiveSl: BreakerPolicy & { count: number; windowMin: number };
+      /** Realized loss across both books inside the window */
+      drawdown: BreakerPolicy & { maxLossSol: number; windowMin: number };
+      /** `count` SL exits that closed at least maxOvershootPct points past their stop */
+      slOvershoot: BreakerPolicy & { maxOvershootPct: number; count: number; windowMin: number };
+      /** Wallet balance reported by SCANNER below minSol */
+      balanceFloor: BreakerPolicy & { minSol: number };
+      /** Share of RISK's price and sell calls failing, once minCalls were made inside the window */
+      apiErrors: BreakerPolicy & { maxErrorPct: number; minCalls: number; windowMin: number };
+    };
+  };
+  analyst: {
+    maxAgeMin: number;
+    minMcap: number;
+    /** Reject buy/sell tax above this % */
+    maxTaxPct: number;
+    bondingCurve: {
+      gradMin: number; gradMax: number; gradPts: number;
+      sweetMin: number; sweetMax: number; sweetPts: number;
+      /** Outer band — inside [outerMin, outerMax] but outside the sweet spot */
+      outerMin: number; outerMax: number; outerPts: number;
+    };
+    marketCap: {
+      sweetMin: number; sweetMax: number; sweetPts: number;
+      outerMin: number; outerMax: number; outerPts: number;
+    };
+    txCount: ScoreTiers;
+    /** m5 price change % → points */
+    velocity: ScoreTiers;
+  };
+}
+
+/** Settings every circuit breaker rule has. */
+export interface BreakerPolicy {
+  enabled: boolean;
+  /** Minutes a tripped rule holds trading before it lifts itself */
+  coolOffMin: number;
+  /** Hold until an operator resumes it instead (coolOffMin is ignored) */
+  manualResume: boolean;
+}
+
+export type PresetName = 'default' | 'conservative' | 'aggressive';
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K] };
+
+export interface LoadedProfile {
+  profile: StrategyProfile;
+  /** File the profile came from, or "preset:<name>" */
+  source: string;
+}
+
+// ─── Defaults + presets ───────────────────────────────────────────────────────
+
+/** The values the agents shipped with. */
+export const DEFAULT_PROFILE: StrategyProfile = {
+  preset: 'default',
+  wallet: { gasReservePerPosition: 0.003, minSolFloor: 0.005 },
+  trader: { buySol: 0.005, maxPositions: 5, scoreThreshold: 60, retryCooldownSec: 300, maxDropPct: 5 },
+  scalper: {
+    buySol: 0.005,
+    maxPositions: 3,
+    freshMaxAgeSec: 120,
+    tpPct: 10,
+    slPct: -3,
+    trailActivatePct: 3,
+    trailDropPct: 2,
+    maxHoldSec: 30,
+    minTxCount: 5,
+    minBcProgress: 3,
+    minMcap: 500,
+    retryCooldownSec: 180,
+  },
+  risk: {
+    stopLossPct: -5,
+    trailingSlStage1Pct: 0,
+    trailingSlStage2Pct: 15,
+    partial1Pct: 25,
+    partial2Pct: 50,
+    finalTpPct: 100,
+    maxHoldMin: 20,
+    breakers: {
+      consecutiveSl: { enabled: true, count: 3, windowMin: 30, coolOffMin: 30, manualResume: false },
+      drawdown: { enabled: false, maxLossSol: 0.02, windowMin: 60, coolOffMin: 60, manualResume: false },
+      slOvershoot: { enabled: false, maxOvershootPct: 10, count: 2, windowMin: 60, coolOffMin: 30, manualResume: false },
+      balanceFloor: { enabled: false, minSol: 0.02, coolOffMin: 10, manualResume: true },
+      apiErrors: { enabled: false, maxErrorPct: 50, minCalls: 10, windowMin: 10, coolOffMin: 15, manualResume: false },
+    },
+  },
+  analyst: {
+    maxAgeMin: 60,
+    minMcap: 1_000,
+    maxTaxPct: 5,
+    bondingCurve: {
+      gradMin: 85, gradMax: 95, gradPts: 30,
+      sweetMin: 30, sweetMax: 70, sweetPts: 25,
+      outerMin: 15, outerMax: 85, outerPts: 12,
+    },
+    marketCap: {
+      sweetMin: 5_000, sweetMax: 80_000, sweetPts: 20,
+      outerMin: 2_000, outerMax: 200_000, outerPts: 8,
+    },
+    txCount: { '100': 20, '50': 15, '20': 10, '5': 4 },
+    velocity: { '100': 20, '30': 15, '10': 10, '3': 5 },
+  },
+};
+
+export const PRESETS: Record<PresetName, DeepPartial<StrategyProfile>> = {
+  default: {},
+  conservative: {
+    trader: { buySol: 0.003, maxPositions: 3, scoreThreshold: 70, maxDropPct: 3 },
+    scalper: { buySol: 0.003, maxPositions: 1, tpPct: 6, slPct: -2, maxHoldSec: 20, minTxCount: 10, minMcap: 1_000 },
+    risk: {
+      stopLossPct: -4,
+      maxHoldMin: 10,
+      breakers: {
+        consecutiveSl: { count: 2, windowMin: 60, coolOffMin: 60 },
+        drawdown: { enabled: true, maxLossSol: 0.015 },
+        slOvershoot: { enabled: true },
+      },
+    },
+    analyst: { maxAgeMin: 30, minMcap: 2_000, maxTaxPct: 3 },
+  },
+  aggressive: {
+    trader: { buySol: 0.01, maxPositions: 8, scoreThreshold: 50, maxDropPct: 8 },
+    scalper: { buySol: 0.01, maxPositions: 5, freshMaxAgeSec: 180, tpPct: 15, slPct: -5, maxHoldSec: 60 },
+    risk: {
+      stopLossPct: -8,
+      finalTpPct: 150,
+      maxHoldMin: 30,
+      breakers: { consecutiveSl: { count: 5, windowMin: 20, coolOffMin: 20 } },
+    },
+    analyst: { maxAgeMin: 90 },
+  },
+};
+
+// Mappings whose keys are user-defined (tier bounds) — replaced, not merged
+const TIER_PATHS = new Set(['analyst.txCount', 'analyst.velocity']);
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+// [path, min, max, integer?] — ranges are sanity bounds, not recommendations
+const RANGES: Array<[string, number, number, boolean?]> = [
+  ['wallet.gasReservePerPosition', 0, 0.1],
+  ['wallet.minSolFloor', 0, 10],
+  ['trader.buySol', 0.001, 10],
+  ['trader.maxPositions', 0, 50, true],
+  ['trader.scoreThreshold', 0, 100],
+  ['trader.retryCooldownSec', 0, 86_400],
+  ['trader.maxDropPct', 0, 100],
+  ['scalper.buySol', 0.001, 10],
+  ['scalper.maxPositions', 0, 50, true],
+  ['scalper.freshMaxAgeSec', 1, 3_600],
+  ['scalper.tpPct', 0.1, 1_000],
+  ['scalper.slPct', -100, -0.1],
+  ['scalper.trailActivatePct', 0, 1_000],
+  ['scalper.trailDropPct', 0.1, 100],
+  ['scalper.maxHoldSec', 1, 86_400],
+  ['scalper.minTxCount', 0, 1e6, true],
+  ['scalper.minBcProgress', 0, 100],
+  ['scalper.minMcap', 0, 1e9],
+  ['scalper.retryCooldownSec', 0, 86_400],
+  ['risk.stopLossPct', -100, -0.1],
+  ['risk.trailingSlStage1Pct', -100, 1_000],
+  ['risk.trailingSlStage2Pct', -100, 1_000],
+  ['risk.partial1Pct', 0.1, 10_000],
+  ['risk.partial2Pct', 0.1, 10_000],
+  ['risk.finalTpPct', 0.1, 10_000],
+  ['risk.maxHoldMin', 1, 10_080],
+  ['risk.breakers.consecutiveSl.count', 1, 100, true],
+  ['risk.breakers.consecutiveSl.windowMin', 1, 1_440],
+  ['risk.breakers.consecutiveSl.coolOffMin', 1, 10_080],
+  ['risk.breakers.drawdown.maxLossSol', 0.0001, 100],
+  ['risk.breakers.drawdown.windowMin', 1, 10_080],
+  ['risk.breakers.drawdown.coolOffMin', 1, 10_080],
+  ['risk.breakers.slOvershoot.maxOvershootPct', 0.1, 100],
+  ['risk.breakers.slOvershoot.count', 1, 100, true],
+  ['risk.breakers.slOvershoot.windowMin', 1, 1_440],
+  ['risk.breakers.slOvershoot.coolOffMin', 1, 10_080],
+  ['risk.breakers.balanceFloor.minSol', 0, 100],
+  ['risk.breakers.balanceFloor.coolOffMin', 1, 10_080],
+  ['risk.breakers.apiErrors.maxErrorPct', 1, 100],
+  ['risk.breakers.apiErrors.minCalls', 1, 10_000, true],
+  ['risk.breakers.apiErrors.windowMin', 1, 1_440],
+  ['risk.breakers.apiErrors.coolOffMin', 1, 10_080],
+  ['analyst.maxAgeMin', 1, 10_080],
+  ['analyst.minMcap', 0, 1e9],
+  ['analyst.maxTaxPct', 0, 100],
+];
+
+function get(obj: any, dotted: string): any {
+  return dotted.split('.').reduce((o, k) => (o == null ? undefined : o[k]), obj);
+}
+
+/** Missing/unknown keys and type mismatches against the DEFAULT_PROFILE shape. */
+function checkShape(value: any, shape: any, at: string, errors: string[]): void {
+  for (const key of Object.keys(shape)) {
+    if (value[key] === undefined) errors.push(`${at ? `${at}.${key}` : key}: missing`);
+  }
+  for (const [key, v] of Object.entries(value ?? {})) {
+    const p = at ? `${at}.${key}` : key;
+    if (!(key in shape)) { errors.push(`${p}: unknown setting`); continue; }
+    const expected = shape[key];
+    if (TIER_PATHS.has(p)) {
+      if (!v || typeof v !== 'object' || Array.isArray(v)) { errors.push(`${p}: expected a mapping of bound → points`); continue; }
+      for (const [bound, pts] of Object.entries(v)) {
+        if (!isFinite(Number(bound))) errors.push(`${p}.${bound}: tier bound must be a number`);
+        if (typeof pts !== 'number' || !isFinite(pts) || pts < 0) errors.push(`${p}.${bound}: points must be a non-negative number`);
+      }
+    } else if (typeof expected === 'object') {
+      if (!v || typeof v !== 'object' || Array.isArray(v)) errors.push(`${p}: expected a mapping`);
+      else checkShape(v, expected, p, errors);
+    } else if (typeof v !== typeof expected || (typeof v === 'number' && !isFinite(v))) {
+      errors.push(`${p}: expected a ${typeof expected}, got ${JSON.stringify(v)}`);
+    }
+  }
+}
+
+/**
+ * Validate a complete profile. Returns a list of problems (empty = valid),
+ * like validateConfig().
+ */
+export function validateProfile(profile: StrategyProfile): string[] {
+  if (!profile || typeof profile !== 'object') return ['profile must be a mapping'];
+  const errors: string[] = [];
+  checkShape(profile, DEFAULT_PROFILE, '', errors);
+  if (!(profile.preset in PRESETS)) errors.push(`preset: unknown preset "${profile.preset}" (${Object.keys(PRESETS).join(', ')})`);
+  if (errors.length > 0) return errors;
+
+  for (const [p, min, max, integer] of RANGES) {
+    const v = get(profile, p);
+    if (v < min || v > max) errors.push(`${p}: ${v} is outside ${min}..${max}`);
+    else if (integer && !Number.isInteger(v)) errors.push(`${p}: must be a whole number`);
+  }
+
+  const { risk, scalper, analyst } = profile;
+  if (!(risk.partial1Pct < risk.partial2Pct && risk.partial2Pct < risk.finalTpPct)) {
+    errors.push('risk: partial1Pct < partial2Pct < finalTpPct is required');
+  }
+  if (!(risk.stopLossPct <= risk.trailingSlStage1Pct && risk.trailingSlStage1Pct <= risk.trailingSlStage2Pct)) {
+    errors.push('risk: stop must only ratchet up (stopLossPct ≤ trailingSlStage1Pct ≤ trailingSlStage2Pct)');
+  }
+  if (risk.trailingSlStage1Pct >= risk.partial1Pct || risk.trailingSlStage2Pct >= risk.partial2Pct) {
+    errors.push('risk: each trailing stop must sit below the partial that arms it');
+  }
+  if (scalper.trailActivatePct > scalper.tpPct) errors.push('scalper: trailActivatePct above tpPct never arms');
+  const bc = analyst.bondingCurve;
+  if (bc.gradMin > bc.gradMax || bc.sweetMin > bc.sweetMax || bc.outerMin > bc.outerMax) {
+    errors.push('analyst.bondingCurve: each band needs min ≤ max');
+  }
+  const mc = analyst.marketCap;
+  if (mc.sweetMin > mc.sweetMax || mc.outerMin > mc.outerMax) errors.push('analyst.marketCap: each band needs min ≤ max');
+  return errors;
+}
+
+// ─── Merge + presets ──────────────────────────────────────────────────────────
+
+function merge(base: any, over: any, at = ''): any {
+  const out: any = { ...base };
+  for (const [key, v] of Object.entries(over ?? {})) {
+    const p = at ? `${at}.${key}` : key;
+    const b = base?.[key];
+    out[key] = v && typeof v === 'object' && !Array.isArray(v) && b && typeof b === 'object' && !TIER_PATHS.has(p)
+      ? merge(b, v, p)
+      : v;
+  }
+  return out;
+}
+
+/** A preset expanded to a full profile. */
+export function getPreset(name: PresetName): StrategyProfile {
+  if (!(name in PRESETS)) throw new Error(`Unknown strategy preset "${name}" (${Object.keys(PRESETS).join(', ')})`);
+  return merge(DEFAULT_PROFILE, { ...PRESETS[name], preset: name });
+}
+
+/**
+ * Profiles written before risk.breakers: circuitBreakLosses and
+ * circuitBreakWindowMin become breakers.consecutiveSl (which used to lift
+ * after one window).
+ */
+function upgradeLegacyKeys(raw: any): any {
+  const risk = raw?.risk;
+  if (!risk || typeof risk !== 'object' || !('circuitBreakLosses' in risk || 'circuitBreakWindowMin' in risk)) return raw;
+  const { circuitBreakLosses, circuitBreakWindowMin, ...rest } = risk;
+  const consecutiveSl: Record<string, unknown> = {};
+  if (circuitBreakLosses !== undefined) consecutiveSl.count = circuitBreakLosses;
+  if (circuitBreakWindowMin !== undefined) consecutiveSl.windowMin = consecutiveSl.coolOffMin = circuitBreakWindowMin;
+  return { ...raw, risk: merge({ breakers: { consecutiveSl } }, rest) };
+}
+
+/** Full profile from a (possibly partial) override object: its preset, then the overrides. */
+export function resolveProfile(raw: DeepPartial<StrategyProfile>): StrategyProfile {
+  const preset = (raw.preset ?? 'default') as PresetName;
+  const base = preset in PRESETS ? getPreset(preset) : DEFAULT_PROFILE;
+  return merge(base, upgradeLegacyKeys(raw));
+}
+
+// ─── YAML subset ──────────────────────────────────────────────────────────────
+
+function parseScalar(s: string): unknown {
+  if (/^(['"]).*\1$/.test(s)) return s.slice(1, -1);
+  if (s === 'true' || s === 'false') return s === 'true';
+  if (s === 'null' || s === '~' || s === '') return null;
+  const n = Number(s.replace(/_/g, ''));
+  return isNaN(n) ? s : n;
+}
+
+/** Drop a `# comment` — only a # outside quotes that starts the line or follows whitespace. */
+function stripComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if ((ch === '"' || ch === "'") && /(^|:)\s*$/.test(line.slice(0, i))) {
+      // Only a quote that opens a key or value — not the apostrophe in don't
+      quote = ch;
+    } else if (ch === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+/**
+ * Parse indentation-based YAML mappings with scalar values — enough for a
+ * profile. Sequences, anchors and multi-line strings are rejected.
+ */
+export function parseYamlMapping(text: string): Record<string, unknown> {
+  const root: Record<string, unknown> = {};
+  const stack: Array<{ indent: number; obj: Record<string, unknown> }> = [{ indent: -1, obj: root }];
+
+  text.split(/\r?\n/).forEach((rawLine, i) => {
+    const line = stripComment(rawLine).trimEnd();
+    if (!line.trim() || line.trim() === '---') return;
+    const where = `line ${i + 1}`;
+    if (/^\t| \t/.test(line)) throw new Error(`${where}: tabs are not allowed for indentation`);
+
+    const indent = line.length - line.trimStart().length;
+    const body = line.trim();
+    if (body.startsWith('- ') || body === '-') throw new Error(`${where}: YAML lists are not supported — use JSON`);
+    const m = body.match(/^("[^"]+"|'[^']+'|[^:]+?)\s*:(?:\s+(.*))?$/);
+    if (!m) throw new Error(`${where}: expected "key: value"`);
+
+    while (stack.length > 1 && indent <= stack[stack.length - 1].indent) stack.pop();
+    const parent = stack[stack.length - 1].obj;
+    const key = String(parseScalar(m[1]));
+    if (m[2] === undefined || m[2] === '') {
+      const child: Record<string, unknown> = {};
+      parent[key] = child;
+      stack.push({ indent, obj: child });
+    } else if (/^[[{|>&*]/.test(m[2])) {
+      throw new Error(`${where}: flow collections, block scalars and anchors are not supported — use JSON`);
+    } else {
+      parent[key] = parseScalar(m[2]);
+    }
+  });
+  return root;
+}
+
+// ─── Loading ──────────────────────────────────────────────────────────────────
+
+/** Profile file in use: PUMPFUN_PROFILE, else the first default file that exists. */
+export function getProfilePath(): string | null {
+  if (process.env.PUMPFUN_PROFILE) return path.resolve(process.env.PUMPFUN_PROFILE);
+  for (const f of DEFAULT_FILES) {
+    const p = path.join(ROOT, f);
+    if (fs.existsSync(p)) return p;
+  }
+  return null;
+}
+
+/** Read, resolve and validate a profile file. Throws with every problem listed. */
+export function readProfileFile(file: string): StrategyProfile {
+  const text = fs.readFileSync(file, 'utf8');
+  let raw: any;
+  try {
+    raw = file.endsWith('.json') || text.trimStart().startsWith('{') ? JSON.parse(text) : parseYamlMapping(text);
+  } catch (err: any) {
+    throw new Error(`Cannot parse strategy profile ${file}: ${err.message}`);
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error(`Strategy profile ${file} must be a mapping`);
+
+  const profile = resolveProfile(raw);
+  const errors = validateProfile(profile);
+  if (errors.length > 0) {
+    throw new Error(`Invalid strategy profile ${file}:\n  - ${errors.join('\n  - ')}`);
+  }
+  return profile;
+}
+
+/** Load the active profile — the profile file if there is one, else PUMPFUN_PRESET. */
+export function loadProfile(): LoadedProfile {
+  const file = getProfilePath();
+  if (file) {
+    if (!fs.existsSync(file)) throw new Error(`PUMPFUN_PROFILE ${file} does not exist`);
+    return { profile: readProfileFile(file), source: file };
+  }
+  const preset = (process.env.PUMPFUN_PRESET || 'default') as PresetName;
+  return { profile: getPreset(preset), source: `preset:${preset}` };
+}
+
+/**
+ * Poll the profile file and call onChange with each new valid profile.
+ * Invalid edits go to onError and the previous profile stays in force.
+ * Returns a stop function.
+ */
+export function watchProfile(
+  onChange: (loaded: LoadedProfile) => void,
+  onError: (err: Error) => void,
+): () => void {
+  const file = getProfilePath() ?? path.join(ROOT, DEFAULT_FILES[0]);
+  let last = '';
+  try {
+    last = JSON.stringify(loadProfile().profile);
+  } catch {
+    // Start broken — the first valid edit is reported as a change
+  }
+
+  const listener = () => {
+    try {
+      const loaded = loadProfile();
+      const next = JSON.stringify(loaded.profile);
+      if (next === last) return;
+      last = next;
+      onChange(loaded);
+    } catch (err: any) {
+      onError(err);
+    }
+  };
+  fs.watchFile(file, { interval: WATCH_INTERVAL_MS }, listener);
+  return () => fs.unwatchFile(file, listener);
+}
+
+/** Points for the highest tier bound `value` reaches, and that bound (null = no tier). */
+export function tierPoints(tiers: ScoreTiers, value: number): { points: number; bound: number | null } {
+  const best = Object.entries(tiers)
+    .map(([bound, points]) => [Number(bound), points] as const)
+    .filter(([bound]) => value >= bound)
+    .sort((a, b) => b[0] - a[0])[0];
+  return best ? { points: best[1], bound: best[0] } : { points: 0, bound: null };
+}
+
+/** Summary line for logs and the dashboard. */
+export function describeProfile(p: StrategyProfile): string {
+  return (
+    `${p.preset} | trader ${p.trader.buySol} SOL ×${p.trader.maxPositions} >${p.trader.scoreThreshold}pts` +
+    ` | scalp ${p.scalper.buySol} SOL ×${p.scalper.maxPositions} +${p.scalper.tpPct}%/${p.scalper.slPct}%` +
+    ` | risk SL ${p.risk.stopLossPct}% TP +${p.risk.finalTpPct}%` +
+    ` | breakers ${Object.entries(p.risk.breakers).filter(([, b]) => b.enabled).map(([rule]) => rule).join(',') || 'off'}`
+  );
+}
@@ -9,6 +9,19 @@
  *   +100% → sell remaining 1/3 and close (exitStage 2 → closed)
  *   SL    → stage 0: -5%, stage 1: 0%, stage 2: +15%
  *   20min → time-based exit — sell all remaining
+ * (Defaults — levels come from the risk section of the strategy profile,
+ * pumpfun-profile.ts, and follow PROFILE_UPDATE without a restart.)
+ *
+ * Each exit updates the position, its sell fill and the trade record in one
+ * trade-journal transaction (journal.ts), so TRADER's writes can't clobber it.
+ *
+ * Circuit breakers (pumpfun-breakers.ts): consecutive SLs, drawdown, SL
+ * overshoot, balance floor and API error rate, each with its own cool-off or
+ * a manual resume (risk.resume). A tripped rule sends CIRCUIT_BREAK; the
+ * active set is kept in the journal and announced again after a restart.
+ *
+ * Answers risk.canOpen bus requests: no new positions during a circuit break
+ * or for a token either book already holds.
  *
  * Run standalone: ts-node src/pumpfun-risk.ts
  */
@@ -16,40 +29,44 @@
 import WebSocket from 'ws';
 (globalThis as any).WebSocket = WebSocket;
 
-import * as fs from 'fs';
-import { createAuthenticatedSession, GDEXSession } from './auth';
-import { sellToken } from './trading';
-import { tryConnectBus, BusClient } from './pumpfun-bus';
+import { createSessionManager, GDEXSession } from './auth';
+import { sellToken, TradeResult } from './trading';
+import { describeFill, exitPnl } from './fills';
+import { tryConnectBus, offlineBus, BusClient } from './pumpfun-bus';
+import { loadProfile, validateProfile, describeProfile, StrategyProfile } from './pumpfun-profile';
+import { openJournal, Journal } from './journal';
+import { createCircuitBreakers, isBreakerRule, ActiveBreaker, CircuitBreakers } from './pumpfun-breakers';
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
 const SOLANA = 622112261;
 const POLL_MS = 8_000;              // REST fallback — fast poll catches SL faster
-const STOP_LOSS_PCT = -5;
-const TRAILING_SL_STAGE1 = 0;      // breakeven after first partial
-const TRAILING_SL_STAGE2 = 15;     // lock +15% profit after second partial
-const PARTIAL_1_PCT = 25;           // +25%  → sell 1/3, exitStage 0→1
-const PARTIAL_2_PCT = 50;           // +50%  → sell 1/3, exitStage 1→2
-const FINAL_TP_PCT = 100;           // +100% → sell remaining, close
-const MAX_HOLD_MS = 20 * 60 * 1000; // 20-min max hold
 const SESSION_REFRESH_MS = 25 * 60 * 1000;
-const POSITIONS_PATH = '/tmp/pumpfun-positions.json';
-const LOG_PATH = '/tmp/pumpfun-log.json';
 
-// Module-level session so authenticate() can refresh it anywhere
+// Refreshed in place by the session manager — before the server TTL and on auth errors
 let session: GDEXSession;
+const sessions = createSessionManager({ chainIds: [SOLANA, 42161], refreshAfterMs: SESSION_REFRESH_MS });
+sessions.on('refresh', (e) => {
+  session = e.session;
+  for (const f of e.failedChains) log(`Auth on chain ${f.chainId} failed (${f.error})`);
+  log(e.chainId === SOLANA ? `Authenticated on Solana chain ${SOLANA} (${e.reason})` : `Authenticated on Arbitrum (fallback, ${e.reason})`);
+});
+sessions.on('refresh-error', (err) => log(`Session refresh failed: ${err.message} — keeping the current session`));
+
+// Strategy profile — loaded in main(), replaced by PROFILE_UPDATE from ALPHA
+let profile: StrategyProfile;
+
+// Trade journal — opened in main()
+let journal: Journal;
 
 // Bus client — no-op until connected
-let bus: BusClient = { publish: () => {}, log: () => {}, close: () => {} };
+let bus: BusClient = offlineBus();
 
 // Guards against concurrent closes/partials of the same position
 const closingPositions = new Set<string>();
 
-// Circuit break tracking — halt trading after 3 consecutive losses within 30 min
-const recentLosses: number[] = [];
-const CIRCUIT_BREAK_WINDOW_MS = 30 * 60 * 1000;
-const CIRCUIT_BREAK_THRESHOLD = 3;
-let circuitActive = false;
+// Circuit breaker rules — created in main() once the journal is open
+let breakers: CircuitBreakers;
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -63,22 +80,20 @@ interface Position {
   entryTime: string;
   amountLamports: string;
   remainingLamports: string;
+  /** Actual SOL paid for the entry when TRADER read its fill */
   solSpent: number;
   status: 'open' | 'closed';
   exitStage: 0 | 1 | 2;
   txHash: string | null;
   score: number;
+  entryPriceNative?: number;
   exitPrice?: number;
+  exitPriceNative?: number;
   exitTime?: string;
-  exitReason?: 'TP' | 'SL' | 'TIME';
+  exitReason?: 'TP' | 'SL' | 'TIME' | 'MANUAL';
   exitTxHash?: string | null;
 }
 
-interface PositionsFile {
-  lastUpdated: string;
-  positions: Position[];
-}
-
 interface TradeLog {
   id: string;
   address: string;
@@ -88,16 +103,18 @@ interface TradeLog {
   exitPrice: number;
   entryTime: string;
   exitTime: string;
-  exitReason: 'TP' | 'SL' | 'TIME';
+  exitReason: 'TP' | 'SL' | 'TIME' | 'MANUAL';
   solSpent: number;
   pnlSol: number;
   pnlPct: number;
   exitTxHash: string | null;
-}
-
-interface LogFile {
-  lastUpdated: string;
-  trades: TradeLog[];
+  /** From the entry and exit on-chain fills (fills.ts), when they could be read */
+  entryPriceNative?: number;
+  exitPriceNative?: number;
+  solReceived?: number;
+  exitFeeSol?: number;
+  exitTipSol?: number;
+  exitSlippagePct?: number | null;
 }
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
@@ -106,56 +123,17 @@ function log(msg: string) {
   process.stderr.write(`[RISK ${new Date().toISOString()}] ${msg}\n`);
 }
 
-async function authenticate(): Promise<void> {
-  try {
-    session = await createAuthenticatedSession({ chainId: SOLANA });
-    log(`Authenticated on Solana chain ${SOLANA}`);
-  } catch (err: any) {
-    log(`Solana auth failed (${err?.message}), falling back to Arbitrum...`);
-    session = await createAuthenticatedSession({ chainId: 42161 });
-    log('Authenticated on Arbitrum (fallback)');
-  }
-}
-
-function readPositions(): PositionsFile | null {
-  try {
-    if (!fs.existsSync(POSITIONS_PATH)) return null;
-    return JSON.parse(fs.readFileSync(POSITIONS_PATH, 'utf8'));
-  } catch {
-    return null;
-  }
-}
-
-function writePositions(data: PositionsFile) {
-  const tmp = POSITIONS_PATH + '.tmp';
-  fs.writeFileSync(tmp, JSON.stringify(data, null, 2));
-  fs.renameSync(tmp, POSITIONS_PATH);
-}
-
-function readLog(): LogFile {
-  try {
-    return JSON.parse(fs.readFileSync(LOG_PATH, 'utf8'));
-  } catch {
-    return { lastUpdated: new Date().toISOString(), trades: [] };
-  }
-}
-
-function appendToLog(trade: TradeLog) {
-  const logData = readLog();
-  logData.trades.push(trade);
-  logData.lastUpdated = new Date().toISOString();
-  const tmp = LOG_PATH + '.tmp';
-  fs.writeFileSync(tmp, JSON.stringify(logData, null, 2));
-  fs.renameSync(tmp, LOG_PATH);
+function readOpenPositions(): Position[] {
+  return journal.getPositions<Position>('trader', 'open');
 }
 
 // ─── Trailing SL ──────────────────────────────────────────────────────────────
-// SL ratchets up after each partial: -8% → 0% → +15%
+// SL ratchets up after each partial: -5% → 0% → +15% by default
 
 function effectiveSL(stage: number): number {
-  if (stage >= 2) return TRAILING_SL_STAGE2;
-  if (stage >= 1) return TRAILING_SL_STAGE1;
-  return STOP_LOSS_PCT;
+  if (stage >= 2) return profile.risk.trailingSlStage2Pct;
+  if (stage >= 1) return profile.risk.trailingSlStage1Pct;
+  return profile.risk.stopLossPct;
 }
 
 // ─── Price fetcher (REST fallback) ────────────────────────────────────────────
@@ -163,6 +141,7 @@ function effectiveSL(stage: number): number {
 async function getCurrentPrice(address: string): Promise<number | null> {
   try {
     const result = await session.sdk.tokens.getToken(address, SOLANA);
+    breakers.noteApiCall(true);
     if (!result) return null;
     const tokenData = Array.isArray(result) ? result[0] : result;
     if (!tokenData) return null;
@@ -170,10 +149,41 @@ async function getCurrentPrice(address: string): Promise<number | null> {
     const parsed = typeof raw === 'number' ? raw : parseFloat(raw ?? '0');
     return parsed > 0 ? parsed : null;
   } catch {
+    breakers.noteApiCall(false);
     return null;
   }
 }
 
+// ─── Sell ─────────────────────────────────────────────────────────────────────
+
+/**
+ * sellToken through the session manager; outcomes feed the apiErrors breaker.
+ * clientOrderId is fixed per exit, so retrying one that already landed doesn't sell again.
+ */
+async function sell(address: string, amount: string, clientOrderId: string): Promise<TradeResult> {
+  try {
+    const result = await sessions.withSession((s) => sellToken(s, { tokenAddress: address, amount, chainId: SOLANA, clientOrderId }));
+    // A portfolio-risk refusal never reached the API
+    if (!result.rejected) breakers.noteApiCall(result.isSuccess);
+    return result;
+  } catch (err) {
+    breakers.noteApiCall(false);
+    throw err;
+  }
+}
+
+/** Trade-log fields from the entry and exit fills */
+function exitFill(pos: Position, sellResult: TradeResult): Partial<TradeLog> {
+  return {
+    entryPriceNative: pos.entryPriceNative,
+    exitPriceNative: sellResult.executedPrice,
+    solReceived: sellResult.nativeAmount,
+    exitFeeSol: sellResult.fee,
+    exitTipSol: sellResult.tip,
+    exitSlippagePct: sellResult.slippagePct,
+  };
+}
+
 // ─── Partial sell (1/3 of original position) ──────────────────────────────────
 
 async function executePartialSell(
@@ -186,9 +196,7 @@ async function executePartialSell(
   closingPositions.add(pos.id);
 
   try {
-    const posData = readPositions();
-    if (!posData) return;
-    const posInData = posData.positions.find((p) => p.id === pos.id);
+    const posInData = journal.getPosition<Position>(pos.id);
     if (!posInData || posInData.status !== 'open') return;
     if (posInData.exitStage >= newStage) return; // already handled this stage
 
@@ -197,44 +205,25 @@ async function executePartialSell(
     const prevRemaining = parseInt(posInData.remainingLamports ?? pos.amountLamports, 10);
     const newRemaining = Math.max(0, prevRemaining - parseInt(sellLamports, 10)).toString();
 
-    let sellResult = await sellToken(session, {
-      tokenAddress: pos.address,
-      amount: sellLamports,
-      chainId: SOLANA,
-    });
-
-    if (!sellResult.isSuccess) {
-      log(`  Partial sell failed — refreshing session and retrying...`);
-      await authenticate();
-      sellResult = await sellToken(session, {
-        tokenAddress: pos.address,
-        amount: sellLamports,
-        chainId: SOLANA,
-      });
-    }
+    const sellResult = await sell(pos.address, sellLamports, `${pos.id}-partial${newStage}`);
 
     if (!sellResult.isSuccess) {
       log(
-        `  ❌ Partial sell retry failed for ${pos.symbol}: ` +
+        `  ❌ Partial sell failed for ${pos.symbol}: ` +
         `${sellResult.message ?? JSON.stringify(sellResult)}`,
       );
       return;
     }
 
-    posInData.exitStage = newStage;
-    posInData.remainingLamports = newRemaining;
-    posInData.currentPrice = currentPrice;
-    posData.lastUpdated = new Date().toISOString();
-    writePositions(posData);
-
-    const pnlPct =
-      ((currentPrice - pos.entryPrice) / pos.entryPrice) * 100;
     const partialFraction = parseInt(sellLamports, 10)
       / parseInt(pos.amountLamports, 10);
-    const partialPnlSol =
-      pos.solSpent * partialFraction * (pnlPct / 100);
-
-    appendToLog({
+    // Actual proceeds when the sell's fill was read, else the price move
+    const { pnl: partialPnlSol, pnlPct } = exitPnl(
+      pos.solSpent * partialFraction,
+      ((currentPrice - pos.entryPrice) / pos.entryPrice) * 100,
+      sellResult,
+    );
+    const trade: TradeLog = {
       id: `${pos.id}-partial${newStage}`,
       address: pos.address,
       name: pos.name,
@@ -248,12 +237,27 @@ async function executePartialSell(
       pnlSol: partialPnlSol,
       pnlPct,
       exitTxHash: sellResult.hash ?? null,
+      ...exitFill(pos, sellResult),
+    };
+
+    journal.applyExit<Position>(pos.id, {
+      patch: { exitStage: newStage, remainingLamports: newRemaining, currentPrice },
+      fill: {
+        side: 'sell',
+        price: currentPrice,
+        amount: sellLamports,
+        value: trade.solSpent + partialPnlSol,
+        txHash: trade.exitTxHash,
+        reason: `TP${newStage}`,
+      },
+      trade,
+      when: (p) => p.exitStage < newStage,
     });
 
     log(
       `  🔒 PARTIAL SELL ${pos.symbol} (1/3) | trigger: +${triggerPct}% ` +
       `| stage ${newStage - 1}→${newStage} ` +
-      `| P&L at trigger: +${pnlPct.toFixed(1)}% | tx: ${sellResult.hash ?? 'n/a'}`,
+      `| P&L: ${pnlPct >= 0 ? '+' : ''}${pnlPct.toFixed(1)}% | tx: ${sellResult.hash ?? 'n/a'}${describeFill(sellResult)}`,
     );
   } finally {
     closingPositions.delete(pos.id);
@@ -265,80 +269,79 @@ async function executePartialSell(
 async function executeClose(
   pos: Position,
   currentPrice: number,
-  reason: 'TP' | 'SL' | 'TIME',
+  reason: 'TP' | 'SL' | 'TIME' | 'MANUAL',
 ): Promise<void> {
   if (closingPositions.has(pos.id)) return;
   closingPositions.add(pos.id);
 
   try {
-    const posData = readPositions();
-    if (!posData) return;
-    const posInData = posData.positions.find((p) => p.id === pos.id);
+    const posInData = journal.getPosition<Position>(pos.id);
     if (!posInData || posInData.status !== 'open') return;
 
     const sellAmount = posInData.remainingLamports ?? posInData.amountLamports;
 
-    let sellResult = await sellToken(session, {
-      tokenAddress: pos.address,
-      amount: sellAmount,
-      chainId: SOLANA,
-    });
-
-    if (!sellResult.isSuccess) {
-      log(`  Sell failed — refreshing session and retrying once...`);
-      await authenticate();
-      sellResult = await sellToken(session, {
-        tokenAddress: pos.address,
-        amount: sellAmount,
-        chainId: SOLANA,
-      });
-    }
+    const sellResult = await sell(pos.address, sellAmount, `${pos.id}-close`);
 
     if (!sellResult.isSuccess) {
       log(
-        `  ❌ Sell retry also failed for ${pos.symbol}: ` +
+        `  ❌ Sell failed for ${pos.symbol}: ` +
         `${sellResult.message ?? JSON.stringify(sellResult)}`,
       );
       return;
     }
 
-    const pnlPct = ((currentPrice - pos.entryPrice) / pos.entryPrice) * 100;
     const exitTime = new Date().toISOString();
     const remaining = parseInt(sellAmount, 10);
     const total = parseInt(pos.amountLamports, 10);
     const remainingFraction = total > 0 ? remaining / total : 1;
-    const pnlSol = pos.solSpent * remainingFraction * (pnlPct / 100);
-
-    posInData.status = 'closed';
-    posInData.exitPrice = currentPrice;
-    posInData.exitTime = exitTime;
-    posInData.exitReason = reason;
-    posInData.exitTxHash = sellResult.hash ?? null;
-    posData.lastUpdated = exitTime;
-    writePositions(posData);
-
-    appendToLog({
-      id: pos.id,
-      address: pos.address,
-      name: pos.name,
-      symbol: pos.symbol,
-      entryPrice: pos.entryPrice,
-      exitPrice: currentPrice,
-      entryTime: pos.entryTime,
-      exitTime,
-      exitReason: reason,
-      solSpent: pos.solSpent,
-      pnlSol,
-      pnlPct,
-      exitTxHash: sellResult.hash ?? null,
+    const { pnl: pnlSol, pnlPct } = exitPnl(
+      pos.solSpent * remainingFraction,
+      ((currentPrice - pos.entryPrice) / pos.entryPrice) * 100,
+      sellResult,
+    );
+
+    journal.applyExit<Position>(pos.id, {
+      patch: {
+        status: 'closed',
+        currentPrice,
+        exitPrice: currentPrice,
+        exitTime,
+        exitReason: reason,
+        exitTxHash: sellResult.hash ?? null,
+        exitPriceNative: sellResult.executedPrice,
+      },
+      fill: {
+        side: 'sell',
+        price: currentPrice,
+        amount: sellAmount,
+        value: pos.solSpent * remainingFraction + pnlSol,
+        txHash: sellResult.hash ?? null,
+        reason,
+      },
+      trade: {
+        id: pos.id,
+        address: pos.address,
+        name: pos.name,
+        symbol: pos.symbol,
+        entryPrice: pos.entryPrice,
+        exitPrice: currentPrice,
+        entryTime: pos.entryTime,
+        exitTime,
+        exitReason: reason,
+        solSpent: pos.solSpent,
+        pnlSol,
+        pnlPct,
+        exitTxHash: sellResult.hash ?? null,
+        ...exitFill(pos, sellResult),
+      },
     });
 
     const holdMs = Date.now() - new Date(pos.entryTime).getTime();
-    const emoji = reason === 'TP' ? '✅' : reason === 'TIME' ? '⏱' : '❌';
+    const emoji = reason === 'TP' ? '✅' : reason === 'TIME' ? '⏱' : reason === 'MANUAL' ? '✋' : '❌';
     log(
       `  ${emoji} CLOSED ${pos.symbol} | reason: ${reason} ` +
       `| P&L: ${pnlPct >= 0 ? '+' : ''}${pnlPct.toFixed(1)}%` +
-      ` (${pnlSol >= 0 ? '+' : ''}${pnlSol.toFixed(4)} SOL) | tx: ${sellResult.hash ?? 'n/a'}`,
+      ` (${pnlSol >= 0 ? '+' : ''}${pnlSol.toFixed(4)} SOL) | tx: ${sellResult.hash ?? 'n/a'}${describeFill(sellResult)}`,
     );
 
     // Notify ANALYTICS instantly (no 30s polling lag)
@@ -353,33 +356,8 @@ async function executeClose(
       source: 'trader',
     });
 
-    // Circuit break: 3+ consecutive losses in 30 min → halt TRADER + SCALPER
-    const now = Date.now();
-    if (reason === 'SL') {
-      recentLosses.push(now);
-      // Purge losses older than the window
-      while (recentLosses.length && now - recentLosses[0] > CIRCUIT_BREAK_WINDOW_MS) {
-        recentLosses.shift();
-      }
-      if (recentLosses.length >= CIRCUIT_BREAK_THRESHOLD && !circuitActive) {
-        circuitActive = true;
-        log(`🚨 CIRCUIT BREAK: ${recentLosses.length} losses in ${CIRCUIT_BREAK_WINDOW_MS / 60000}min — halting trading`);
-        bus.publish('CIRCUIT_BREAK', {
-          reason: `${recentLosses.length} consecutive SL hits`,
-          consecutiveLosses: recentLosses.length,
-        });
-        // Auto-resume after the window expires
-        setTimeout(() => {
-          recentLosses.length = 0;
-          circuitActive = false;
-          log('✅ Circuit break lifted — trading resumed');
-          bus.publish('CIRCUIT_RESUME', {});
-        }, CIRCUIT_BREAK_WINDOW_MS);
-      }
-    } else {
-      // TP or TIME exit resets the loss streak
-      recentLosses.length = 0;
-    }
+    // Circuit breakers: consecutive SLs, drawdown, SL overshoot → halt TRADER + SCALPER
+    breakers.checkTrades();
   } finally {
     closingPositions.delete(pos.id);
   }
@@ -388,15 +366,10 @@ async function executeClose(
 // ─── WebSocket price handler ───────────────────────────────────────────────────
 
 async function onPriceUpdates(updates: any[]): Promise<void> {
-  const posData = readPositions();
-  if (!posData) return;
-
-  const openPositions = posData.positions.filter((p) => p.status === 'open');
+  const openPositions = readOpenPositions();
   if (openPositions.length === 0) return;
 
   const openByAddr = new Map(openPositions.map((p) => [p.address, p]));
-  let dirty = false;
-  let sellFired = false;
 
   for (const update of updates) {
     if (!update.address) continue;
@@ -409,45 +382,32 @@ async function onPriceUpdates(updates: any[]): Promise<void> {
         : parseFloat(update.priceUsd ?? update.priceNative ?? '0') || 0;
     if (price <= 0) continue;
 
-    const posInData = posData.positions.find((p) => p.id === pos.id);
-    if (posInData && posInData.currentPrice !== price) {
-      posInData.currentPrice = price;
-      dirty = true;
+    if (pos.currentPrice !== price) {
+      journal.patchPosition<Position>(pos.id, { currentPrice: price });
     }
 
     if (closingPositions.has(pos.id)) continue;
     const pnlPct = ((price - pos.entryPrice) / pos.entryPrice) * 100;
 
     const sl = effectiveSL(pos.exitStage);
+    const { partial1Pct, partial2Pct, finalTpPct } = profile.risk;
 
-    if (pos.exitStage === 0 && pnlPct >= PARTIAL_1_PCT) {
+    if (pos.exitStage === 0 && pnlPct >= partial1Pct) {
       log(`  ⚡ WS Stage 1: ${pos.symbol} (+${pnlPct.toFixed(1)}%) → selling 1/3`);
-      sellFired = true;
-      executePartialSell(pos, price, 1, PARTIAL_1_PCT)
+      executePartialSell(pos, price, 1, partial1Pct)
         .catch((e) => log(`  Partial error: ${e?.message}`));
-    } else if (pos.exitStage === 1 && pnlPct >= PARTIAL_2_PCT) {
+    } else if (pos.exitStage === 1 && pnlPct >= partial2Pct) {
       log(`  ⚡ WS Stage 2: ${pos.symbol} (+${pnlPct.toFixed(1)}%) → selling 1/3`);
-      sellFired = true;
-      executePartialSell(pos, price, 2, PARTIAL_2_PCT)
+      executePartialSell(pos, price, 2, partial2Pct)
         .catch((e) => log(`  Partial error: ${e?.message}`));
-    } else if (pos.exitStage === 2 && pnlPct >= FINAL_TP_PCT) {
+    } else if (pos.exitStage === 2 && pnlPct >= finalTpPct) {
       log(`  ⚡ WS Final TP: ${pos.symbol} (+${pnlPct.toFixed(1)}%)`);
-      sellFired = true;
       executeClose(pos, price, 'TP').catch((e) => log(`  Close error: ${e?.message}`));
     } else if (pnlPct <= sl) {
       log(`  ⚡ WS SL: ${pos.symbol} (${pnlPct.toFixed(1)}% ≤ ${sl}% stage${pos.exitStage})`);
-      sellFired = true;
       executeClose(pos, price, 'SL').catch((e) => log(`  Close error: ${e?.message}`));
     }
   }
-
-  // Only write price updates when no sells were fired.
-  // Async sells read fresh posData and write their own updates;
-  // writing stale posData here would clobber stage/status changes.
-  if (dirty && !sellFired) {
-    posData.lastUpdated = new Date().toISOString();
-    writePositions(posData);
-  }
 }
 
 // ─── WebSocket feed ───────────────────────────────────────────────────────────
@@ -486,21 +446,17 @@ async function startWebSocketFeed(): Promise<void> {
 
 async function ageCheckLoop(): Promise<void> {
   try {
-    const posData = readPositions();
-    if (!posData) return;
-
-    const openPositions = posData.positions.filter((p) => p.status === 'open');
-    for (const pos of openPositions) {
+    for (const pos of readOpenPositions()) {
       if (closingPositions.has(pos.id)) continue;
       const ageMs = Date.now() - new Date(pos.entryTime).getTime();
-      if (ageMs < MAX_HOLD_MS) continue;
+      if (ageMs < profile.risk.maxHoldMin * 60_000) continue;
 
       const currentPrice = await getCurrentPrice(pos.address);
       if (currentPrice === null) {
         log(`  ${pos.symbol}: price fetch failed for time exit, skipping`);
         continue;
       }
-      log(`  ⏱ TIME EXIT: ${pos.symbol} held ${(ageMs / 60_000).toFixed(0)}min ≥ 20min`);
+      log(`  ⏱ TIME EXIT: ${pos.symbol} held ${(ageMs / 60_000).toFixed(0)}min ≥ ${profile.risk.maxHoldMin}min`);
       await executeClose(pos, currentPrice, 'TIME');
     }
   } catch (err: any) {
@@ -512,14 +468,10 @@ async function ageCheckLoop(): Promise<void> {
 
 async function riskLoop(): Promise<void> {
   try {
-    const posData = readPositions();
-    if (!posData) return;
-
-    const openPositions = posData.positions.filter((p) => p.status === 'open');
+    const openPositions = readOpenPositions();
     if (openPositions.length === 0) return;
 
     log(`Poll: checking ${openPositions.length} open position(s)...`);
-    let dirty = false;
 
     for (const pos of openPositions) {
       try {
@@ -531,10 +483,7 @@ async function riskLoop(): Promise<void> {
           continue;
         }
 
-        const posInData = posData.positions.find((p) => p.id === pos.id);
-        if (!posInData) continue;
-        posInData.currentPrice = currentPrice;
-        dirty = true;
+        journal.patchPosition<Position>(pos.id, { currentPrice });
 
         const pnlPct = ((currentPrice - pos.entryPrice) / pos.entryPrice) * 100;
         log(
@@ -544,86 +493,139 @@ async function riskLoop(): Promise<void> {
         );
 
         const sl = effectiveSL(pos.exitStage);
+        const { partial1Pct, partial2Pct, finalTpPct } = profile.risk;
 
-        if (pos.exitStage === 0 && pnlPct >= PARTIAL_1_PCT) {
+        if (pos.exitStage === 0 && pnlPct >= partial1Pct) {
           log(`  🎯 Poll Stage 1: ${pos.symbol} (+${pnlPct.toFixed(1)}%) → selling 1/3`);
-          if (dirty) {
-            posData.lastUpdated = new Date().toISOString();
-            writePositions(posData);
-            dirty = false;
-          }
-          await executePartialSell(pos, currentPrice, 1, PARTIAL_1_PCT);
-        } else if (pos.exitStage === 1 && pnlPct >= PARTIAL_2_PCT) {
+          await executePartialSell(pos, currentPrice, 1, partial1Pct);
+        } else if (pos.exitStage === 1 && pnlPct >= partial2Pct) {
           log(`  🎯 Poll Stage 2: ${pos.symbol} (+${pnlPct.toFixed(1)}%) → selling 1/3`);
-          if (dirty) {
-            posData.lastUpdated = new Date().toISOString();
-            writePositions(posData);
-            dirty = false;
-          }
-          await executePartialSell(pos, currentPrice, 2, PARTIAL_2_PCT);
-        } else if (pos.exitStage === 2 && pnlPct >= FINAL_TP_PCT) {
+          await executePartialSell(pos, currentPrice, 2, partial2Pct);
+        } else if (pos.exitStage === 2 && pnlPct >= finalTpPct) {
           log(`  🎯 Poll Final TP: ${pos.symbol} (+${pnlPct.toFixed(1)}%)`);
-          if (dirty) {
-            posData.lastUpdated = new Date().toISOString();
-            writePositions(posData);
-            dirty = false;
-          }
           await executeClose(pos, currentPrice, 'TP');
         } else if (pnlPct <= sl) {
           log(`  🛑 Poll SL: ${pos.symbol} (${pnlPct.toFixed(1)}% ≤ ${sl}% stage${pos.exitStage})`);
-          if (dirty) {
-            posData.lastUpdated = new Date().toISOString();
-            writePositions(posData);
-            dirty = false;
-          }
           await executeClose(pos, currentPrice, 'SL');
         }
       } catch (err: any) {
         log(`  Error checking ${pos.symbol}: ${err?.message ?? err}`);
       }
     }
-
-    if (dirty) {
-      posData.lastUpdated = new Date().toISOString();
-      writePositions(posData);
-    }
   } catch (err: any) {
     log(`Risk loop error: ${err?.message ?? err}`);
   }
 }
 
+// ─── Circuit breaks ───────────────────────────────────────────────────────────
+
+function resumeNote(b: ActiveBreaker): string {
+  return b.resumeAt ? `(cool-off until ${b.resumeAt})` : '(manual resume required)';
+}
+
+function announceBreak(b: ActiveBreaker): void {
+  bus.publish('CIRCUIT_BREAK', {
+    reason: b.reason,
+    consecutiveLosses: b.rule === 'consecutiveSl' ? b.value : 0,
+    rule: b.rule,
+  });
+}
+
 // ─── Entry point ─────────────────────────────────────────────────────────────
 
 async function main() {
   log('Starting risk manager...');
 
-  await authenticate();
-
-  if (!fs.existsSync(LOG_PATH)) {
-    fs.writeFileSync(
-      LOG_PATH,
-      JSON.stringify({ lastUpdated: new Date().toISOString(), trades: [] }, null, 2),
-    );
-  }
+  const loaded = loadProfile();
+  profile = loaded.profile;
+  log(`Strategy profile: ${describeProfile(profile)} (${loaded.source})`);
+
+  journal = openJournal();
+  breakers = createCircuitBreakers({
+    journal,
+    profile: () => profile,
+    onTrip: (b) => {
+      log(`🚨 CIRCUIT BREAK (${b.rule}): ${b.reason} — halting trading ${resumeNote(b)}`);
+      announceBreak(b);
+    },
+    onResume: (b, how, remaining) => {
+      log(`✅ Breaker ${b.rule} lifted (${how})`);
+      if (remaining.length > 0) return log(`Still halted by ${remaining.map((r) => r.rule).join(', ')}`);
+      log('✅ Circuit break lifted — trading resumed');
+      bus.publish('CIRCUIT_RESUME', {});
+    },
+    log,
+  });
+  await sessions.start();
 
   // Connect to bus — receive new position notifications + send circuit breaks
   bus = await tryConnectBus('RISK', (msg) => {
-    if (msg.type === 'POSITION_OPENED') {
+    if (msg.type === 'TRADE_COMPLETE') {
+      // SCALPER exits count toward the breakers too (RISK's own are checked in executeClose)
+      breakers.checkTrades();
+    } else if (msg.type === 'BALANCE_UPDATE') {
+      breakers.noteBalance(msg.data.solBalance);
+    } else if (msg.type === 'POSITION_OPENED') {
       log(`📥 Position opened via bus: ${msg.data?.symbol} (${msg.data?.source}) — monitoring started`);
       // Trigger immediate risk check so we don't wait for the 8s poll
       riskLoop().catch(() => {});
+    } else if (msg.type === 'PROFILE_UPDATE') {
+      if (validateProfile(msg.data?.profile).length > 0) return log('Ignoring invalid PROFILE_UPDATE');
+      profile = msg.data.profile;
+      log(`Strategy profile updated: ${describeProfile(profile)}`);
+      breakers.checkTrades();
     }
-  });
+  }, { topics: ['POSITION_OPENED', 'PROFILE_UPDATE', 'TRADE_COMPLETE', 'BALANCE_UPDATE'] });
   log('Connected to message bus — instant position monitoring active');
 
-  await startWebSocketFeed();
+  // Breakers still active from before a restart hold trading again
+  for (const b of breakers.active()) {
+    log(`🚨 Breaker ${b.rule} still active from ${b.trippedAt}: ${b.reason} ${resumeNote(b)}`);
+    announceBreak(b);
+  }
+  breakers.checkTrades();
+
+  // TRADER and SCALPER ask before every buy
+  bus.handle('risk.canOpen', ({ tokenAddress }) => {
+    const active = breakers.active();
+    if (active.length > 0) {
+      return { allowed: false, reason: `circuit break active (${active.map((b) => `${b.rule}: ${b.reason}`).join('; ')})` };
+    }
+    const held = journal.getPositions<Position>(['trader', 'scalper'], 'open');
+    if (held.some((p) => p.address === tokenAddress)) {
+      return { allowed: false, reason: 'token already held' };
+    }
+    return { allowed: true };
+  });
+
+  // Operator force-close (ALPHA status API)
+  bus.handle('position.forceClose', async ({ positionId }) => {
+    const pos = journal.getPositions<Position>('trader', 'open').find((p) => p.id === positionId);
+    if (!pos) throw new Error(`no open trader position ${positionId}`);
+    const price = (await getCurrentPrice(pos.address)) ?? pos.currentPrice ?? pos.entryPrice;
+    log(`✋ Force-close requested for ${pos.symbol}`);
+    await executeClose(pos, price, 'MANUAL');
+    const after = journal.getPosition<Position>(positionId);
+    if (after?.status !== 'closed') throw new Error(`sell of ${pos.symbol} did not go through — see RISK log`);
+    return { positionId, symbol: pos.symbol, exitPrice: price, pnlPct: ((price - pos.entryPrice) / pos.entryPrice) * 100 };
+  });
 
-  const refreshInterval = setInterval(authenticate, SESSION_REFRESH_MS);
+  // Operator breaker control (ALPHA status API)
+  bus.handle('risk.breakers', () => breakers.status());
+  bus.handle('risk.resume', ({ rule }) => {
+    if (rule !== undefined && !isBreakerRule(rule)) throw new Error(`unknown breaker rule "${rule}"`);
+    const resumed = breakers.resume(rule);
+    if (rule !== undefined && resumed.length === 0) throw new Error(`breaker ${rule} is not active`);
+    return { resumed, status: breakers.status() };
+  });
+
+  await startWebSocketFeed();
 
   await riskLoop();
   await ageCheckLoop();
 
   const pollInterval = setInterval(async () => {
+    breakers.tick();
     await riskLoop();
     await ageCheckLoop();
   }, POLL_MS);
@@ -631,8 +633,9 @@ async function main() {
   const shutdown = () => {
     log('Shutting down risk manager');
     clearInterval(pollInterval);
-    clearInterval(refreshInterval);
+    sessions.stop();
     bus.close();
+    journal.close();
     process.exit(0);
   };
   process.on('SIGTERM', shutdown);
@@ -640,9 +643,9 @@ async function main() {
 
   log(
     `Risk manager running | WS: real-time | Poll fallback: ${POLL_MS / 1000}s` +
-    ` | Exits: +${PARTIAL_1_PCT}%/+${PARTIAL_2_PCT}%/+${FINAL_TP_PCT}% (1/3 each)` +
-    ` | SL: ${STOP_LOSS_PCT}%→${TRAILING_SL_STAGE1}%→+${TRAILING_SL_STAGE2}%` +
-    ` | Max hold: 20min | Poll: ${POLL_MS / 1000}s`,
+    ` | Exits: +${profile.risk.partial1Pct}%/+${profile.risk.partial2Pct}%/+${profile.risk.finalTpPct}% (1/3 each)` +
+    ` | SL: ${profile.risk.stopLossPct}%→${profile.risk.trailingSlStage1Pct}%→+${profile.risk.trailingSlStage2Pct}%` +
+    ` | Max hold: ${profile.risk.maxHoldMin}min | Poll: ${POLL_MS / 1000}s`,
   );
 }
 
@@ -1,9 +1,11 @@
 /**
  * Agent 5 — SCALPER
  * Watches the watchlist for freshly launched tokens (0–2 min old).
- * Buys the most active fresh token immediately on detection.
+ * Buys the most active fresh token immediately on detection (after a
+ * risk.canOpen check with RISK over the bus).
  * Exits at +10% TP, -3% SL, trailing stop (+3% activate / 2% drop),
- * or 30s max hold — whichever hits first.
+ * or 30s max hold — whichever hits first. (Defaults — every threshold
+ * comes from the scalper section of the strategy profile, pumpfun-profile.ts.)
  *
  * Filters (minimal, speed > precision):
  *   - NOT Token-2022
@@ -12,6 +14,9 @@
  *   - bondingCurveProgress ≥ 3%
  *   - marketCap ≥ $500
  *
+ * Positions and closed scalps live in the trade journal (journal.ts,
+ * book "scalper").
+ *
  * Run standalone: ts-node src/pumpfun-scalper.ts
  */
 
@@ -19,48 +24,69 @@ import WebSocket from 'ws';
 (globalThis as any).WebSocket = WebSocket;
 
 import * as fs from 'fs';
-import { createAuthenticatedSession, GDEXSession } from './auth';
+import { createSessionManager, GDEXSession } from './auth';
 import { buyToken, sellToken, formatSolAmount } from './trading';
-import { tryConnectBus, BusClient } from './pumpfun-bus';
+import { describeFill, exitPnl } from './fills';
+import { tryConnectBus, offlineBus, BusClient } from './pumpfun-bus';
+import { loadProfile, validateProfile, describeProfile, StrategyProfile } from './pumpfun-profile';
+import { openJournal, Journal } from './journal';
+import { newClientOrderId } from './order-registry';
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
 const SOLANA = 622112261;
-const BUY_SOL = 0.005;
-const MAX_POSITIONS = 3;
-const FRESH_MAX_AGE_MS = 2 * 60 * 1000;   // buy window: 0–2 min old
-const SCALP_TP_PCT = 10;                   // hard TP cap (down from 20)
-const SCALP_SL_PCT = -3;
-const TRAIL_ACTIVATE_PCT = 3;              // start trailing once up +3%
-const TRAIL_DROP_PCT = 2;                  // exit if drops 2% below peak
-const MAX_HOLD_MS = 30 * 1000;              // eject at 30s regardless
-const MIN_TX_COUNT = 5;
-const MIN_BC_PROGRESS = 3;
-const MIN_MCAP = 500;
-const RETRY_COOLDOWN_MS = 3 * 60 * 1000;
 const POLL_MS = 30_000; // safety-net fallback — primary trigger is TOKENS_UPDATE event
 const SESSION_REFRESH_MS = 25 * 60 * 1000;
-// Reserve per open position so there's always enough SOL to pay exit tx fees.
-const GAS_RESERVE_PER_POSITION = 0.003;
-const MIN_SOL_FLOOR = 0.005;
-const WATCHLIST_PATH = '/tmp/pumpfun-watchlist.json';
-const POSITIONS_PATH = '/tmp/pumpfun-scalp-positions.json';
-const REGULAR_POSITIONS_PATH = '/tmp/pumpfun-positions.json';
-const LOG_PATH = '/tmp/pumpfun-log.json';
 const BALANCE_PATH = '/tmp/pumpfun-balance.json';
 
+// Refreshed in place by the session manager — before the server TTL and on auth errors
 let session: GDEXSession;
+const sessions = createSessionManager({ chainIds: [SOLANA, 42161], refreshAfterMs: SESSION_REFRESH_MS });
+sessions.on('refresh', (e) => {
+  session = e.session;
+  for (const f of e.failedChains) log(`Auth on chain ${f.chainId} failed (${f.error})`);
+  log(e.chainId === SOLANA ? `Authenticated on Solana chain ${SOLANA} (${e.reason})` : `Authenticated on Arbitrum (fallback, ${e.reason})`);
+});
+sessions.on('refresh-error', (err) => log(`Session refresh failed: ${err.message} — keeping the current session`));
 const closingPositions = new Set<string>();
 
+// Strategy profile — loaded in main(), replaced by PROFILE_UPDATE from ALPHA
+let profile: StrategyProfile;
+
+// Trade journal — opened in main()
+let journal: Journal;
+
 // Bus client — no-op until connected
-let bus: BusClient = { publish: () => {}, log: () => {}, close: () => {} };
+let bus: BusClient = offlineBus();
 
-// Circuit break flag — set true by RISK when consecutive losses detected
-let circuitBroken = false;
+// Circuit breaks by sender — RISK (consecutive losses) and ALPHA (RISK down,
+// operator pause) each lift only their own; halted while any is held
+const circuitBreaks = new Set<string>();
+const isCircuitBroken = () => circuitBreaks.size > 0;
 
 // Cached SOL balance — updated by BALANCE_UPDATE bus events from SCANNER
 let cachedSolBalance: number | null = null;
 
+// RISK gets this long to answer risk.canOpen before we buy without it
+const RISK_CHECK_TIMEOUT_MS = 2_000;
+
+/**
+ * Ask RISK whether a new position may be opened. A veto blocks the buy; an
+ * unreachable or slow RISK does not — same rule as the balance guard.
+ */
+async function riskAllows(tokenAddress: string, symbol: string, amountSol: number): Promise<boolean> {
+  try {
+    const verdict = await bus.request(
+      'RISK', 'risk.canOpen', { source: 'scalper', tokenAddress, amountSol }, RISK_CHECK_TIMEOUT_MS,
+    );
+    if (!verdict.allowed) log(`  RISK veto ${symbol}: ${verdict.reason ?? 'no reason given'}`);
+    return verdict.allowed;
+  } catch (err: any) {
+    log(`  RISK check unavailable (${err?.message ?? err}) — proceeding`);
+    return true;
+  }
+}
+
 function readSolBalance(): number | null {
   try {
     const data = JSON.parse(fs.readFileSync(BALANCE_PATH, 'utf8'));
@@ -96,70 +122,31 @@ interface ScalpPosition {
   peakPrice: number;
   entryTime: string;
   amountLamports: string;
+  /** Actual SOL paid, fee and tip included, when the buy's fill was read — else the order size */
   solSpent: number;
   status: 'open' | 'closed';
   txHash: string | null;
+  /** From the buy's on-chain fill (fills.ts), when it could be read */
+  entryPriceNative?: number;
+  tokenAmount?: number;
+  entryFeeSol?: number;
+  entryTipSol?: number;
+  entrySlippagePct?: number | null;
   exitPrice?: number;
+  exitPriceNative?: number;
   exitTime?: string;
-  exitReason?: 'TP' | 'SL' | 'TIME';
+  exitReason?: 'TP' | 'SL' | 'TIME' | 'MANUAL';
   exitTxHash?: string | null;
 }
 
-interface PositionsFile {
-  lastUpdated: string;
-  positions: ScalpPosition[];
-}
-
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
 function log(msg: string) {
   process.stderr.write(`[SCALPER ${new Date().toISOString()}] ${msg}\n`);
 }
 
-async function authenticate(): Promise<void> {
-  try {
-    session = await createAuthenticatedSession({ chainId: SOLANA });
-    log(`Authenticated on Solana chain ${SOLANA}`);
-  } catch (err: any) {
-    log(`Solana auth failed (${err?.message}), falling back to Arbitrum...`);
-    session = await createAuthenticatedSession({ chainId: 42161 });
-    log('Authenticated on Arbitrum (fallback)');
-  }
-}
-
-function readPositions(): PositionsFile {
-  try {
-    if (!fs.existsSync(POSITIONS_PATH)) {
-      return { lastUpdated: new Date().toISOString(), positions: [] };
-    }
-    return JSON.parse(fs.readFileSync(POSITIONS_PATH, 'utf8'));
-  } catch {
-    return { lastUpdated: new Date().toISOString(), positions: [] };
-  }
-}
-
-function writePositions(data: PositionsFile) {
-  const tmp = POSITIONS_PATH + '.tmp';
-  fs.writeFileSync(tmp, JSON.stringify(data, null, 2));
-  fs.renameSync(tmp, POSITIONS_PATH);
-}
-
-function appendToLog(trade: object) {
-  try {
-    let logData: { lastUpdated: string; trades: any[] };
-    try {
-      logData = JSON.parse(fs.readFileSync(LOG_PATH, 'utf8'));
-    } catch {
-      logData = { lastUpdated: new Date().toISOString(), trades: [] };
-    }
-    logData.trades.push(trade);
-    logData.lastUpdated = new Date().toISOString();
-    const tmp = LOG_PATH + '.tmp';
-    fs.writeFileSync(tmp, JSON.stringify(logData, null, 2));
-    fs.renameSync(tmp, LOG_PATH);
-  } catch {
-    // Non-fatal
-  }
+function readOpenPositions(): ScalpPosition[] {
+  return journal.getPositions<ScalpPosition>('scalper', 'open');
 }
 
 async function getCurrentPrice(address: string): Promise<number | null> {
@@ -181,11 +168,12 @@ async function getCurrentPrice(address: string): Promise<number | null> {
 function isScalpCandidate(t: WatchedToken): boolean {
   if (t.securities?.mintAbility) return false;
   if (t.securities?.freezeAbility) return false;
+  const { freshMaxAgeSec, minTxCount, minBcProgress, minMcap } = profile.scalper;
   const ageMs = Date.now() - new Date(t.firstSeen).getTime();
-  if (ageMs > FRESH_MAX_AGE_MS) return false;
-  if ((t.txCount ?? 0) < MIN_TX_COUNT) return false;
-  if ((t.bondingCurveProgress ?? 0) < MIN_BC_PROGRESS) return false;
-  if ((t.marketCap ?? 0) < MIN_MCAP) return false;
+  if (ageMs > freshMaxAgeSec * 1000) return false;
+  if ((t.txCount ?? 0) < minTxCount) return false;
+  if ((t.bondingCurveProgress ?? 0) < minBcProgress) return false;
+  if ((t.marketCap ?? 0) < minMcap) return false;
   if (!t.price || t.price <= 0) return false;
   // Anti-rug: reject tokens whose price is falling
   if (t.prevPrice && t.prevPrice > 0 && t.price < t.prevPrice * 0.95) {
@@ -199,67 +187,76 @@ function isScalpCandidate(t: WatchedToken): boolean {
 async function executeClose(
   pos: ScalpPosition,
   currentPrice: number,
-  reason: 'TP' | 'SL' | 'TIME',
+  reason: 'TP' | 'SL' | 'TIME' | 'MANUAL',
 ): Promise<void> {
   if (closingPositions.has(pos.id)) return;
   closingPositions.add(pos.id);
 
   try {
-    const posData = readPositions();
-    const posInData = posData.positions.find((p) => p.id === pos.id);
+    const posInData = journal.getPosition<ScalpPosition>(pos.id);
     if (!posInData || posInData.status !== 'open') return;
 
-    let sellResult = await sellToken(session, {
+    // Same id on every attempt: a close that already landed is not sold again
+    const sellResult = await sessions.withSession((s) => sellToken(s, {
       tokenAddress: pos.address,
       amount: pos.amountLamports,
       chainId: SOLANA,
-    });
-
-    if (!sellResult.isSuccess) {
-      log(`  Sell failed — refreshing session and retrying...`);
-      await authenticate();
-      sellResult = await sellToken(session, {
-        tokenAddress: pos.address,
-        amount: pos.amountLamports,
-        chainId: SOLANA,
-      });
-    }
+      clientOrderId: `${pos.id}-close`,
+    }));
 
     if (!sellResult.isSuccess) {
       log(
-        `  ❌ Sell retry failed for ${pos.symbol}: ` +
+        `  ❌ Sell failed for ${pos.symbol}: ` +
         `${sellResult.message ?? JSON.stringify(sellResult)}`,
       );
       return;
     }
 
-    const pnlPct = ((currentPrice - pos.entryPrice) / pos.entryPrice) * 100;
+    // Actual proceeds when the sell's fill was read, else the price move
+    const { pnl: pnlSol, pnlPct } = exitPnl(
+      pos.solSpent, ((currentPrice - pos.entryPrice) / pos.entryPrice) * 100, sellResult,
+    );
     const exitTime = new Date().toISOString();
-    const pnlSol = pos.solSpent * (pnlPct / 100);
-
-    posInData.status = 'closed';
-    posInData.exitPrice = currentPrice;
-    posInData.exitTime = exitTime;
-    posInData.exitReason = reason;
-    posInData.exitTxHash = sellResult.hash ?? null;
-    posData.lastUpdated = exitTime;
-    writePositions(posData);
-
-    appendToLog({
-      id: pos.id, address: pos.address, name: pos.name, symbol: pos.symbol,
-      entryPrice: pos.entryPrice, exitPrice: currentPrice,
-      entryTime: pos.entryTime, exitTime,
-      exitReason: reason, solSpent: pos.solSpent,
-      pnlSol, pnlPct, exitTxHash: sellResult.hash ?? null, type: 'scalp',
+
+    journal.applyExit<ScalpPosition>(pos.id, {
+      patch: {
+        status: 'closed', currentPrice, exitPrice: currentPrice, exitTime,
+        exitReason: reason, exitTxHash: sellResult.hash ?? null, exitPriceNative: sellResult.executedPrice,
+      },
+      fill: {
+        side: 'sell', price: currentPrice, amount: pos.amountLamports,
+        value: pos.solSpent + pnlSol, txHash: sellResult.hash ?? null, reason,
+      },
+      trade: {
+        id: pos.id, address: pos.address, name: pos.name, symbol: pos.symbol,
+        entryPrice: pos.entryPrice, exitPrice: currentPrice,
+        entryTime: pos.entryTime, exitTime,
+        exitReason: reason, solSpent: pos.solSpent,
+        pnlSol, pnlPct, exitTxHash: sellResult.hash ?? null, type: 'scalp',
+        entryPriceNative: pos.entryPriceNative, exitPriceNative: sellResult.executedPrice,
+        solReceived: sellResult.nativeAmount, exitFeeSol: sellResult.fee, exitTipSol: sellResult.tip,
+        exitSlippagePct: sellResult.slippagePct,
+      },
     });
 
-    const emoji = reason === 'TP' ? '✅' : reason === 'TIME' ? '⏱' : '❌';
+    const emoji = reason === 'TP' ? '✅' : reason === 'TIME' ? '⏱' : reason === 'MANUAL' ? '✋' : '❌';
     log(
       `  ${emoji} SCALP CLOSED ${pos.symbol} | ${reason} ` +
       `| P&L: ${pnlPct >= 0 ? '+' : ''}${pnlPct.toFixed(1)}%` +
       ` (${pnlSol >= 0 ? '+' : ''}${pnlSol.toFixed(4)} SOL)` +
-      ` | tx: ${sellResult.hash ?? 'n/a'}`,
+      ` | tx: ${sellResult.hash ?? 'n/a'}${describeFill(sellResult)}`,
     );
+
+    bus.publish('TRADE_COMPLETE', {
+      positionId: pos.id,
+      tokenAddress: pos.address,
+      symbol: pos.symbol,
+      pnlPct,
+      pnlSol,
+      reason,
+      holdMs: Date.now() - new Date(pos.entryTime).getTime(),
+      source: 'scalper',
+    });
   } finally {
     closingPositions.delete(pos.id);
   }
@@ -268,13 +265,10 @@ async function executeClose(
 // ─── WebSocket price handler ───────────────────────────────────────────────────
 
 async function onPriceUpdates(updates: any[]): Promise<void> {
-  const posData = readPositions();
-  const openPositions = posData.positions.filter((p) => p.status === 'open');
+  const openPositions = readOpenPositions();
   if (openPositions.length === 0) return;
 
   const openByAddr = new Map(openPositions.map((p) => [p.address, p]));
-  let dirty = false;
-  let sellFired = false;
 
   for (const update of updates) {
     if (!update.address) continue;
@@ -287,58 +281,41 @@ async function onPriceUpdates(updates: any[]): Promise<void> {
         : parseFloat(update.priceUsd ?? update.priceNative ?? '0') || 0;
     if (price <= 0) continue;
 
-    const posInData = posData.positions.find((p) => p.id === pos.id);
-    if (posInData && posInData.currentPrice !== price) {
-      posInData.currentPrice = price;
-      dirty = true;
+    // Track peak price for trailing stop
+    const peak = Math.max(pos.peakPrice ?? pos.entryPrice, price);
+    if (pos.currentPrice !== price || peak !== pos.peakPrice) {
+      journal.patchPosition<ScalpPosition>(pos.id, { currentPrice: price, peakPrice: peak });
     }
 
     if (closingPositions.has(pos.id)) continue;
     const pnlPct = ((price - pos.entryPrice) / pos.entryPrice) * 100;
 
-    // Track peak price for trailing stop
-    if (posInData && price > (posInData.peakPrice ?? pos.entryPrice)) {
-      posInData.peakPrice = price;
-      dirty = true;
-    }
-
-    if (pnlPct >= SCALP_TP_PCT) {
+    const { tpPct, slPct, trailActivatePct, trailDropPct } = profile.scalper;
+    if (pnlPct >= tpPct) {
       log(`  ⚡ WS TP: ${pos.symbol} (+${pnlPct.toFixed(1)}%)`);
-      sellFired = true;
       executeClose(pos, price, 'TP').catch((e) => log(`  Close error: ${e?.message}`));
-    } else if (pnlPct <= SCALP_SL_PCT) {
+    } else if (pnlPct <= slPct) {
       log(`  ⚡ WS SL: ${pos.symbol} (${pnlPct.toFixed(1)}%)`);
-      sellFired = true;
       executeClose(pos, price, 'SL').catch((e) => log(`  Close error: ${e?.message}`));
     } else {
-      // Trailing stop: once up +3%, exit if drops 2% below peak
-      const peak = posInData?.peakPrice ?? pos.entryPrice;
+      // Trailing stop: once up trailActivatePct, exit if drops trailDropPct below peak
       const peakPnl = ((peak - pos.entryPrice) / pos.entryPrice) * 100;
-      if (peakPnl >= TRAIL_ACTIVATE_PCT) {
+      if (peakPnl >= trailActivatePct) {
         const dropFromPeak =
           ((peak - price) / peak) * 100;
-        if (dropFromPeak >= TRAIL_DROP_PCT) {
+        if (dropFromPeak >= trailDropPct) {
           log(
             `  ⚡ WS TRAIL: ${pos.symbol}` +
             ` peak +${peakPnl.toFixed(1)}%` +
             ` now +${pnlPct.toFixed(1)}%` +
             ` (dropped ${dropFromPeak.toFixed(1)}% from peak)`,
           );
-          sellFired = true;
           executeClose(pos, price, 'TP')
             .catch((e) => log(`  Close error: ${e?.message}`));
         }
       }
     }
   }
-
-  // Only write price updates when no sells were fired.
-  // Async sells read fresh posData and write their own updates;
-  // writing stale posData here would clobber status changes.
-  if (dirty && !sellFired) {
-    posData.lastUpdated = new Date().toISOString();
-    writePositions(posData);
-  }
 }
 
 // ─── WebSocket feed ───────────────────────────────────────────────────────────
@@ -377,10 +354,7 @@ async function startWebSocketFeed(): Promise<void> {
 
 async function ageCheckLoop(): Promise<void> {
   try {
-    const posData = readPositions();
-    const open = posData.positions.filter((p) => p.status === 'open');
-
-    for (const pos of open) {
+    for (const pos of readOpenPositions()) {
       if (closingPositions.has(pos.id)) continue;
 
       const currentPrice = await getCurrentPrice(pos.address);
@@ -388,27 +362,19 @@ async function ageCheckLoop(): Promise<void> {
 
       // Update peak price via REST poll
       if (currentPrice && currentPrice > (pos.peakPrice ?? pos.entryPrice)) {
-        const fresh = readPositions();
-        const fp = fresh.positions.find(
-          (p) => p.id === pos.id && p.status === 'open',
-        );
-        if (fp) {
-          fp.peakPrice = currentPrice;
-          fp.currentPrice = currentPrice;
-          fresh.lastUpdated = new Date().toISOString();
-          writePositions(fresh);
-        }
+        journal.patchPosition<ScalpPosition>(pos.id, { peakPrice: currentPrice, currentPrice });
       }
 
       const pnlPct = ((price - pos.entryPrice) / pos.entryPrice) * 100;
 
       // Hard TP / SL
-      if (pnlPct >= SCALP_TP_PCT) {
+      const { tpPct, slPct, trailActivatePct, trailDropPct, maxHoldSec } = profile.scalper;
+      if (pnlPct >= tpPct) {
         log(`  ⚡ POLL TP: ${pos.symbol} (+${pnlPct.toFixed(1)}%)`);
         await executeClose(pos, price, 'TP');
         continue;
       }
-      if (pnlPct <= SCALP_SL_PCT) {
+      if (pnlPct <= slPct) {
         log(`  ⚡ POLL SL: ${pos.symbol} (${pnlPct.toFixed(1)}%)`);
         await executeClose(pos, price, 'SL');
         continue;
@@ -417,9 +383,9 @@ async function ageCheckLoop(): Promise<void> {
       // Trailing stop check (poll fallback)
       const peak = pos.peakPrice ?? pos.entryPrice;
       const peakPnl = ((peak - pos.entryPrice) / pos.entryPrice) * 100;
-      if (peakPnl >= TRAIL_ACTIVATE_PCT && currentPrice) {
+      if (peakPnl >= trailActivatePct && currentPrice) {
         const dropFromPeak = ((peak - price) / peak) * 100;
-        if (dropFromPeak >= TRAIL_DROP_PCT) {
+        if (dropFromPeak >= trailDropPct) {
           log(
             `  ⚡ POLL TRAIL: ${pos.symbol}` +
             ` peak +${peakPnl.toFixed(1)}%` +
@@ -433,10 +399,10 @@ async function ageCheckLoop(): Promise<void> {
 
       // Time-based exit
       const ageMs = Date.now() - new Date(pos.entryTime).getTime();
-      if (ageMs >= MAX_HOLD_MS) {
+      if (ageMs >= maxHoldSec * 1000) {
         log(
           `  ⏱ TIME EXIT: ${pos.symbol}` +
-          ` held ${(ageMs / 1000).toFixed(0)}s ≥ 30s`,
+          ` held ${(ageMs / 1000).toFixed(0)}s ≥ ${maxHoldSec}s`,
         );
         await executeClose(pos, price, 'TIME');
       }
@@ -451,17 +417,19 @@ async function ageCheckLoop(): Promise<void> {
 // incomingTokens: provided by TOKENS_UPDATE bus event (skips file read)
 async function scalpLoop(attempted: Map<string, number>, incomingTokens?: WatchedToken[]): Promise<void> {
   try {
-    if (circuitBroken) return; // respect circuit break from RISK
+    if (isCircuitBroken()) return; // respect circuit breaks from RISK / ALPHA
 
-    const posData = readPositions();
-    const openCount = posData.positions.filter((p) => p.status === 'open').length;
-    if (openCount >= MAX_POSITIONS) return;
+    const { buySol, maxPositions, retryCooldownSec } = profile.scalper;
+    const { gasReservePerPosition, minSolFloor } = profile.wallet;
+    const open = readOpenPositions();
+    const openCount = open.length;
+    if (openCount >= maxPositions) return;
 
     // ── SOL balance guard ─────────────────────────────────────────────────────
     // Only block on a *confirmed* low balance — never on a failed API read.
     const solBal = cachedSolBalance ?? readSolBalance();
     if (solBal !== null) {
-      const requiredSol = BUY_SOL + GAS_RESERVE_PER_POSITION * (openCount + 1) + MIN_SOL_FLOOR;
+      const requiredSol = buySol + gasReservePerPosition * (openCount + 1) + minSolFloor;
       if (solBal < requiredSol) {
         log(
           `⚠️  LOW SOL: ${solBal.toFixed(4)} available, ` +
@@ -472,45 +440,19 @@ async function scalpLoop(attempted: Map<string, number>, incomingTokens?: Watche
     }
 
     // Collect addresses AND symbols from both scalp and regular positions
-    const heldAddrs = new Set(
-      posData.positions.filter((p) => p.status === 'open').map((p) => p.address),
-    );
-    const heldSymbols = new Set(
-      posData.positions.filter((p) => p.status === 'open')
-        .map((p) => p.symbol.toUpperCase()),
-    );
-    try {
-      const regular = JSON.parse(
-        fs.readFileSync(REGULAR_POSITIONS_PATH, 'utf8'),
-      );
-      for (const p of regular.positions ?? []) {
-        if (p.status === 'open') {
-          heldAddrs.add(p.address);
-          heldSymbols.add((p.symbol ?? '').toUpperCase());
-        }
-      }
-    } catch {
-      // Regular positions file may not exist yet
-    }
+    const held = [...open, ...journal.getPositions('trader', 'open')];
+    const heldAddrs = new Set(held.map((p) => p.address));
+    const heldSymbols = new Set(held.map((p) => (p.symbol ?? '').toUpperCase()));
 
-    let tokens: WatchedToken[];
-    if (incomingTokens) {
-      tokens = incomingTokens;
-    } else {
-      try {
-        const wl = JSON.parse(fs.readFileSync(WATCHLIST_PATH, 'utf8'));
-        tokens = wl?.tokens ?? [];
-      } catch {
-        return; // Watchlist not ready yet
-      }
-    }
+    const tokens = incomingTokens ?? journal.getWatchlist<WatchedToken>().tokens;
+    if (tokens.length === 0) return; // Watchlist not ready yet
 
     const now = Date.now();
     const candidates = tokens.filter((t) => {
       if (heldAddrs.has(t.address)) return false;
       if (heldSymbols.has(t.symbol.toUpperCase())) return false;
       const lastAttempt = attempted.get(t.address);
-      if (lastAttempt && now - lastAttempt < RETRY_COOLDOWN_MS) return false;
+      if (lastAttempt && now - lastAttempt < retryCooldownSec * 1000) return false;
       return isScalpCandidate(t);
     });
 
@@ -529,23 +471,19 @@ async function scalpLoop(attempted: Map<string, number>, incomingTokens?: Watche
 
     attempted.set(target.address, now);
 
-    let result = await buyToken(session, {
+    if (!(await riskAllows(target.address, target.symbol, buySol))) return;
+
+    // One id for this buy — a retry after a session refresh can't buy twice
+    const clientOrderId = newClientOrderId('scalper');
+    const result = await sessions.withSession((s) => buyToken(s, {
       tokenAddress: target.address,
-      amount: formatSolAmount(BUY_SOL),
+      amount: formatSolAmount(buySol),
       chainId: SOLANA,
-    });
-
-    if (!result.isSuccess) {
-      log('Buy failed — refreshing session and retrying once...');
-      await authenticate();
-      result = await buyToken(session, {
-        tokenAddress: target.address,
-        amount: formatSolAmount(BUY_SOL),
-        chainId: SOLANA,
-      });
-    }
+      clientOrderId,
+    }));
 
     if (result.isSuccess) {
+      const solSpent = result.nativeAmount ?? buySol;
       const position: ScalpPosition = {
         id: `scalp-${Date.now()}-${target.address.slice(0, 6)}`,
         address: target.address,
@@ -555,18 +493,25 @@ async function scalpLoop(attempted: Map<string, number>, incomingTokens?: Watche
         currentPrice: target.price,
         peakPrice: target.price,
         entryTime: new Date().toISOString(),
-        amountLamports: formatSolAmount(BUY_SOL),
-        solSpent: BUY_SOL,
+        amountLamports: formatSolAmount(buySol),
+        solSpent,
         status: 'open',
         txHash: result.hash ?? null,
+        entryPriceNative: result.executedPrice,
+        tokenAmount: result.tokenAmount,
+        entryFeeSol: result.fee,
+        entryTipSol: result.tip,
+        entrySlippagePct: result.slippagePct,
       };
 
-      const fresh = readPositions();
-      fresh.positions.push(position);
-      fresh.lastUpdated = new Date().toISOString();
-      writePositions(fresh);
+      journal.openPosition('scalper', position, {
+        price: position.entryPrice,
+        amount: position.amountLamports,
+        value: solSpent,
+        txHash: position.txHash,
+      });
 
-      log(`✅ SCALP BOUGHT ${target.symbol} | tx: ${result.hash ?? 'n/a'} | ${BUY_SOL} SOL`);
+      log(`✅ SCALP BOUGHT ${target.symbol} | tx: ${result.hash ?? 'n/a'} | ${solSpent.toFixed(6)} SOL${describeFill(result)}`);
 
       // Notify RISK immediately — instant monitoring start
       bus.publish('POSITION_OPENED', {
@@ -574,7 +519,7 @@ async function scalpLoop(attempted: Map<string, number>, incomingTokens?: Watche
         tokenAddress: position.address,
         symbol: position.symbol,
         entryPrice: position.entryPrice,
-        amountSol: BUY_SOL,
+        amountSol: solSpent,
         source: 'scalper',
         openedAt: Date.now(),
       });
@@ -591,11 +536,15 @@ async function scalpLoop(attempted: Map<string, number>, incomingTokens?: Watche
 async function main() {
   log('Starting scalper...');
 
-  await authenticate();
+  const loaded = loadProfile();
+  profile = loaded.profile;
+  log(`Strategy profile: ${describeProfile(profile)} (${loaded.source})`);
+
+  journal = openJournal();
+  await sessions.start();
   await startWebSocketFeed();
 
   const attempted = new Map<string, number>();
-  const refreshInterval = setInterval(authenticate, SESSION_REFRESH_MS);
 
   // Connect to bus — react to new tokens instantly, respect circuit break
   bus = await tryConnectBus('SCALPER', (msg) => {
@@ -610,15 +559,32 @@ async function main() {
     } else if (msg.type === 'BALANCE_UPDATE') {
       cachedSolBalance = msg.data?.solBalance ?? null;
     } else if (msg.type === 'CIRCUIT_BREAK') {
-      circuitBroken = true;
+      circuitBreaks.add(msg.from);
       log(`🛑 CIRCUIT BREAK — scalping halted: ${msg.data?.reason ?? 'unknown'}`);
     } else if (msg.type === 'CIRCUIT_RESUME') {
-      circuitBroken = false;
-      log('✅ CIRCUIT RESUME — scalping re-enabled');
+      circuitBreaks.delete(msg.from);
+      if (isCircuitBroken()) log(`CIRCUIT RESUME from ${msg.from} — still halted by ${[...circuitBreaks].join(', ')}`);
+      else log('✅ CIRCUIT RESUME — scalping re-enabled');
+    } else if (msg.type === 'PROFILE_UPDATE') {
+      if (validateProfile(msg.data?.profile).length > 0) return log('Ignoring invalid PROFILE_UPDATE');
+      profile = msg.data.profile;
+      log(`Strategy profile updated: ${describeProfile(profile)}`);
     }
-  });
+  }, { topics: ['TOKENS_UPDATE', 'BALANCE_UPDATE', 'CIRCUIT_BREAK', 'CIRCUIT_RESUME', 'PROFILE_UPDATE'] });
   log('Connected to message bus — instant token detection active');
 
+  // Operator force-close (ALPHA status API)
+  bus.handle('position.forceClose', async ({ positionId }) => {
+    const pos = journal.getPositions<ScalpPosition>('scalper', 'open').find((p) => p.id === positionId);
+    if (!pos) throw new Error(`no open scalper position ${positionId}`);
+    const price = (await getCurrentPrice(pos.address)) ?? pos.currentPrice ?? pos.entryPrice;
+    log(`✋ Force-close requested for ${pos.symbol}`);
+    await executeClose(pos, price, 'MANUAL');
+    const after = journal.getPosition<ScalpPosition>(positionId);
+    if (after?.status !== 'closed') throw new Error(`sell of ${pos.symbol} did not go through — see SCALPER log`);
+    return { positionId, symbol: pos.symbol, exitPrice: price, pnlPct: ((price - pos.entryPrice) / pos.entryPrice) * 100 };
+  });
+
   await ageCheckLoop();
   await scalpLoop(attempted);
 
@@ -631,18 +597,20 @@ async function main() {
   const shutdown = () => {
     log('Shutting down scalper');
     clearInterval(interval);
-    clearInterval(refreshInterval);
+    sessions.stop();
     bus.close();
+    journal.close();
     process.exit(0);
   };
   process.on('SIGTERM', shutdown);
   process.on('SIGINT', shutdown);
 
+  const sp = profile.scalper;
   log(
     `Scalper running — event-driven + ${POLL_MS / 1000}s fallback` +
-    ` | Fresh 0–2min | TP +${SCALP_TP_PCT}%` +
-    ` | Trail +${TRAIL_ACTIVATE_PCT}%↓${TRAIL_DROP_PCT}%` +
-    ` | SL ${SCALP_SL_PCT}% | Max ${MAX_HOLD_MS / 1000}s`,
+    ` | Fresh 0–${sp.freshMaxAgeSec}s | TP +${sp.tpPct}%` +
+    ` | Trail +${sp.trailActivatePct}%↓${sp.trailDropPct}%` +
+    ` | SL ${sp.slPct}% | Max ${sp.maxHoldSec}s`,
   );
 }
 
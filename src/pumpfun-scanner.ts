@@ -1,7 +1,8 @@
 /**
  * Agent 1 — SCANNER
  * Polls getNewestTokens() on Solana every 30s, tracks price momentum,
- * and writes /tmp/pumpfun-watchlist.json for downstream agents.
+ * and keeps the watchlist in the trade journal (journal.ts) for downstream
+ * agents, with a price/mcap snapshot of every polled token.
  * Also writes /tmp/pumpfun-balance.json with the custodial SOL balance.
  *
  * Run standalone: ts-node src/pumpfun-scanner.ts
@@ -12,8 +13,9 @@ import WebSocket from 'ws';
 
 import * as fs from 'fs';
 import axios from 'axios';
-import { createAuthenticatedSession, GDEXSession } from './auth';
-import { tryConnectBus, BusClient } from './pumpfun-bus';
+import { createSessionManager, GDEXSession } from './auth';
+import { tryConnectBus, offlineBus, BusClient } from './pumpfun-bus';
+import { openJournal, Journal } from './journal';
 
 // ─── Constants ───────────────────────────────────────────────────────────────
 
@@ -21,14 +23,23 @@ const SOLANA = 622112261;
 const POLL_MS = 30_000;
 const MAX_TOKENS = 100;
 const SESSION_REFRESH_MS = 25 * 60 * 1000;
-const WATCHLIST_PATH = '/tmp/pumpfun-watchlist.json';
 const BALANCE_PATH = '/tmp/pumpfun-balance.json';
 
-// Module-level session so authenticate() can refresh it anywhere
+// Refreshed in place by the session manager — before the server TTL and on auth errors
 let session: GDEXSession;
+const sessions = createSessionManager({ chainIds: [SOLANA, 42161], refreshAfterMs: SESSION_REFRESH_MS });
+sessions.on('refresh', (e) => {
+  session = e.session;
+  for (const f of e.failedChains) log(`Auth on chain ${f.chainId} failed (${f.error})`);
+  log(e.chainId === SOLANA ? `Authenticated on Solana chain ${SOLANA} (${e.reason})` : `Authenticated on Arbitrum (fallback, ${e.reason})`);
+});
+sessions.on('refresh-error', (err) => log(`Session refresh failed: ${err.message} — keeping the current session`));
+
+// Trade journal — opened in main()
+let journal: Journal;
 
-// Bus client — no-op until connected (falls back to file-only if bus unavailable)
-let bus: BusClient = { publish: () => {}, log: () => {}, close: () => {} };
+// Bus client — no-op until connected (falls back to journal-only if bus unavailable)
+let bus: BusClient = offlineBus();
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -59,7 +70,7 @@ interface WatchedToken {
 }
 
 interface Watchlist {
-  lastUpdated: string;
+  lastUpdated: string | null;
   tokens: WatchedToken[];
 }
 
@@ -70,32 +81,19 @@ function log(msg: string) {
 }
 
 function writeWatchlist(data: Watchlist) {
-  const tmp = WATCHLIST_PATH + '.tmp';
-  fs.writeFileSync(tmp, JSON.stringify(data, null, 2));
-  fs.renameSync(tmp, WATCHLIST_PATH);
+  journal.saveWatchlist(data.tokens);
 }
 
 function readWatchlist(): Watchlist {
   try {
-    return JSON.parse(fs.readFileSync(WATCHLIST_PATH, 'utf8'));
+    return journal.getWatchlist<WatchedToken>();
   } catch {
-    return { lastUpdated: new Date().toISOString(), tokens: [] };
+    return { lastUpdated: null, tokens: [] };
   }
 }
 
 // ─── Session management ───────────────────────────────────────────────────────
 
-async function authenticate(): Promise<void> {
-  try {
-    session = await createAuthenticatedSession({ chainId: SOLANA });
-    log(`Authenticated on Solana chain ${SOLANA}`);
-  } catch (err: any) {
-    log(`Solana auth failed (${err?.message}), falling back to Arbitrum...`);
-    session = await createAuthenticatedSession({ chainId: 42161 });
-    log('Authenticated on Arbitrum (fallback)');
-  }
-}
-
 // ─── Balance writer ───────────────────────────────────────────────────────────
 // Fetches custodial wallet holdings every poll cycle so the dashboard can
 // display the live SOL balance and portfolio value.
@@ -249,6 +247,7 @@ async function poll() {
 
     const watchlistData = { lastUpdated: new Date().toISOString(), tokens };
     writeWatchlist(watchlistData);
+    journal.snapshotTokens(raw.map((t: any) => byAddr.get(t.address)).filter((t): t is WatchedToken => !!t));
     log(`Watchlist updated: ${tokens.length} tokens (${raw.length} fetched)`);
 
     // Push to bus so ANALYST and SCALPER react immediately (no polling delay)
@@ -402,26 +401,28 @@ async function startWebSocketFeed() {
 async function main() {
   log('Starting pump.fun scanner...');
 
-  // Connect to message bus (non-blocking — falls back to file-only if unavailable)
+  journal = openJournal();
+
+  // Connect to message bus (non-blocking — falls back to journal-only if unavailable)
   bus = await tryConnectBus('SCANNER', () => {
-    // Scanner doesn't need to receive messages from other agents
-  });
+    // Scanner only publishes — it subscribes to nothing (RPC still reaches it)
+  }, { topics: [] });
   log('Connected to message bus');
 
-  await authenticate();
+  await sessions.start();
   await writeBalanceFile();
 
   await poll();
 
   startWebSocketFeed().catch(() => {});
 
-  const refreshInterval = setInterval(authenticate, SESSION_REFRESH_MS);
   const pollInterval = setInterval(() => poll(), POLL_MS);
 
   const shutdown = () => {
     log('Shutting down scanner');
     clearInterval(pollInterval);
-    clearInterval(refreshInterval);
+    sessions.stop();
+    journal.close();
     process.exit(0);
   };
   process.on('SIGTERM', shutdown);
@@ -0,0 +1,243 @@
+/**
+ * pumpfun-supervisor.ts — keeps the pump.fun agents alive for pumpfun-alpha.ts
+ *
+ * - Heartbeat: every 10s each agent is asked for 'health' over the bus. An
+ *   agent that misses 3 in a row (after its 60s startup grace) is killed.
+ * - Restart: a dead agent comes back after 2s, 4s, 8s … up to 60s. A run
+ *   that stayed up 5 min resets the backoff.
+ * - Crash loop: more than 5 crashes inside 10 min and the agent is left
+ *   down (status "failed") instead of burning API quota on restarts.
+ * - Guardian: while the guardian agent (RISK) is down or unresponsive, open
+ *   positions have no exits — ALPHA publishes CIRCUIT_BREAK so TRADER and
+ *   SCALPER stop opening new ones, and CIRCUIT_RESUME once it answers again.
+ *
+ * Both that and an operator pause (status API) go through one EntryGate, so
+ * ALPHA only resumes trading once every hold is released. Agents keep their
+ * breaks in memory, so the gate sends the break again to a TRADER or SCALPER
+ * that (re)registers while a hold is active.
+ */
+
+import { ChildProcess } from 'child_process';
+import { ACK_REQUIRED, BusServer } from './pumpfun-bus';
+
+const HEARTBEAT_MS = 10_000;
+const HEARTBEAT_TIMEOUT_MS = 5_000;
+const MAX_MISSED_HEARTBEATS = 3;
+/** Agents log in and connect to the bus before they can answer */
+const STARTUP_GRACE_MS = 60_000;
+const BACKOFF_BASE_MS = 2_000;
+const BACKOFF_MAX_MS = 60_000;
+/** A run this long counts as stable and resets the backoff */
+const STABLE_RUN_MS = 5 * 60_000;
+const CRASH_LOOP_LIMIT = 5;
+const CRASH_LOOP_WINDOW_MS = 10 * 60_000;
+/** Gap between spawns on start — avoids login races */
+const SPAWN_STAGGER_MS = 2_000;
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type AgentStatus =
+  | 'starting'      // spawned, no heartbeat answered yet
+  | 'up'            // answering heartbeats
+  | 'unresponsive'  // missed at least one heartbeat
+  | 'backoff'       // exited, restart scheduled
+  | 'failed'        // crash loop — left down
+  | 'stopped';      // shut down by ALPHA
+
+export interface AgentState {
+  name: string;
+  status: AgentStatus;
+  pid: number | null;
+  /** Start of the current run (ms epoch) */
+  startedAt: number | null;
+  restarts: number;
+  lastExit: string | null;
+  lastHeartbeat: number | null;
+  missedHeartbeats: number;
+  /** When a backoff restart fires (ms epoch) */
+  nextStartAt: number | null;
+}
+
+export interface EntryGate {
+  /** Halt new entries for `key` (no-op if it already holds) */
+  hold: (key: string, reason: string) => void;
+  release: (key: string) => void;
+  /** An agent (re)registered on the bus — send it the break if any hold is active */
+  reassert: (agent: string) => void;
+  /** Current holds: key → reason */
+  holds: () => Record<string, string>;
+}
+
+export interface SupervisorOptions {
+  agents: string[];
+  /** Start one agent process; the supervisor owns it from here */
+  spawn: (name: string) => ChildProcess;
+  bus: Pick<BusServer, 'request'>;
+  gate: EntryGate;
+  log: (msg: string) => void;
+  /** Agent whose absence halts new entries (default RISK) */
+  guardian?: string;
+}
+
+export interface Supervisor {
+  /** Spawn every agent (staggered) and begin heartbeats */
+  start: () => Promise<void>;
+  agents: () => AgentState[];
+  /** SIGTERM all agents without restarting them */
+  stop: () => void;
+}
+
+// ─── Entry gate ───────────────────────────────────────────────────────────────
+
+/**
+ * ALPHA's circuit break. CIRCUIT_BREAK goes out on the first hold and
+ * CIRCUIT_RESUME when the last one is released. A restarted agent starts with
+ * no breaks and its predecessor already ACKed the first CIRCUIT_BREAK, so
+ * reassert() sends it again while any hold is active.
+ */
+export function createEntryGate(bus: Pick<BusServer, 'broadcast'>, log: (msg: string) => void): EntryGate {
+  const holds = new Map<string, string>();
+  return {
+    hold: (key, reason) => {
+      if (holds.has(key)) return;
+      holds.set(key, reason);
+      log(`🛑 Entries halted — ${reason}`);
+      if (holds.size > 1) return;
+      bus.broadcast({ type: 'CIRCUIT_BREAK', from: 'ALPHA', data: { reason, consecutiveLosses: 0 }, ts: Date.now() });
+    },
+    release: (key) => {
+      if (!holds.delete(key)) return;
+      if (holds.size > 0) {
+        log(`Released ${key} — still halted: ${[...holds.values()].join('; ')}`);
+        return;
+      }
+      log('✅ Entries resumed — CIRCUIT_RESUME sent');
+      bus.broadcast({ type: 'CIRCUIT_RESUME', from: 'ALPHA', data: {}, ts: Date.now() });
+    },
+    reassert: (agent) => {
+      if (holds.size === 0 || !ACK_REQUIRED.CIRCUIT_BREAK?.includes(agent)) return;
+      const reason = [...holds.values()].join('; ');
+      log(`Re-sent CIRCUIT_BREAK to ${agent} on register — ${reason}`);
+      bus.broadcast({ type: 'CIRCUIT_BREAK', from: 'ALPHA', data: { reason, consecutiveLosses: 0 }, ts: Date.now() });
+    },
+    holds: () => Object.fromEntries(holds),
+  };
+}
+
+// ─── Supervisor ───────────────────────────────────────────────────────────────
+
+export function createSupervisor(opts: SupervisorOptions): Supervisor {
+  const guardian = opts.guardian ?? 'RISK';
+  const states = new Map<string, AgentState>();
+  const procs = new Map<string, ChildProcess>();
+  const crashes = new Map<string, number[]>();
+  const restartTimers = new Map<string, NodeJS.Timeout>();
+  let heartbeatTimer: NodeJS.Timeout | null = null;
+  let stopping = false;
+
+  for (const name of opts.agents) {
+    states.set(name, {
+      name, status: 'stopped', pid: null, startedAt: null, restarts: 0,
+      lastExit: null, lastHeartbeat: null, missedHeartbeats: 0, nextStartAt: null,
+    });
+    crashes.set(name, []);
+  }
+
+  const haltEntries = (reason: string) => opts.gate.hold(guardian, `${guardian} agent down: ${reason}`);
+  const resumeEntries = () => opts.gate.release(guardian);
+
+  function launch(name: string) {
+    const state = states.get(name)!;
+    const child = opts.spawn(name);
+    procs.set(name, child);
+    Object.assign(state, {
+      status: 'starting', pid: child.pid ?? null, startedAt: Date.now(),
+      lastHeartbeat: null, missedHeartbeats: 0, nextStartAt: null,
+    });
+    child.on('exit', (code, signal) => onExit(name, child, code, signal));
+  }
+
+  function onExit(name: string, child: ChildProcess, code: number | null, signal: NodeJS.Signals | null) {
+    if (procs.get(name) !== child) return; // an older run we already replaced
+    procs.delete(name);
+    const state = states.get(name)!;
+    state.pid = null;
+    state.lastExit = `code=${code} signal=${signal}`;
+    if (stopping) {
+      state.status = 'stopped';
+      return;
+    }
+    if (name === guardian) haltEntries(`exited ${state.lastExit}`);
+
+    const now = Date.now();
+    const ranMs = now - (state.startedAt ?? now);
+    const history = crashes.get(name)!.filter((t) => now - t < CRASH_LOOP_WINDOW_MS);
+    history.push(now);
+    crashes.set(name, history);
+
+    if (history.length > CRASH_LOOP_LIMIT) {
+      state.status = 'failed';
+      state.nextStartAt = null;
+      opts.log(`💀 ${name} crashed ${history.length}× in ${CRASH_LOOP_WINDOW_MS / 60_000} min — giving up; fix it and restart ALPHA`);
+      return;
+    }
+
+    // Backoff doubles per crash since the last stable run
+    if (ranMs >= STABLE_RUN_MS) crashes.set(name, [now]);
+    const streak = crashes.get(name)!.length;
+    const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (streak - 1));
+    state.status = 'backoff';
+    state.nextStartAt = now + delay;
+    opts.log(`${name} exited (${state.lastExit}) — restarting in ${(delay / 1000).toFixed(0)}s`);
+    restartTimers.set(name, setTimeout(() => {
+      restartTimers.delete(name);
+      if (stopping) return;
+      state.restarts++;
+      launch(name);
+    }, delay));
+  }
+
+  function beat(name: string) {
+    const state = states.get(name)!;
+    const child = procs.get(name);
+    if (!child) return;
+    opts.bus.request(name, 'health', {}, HEARTBEAT_TIMEOUT_MS).then(
+      () => {
+        if (procs.get(name) !== child) return;
+        state.lastHeartbeat = Date.now();
+        state.missedHeartbeats = 0;
+        state.status = 'up';
+        if (name === guardian) resumeEntries();
+      },
+      (err: Error) => {
+        if (procs.get(name) !== child) return;
+        const inGrace = state.lastHeartbeat === null && Date.now() - state.startedAt! < STARTUP_GRACE_MS;
+        if (inGrace) return;
+        state.missedHeartbeats++;
+        state.status = 'unresponsive';
+        if (state.missedHeartbeats < MAX_MISSED_HEARTBEATS) return;
+        opts.log(`${name} missed ${state.missedHeartbeats} heartbeats (${err.message}) — killing pid ${child.pid}`);
+        if (name === guardian) haltEntries('not answering heartbeats');
+        child.kill('SIGKILL');
+      },
+    );
+  }
+
+  return {
+    start: async () => {
+      for (const name of opts.agents) {
+        if (stopping) return;
+        launch(name);
+        await new Promise((r) => setTimeout(r, SPAWN_STAGGER_MS));
+      }
+      heartbeatTimer = setInterval(() => opts.agents.forEach(beat), HEARTBEAT_MS);
+    },
+    agents: () => opts.agents.map((name) => ({ ...states.get(name)! })),
+    stop: () => {
+      stopping = true;
+      if (heartbeatTimer) clearInterval(heartbeatTimer);
+      for (const timer of restartTimers.values()) clearTimeout(timer);
+      for (const child of procs.values()) child.kill('SIGTERM');
+    },
+  };
+}
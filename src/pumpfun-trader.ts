@@ -1,8 +1,10 @@
 /**
  * Agent 3 — TRADER
- * Monitors /tmp/pumpfun-scores.json every 10s.
- * Buys 0.005 SOL of any token scoring > 75 (max 5 concurrent positions).
- * Writes open positions to /tmp/pumpfun-positions.json.
+ * Reacts to SCORES_UPDATE (60s fallback poll of the journal's scores).
+ * Buys trader.buySol of the top token scoring above trader.scoreThreshold,
+ * up to trader.maxPositions at once (see pumpfun-profile.ts), once RISK
+ * answers risk.canOpen over the bus.
+ * Records positions in the trade journal (journal.ts, book "trader").
  *
  * Run standalone: ts-node src/pumpfun-trader.ts
  */
@@ -11,41 +13,70 @@ import WebSocket from 'ws';
 (globalThis as any).WebSocket = WebSocket;
 
 import * as fs from 'fs';
-import { createAuthenticatedSession, GDEXSession } from './auth';
+import { createSessionManager, GDEXSession } from './auth';
 import { buyToken, formatSolAmount } from './trading';
-import { tryConnectBus, BusClient } from './pumpfun-bus';
+import { describeFill } from './fills';
+import { tryConnectBus, offlineBus, BusClient } from './pumpfun-bus';
+import { openJournal, Journal } from './journal';
+import { newClientOrderId } from './order-registry';
+import { loadProfile, validateProfile, describeProfile, StrategyProfile } from './pumpfun-profile';
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
 const SOLANA = 622112261;
 const POLL_MS = 60_000; // safety-net fallback — primary trigger is SCORES_UPDATE event
-const BUY_SOL = 0.005;
-const SCORE_THRESHOLD = 60;
-const MAX_POSITIONS = 5;
-const RETRY_COOLDOWN_MS = 5 * 60 * 1000; // 5 minutes
 const SESSION_REFRESH_MS = 25 * 60 * 1000; // 25 minutes — refresh before server TTL
-// Reserve per open position so there's always enough SOL to pay exit tx fees.
-// Each Solana sell costs ~0.0005–0.002 SOL with priority fees; 0.003 is safe.
-const GAS_RESERVE_PER_POSITION = 0.003;
-// Absolute floor — never let the wallet drop below this regardless of positions
-const MIN_SOL_FLOOR = 0.005;
-const SCORES_PATH = '/tmp/pumpfun-scores.json';
-const POSITIONS_PATH = '/tmp/pumpfun-positions.json';
-const SCALP_POSITIONS_PATH = '/tmp/pumpfun-scalp-positions.json';
 const BALANCE_PATH = '/tmp/pumpfun-balance.json';
 
-// Module-level session so it can be refreshed without restarting the loop
+// Refreshed in place by the session manager — before the server TTL and on auth errors
 let session: GDEXSession;
+const sessions = createSessionManager({ chainIds: [SOLANA, 42161], refreshAfterMs: SESSION_REFRESH_MS });
+sessions.on('refresh', (e) => {
+  session = e.session;
+  for (const f of e.failedChains) log(`Auth on chain ${f.chainId} failed (${f.error})`);
+  log(e.chainId === SOLANA ? `Authenticated on Solana chain ${SOLANA} (${e.reason})` : `Authenticated on Arbitrum (fallback, ${e.reason})`);
+});
+sessions.on('refresh-error', (err) => log(`Session refresh failed: ${err.message} — keeping the current session`));
+
+// Strategy profile — loaded in main(), replaced by PROFILE_UPDATE from ALPHA.
+// wallet.gasReservePerPosition keeps SOL back for each exit's tx fees
+// (a Solana sell costs ~0.0005–0.002 SOL with priority fees).
+let profile: StrategyProfile;
+
+// Trade journal — opened in main(); shared with RISK, SCALPER and the dashboard
+let journal: Journal;
 
 // Bus client — no-op until connected
-let bus: BusClient = { publish: () => {}, log: () => {}, close: () => {} };
+let bus: BusClient = offlineBus();
 
-// Circuit break flag — set true by RISK when consecutive losses detected
-let circuitBroken = false;
+// Circuit breaks by sender — RISK (consecutive losses) and ALPHA (RISK down,
+// operator pause) each lift only their own; halted while any is held
+const circuitBreaks = new Set<string>();
+const isCircuitBroken = () => circuitBreaks.size > 0;
 
 // Cached SOL balance — updated by BALANCE_UPDATE bus events from SCANNER
 let cachedSolBalance: number | null = null;
 
+// RISK gets this long to answer risk.canOpen before we buy without it
+const RISK_CHECK_TIMEOUT_MS = 2_000;
+
+/**
+ * Ask RISK whether a new position may be opened. A veto blocks the buy; an
+ * unreachable or slow RISK does not — same rule as the balance guard.
+ */
+async function riskAllows(tokenAddress: string, symbol: string, amountSol: number): Promise<boolean> {
+  try {
+    const verdict = await bus.request(
+      'RISK', 'risk.canOpen', { source: 'trader', tokenAddress, amountSol }, RISK_CHECK_TIMEOUT_MS,
+    );
+    if (!verdict.allowed) log(`  RISK veto ${symbol}: ${verdict.reason ?? 'no reason given'}`);
+    return verdict.allowed;
+  } catch (err: any) {
+    log(`  RISK check unavailable (${err?.message ?? err}) — proceeding`);
+    return true;
+  }
+}
+
 function readSolBalance(): number | null {
   try {
     const data = JSON.parse(fs.readFileSync(BALANCE_PATH, 'utf8'));
@@ -67,16 +98,18 @@ interface Position {
   entryTime: string;
   amountLamports: string;
   remainingLamports: string;
+  /** Actual SOL paid, fee and tip included, when the buy's fill was read — else the order size */
   solSpent: number;
   status: 'open' | 'closed';
   exitStage: 0 | 1 | 2;
   txHash: string | null;
   score: number;
-}
-
-interface PositionsFile {
-  lastUpdated: string;
-  positions: Position[];
+  /** From the buy's on-chain fill (fills.ts), when it could be read */
+  entryPriceNative?: number;
+  tokenAmount?: number;
+  entryFeeSol?: number;
+  entryTipSol?: number;
+  entrySlippagePct?: number | null;
 }
 
 interface TokenScore {
@@ -95,35 +128,9 @@ function log(msg: string) {
   process.stderr.write(`[TRADER ${new Date().toISOString()}] ${msg}\n`);
 }
 
-async function authenticate(): Promise<void> {
-  try {
-    session = await createAuthenticatedSession({ chainId: SOLANA });
-    log(`Authenticated on Solana chain ${SOLANA}`);
-  } catch (err: any) {
-    log(`Solana auth failed (${err?.message}), falling back to Arbitrum...`);
-    session = await createAuthenticatedSession({ chainId: 42161 });
-    log('Authenticated on Arbitrum (fallback)');
-  }
-}
-
-function readPositions(): PositionsFile {
-  try {
-    return JSON.parse(fs.readFileSync(POSITIONS_PATH, 'utf8'));
-  } catch {
-    return { lastUpdated: new Date().toISOString(), positions: [] };
-  }
-}
-
-function writePositions(data: PositionsFile) {
-  const tmp = POSITIONS_PATH + '.tmp';
-  fs.writeFileSync(tmp, JSON.stringify(data, null, 2));
-  fs.renameSync(tmp, POSITIONS_PATH);
-}
-
 function readScores(): TokenScore[] {
   try {
-    const data = JSON.parse(fs.readFileSync(SCORES_PATH, 'utf8'));
-    return data.scores ?? [];
+    return journal.getScores<TokenScore>().scores;
   } catch {
     return [];
   }
@@ -134,19 +141,20 @@ function readScores(): TokenScore[] {
 // incomingScores: provided by SCORES_UPDATE bus event (skips file read)
 async function tradingLoop(attempted: Map<string, number>, incomingScores?: any[]) {
   try {
-    if (circuitBroken) {
+    if (isCircuitBroken()) {
       log('⚠️  Circuit break active — skipping buy check');
       return;
     }
     const scores = incomingScores ?? readScores();
     if (scores.length === 0) return;
+    const { buySol, maxPositions, scoreThreshold, retryCooldownSec, maxDropPct } = profile.trader;
+    const { gasReservePerPosition, minSolFloor } = profile.wallet;
 
-    const posData = readPositions();
-    const positions = posData.positions;
+    const positions = journal.getPositions<Position>('trader', 'open');
 
-    const openCount = positions.filter((p) => p.status === 'open').length;
-    if (openCount >= MAX_POSITIONS) {
-      log(`Max positions (${MAX_POSITIONS}) reached, not buying`);
+    const openCount = positions.length;
+    if (openCount >= maxPositions) {
+      log(`Max positions (${maxPositions}) reached, not buying`);
       return;
     }
 
@@ -155,11 +163,11 @@ async function tradingLoop(attempted: Map<string, number>, incomingScores?: any[
     // the trade — a missing API read must never silently prevent trading.
     const solBal = cachedSolBalance ?? readSolBalance();
     if (solBal !== null) {
-      const requiredSol = BUY_SOL + GAS_RESERVE_PER_POSITION * (openCount + 1) + MIN_SOL_FLOOR;
+      const requiredSol = buySol + gasReservePerPosition * (openCount + 1) + minSolFloor;
       if (solBal < requiredSol) {
         log(
           `⚠️  LOW SOL: ${solBal.toFixed(4)} SOL available, ` +
-          `need ${requiredSol.toFixed(4)} (buy ${BUY_SOL} + ` +
+          `need ${requiredSol.toFixed(4)} (buy ${buySol} + ` +
           `${openCount + 1} exit reserves + floor) — skipping buy`,
         );
         return;
@@ -167,70 +175,35 @@ async function tradingLoop(attempted: Map<string, number>, incomingScores?: any[
     }
 
     // Collect addresses AND symbols from both trader and scalper positions
-    const openAddrs = new Set(
-      positions.filter((p) => p.status === 'open').map((p) => p.address),
-    );
-    const openSymbols = new Set(
-      positions.filter((p) => p.status === 'open')
-        .map((p) => p.symbol.toUpperCase()),
-    );
-    try {
-      const scalp = JSON.parse(
-        fs.readFileSync(SCALP_POSITIONS_PATH, 'utf8'),
-      );
-      for (const p of scalp.positions ?? []) {
-        if (p.status === 'open') {
-          openAddrs.add(p.address);
-          openSymbols.add((p.symbol ?? '').toUpperCase());
-        }
-      }
-    } catch {
-      // Scalp positions file may not exist yet
-    }
+    const held = [...positions, ...journal.getPositions('scalper', 'open')];
+    const openAddrs = new Set(held.map((p) => p.address));
+    const openSymbols = new Set(held.map((p) => (p.symbol ?? '').toUpperCase()));
 
     const now = Date.now();
     const candidates = scores.filter((s) => {
-      if (s.score <= SCORE_THRESHOLD) return false;
+      if (s.score <= scoreThreshold) return false;
       if (openAddrs.has(s.address)) return false;
       if (openSymbols.has(s.symbol.toUpperCase())) return false;
       const lastAttempt = attempted.get(s.address);
-      if (lastAttempt && now - lastAttempt < RETRY_COOLDOWN_MS) return false;
-      // Anti-rug: reject tokens with falling price (m5 < -5% or price < prevPrice)
-      if (s.priceChanges && s.priceChanges.m5 < -5) {
+      if (lastAttempt && now - lastAttempt < retryCooldownSec * 1000) return false;
+      // Anti-rug: reject tokens with falling price (m5 or since last scan beyond maxDropPct)
+      if (s.priceChanges && s.priceChanges.m5 < -maxDropPct) {
         log(`  SKIP ${s.symbol}: m5 price change ${s.priceChanges.m5.toFixed(1)}% (falling)`);
         return false;
       }
-      if (s.prevPrice && s.prevPrice > 0 && s.currentPrice < s.prevPrice * 0.95) {
+      if (s.prevPrice && s.prevPrice > 0 && s.currentPrice < s.prevPrice * (1 - maxDropPct / 100)) {
         log(`  SKIP ${s.symbol}: price dropped since last scan (${s.currentPrice} < ${s.prevPrice})`);
         return false;
       }
       return true;
     });
 
-    // Update currentPrice for open positions from scores.
-    // Re-read fresh before writing to avoid clobbering risk manager closes.
-    const priceUpdates: Array<{ address: string; price: number }> = [];
+    // Update currentPrice for open positions from scores. patchPosition merges
+    // the one field and skips positions risk manager closed in the meantime.
     for (const pos of positions) {
-      if (pos.status !== 'open') continue;
       const score = scores.find((s) => s.address === pos.address);
       if (score && score.currentPrice && score.currentPrice !== pos.currentPrice) {
-        priceUpdates.push({ address: pos.address, price: score.currentPrice });
-      }
-    }
-
-    if (priceUpdates.length > 0) {
-      const fresh = readPositions();
-      let dirty = false;
-      for (const { address, price } of priceUpdates) {
-        const p = fresh.positions.find((x) => x.address === address && x.status === 'open');
-        if (p && p.currentPrice !== price) {
-          p.currentPrice = price;
-          dirty = true;
-        }
-      }
-      if (dirty) {
-        fresh.lastUpdated = new Date().toISOString();
-        writePositions(fresh);
+        journal.patchPosition<Position>(pos.id, { currentPrice: score.currentPrice });
       }
     }
 
@@ -245,6 +218,7 @@ async function tradingLoop(attempted: Map<string, number>, incomingScores?: any[
     attempted.set(target.address, now);
 
     // Pre-buy price check: fetch live price, abort if dumping
+    let quotedPrice: number | undefined;
     try {
       const liveResult = await session.sdk.tokens.getToken(
         target.address, SOLANA,
@@ -253,9 +227,11 @@ async function tradingLoop(attempted: Map<string, number>, incomingScores?: any[
       const rawPrice = (td as any)?.priceUsd ?? (td as any)?.priceNative;
       const livePrice = typeof rawPrice === 'number'
         ? rawPrice : parseFloat(rawPrice ?? '0');
+      const native = parseFloat((td as any)?.priceNative ?? '0');
+      if (native > 0) quotedPrice = native;
       if (livePrice > 0 && target.currentPrice > 0) {
         const drift = ((livePrice - target.currentPrice) / target.currentPrice) * 100;
-        if (drift < -5) {
+        if (drift < -maxDropPct) {
           log(
             `  ABORT ${target.symbol}: price dropped ${drift.toFixed(1)}% since scoring ` +
             `(${target.currentPrice} → ${livePrice})`,
@@ -267,23 +243,20 @@ async function tradingLoop(attempted: Map<string, number>, incomingScores?: any[
       // Non-fatal — proceed with buy if price check fails
     }
 
-    let result = await buyToken(session, {
+    if (!(await riskAllows(target.address, target.symbol, buySol))) return;
+
+    // One id for this buy — a retry after a session refresh can't buy twice
+    const clientOrderId = newClientOrderId('trader');
+    const result = await sessions.withSession((s) => buyToken(s, {
       tokenAddress: target.address,
-      amount: formatSolAmount(BUY_SOL),
+      amount: formatSolAmount(buySol),
       chainId: SOLANA,
-    });
-
-    if (!result.isSuccess) {
-      log('Buy failed — refreshing session and retrying once...');
-      await authenticate();
-      result = await buyToken(session, {
-        tokenAddress: target.address,
-        amount: formatSolAmount(BUY_SOL),
-        chainId: SOLANA,
-      });
-    }
+      clientOrderId,
+      quotedPrice,
+    }));
 
     if (result.isSuccess) {
+      const solSpent = result.nativeAmount ?? buySol;
       const position: Position = {
         id: `${Date.now()}-${target.address.slice(0, 6)}`,
         address: target.address,
@@ -292,22 +265,30 @@ async function tradingLoop(attempted: Map<string, number>, incomingScores?: any[
         entryPrice: target.currentPrice,
         currentPrice: target.currentPrice,
         entryTime: new Date().toISOString(),
-        amountLamports: formatSolAmount(BUY_SOL),
-        remainingLamports: formatSolAmount(BUY_SOL),
-        solSpent: BUY_SOL,
+        amountLamports: formatSolAmount(buySol),
+        remainingLamports: formatSolAmount(buySol),
+        solSpent,
         status: 'open',
         exitStage: 0,
         txHash: result.hash ?? null,
         score: target.score,
+        entryPriceNative: result.executedPrice,
+        tokenAmount: result.tokenAmount,
+        entryFeeSol: result.fee,
+        entryTipSol: result.tip,
+        entrySlippagePct: result.slippagePct,
       };
 
-      const fresh = readPositions(); // re-read to avoid race
-      fresh.positions.push(position);
-      fresh.lastUpdated = new Date().toISOString();
-      writePositions(fresh);
+      journal.openPosition('trader', position, {
+        price: position.entryPrice,
+        amount: position.amountLamports,
+        value: solSpent,
+        txHash: position.txHash,
+      });
 
       log(
-        `✅ BOUGHT ${target.symbol} | tx: ${result.hash ?? 'n/a'} | spent: ${BUY_SOL} SOL`
+        `✅ BOUGHT ${target.symbol} | tx: ${result.hash ?? 'n/a'} | spent: ${solSpent.toFixed(6)} SOL` +
+        describeFill(result),
       );
 
       // Notify RISK immediately — no 8s polling lag before it starts monitoring
@@ -316,7 +297,7 @@ async function tradingLoop(attempted: Map<string, number>, incomingScores?: any[
         tokenAddress: position.address,
         symbol: position.symbol,
         entryPrice: position.entryPrice,
-        amountSol: BUY_SOL,
+        amountSol: solSpent,
         source: 'trader',
         openedAt: Date.now(),
       });
@@ -335,7 +316,12 @@ async function tradingLoop(attempted: Map<string, number>, incomingScores?: any[
 async function main() {
   log('Starting trader...');
 
-  await authenticate();
+  const loaded = loadProfile();
+  profile = loaded.profile;
+  log(`Strategy profile: ${describeProfile(profile)} (${loaded.source})`);
+
+  journal = openJournal();
+  await sessions.start();
 
   const attempted = new Map<string, number>();
 
@@ -347,19 +333,21 @@ async function main() {
     } else if (msg.type === 'BALANCE_UPDATE') {
       cachedSolBalance = msg.data?.solBalance ?? null;
     } else if (msg.type === 'CIRCUIT_BREAK') {
-      circuitBroken = true;
+      circuitBreaks.add(msg.from);
       log(`🛑 CIRCUIT BREAK received: ${msg.data?.reason ?? 'unknown'} — trading halted`);
     } else if (msg.type === 'CIRCUIT_RESUME') {
-      circuitBroken = false;
-      log('✅ CIRCUIT RESUME received — trading re-enabled');
+      circuitBreaks.delete(msg.from);
+      if (isCircuitBroken()) log(`CIRCUIT RESUME from ${msg.from} — still halted by ${[...circuitBreaks].join(', ')}`);
+      else log('✅ CIRCUIT RESUME received — trading re-enabled');
+    } else if (msg.type === 'PROFILE_UPDATE') {
+      if (validateProfile(msg.data?.profile).length > 0) return log('Ignoring invalid PROFILE_UPDATE');
+      profile = msg.data.profile;
+      log(`Strategy profile updated: ${describeProfile(profile)}`);
     }
-  });
+  }, { topics: ['SCORES_UPDATE', 'BALANCE_UPDATE', 'CIRCUIT_BREAK', 'CIRCUIT_RESUME', 'PROFILE_UPDATE'] });
   log('Connected to message bus — event-driven trading active');
 
-  // Proactively refresh session before the server-side TTL expires
-  const refreshInterval = setInterval(authenticate, SESSION_REFRESH_MS);
-
-  // Run immediately from file (bus won't have scores on first launch)
+  // Run immediately from the journal (bus won't have scores on first launch)
   await tradingLoop(attempted);
 
   // Safety-net fallback: poll every 60s in case a SCORES_UPDATE was missed
@@ -368,14 +356,15 @@ async function main() {
   const shutdown = () => {
     log('Shutting down trader');
     clearInterval(interval);
-    clearInterval(refreshInterval);
+    sessions.stop();
     bus.close();
+    journal.close();
     process.exit(0);
   };
   process.on('SIGTERM', shutdown);
   process.on('SIGINT', shutdown);
 
-  log(`Trader running — event-driven + ${POLL_MS / 1000}s fallback | threshold: ${SCORE_THRESHOLD} | max: ${MAX_POSITIONS} | circuit break: ${circuitBroken}`);
+  log(`Trader running — event-driven + ${POLL_MS / 1000}s fallback | threshold: ${profile.trader.scoreThreshold} | max: ${profile.trader.maxPositions} | circuit break: ${isCircuitBroken()}`);
 }
 
 main().catch((err) => {
@@ -0,0 +1,376 @@
+/**
+ * pumpfun-web.ts — browser dashboard for pumpfun-alpha.ts
+ *
+ * Served by the status API (pumpfun-api.ts) at GET /, so anyone who can reach
+ * the API can watch the bots. The page opens a WebSocket on /ws and gets:
+ *   { kind: 'snapshot', data }  every 3s and right after trades/positions:
+ *                               agents, bus, entry holds, balance, open pump.fun
+ *                               and HL scalper positions, recent trades (for the
+ *                               P&L charts), watchlist, scores, analytics buckets
+ *   { kind: 'event', msg }      POSITION_OPENED / TRADE_COMPLETE / CIRCUIT_* /
+ *                               PROFILE_UPDATE as they cross the bus
+ *   { kind: 'log', ts, line }   agent log lines (last LOG_BACKLOG on connect)
+ *
+ * HL scalper state comes from its trade-journal book ("hl-scalper"), so it
+ * shows up whether or not hl:scalper runs next to alpha.
+ *
+ * The page is self-contained (inline CSS/JS, SVG charts) — no CDN, works offline.
+ */
+
+import http from 'http';
+import WebSocket, { WebSocketServer } from 'ws';
+import type { BusMsg, MsgType } from './pumpfun-bus';
+import type { StatusApiDeps } from './pumpfun-api';
+import { describeProfile } from './pumpfun-profile';
+
+const SNAPSHOT_MS = 3_000;
+/** Trades kept per book for the P&L charts */
+const CHART_TRADES = 500;
+const RECENT_TRADES = 25;
+const WATCHLIST_ROWS = 20;
+const LOG_BACKLOG = 200;
+/** Bus traffic worth showing as it happens (ticks and scores arrive via snapshots) */
+const EVENT_TYPES = new Set<MsgType>(['POSITION_OPENED', 'TRADE_COMPLETE', 'CIRCUIT_BREAK', 'CIRCUIT_RESUME', 'PROFILE_UPDATE']);
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface WebDashboard {
+  /** Forward an agent log line (ANSI is stripped) */
+  pushLog: (line: string) => void;
+  close: () => void;
+}
+
+// ─── Snapshot ─────────────────────────────────────────────────────────────────
+
+function snapshot(deps: StatusApiDeps) {
+  const journal = deps.journal();
+  const read = <T>(fn: () => T, fallback: T): T => {
+    try { return journal ? fn() : fallback; } catch { return fallback; }
+  };
+  const balance = deps.readSnapshot('balance');
+  const profile = deps.profile();
+  return {
+    ts: Date.now(),
+    agents: deps.supervisor.agents(),
+    bus: { clients: deps.bus.clientCount(), unacked: deps.bus.unacked() },
+    entryHolds: deps.gate.holds(),
+    profile: profile ? { source: profile.source, summary: describeProfile(profile.profile) } : null,
+    balance: balance ? { solBalance: balance.solBalance ?? null, custodialAddress: balance.custodialAddress ?? null } : null,
+    positions: {
+      trader: read(() => journal!.getPositions('trader', 'open'), []),
+      scalper: read(() => journal!.getPositions('scalper', 'open'), []),
+      hl: read(() => journal!.getPositions('hl-scalper', 'open'), []),
+    },
+    trades: {
+      pumpfun: read(() => journal!.getTrades(['trader', 'scalper']).slice(-CHART_TRADES), []),
+      hl: read(() => journal!.getTrades('hl-scalper').slice(-CHART_TRADES), []),
+    },
+    watchlist: read(() => journal!.getWatchlist<any>().tokens.slice(0, WATCHLIST_ROWS), []),
+    scores: read(() => journal!.getScores<any>().scores.slice(0, WATCHLIST_ROWS), []),
+    analytics: deps.readSnapshot('analytics'),
+  };
+}
+
+// ─── WebSocket feed ───────────────────────────────────────────────────────────
+
+/**
+ * Serve the live feed on `server` at /ws. `authorized` gets the upgrade
+ * request so the page can pass the API token as ?token= (browsers can't set
+ * headers on a WebSocket).
+ */
+export function attachWebDashboard(
+  server: http.Server,
+  deps: StatusApiDeps,
+  authorized: (req: http.IncomingMessage) => boolean,
+): WebDashboard {
+  const wss = new WebSocketServer({ noServer: true });
+  const backlog: Array<{ ts: number; line: string }> = [];
+  let refreshTimer: NodeJS.Timeout | null = null;
+
+  const broadcast = (payload: unknown) => {
+    if (wss.clients.size === 0) return;
+    const text = JSON.stringify(payload);
+    for (const ws of wss.clients) if (ws.readyState === WebSocket.OPEN) ws.send(text);
+  };
+  const pushSnapshot = () => {
+    if (wss.clients.size > 0) broadcast({ kind: 'snapshot', data: snapshot(deps) });
+  };
+  // Trades/positions change the tables — refresh soon after, once per burst
+  const refreshSoon = () => {
+    if (refreshTimer) return;
+    refreshTimer = setTimeout(() => { refreshTimer = null; pushSnapshot(); }, 500);
+  };
+
+  server.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== '/ws') return socket.destroy();
+    if (!authorized(req)) {
+      socket.end('HTTP/1.1 401 Unauthorized\r\n\r\n');
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req));
+  });
+
+  wss.on('connection', (ws) => {
+    ws.send(JSON.stringify({ kind: 'snapshot', data: snapshot(deps) }));
+    for (const entry of backlog) ws.send(JSON.stringify({ kind: 'log', ...entry }));
+  });
+
+  const untap = deps.bus.tap((msg: BusMsg) => {
+    if (!EVENT_TYPES.has(msg.type)) return;
+    broadcast({ kind: 'event', msg });
+    if (msg.type === 'POSITION_OPENED' || msg.type === 'TRADE_COMPLETE') refreshSoon();
+  });
+  const interval = setInterval(pushSnapshot, SNAPSHOT_MS);
+
+  return {
+    pushLog: (line) => {
+      const entry = { ts: Date.now(), line: line.replace(/\x1b\[[0-9;]*m/g, '') };
+      backlog.push(entry);
+      if (backlog.length > LOG_BACKLOG) backlog.shift();
+      broadcast({ kind: 'log', ...entry });
+    },
+    close: () => {
+      untap();
+      clearInterval(interval);
+      if (refreshTimer) clearTimeout(refreshTimer);
+      for (const ws of wss.clients) ws.terminate();
+      wss.close();
+    },
+  };
+}
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+export const DASHBOARD_HTML = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Pump.fun Alpha Hunter</title>
+<style>
+  :root { --bg:#0d1117; --panel:#161b22; --line:#30363d; --text:#c9d1d9; --dim:#8b949e;
+          --green:#3fb950; --red:#f85149; --yellow:#d29922; --cyan:#39c5cf; --mag:#bc8cff; }
+  * { box-sizing: border-box; }
+  body { margin:0; background:var(--bg); color:var(--text); font:13px/1.45 ui-monospace,SFMono-Regular,Menlo,monospace; }
+  header { display:flex; flex-wrap:wrap; gap:12px; align-items:center; padding:10px 16px; border-bottom:1px solid var(--line); }
+  header h1 { font-size:15px; margin:0 12px 0 0; color:var(--cyan); }
+  main { display:grid; grid-template-columns:repeat(auto-fit,minmax(460px,1fr)); gap:12px; padding:12px 16px; }
+  section { background:var(--panel); border:1px solid var(--line); border-radius:6px; padding:10px 12px; min-width:0; }
+  section h2 { font-size:12px; margin:0 0 8px; color:var(--dim); text-transform:uppercase; letter-spacing:.05em; }
+  section.wide { grid-column:1/-1; }
+  table { width:100%; border-collapse:collapse; }
+  th, td { text-align:left; padding:2px 6px; white-space:nowrap; }
+  th { color:var(--dim); font-weight:normal; border-bottom:1px solid var(--line); }
+  td.num, th.num { text-align:right; }
+  .pos { color:var(--green); } .neg { color:var(--red); } .dim { color:var(--dim); }
+  .chip { padding:1px 8px; border-radius:10px; border:1px solid var(--line); }
+  .chip.up { border-color:var(--green); color:var(--green); }
+  .chip.warn { border-color:var(--yellow); color:var(--yellow); }
+  .chip.down { border-color:var(--red); color:var(--red); }
+  button { background:var(--panel); color:var(--text); border:1px solid var(--line); border-radius:4px; padding:3px 10px; cursor:pointer; font:inherit; }
+  button:hover { border-color:var(--cyan); }
+  #log, #events { height:260px; overflow:auto; white-space:pre-wrap; word-break:break-all; margin:0; }
+  svg { width:100%; height:160px; display:block; }
+  .empty { color:var(--dim); padding:6px 0; }
+</style>
+</head>
+<body>
+<header>
+  <h1>🚀 PUMP.FUN ALPHA HUNTER</h1>
+  <span id="agents"></span>
+  <span id="bus" class="chip"></span>
+  <span id="holds"></span>
+  <span id="balance" class="dim"></span>
+  <span id="profile" class="dim"></span>
+  <span style="flex:1"></span>
+  <button id="pause">Pause entries</button>
+  <button id="resume">Resume</button>
+  <span id="conn" class="chip down">offline</span>
+</header>
+<main>
+  <section><h2>Pump.fun P&amp;L (SOL, cumulative)</h2><div id="chart-pumpfun"></div></section>
+  <section><h2>HL scalper P&amp;L (USD, cumulative)</h2><div id="chart-hl"></div></section>
+  <section class="wide"><h2>Open positions</h2><div id="positions"></div></section>
+  <section><h2>Watchlist</h2><div id="watchlist"></div></section>
+  <section><h2>Scores</h2><div id="scores"></div></section>
+  <section class="wide"><h2>Recent trades</h2><div id="trades"></div></section>
+  <section class="wide"><h2>Analytics</h2><div id="analytics"></div></section>
+  <section><h2>Agent log</h2><pre id="log"></pre></section>
+  <section><h2>Bus events</h2><pre id="events"></pre></section>
+</main>
+<script>
+(function () {
+  var token = new URLSearchParams(location.search).get('token');
+  var $ = function (id) { return document.getElementById(id); };
+  var esc = function (s) { return String(s == null ? '' : s).replace(/[&<>"]/g, function (ch) { return { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[ch]; }); };
+  var num = function (n, d) { return typeof n === 'number' && isFinite(n) ? n.toFixed(d) : '—'; };
+  var signed = function (n, d, unit) {
+    if (typeof n !== 'number' || !isFinite(n)) return '<span class="dim">—</span>';
+    return '<span class="' + (n >= 0 ? 'pos' : 'neg') + '">' + (n >= 0 ? '+' : '') + n.toFixed(d) + (unit || '') + '</span>';
+  };
+  var age = function (ms) {
+    var s = Math.max(0, Math.floor(ms / 1000));
+    if (s < 60) return s + 's';
+    if (s < 3600) return Math.floor(s / 60) + 'm';
+    return Math.floor(s / 3600) + 'h' + Math.floor((s % 3600) / 60) + 'm';
+  };
+
+  function table(cols, rows) {
+    if (!rows.length) return '<div class="empty">none</div>';
+    var head = cols.map(function (c) { return '<th class="' + (c.num ? 'num' : '') + '">' + esc(c.label) + '</th>'; }).join('');
+    var body = rows.map(function (r) {
+      return '<tr>' + cols.map(function (c) { return '<td class="' + (c.num ? 'num' : '') + '">' + c.cell(r) + '</td>'; }).join('') + '</tr>';
+    }).join('');
+    return '<table><thead><tr>' + head + '</tr></thead><tbody>' + body + '</tbody></table>';
+  }
+
+  function chart(el, values, unit) {
+    if (!values.length) { el.innerHTML = '<div class="empty">no closed trades yet</div>'; return; }
+    var pts = [0];
+    values.forEach(function (v) { pts.push(pts[pts.length - 1] + v); });
+    var w = 600, h = 160, pad = 6;
+    var min = Math.min.apply(null, pts), max = Math.max.apply(null, pts);
+    if (max === min) { max += 1; min -= 1; }
+    var x = function (i) { return pad + (i / (pts.length - 1 || 1)) * (w - 2 * pad); };
+    var y = function (v) { return h - pad - ((v - min) / (max - min)) * (h - 2 * pad); };
+    var line = pts.map(function (v, i) { return x(i).toFixed(1) + ',' + y(v).toFixed(1); }).join(' ');
+    var last = pts[pts.length - 1];
+    el.innerHTML =
+      '<svg viewBox="0 0 ' + w + ' ' + h + '" preserveAspectRatio="none">' +
+      '<line x1="0" x2="' + w + '" y1="' + y(0) + '" y2="' + y(0) + '" stroke="#30363d" stroke-dasharray="4 4"/>' +
+      '<polyline fill="none" stroke-width="2" stroke="' + (last >= 0 ? '#3fb950' : '#f85149') + '" points="' + line + '"/></svg>' +
+      '<div>' + values.length + ' trades · total ' + signed(last, 4, ' ' + unit) + ' · max ' + num(max, 4) + ' · min ' + num(min, 4) + '</div>';
+  }
+
+  function render(s) {
+    $('agents').innerHTML = s.agents.map(function (a) {
+      var cls = a.status === 'up' ? 'up' : (a.status === 'failed' || a.status === 'backoff') ? 'down' : 'warn';
+      var up = a.status === 'up' && a.startedAt ? ' ' + age(s.ts - a.startedAt) : ' ' + a.status;
+      return '<span class="chip ' + cls + '" title="pid ' + esc(a.pid) + (a.lastExit ? ' · last exit ' + esc(a.lastExit) : '') + '">' +
+        esc(a.name) + up + (a.restarts ? ' ↻' + a.restarts : '') + '</span>';
+    }).join(' ');
+    var unacked = Object.keys(s.bus.unacked).reduce(function (n, k) { return n + s.bus.unacked[k]; }, 0);
+    $('bus').textContent = 'bus ' + s.bus.clients + '/' + s.agents.length + (unacked ? ' · ' + unacked + ' unacked' : '');
+    var holds = Object.keys(s.entryHolds);
+    $('holds').innerHTML = holds.length ? '<span class="chip down">HALTED: ' + esc(holds.map(function (k) { return s.entryHolds[k]; }).join('; ')) + '</span>' : '';
+    $('balance').textContent = s.balance ? num(s.balance.solBalance, 4) + ' SOL' : '';
+    $('profile').textContent = s.profile ? s.profile.summary : '';
+
+    var pump = s.positions.trader.map(function (p) { p._book = 'trader'; return p; })
+      .concat(s.positions.scalper.map(function (p) { p._book = 'scalp'; return p; }));
+    var pnl = function (p) { return p.entryPrice > 0 && p.currentPrice ? (p.currentPrice / p.entryPrice - 1) * 100 : null; };
+    $('positions').innerHTML = table([
+      { label: 'book', cell: function (p) { return esc(p._book); } },
+      { label: 'symbol', cell: function (p) { return esc(p.symbol); } },
+      { label: 'entry', num: true, cell: function (p) { return esc(p.entryPrice); } },
+      { label: 'current', num: true, cell: function (p) { return esc(p.currentPrice); } },
+      { label: 'P&L', num: true, cell: function (p) { return signed(pnl(p), 1, '%'); } },
+      { label: 'SOL', num: true, cell: function (p) { return num(p.solSpent, 4); } },
+      { label: 'stage', num: true, cell: function (p) { return esc(p.exitStage == null ? '' : p.exitStage); } },
+      { label: 'age', num: true, cell: function (p) { return p.entryTime ? age(s.ts - Date.parse(p.entryTime)) : ''; } },
+      { label: '', cell: function (p) { return '<button data-close="' + esc(p.id) + '">close</button>'; } },
+    ], pump) + (s.positions.hl.length ? '<h2 style="margin-top:10px">HL scalper</h2>' + table([
+      { label: 'coin', cell: function (p) { return esc(p.coin); } },
+      { label: 'side', cell: function (p) { return p.isLong ? '<span class="pos">LONG</span>' : '<span class="neg">SHORT</span>'; } },
+      { label: 'size', num: true, cell: function (p) { return esc(p.size); } },
+      { label: 'entry', num: true, cell: function (p) { return esc(p.entryPrice); } },
+      { label: 'TP', num: true, cell: function (p) { return esc(p.tpPrice); } },
+      { label: 'SL', num: true, cell: function (p) { return esc(p.slPrice); } },
+      { label: 'age', num: true, cell: function (p) { return p.openedAt ? age(s.ts - p.openedAt) : ''; } },
+    ], s.positions.hl) : '');
+
+    $('watchlist').innerHTML = table([
+      { label: 'symbol', cell: function (t) { return esc(t.symbol); } },
+      { label: 'mcap', num: true, cell: function (t) { return t.marketCap ? '$' + (t.marketCap / 1000).toFixed(1) + 'K' : '—'; } },
+      { label: 'bonding', num: true, cell: function (t) { return num(t.bondingCurveProgress, 0) + '%'; } },
+      { label: 'tx', num: true, cell: function (t) { return esc(t.txCount); } },
+    ], s.watchlist);
+    $('scores').innerHTML = table([
+      { label: 'symbol', cell: function (t) { return esc(t.symbol); } },
+      { label: 'score', num: true, cell: function (t) { return esc(t.score); } },
+      { label: 'reasoning', cell: function (t) { return '<span class="dim">' + esc(String(t.reasoning || '').slice(0, 60)) + '</span>'; } },
+    ], s.scores);
+
+    chart($('chart-pumpfun'), s.trades.pumpfun.map(function (t) { return t.pnlSol || 0; }), 'SOL');
+    chart($('chart-hl'), s.trades.hl.map(function (t) { return t.pnlUsd || 0; }), 'USD');
+
+    var recent = s.trades.pumpfun.slice(-25).reverse();
+    $('trades').innerHTML = table([
+      { label: 'closed', cell: function (t) { return t.exitTime ? esc(new Date(t.exitTime).toLocaleTimeString()) : ''; } },
+      { label: 'type', cell: function (t) { return esc(t.type || 'swing'); } },
+      { label: 'symbol', cell: function (t) { return esc(t.symbol); } },
+      { label: 'reason', cell: function (t) { return esc(t.exitReason); } },
+      { label: 'P&L %', num: true, cell: function (t) { return signed(t.pnlPct, 1, '%'); } },
+      { label: 'SOL', num: true, cell: function (t) { return signed(t.pnlSol, 4); } },
+    ], recent);
+
+    var a = s.analytics;
+    if (!a || !a.totalTrades) { $('analytics').innerHTML = '<div class="empty">waiting for ANALYTICS</div>'; return; }
+    var bucketCols = function (first) {
+      return [
+        { label: first, cell: function (r) { return esc(r[0]); } },
+        { label: 'n', num: true, cell: function (r) { return esc(r[1].count); } },
+        { label: 'win', num: true, cell: function (r) { return num(r[1].winRate, 0) + '%'; } },
+        { label: 'avg', num: true, cell: function (r) { return signed(r[1].avgPnlPct, 1, '%'); } },
+        { label: 'SOL', num: true, cell: function (r) { return signed(r[1].totalPnlSol, 4); } },
+      ];
+    };
+    var rows = function (obj) { return Object.keys(obj || {}).map(function (k) { return [k, obj[k]]; }).filter(function (r) { return r[1] && r[1].count > 0; }); };
+    $('analytics').innerHTML = '<div style="display:grid;grid-template-columns:repeat(auto-fit,minmax(300px,1fr));gap:12px">' +
+      table(bucketCols('overall'), [['all', a.overall], ['swing', a.swing], ['scalp', a.scalp]]) +
+      table(bucketCols('exit'), rows(a.byExitReason)) +
+      table(bucketCols('score'), rows(a.byScoreBucket)) +
+      table(bucketCols('hold'), rows(a.byHoldTime)) +
+      table(bucketCols('tag'), rows(a.byTag)) +
+      '</div>' + (a.signals && a.signals.length ? '<ul>' + a.signals.map(function (x) { return '<li>' + esc(typeof x === 'string' ? x : JSON.stringify(x)) + '</li>'; }).join('') + '</ul>' : '');
+  }
+
+  function append(el, text) {
+    var atBottom = el.scrollTop + el.clientHeight >= el.scrollHeight - 4;
+    el.textContent += text + '\\n';
+    if (el.textContent.length > 60000) el.textContent = el.textContent.slice(-40000);
+    if (atBottom) el.scrollTop = el.scrollHeight;
+  }
+
+  function describe(m) {
+    var d = m.data || {};
+    switch (m.type) {
+      case 'POSITION_OPENED': return 'opened ' + d.symbol + ' (' + d.source + ') ' + d.amountSol + ' SOL';
+      case 'TRADE_COMPLETE': return 'closed ' + d.symbol + ' ' + d.reason + ' ' + num(d.pnlPct, 1) + '% (' + num(d.pnlSol, 4) + ' SOL)';
+      case 'CIRCUIT_BREAK': return 'CIRCUIT BREAK — ' + d.reason;
+      case 'CIRCUIT_RESUME': return 'circuit resume';
+      case 'PROFILE_UPDATE': return 'profile reloaded from ' + d.source;
+      default: return m.type;
+    }
+  }
+
+  function post(path) {
+    var headers = token ? { Authorization: 'Bearer ' + token } : {};
+    return fetch(path, { method: 'POST', headers: headers }).then(function (r) { return r.json(); })
+      .then(function (body) { if (body.error) alert(body.error); });
+  }
+  $('pause').onclick = function () { post('/pause'); };
+  $('resume').onclick = function () { post('/resume'); };
+  $('positions').onclick = function (e) {
+    var id = e.target.getAttribute && e.target.getAttribute('data-close');
+    if (id && confirm('Sell position ' + id + ' now?')) post('/positions/' + encodeURIComponent(id) + '/close');
+  };
+
+  function connect() {
+    var ws = new WebSocket((location.protocol === 'https:' ? 'wss://' : 'ws://') + location.host + '/ws' + (token ? '?token=' + encodeURIComponent(token) : ''));
+    ws.onopen = function () { $('conn').className = 'chip up'; $('conn').textContent = 'live'; };
+    ws.onclose = function () { $('conn').className = 'chip down'; $('conn').textContent = 'offline'; setTimeout(connect, 3000); };
+    ws.onmessage = function (ev) {
+      var m = JSON.parse(ev.data);
+      if (m.kind === 'snapshot') render(m.data);
+      else if (m.kind === 'log') append($('log'), new Date(m.ts).toLocaleTimeString() + ' ' + m.line);
+      else if (m.kind === 'event') append($('events'), new Date(m.msg.ts).toLocaleTimeString() + ' [' + m.msg.from + '] ' + describe(m.msg));
+    };
+  }
+  connect();
+})();
+</script>
+</body>
+</html>
+`;
@@ -32,7 +32,7 @@ async function testHyperLiquidLeverageTrade() {
       console.log('\n❌ Insufficient balance for leveraged trading');
       console.log('   Minimum recommended: $5 USDC');
       console.log('   Your balance: $' + (balance ?? 0));
-      console.log('\n💡 Deposit funds first: npm run deposit:correct 10');
+      console.log('\n💡 Deposit funds first: npm run deposit:hl -- --amount 10');
       return;
     }
     console.log('      ✅ Sufficient balance for trading\n');
@@ -84,7 +84,7 @@ async function testHyperLiquidLeverageTrade() {
       console.log(`   Minimum order value: $11`);
       console.log(`   Your order value: $${orderValue.toFixed(2)}`);
       console.log(`   Position size: ${roundedSize} BTC`);
-      console.log('\n💡 Deposit more funds to trade: npm run deposit:correct 50');
+      console.log('\n💡 Deposit more funds to trade: npm run deposit:hl -- --amount 50');
       return;
     }
 
@@ -137,7 +137,7 @@ async function testHyperLiquidLeverageTrade() {
 
       if (result?.message?.includes('Insufficient')) {
         console.log('\n💡 Tip: You need more USDC balance in HyperLiquid');
-        console.log('   Deposit: npm run deposit:correct [amount]');
+        console.log('   Deposit: npm run deposit:hl -- --amount <usd>');
       }
 
       if (result?.message?.includes('position size')) {
@@ -0,0 +1,67 @@
+/**
+ * TRADE JOURNAL — paper/live file switch
+ *
+ * Opens the order registry's journal (order-registry.ts) on the live file,
+ * then switches the process to paper the way a paper session does
+ * (usePaperJournal(), from auth.ts) and checks that the next order lands in
+ * the paper file and not in the live one. Writes to throwaway journals in the
+ * temp dir — no .env, no API, safe for CI. Exits 1 when a check fails.
+ *
+ * Usage:
+ *   npm run test:journal
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { openJournal, usePaperJournal, getJournalPath } from './journal';
+import { beginSubmission, getClientOrder, newClientOrderId, ClientOrderInit } from './order-registry';
+
+// ─── Checks ───────────────────────────────────────────────────────────────────
+
+let failures = 0;
+
+function check(name: string, ok: boolean, detail: string) {
+  if (!ok) failures++;
+  console.log(`  ${ok ? '✓' : '✗'} ${name}: ${detail}`);
+}
+
+function order(): ClientOrderInit {
+  return {
+    id: newClientOrderId('journal-test'), chainId: 622112261, token: 'So11111111111111111111111111111111111111112',
+    side: 'buy', amount: '1000000', nonce: String(Date.now()), balanceBefore: 0,
+  };
+}
+
+// ─── Main ─────────────────────────────────────────────────────────────────────
+
+function main() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gdex-journal-'));
+  const live = path.join(dir, 'live.db');
+  const paper = path.join(dir, 'paper.db');
+  process.env.JOURNAL_DB = live;
+  process.env.PAPER_JOURNAL_DB = paper;
+  delete process.env.PAPER_TRADING;
+
+  try {
+    console.log('\n━━━ Module journal opened before the paper switch ━━━\n');
+    const before = beginSubmission(order());
+    check('order before the switch is in the live file', !!before && openJournal(live).getClientOrder(before.id) !== null, live);
+
+    usePaperJournal();
+    check('journal path follows the switch', getJournalPath() === paper, getJournalPath());
+
+    const after = beginSubmission(order());
+    check('order after the switch is in the paper file', !!after && openJournal(paper).getClientOrder(after.id) !== null, paper);
+    check('order after the switch is not in the live file', !!after && openJournal(live).getClientOrder(after.id) === null, live);
+    check('registry reads the paper file', !!after && getClientOrder(after.id)?.id === after.id && !getClientOrder(before!.id),
+      'paper order found, live order not');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  console.log(failures === 0 ? '\nAll journal checks passed' : `\n${failures} journal check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main();
@@ -0,0 +1,176 @@
+/**
+ * ORDER FLOWS AGAINST THE MOCK API
+ *
+ * Starts the mock GDEX/HyperLiquid server in-process (mock-api.ts), points
+ * the project at it with GDEX_MOCK_URL and runs spot and perp orders through
+ * each scenario, checking what buyToken/sellToken/placePerpOrder report —
+ * spot fills included, read from the mock's chain RPC.
+ * Logs in with a throwaway wallet and writes to a throwaway journal, so it
+ * needs no .env and touches no funds — safe for CI. Exits 1 when a check
+ * fails.
+ *
+ * Usage:
+ *   npm run test:mock                             # every scenario (~2 min: timeouts and pending wait out the client limits)
+ *   npm run test:mock -- --scenario rejects
+ */
+
+import WebSocket from 'ws';
+(globalThis as any).WebSocket = WebSocket;
+
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { createAuthenticatedSession, GDEXSession } from './auth';
+import { getClearinghouseState } from './hyperliquid';
+import { loadMockScenario, startMockApi, MockApi } from './mock-api';
+import { buyToken, sellToken, placePerpOrder, closePerpPosition, cancelPerpOrder, getHlAddress, TradeResult } from './trading';
+
+const SOLANA = 622112261;
+const BASE = 8453;
+const BUY_LAMPORTS = '1000000';
+const SELL_AMOUNT = '1000000';
+const BUY_WEI = '100000000000000';
+// Past the 15s purchase_v2/sell_v2 client timeout, well under the SDK's 60s
+const HANG_MS = 16_000;
+
+// ─── Checks ───────────────────────────────────────────────────────────────────
+
+let failures = 0;
+
+function check(name: string, ok: boolean, detail: string) {
+  if (!ok) failures++;
+  console.log(`  ${ok ? '✓' : '✗'} ${name}: ${detail}`);
+}
+
+function describe(r: TradeResult): string {
+  return r.isSuccess ? `ok ${r.hash ?? r.orderId ?? ''}`.trim() : `${r.pending ? 'pending' : 'failed'} — ${r.message}`;
+}
+
+/** A spot order that filled and whose fill was read from the chain */
+function filled(r: TradeResult): boolean {
+  return r.isSuccess && !!r.hash && r.fillError === undefined && (r.tokenAmount ?? 0) > 0;
+}
+
+function describeSpot(r: TradeResult): string {
+  return `${describe(r)}${r.fillError ? ` | fill unknown: ${r.fillError}` : ''}${r.tokenAmount ? ` | ${r.tokenAmount} tokens for ${r.nativeAmount} native` : ''}`;
+}
+
+interface Ctx {
+  /** Logged in on Solana */
+  session: GDEXSession;
+  /** The same wallet on Base, for the EVM spot path */
+  base: GDEXSession;
+  token: string;
+  baseToken: string;
+}
+
+/** A spot order that may throw when the request itself times out */
+async function attempt(order: () => Promise<TradeResult>): Promise<TradeResult | Error> {
+  try {
+    return await order();
+  } catch (err: any) {
+    return err instanceof Error ? err : new Error(String(err));
+  }
+}
+
+// ─── Scenarios ────────────────────────────────────────────────────────────────
+
+async function fills({ session, base, token, baseToken }: Ctx) {
+  const buy = await buyToken(session, { tokenAddress: token, amount: BUY_LAMPORTS, chainId: SOLANA });
+  check('buy fills', filled(buy), describeSpot(buy));
+  const sell = await sellToken(session, { tokenAddress: token, amount: SELL_AMOUNT, chainId: SOLANA });
+  check('sell fills', filled(sell), describeSpot(sell));
+  const evmBuy = await buyToken(base, { tokenAddress: baseToken, amount: BUY_WEI, chainId: BASE });
+  check('EVM buy fills', filled(evmBuy), describeSpot(evmBuy));
+
+  const open = await placePerpOrder(session, { coin: 'BTC', isLong: true, usd: 20 });
+  check('perp market order fills', open.isSuccess && open.status === 'filled', `${describe(open)} ${open.filledSz ?? ''} @ ${open.avgPx ?? '?'}`);
+  const address = await getHlAddress(session);
+  const held = (await getClearinghouseState(address)).positions.find((p) => p.coin === 'BTC');
+  check('position opened', !!held && held.isLong, held ? `BTC ${held.szi} @ ${held.entryPx}` : 'no BTC position');
+
+  const close = await closePerpPosition(session, 'BTC');
+  check('position closes', close.isSuccess && close.status === 'filled', describe(close));
+  const after = (await getClearinghouseState(address)).positions.find((p) => p.coin === 'BTC');
+  check('position gone', !after, after ? `BTC ${after.szi} left` : 'flat');
+}
+
+async function rejects({ session, token }: Ctx) {
+  const buy = await buyToken(session, { tokenAddress: token, amount: BUY_LAMPORTS, chainId: SOLANA });
+  check('buy rejected', !buy.isSuccess && !buy.pending, describe(buy));
+  const perp = await placePerpOrder(session, { coin: 'BTC', isLong: true, usd: 20 });
+  check('perp order rejected', !perp.isSuccess, describe(perp));
+}
+
+async function timeouts({ session, token }: Ctx) {
+  // A sell, so the order it leaves unresolved doesn't hold back later buys of the token
+  const sell = await attempt(() => sellToken(session, { tokenAddress: token, amount: SELL_AMOUNT, chainId: SOLANA }));
+  check('sell times out', sell instanceof Error || (!sell.isSuccess && !!sell.pending),
+    sell instanceof Error ? `threw — ${sell.message}` : describe(sell));
+  const perp = await placePerpOrder(session, { coin: 'BTC', isLong: true, usd: 20 });
+  check('perp order times out', !perp.isSuccess, describe(perp));
+}
+
+async function pendingForever({ session, token }: Ctx) {
+  const buy = await buyToken(session, { tokenAddress: token, amount: BUY_LAMPORTS, chainId: SOLANA });
+  check('buy stays pending', !buy.isSuccess && !!buy.pending, describe(buy));
+
+  const rest = await placePerpOrder(session, { coin: 'BTC', isLong: true, size: 0.001, type: 'limit', price: 60_000 });
+  check('perp limit order rests', rest.isSuccess && rest.status === 'resting', `${describe(rest)} oid ${rest.orderId}`);
+  if (rest.orderId) {
+    const cancel = await cancelPerpOrder(session, 'BTC', rest.orderId);
+    check('resting order cancels', cancel.isSuccess, describe(cancel));
+  }
+}
+
+const SCENARIOS: Array<[string, (ctx: Ctx) => Promise<void>]> = [
+  ['fills', fills],
+  ['rejects', rejects],
+  ['timeouts', timeouts],
+  // Last: its pending buy holds back further buys of the token
+  ['pending-forever', pendingForever],
+];
+
+// ─── Main ─────────────────────────────────────────────────────────────────────
+
+async function main() {
+  const only = process.argv.includes('--scenario') ? process.argv[process.argv.indexOf('--scenario') + 1] : undefined;
+  const selected = SCENARIOS.filter(([name]) => !only || name === only);
+  if (selected.length === 0) throw new Error(`Unknown scenario ${only} — one of ${SCENARIOS.map(([n]) => n).join(', ')}`);
+
+  // Orders land in the client-order registry — keep them out of the real journal
+  process.env.JOURNAL_DB ??= path.join(os.tmpdir(), `gdex-mock-${process.pid}.db`);
+  const api: MockApi = await startMockApi({ port: 0 });
+  process.env.GDEX_MOCK_URL = api.url;
+  console.log(`Mock API on ${api.url} (journal ${process.env.JOURNAL_DB})`);
+
+  try {
+    const wallet = ethers.Wallet.createRandom();
+    const login = (chainId: number) => createAuthenticatedSession({
+      walletAddress: wallet.address,
+      privateKey: wallet.privateKey,
+      chainId,
+      paperTrading: false,
+    });
+    const session = await login(SOLANA);
+    const base = await login(BASE);
+    console.log(`Logged in as ${session.walletAddress} (custodial ${session.custodialAddress} / ${base.custodialAddress})`);
+
+    for (const [name, run] of selected) {
+      console.log(`\n━━━ ${name} ━━━\n`);
+      api.setScenario({ ...loadMockScenario(name), hangMs: HANG_MS });
+      const tokenOn = (chainId: number) => api.scenario().tokens.find((t) => t.chainId === chainId)!.address;
+      await run({ session, base, token: tokenOn(SOLANA), baseToken: tokenOn(BASE) });
+    }
+  } finally {
+    await api.close();
+  }
+
+  console.log(failures === 0 ? '\nAll mock order flows passed' : `\n${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main().catch((err) => {
+  console.error(`FATAL: ${err.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,71 @@
+/**
+ * test-notify.ts — send test alerts through every channel in notifications.json
+ *
+ * Usage:
+ *   npm run notify:test             # one TEST alert per channel
+ *   npm run notify:test -- --all    # plus a sample of every event, through each channel's filters
+ *
+ * Point a channel at a local stand-in (webhook/discord `url`, telegram
+ * `apiBase`, smtp `host`/`port`) to check templates without spamming anyone.
+ */
+
+import { loadNotifyConfig, createNotifier, getNotifyConfigPath, NotifyEvent } from './notify';
+
+const SAMPLES: Array<Omit<NotifyEvent, 'ts'>> = [
+  {
+    type: 'POSITION_OPENED', from: 'TRADER',
+    data: { positionId: 'sample', tokenAddress: 'So11111111111111111111111111111111111111112', symbol: 'SAMPLE', entryPrice: 0.00000123, amountSol: 0.005, source: 'trader', openedAt: Date.now() },
+  },
+  {
+    type: 'TRADE_COMPLETE', from: 'RISK',
+    data: { positionId: 'sample', tokenAddress: 'So11111111111111111111111111111111111111112', symbol: 'SAMPLE', pnlPct: -12.4, pnlSol: -0.00062, reason: 'SL', holdMs: 184_000, source: 'trader' },
+  },
+  { type: 'CIRCUIT_BREAK', from: 'RISK', data: { reason: '3 consecutive SL hits', consecutiveLosses: 3 } },
+  { type: 'CIRCUIT_RESUME', from: 'RISK', data: {} },
+  {
+    type: 'HL_TRADE_COMPLETE', from: 'HL-SCALPER',
+    data: { source: 'hl-scalper', coin: 'ETH', direction: 'LONG', entryPrice: 2500, exitPrice: 2525, pnlUsd: 0.42, pnlPct: 1, exitReason: 'TP', duration: '4m 10s' },
+  },
+  {
+    type: 'HL_CLOSE_FAILED', from: 'HL-SCALPER',
+    data: { source: 'hl-scalper', coin: 'ETH', direction: 'LONG', reason: 'SL', error: 'sample error; retry: sample error' },
+  },
+  {
+    type: 'HL_TOPUP', from: 'HL-TOPUP',
+    data: { source: 'hl-topup', status: 'pending', amountUsd: 32, reason: 'account value $18.00 < $25 floor', message: 'Deposit accepted' },
+  },
+  {
+    type: 'HL_COPY_ROTATE', from: 'HL-COPY',
+    data: { source: 'hl-copytrader', action: 'remove', leader: '0x0000000000000000000000000000000000000001', reason: 'week ROI -4.2% < 0%' },
+  },
+];
+
+async function main() {
+  const config = loadNotifyConfig();
+  if (!config) {
+    console.error('No notifications config — create notifications.json (see notifications.example.json) or set NOTIFY_CONFIG');
+    process.exitCode = 1;
+    return;
+  }
+  console.log(`Config: ${getNotifyConfigPath()}`);
+  const notifier = createNotifier(config, () => {});
+
+  const events: Array<Omit<NotifyEvent, 'ts'>> = [{ type: 'TEST', from: 'notify:test', data: {} }];
+  if (process.argv.includes('--all')) events.push(...SAMPLES);
+
+  let failed = 0;
+  for (const event of events) {
+    const results = await notifier.notify({ ...event, ts: Date.now() });
+    for (const r of results) {
+      const icon = r.status === 'sent' ? '✅' : r.status === 'failed' ? '❌' : '·';
+      console.log(`  ${icon} ${event.type.padEnd(17)} ${r.channel.padEnd(16)} ${r.status}${r.error ? ` — ${r.error}` : ''}`);
+      if (r.status === 'failed') failed++;
+    }
+  }
+  if (failed > 0) process.exitCode = 1;
+}
+
+main().catch((err) => {
+  console.error(`❌ ${err.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,153 @@
+/**
+ * PUMP.FUN FLEET CHECKS — entry gate across agent restarts, status API access
+ *
+ * Starts the message bus in-process on a spare port with ALPHA's entry gate
+ * wired to it, and connects stand-in TRADER and SCALPER agents that track breaks
+ * the way pumpfun-trader.ts does (an in-memory set that starts empty). Checks
+ * that an agent restarted while a hold is active still learns about it, that
+ * an operator pause through the status API survives a restart, and that the
+ * status API refuses a foreign Host. No GDEX API, no funds — safe for CI.
+ * Exits 1 when a check fails.
+ *
+ * Usage:
+ *   npm run test:fleet
+ */
+
+// The bus and status API read their ports at import time — keep clear of a running ALPHA
+process.env.PUMPFUN_BUS_PORT ??= '7797';
+process.env.PUMPFUN_API_PORT ??= '7798';
+
+import http from 'http';
+import type { BusClient, BusMsg, BusServer } from './pumpfun-bus';
+import { createEntryGate, EntryGate, Supervisor } from './pumpfun-supervisor';
+
+const { startBusServer, connectBus } = require('./pumpfun-bus') as typeof import('./pumpfun-bus');
+const { startStatusApi } = require('./pumpfun-api') as typeof import('./pumpfun-api');
+
+// ─── Checks ───────────────────────────────────────────────────────────────────
+
+let failures = 0;
+
+function check(name: string, ok: boolean, detail: string) {
+  if (!ok) failures++;
+  console.log(`  ${ok ? '✓' : '✗'} ${name}: ${detail}`);
+}
+
+/** Resolve once `cond` holds, or after `ms` — the caller checks which. */
+async function until(cond: () => boolean, ms = 3_000): Promise<boolean> {
+  const deadline = Date.now() + ms;
+  while (!cond() && Date.now() < deadline) await new Promise((r) => setTimeout(r, 25));
+  return cond();
+}
+
+// ─── Stand-in agent ───────────────────────────────────────────────────────────
+
+interface FakeAgent {
+  bus: BusClient;
+  /** Who currently halts entries — as pumpfun-trader.ts keeps it */
+  breaks: Set<string>;
+}
+
+/** A fresh "process": new bus connection, no breaks known. */
+async function startAgent(name: string): Promise<FakeAgent> {
+  const breaks = new Set<string>();
+  const bus = await connectBus(name, (msg: BusMsg) => {
+    if (msg.type === 'CIRCUIT_BREAK') breaks.add(msg.from);
+    else if (msg.type === 'CIRCUIT_RESUME') breaks.delete(msg.from);
+  }, { topics: ['CIRCUIT_BREAK', 'CIRCUIT_RESUME'] });
+  return { bus, breaks };
+}
+
+// ─── Scenarios ────────────────────────────────────────────────────────────────
+
+async function restartWhileHeld(gate: EntryGate) {
+  console.log('\n━━━ Agent restarted while RISK is down ━━━\n');
+  const first = await startAgent('TRADER');
+  gate.hold('RISK', 'RISK agent down: test');
+  check('break reaches the running agent', await until(() => first.breaks.has('ALPHA')), [...first.breaks].join(', ') || 'none');
+
+  // Crash and restart: the old process already ACKed the break
+  first.bus.close();
+  const second = await startAgent('TRADER');
+  check('restarted agent learns the break on register', await until(() => second.breaks.has('ALPHA')), [...second.breaks].join(', ') || 'none');
+
+  gate.release('RISK');
+  check('restarted agent resumes on release', await until(() => second.breaks.size === 0), [...second.breaks].join(', ') || 'none');
+
+  // No hold → nothing re-sent on register
+  second.bus.close();
+  const third = await startAgent('TRADER');
+  await new Promise((r) => setTimeout(r, 300));
+  check('no break on register without a hold', third.breaks.size === 0, [...third.breaks].join(', ') || 'none');
+  third.bus.close();
+}
+
+/** Raw request to the status API, so the Host header can be set. */
+function apiRequest(method: string, path: string, headers: http.OutgoingHttpHeaders = {}): Promise<{ status: number; body: any }> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({ host: '127.0.0.1', port: Number(process.env.PUMPFUN_API_PORT), method, path, headers }, (res) => {
+      let raw = '';
+      res.on('data', (chunk) => { raw += chunk; });
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, body: raw ? JSON.parse(raw) : null }));
+    });
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+async function pauseSurvivesRestart(gate: EntryGate, bus: BusServer) {
+  console.log('\n━━━ Operator pause across an agent restart ━━━\n');
+  const supervisor: Supervisor = { start: async () => {}, agents: () => [], stop: () => {} };
+  const api = await startStatusApi({
+    supervisor, bus, gate, journal: () => null, profile: () => null, readSnapshot: () => null, log: () => {},
+  });
+  if (!api) throw new Error('status API disabled');
+  const auth = { authorization: `Bearer ${api.token}` };
+  const port = process.env.PUMPFUN_API_PORT;
+  try {
+    const first = await startAgent('SCALPER');
+    const paused = await apiRequest('POST', '/pause', auth);
+    check('POST /pause', paused.status === 200 && paused.body?.paused === true, `${paused.status} ${JSON.stringify(paused.body)}`);
+    check('pause reaches the running agent', await until(() => first.breaks.has('ALPHA')), [...first.breaks].join(', ') || 'none');
+
+    first.bus.close();
+    const second = await startAgent('SCALPER');
+    check('restarted agent is still paused', await until(() => second.breaks.has('ALPHA')), [...second.breaks].join(', ') || 'none');
+
+    const resumed = await apiRequest('POST', '/resume', auth);
+    check('POST /resume', resumed.status === 200 && resumed.body?.paused === false, `${resumed.status}`);
+    check('restarted agent resumes', await until(() => second.breaks.size === 0), [...second.breaks].join(', ') || 'none');
+    second.bus.close();
+
+    const local = await apiRequest('GET', '/status', { host: `localhost:${port}` });
+    check('GET /status with Host localhost', local.status === 200, `${local.status}`);
+    const rebound = await apiRequest('GET', '/status', { host: `attacker.example:${port}` });
+    check('GET /status with a foreign Host refused', rebound.status === 403, `${rebound.status} ${rebound.body?.error}`);
+  } finally {
+    api.close();
+  }
+}
+
+// ─── Main ─────────────────────────────────────────────────────────────────────
+
+async function main() {
+  let gate: EntryGate | null = null;
+  const server = startBusServer({ onRegister: (agent) => gate?.reassert(agent) });
+  gate = createEntryGate(server, () => {});
+  console.log(`Bus on port ${process.env.PUMPFUN_BUS_PORT}`);
+
+  try {
+    await restartWhileHeld(gate);
+    await pauseSurvivesRestart(gate, server);
+  } finally {
+    server.close();
+  }
+
+  console.log(failures === 0 ? '\nAll fleet checks passed' : `\n${failures} fleet check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
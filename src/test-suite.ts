@@ -7,6 +7,7 @@ import { ethers } from 'ethers';
 import { loadConfig, CHAIN_NAMES, Config } from './config';
 import { isSolanaChain } from './wallet';
 import { createAuthenticatedSession, ensureEVMWallet, getEffectiveApiKey, GDEXSession } from './auth';
+import { parseYamlMapping } from './pumpfun-profile';
 
 // ============================================================================
 // GDEX SDK Comprehensive Test Suite
@@ -451,8 +452,8 @@ async function testHyperLiquidOperations(
     console.log('    Note: Need ≥10 USDC on Arbitrum + ETH for gas');
 
     // NOTE: sdk.hyperLiquid.hlDeposit() is the legacy SDK method — it returns
-    // "Unauthorized". The working deposit flow is in src/deposit-hl-correct.ts
-    // (uses POST /v1/hl/deposit with CORS headers + CryptoUtils.encodeInputData).
+    // "Unauthorized". The working deposit flow is depositToHyperliquid() in
+    // src/hl-funding.ts (POST /v1/hl/deposit + CryptoUtils.encodeInputData).
     // This test checks the legacy path and marks it as known-broken.
     const depositResult = await sdk.hyperLiquid.hlDeposit(
       session.walletAddress,
@@ -466,14 +467,14 @@ async function testHyperLiquidOperations(
       logResult('hlDeposit', true, `Deposit successful! ${depositResult.message}`);
       console.log('    ✅ USDC deposited to HyperLiquid account');
     } else {
-      // Expected: legacy method is broken. Use src/deposit-hl-correct.ts instead.
-      logResult('hlDeposit', true, `Legacy hlDeposit() confirmed broken (expected). Use deposit-hl-correct.ts`);
-      console.log('    ℹ Use: npm run deposit:hl — working implementation in src/deposit-hl-correct.ts');
+      // Expected: legacy method is broken. Use depositToHyperliquid() (hl-funding.ts) instead.
+      logResult('hlDeposit', true, `Legacy hlDeposit() confirmed broken (expected). Use depositToHyperliquid()`);
+      console.log('    ℹ Use: npm run deposit:hl — working implementation in src/hl-funding.ts');
     }
   } catch (err: any) {
     // Expected error from legacy method — treat as pass with info
     logResult('hlDeposit', true, `Legacy hlDeposit() returned error (expected): ${err.message.slice(0, 60)}`);
-    console.log('    ℹ Working deposit: npm run deposit:hl (src/deposit-hl-correct.ts)');
+    console.log('    ℹ Working deposit: npm run deposit:hl (src/hl-funding.ts)');
     if (err.response?.data) {
       console.log(`    Error detail: ${JSON.stringify(err.response.data)}`);
     }
@@ -682,6 +683,30 @@ async function testCryptoUtils(config: Config) {
   console.log('  5. Use the session key for subsequent authenticated requests\n');
 }
 
+// ============================================================================
+// Phase 9: Strategy Profile Parser (offline)
+// ============================================================================
+
+function testProfileParser() {
+  console.log('\n\u2501\u2501\u2501 Strategy Profile Parser \u2501\u2501\u2501\n');
+
+  const cases: Array<{ name: string; yaml: string; key: string; expected: unknown }> = [
+    { name: 'trailing comment', yaml: 'minScore: 60   # entry floor', key: 'minScore', expected: 60 },
+    { name: '# inside double quotes', yaml: 'label: "run #2"  # kept', key: 'label', expected: 'run #2' },
+    { name: '# inside single quotes', yaml: "label: 'run #2'", key: 'label', expected: 'run #2' },
+    { name: '# not after whitespace', yaml: 'url: https://gdex.pro/#docs', key: 'url', expected: 'https://gdex.pro/#docs' },
+    { name: 'apostrophe then comment', yaml: "note: don't # trade", key: 'note', expected: "don't" },
+  ];
+  for (const c of cases) {
+    try {
+      const got = parseYamlMapping(`# profile\n${c.yaml}\n`)[c.key];
+      logResult(`parseYamlMapping: ${c.name}`, got === c.expected, `${JSON.stringify(got)} (expected ${JSON.stringify(c.expected)})`);
+    } catch (err: any) {
+      logResult(`parseYamlMapping: ${c.name}`, false, err.message);
+    }
+  }
+}
+
 // ============================================================================
 // Main
 // ============================================================================
@@ -759,6 +784,9 @@ export async function runTestSuite() {
   // Phase 8: CryptoUtils
   await testCryptoUtils(config);
 
+  // Phase 9: Strategy Profile Parser (offline)
+  testProfileParser();
+
   // ── Summary ──
   console.log('\n\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550\u2550');
   console.log('                         Test Summary                           ');
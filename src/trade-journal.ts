@@ -0,0 +1,91 @@
+/**
+ * trade-journal.ts — inspect and maintain the SQLite trade journal
+ *
+ * The journal (data/journal.db, JOURNAL_DB overrides) holds positions, fills,
+ * trades, token snapshots and scores for the pump.fun agents and the HL
+ * scalper. pumpfun:alpha and hl:scalper import the old JSON logs on startup;
+ * `migrate` does the same without starting them.
+ *
+ * Usage:
+ *   npm run journal -- migrate                  # import /tmp/pumpfun-*.json + data/scalper-*.json
+ *   npm run journal -- summary                  # open positions and trade stats per book
+ *   npm run journal -- reset --book trader,scalper
+ */
+
+import { parseArgs } from './args';
+import { openJournal, migrateJsonLogs, Book, Journal } from './journal';
+
+const BOOKS: Book[] = ['trader', 'scalper', 'hl-scalper'];
+
+// ─── Args ────────────────────────────────────────────────────────────────────
+
+function parseBooks(value: string | undefined): Book[] {
+  if (!value) throw new Error(`--book is required (${BOOKS.join(', ')})`);
+  const books = value.split(',').map(b => b.trim()) as Book[];
+  const unknown = books.filter(b => !BOOKS.includes(b));
+  if (unknown.length > 0) throw new Error(`Unknown book ${unknown.join(', ')} (${BOOKS.join(', ')})`);
+  return books;
+}
+
+// ─── Commands ────────────────────────────────────────────────────────────────
+
+function migrate(journal: Journal) {
+  const r = migrateJsonLogs(journal);
+  if (r.files.length === 0) {
+    console.log('No legacy JSON logs found — nothing to import');
+    return;
+  }
+  console.log(`✅ Imported ${r.positions} positions, ${r.trades} trades, ${r.tokens} tokens, ${r.scores} scores`);
+  for (const f of r.files) console.log(`   ${f} → ${f}.migrated`);
+}
+
+function summary(journal: Journal) {
+  console.log(`Journal: ${journal.file}`);
+  for (const book of BOOKS) {
+    const open = journal.getPositions(book, 'open').length;
+    const trades = journal.getTrades<{ pnlPct?: number; pnlSol?: number; pnlUsd?: number }>(book);
+    const wins = trades.filter(t => (t.pnlPct ?? 0) >= 0).length;
+    const pnl = trades.reduce((sum, t) => sum + (t.pnlSol ?? t.pnlUsd ?? 0), 0);
+    const unit = book === 'hl-scalper' ? 'USD' : 'SOL';
+    const winRate = trades.length > 0 ? `${((wins / trades.length) * 100).toFixed(0)}%` : '—';
+    console.log(
+      `  ${book.padEnd(11)} open ${String(open).padStart(3)} | trades ${String(trades.length).padStart(5)}` +
+      ` | win ${winRate.padStart(4)} | pnl ${pnl >= 0 ? '+' : ''}${pnl.toFixed(4)} ${unit}`,
+    );
+  }
+  const { lastUpdated, tokens } = journal.getWatchlist();
+  console.log(`  watchlist   ${tokens.length} tokens (updated ${lastUpdated ?? 'never'})`);
+}
+
+function reset(journal: Journal, books: Book[]) {
+  const open = journal.getPositions(books, 'open');
+  if (open.length > 0) {
+    console.log(`⚠️  Dropping ${open.length} open position record(s) — tokens still held are not sold`);
+  }
+  journal.reset(books);
+  console.log(`✅ Cleared positions, fills and trades for ${books.join(', ')}`);
+}
+
+// ─── Main ────────────────────────────────────────────────────────────────────
+
+async function main() {
+  const { flags, positional } = parseArgs(process.argv.slice(2));
+  const journal = openJournal();
+  try {
+    switch (positional[0]) {
+      case 'migrate': return migrate(journal);
+      case 'summary': return summary(journal);
+      case 'reset':   return reset(journal, parseBooks(flags.book));
+      default:
+        console.error('Usage: npm run journal -- <migrate|summary|reset> [--book trader,scalper,hl-scalper]');
+        process.exitCode = 1;
+    }
+  } finally {
+    journal.close();
+  }
+}
+
+main().catch((err) => {
+  console.error(`❌ ${err.message}`);
+  process.exit(1);
+});
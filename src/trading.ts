@@ -2,6 +2,18 @@ import axios from 'axios';
 import { CryptoUtils } from 'gdex.pro-sdk';
 import { GDEXSession } from './auth';
 import { REQUIRED_HEADERS } from './config';
+import { getAssetMeta, getMids, getClearinghouseState, getOpenOrders, getUserFills, formatSize, formatPrice, routeHlAccountToPaper } from './hyperliquid';
+import { checkOrder, chainKey, nativeAmount, OrderIntent, RiskRejection } from './portfolio-risk';
+import { findHolding, getHoldings, getSpotQuote } from './market';
+import { getTradeFill, TradeFill } from './fills';
+import {
+  beginSubmission,
+  getClientOrder,
+  listClientOrders,
+  newClientOrderId,
+  updateClientOrder,
+  ClientOrder,
+} from './order-registry';
 
 const SOLANA = 622112261;
 // Default slippage for Solana v2 trades — 20% handles volatile new tokens
@@ -9,15 +21,45 @@ const DEFAULT_SLIPPAGE_BPS = 2000;
 // Poll up to 30s for async v2 result
 const MAX_POLL_ATTEMPTS = 30;
 const POLL_INTERVAL_MS = 1000;
+const ARBITRUM = 42161;
+// HL rejects new orders under $10 notional (reduce-only closes are exempt)
+const HL_MIN_ORDER_USD = 10;
+// Default max slippage vs mark for perp market orders (0.2%)
+const DEFAULT_PERP_SLIPPAGE = 0.002;
+// A pending order the API doesn't report as queued, with the balance read both
+// before sending and now and unchanged this long after its last update, is
+// taken as never landed
+const RECONCILE_GRACE_MS = 2 * 60_000;
+// An order /trade-status still reports as queued is only taken as never landed
+// this long after its last update; `gdex orders fail <id>` settles it sooner by hand
+const PENDING_EXPIRY_MS = 24 * 3600_000;
+// Holdings and quote lookups before sending — don't hold an exit up for long
+const BALANCE_TIMEOUT_MS = 3_000;
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
-export interface TradeResult {
+/**
+ * Spot buys and sells that succeed also carry the fill (fills.ts): what was
+ * actually paid or received, fees, tip and slippage vs the quote. Paper fills
+ * are simulated; a live fill that couldn't be read leaves them unset with
+ * `fillError` saying why.
+ */
+export interface TradeResult extends Partial<TradeFill> {
   isSuccess: boolean;
   hash?: string;
   message?: string;
+  /** Set when the portfolio risk check refused the order — nothing was sent */
+  rejected?: RiskRejection;
+  /** Client order id the spot order was registered under (order-registry.ts) */
+  clientOrderId?: string;
+  /** Outcome unknown — the order stays pending and is not sent again until reconciled */
+  pending?: boolean;
+  /** The client order id had already filled — nothing was sent, `hash` is the original */
+  duplicate?: boolean;
+  /** Why a successful spot trade has no fill fields */
+  fillError?: string;
   [key: string]: any;
 }
 
@@ -31,6 +73,13 @@ export interface BuyOptions {
   slippageBps?: number;
   /** Jito/Helius priority tip in SOL for Solana v2 (default 0) */
   tip?: number;
+  /**
+   * Idempotency key — reuse it when retrying the same logical order so it is
+   * never sent twice (default: a fresh id per call)
+   */
+  clientOrderId?: string;
+  /** Native per token the caller expects, for slippagePct (default: a GDEX quote fetched before sending) */
+  quotedPrice?: number;
 }
 
 export interface SellOptions {
@@ -42,6 +91,10 @@ export interface SellOptions {
   slippageBps?: number;
   /** Jito/Helius priority tip in SOL for Solana v2 (default 0) */
   tip?: number;
+  /** Idempotency key, as for BuyOptions */
+  clientOrderId?: string;
+  /** As for BuyOptions */
+  quotedPrice?: number;
 }
 
 export interface LimitBuyOrderOptions {
@@ -66,6 +119,58 @@ export interface LimitOrderOptions {
   chainId?: number;
 }
 
+export type PerpOrderType = 'market' | 'limit';
+
+export interface PerpOrderOptions {
+  /** HL coin symbol, e.g. "BTC" */
+  coin: string;
+  /** true = buy/long, false = sell/short */
+  isLong: boolean;
+  /** Size as USD notional — converted at the order price, rounded up to the lot size */
+  usd?: number;
+  /** Size in contracts (coin units) — rounded down to the lot size. Takes precedence over usd */
+  size?: number;
+  /** Default 'market' (marketable order capped at mark ± slippage) */
+  type?: PerpOrderType;
+  /** Limit price — required for limit orders */
+  price?: number;
+  /** Max slippage vs mark for market orders as a fraction (default 0.002 = 0.2%) */
+  slippage?: number;
+  reduceOnly?: boolean;
+  /** Take-profit trigger price attached to the order */
+  tpPrice?: number;
+  /** Stop-loss trigger price attached to the order */
+  slPrice?: number;
+}
+
+export interface PerpOrderResult extends TradeResult {
+  coin: string;
+  isLong: boolean;
+  /** Size sent to HL after lot rounding */
+  size: string;
+  /** Limit price sent to HL after tick rounding */
+  limitPx: string;
+  /** HL order id, when the response or a follow-up lookup reported one */
+  orderId?: string;
+  status?: 'filled' | 'resting';
+  avgPx?: number;
+  filledSz?: number;
+}
+
+export interface ClosePerpOptions {
+  /** Contracts to close — defaults to the whole position */
+  size?: number;
+  /** Max slippage vs mark as a fraction (default 0.002 = 0.2%) */
+  slippage?: number;
+}
+
+export interface PerpTpSlOptions {
+  /** Take-profit trigger price (omit to leave unset) */
+  tpPrice?: number;
+  /** Stop-loss trigger price (omit to leave unset) */
+  slPrice?: number;
+}
+
 // ---------------------------------------------------------------------------
 // Unit helpers
 // ---------------------------------------------------------------------------
@@ -86,35 +191,59 @@ export function formatEthAmount(eth: number): string {
 // Solana v2 async trade helpers
 // ---------------------------------------------------------------------------
 
+interface TradeStatus {
+  /** unknown = the lookup failed or the API doesn't know the request */
+  status: 'success' | 'error' | 'pending' | 'unknown';
+  hash?: string;
+  error?: string;
+}
+
+/** One GET /trade-status/:requestId lookup. */
+async function getTradeStatus(apiUrl: string, requestId: string): Promise<TradeStatus> {
+  try {
+    const res = await axios.get(`${apiUrl}/trade-status/${requestId}`, {
+      headers: REQUIRED_HEADERS,
+      timeout: 5000,
+    });
+    const d = res.data;
+    if (d.status === 'success') return { status: 'success', hash: d.hash };
+    if (d.status === 'error') return { status: 'error', error: d.error || 'Trade failed' };
+    // pending / processing
+    return { status: 'pending' };
+  } catch {
+    return { status: 'unknown' };
+  }
+}
+
 async function pollTradeStatus(apiUrl: string, requestId: string): Promise<TradeResult> {
   for (let i = 0; i < MAX_POLL_ATTEMPTS; i++) {
     await new Promise(r => setTimeout(r, POLL_INTERVAL_MS));
-    try {
-      const res = await axios.get(`${apiUrl}/trade-status/${requestId}`, {
-        headers: REQUIRED_HEADERS,
-        timeout: 5000,
-      });
-      const d = res.data;
-      if (d.status === 'success') {
-        return { isSuccess: true, hash: d.hash };
-      }
-      if (d.status === 'error') {
-        return { isSuccess: false, message: d.error || 'Trade failed' };
-      }
-      // pending / processing — keep polling
-    } catch {
-      // ignore transient poll errors
+    const s = await getTradeStatus(apiUrl, requestId);
+    if (s.status === 'success') {
+      return { isSuccess: true, hash: s.hash };
+    }
+    if (s.status === 'error') {
+      return { isSuccess: false, message: s.error };
     }
+    // pending, or a transient poll error — keep polling
   }
-  return { isSuccess: false, message: 'Timeout waiting for trade confirmation' };
+  // The trade may still land — the caller must reconcile, not resend
+  return { isSuccess: false, pending: true, message: 'Timeout waiting for trade confirmation' };
 }
 
-/** Buy via POST /purchase_v2 (async queue — handles Token2022 + Raydium LaunchLab) */
-async function buyTokenV2(session: GDEXSession, opts: BuyOptions): Promise<TradeResult> {
+/**
+ * Buy via POST /purchase_v2 (async queue — handles Token2022 + Raydium LaunchLab).
+ * `nonce` is the client order's; `onQueued` gets the request id before polling starts.
+ */
+async function buyTokenV2(
+  session: GDEXSession,
+  opts: BuyOptions,
+  nonce: string,
+  onQueued: (requestId: string) => void,
+): Promise<TradeResult> {
   const chainId = opts.chainId ?? session.chainId;
   const apiUrl = session.sdk.getConfig().baseURL;
   const userId = session.walletAddress.toLowerCase();
-  const nonce = CryptoUtils.generateUniqueNumber().toString();
 
   const encodedData = CryptoUtils.encodeInputData('purchase', {
     tokenAddress: opts.tokenAddress,
@@ -146,15 +275,20 @@ async function buyTokenV2(session: GDEXSession, opts: BuyOptions): Promise<Trade
     return { isSuccess: false, message: res.data?.error || 'No requestId in purchase_v2 response' };
   }
 
+  onQueued(requestId);
   return pollTradeStatus(apiUrl, requestId);
 }
 
-/** Sell via POST /sell_v2 (async queue — handles Token2022 + Raydium LaunchLab) */
-async function sellTokenV2(session: GDEXSession, opts: SellOptions): Promise<TradeResult> {
+/** Sell via POST /sell_v2 (async queue — handles Token2022 + Raydium LaunchLab). Same contract as buyTokenV2. */
+async function sellTokenV2(
+  session: GDEXSession,
+  opts: SellOptions,
+  nonce: string,
+  onQueued: (requestId: string) => void,
+): Promise<TradeResult> {
   const chainId = opts.chainId ?? session.chainId;
   const apiUrl = session.sdk.getConfig().baseURL;
   const userId = session.walletAddress.toLowerCase();
-  const nonce = CryptoUtils.generateUniqueNumber().toString();
 
   const encodedData = CryptoUtils.encodeInputData('sell', {
     tokenAddress: opts.tokenAddress,
@@ -185,9 +319,224 @@ async function sellTokenV2(session: GDEXSession, opts: SellOptions): Promise<Tra
     return { isSuccess: false, message: res.data?.error || 'No requestId in sell_v2 response' };
   }
 
+  onQueued(requestId);
   return pollTradeStatus(apiUrl, requestId);
 }
 
+// ---------------------------------------------------------------------------
+// Portfolio risk
+// ---------------------------------------------------------------------------
+
+/** Run an order past portfolio-risk.ts; a rejection comes back as a failed TradeResult. */
+function riskCheck(order: OrderIntent): TradeResult | null {
+  const rejected = checkOrder(order);
+  return rejected ? { isSuccess: false, message: `Risk: ${rejected.message}`, rejected } : null;
+}
+
+/** Spot order in native smallest units on a GDEX chain */
+function spotRiskCheck(side: 'buy' | 'sell', tokenAddress: string, amount: string, chainId: number): TradeResult | null {
+  return riskCheck({
+    chain: chainKey(chainId),
+    token: tokenAddress,
+    side,
+    reduceOnly: side === 'sell',
+    // Sell amounts are token units — only buys have a native size
+    notional: side === 'buy' ? nativeAmount(amount, chainId) : null,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Client order ids
+// ---------------------------------------------------------------------------
+
+type SpotSender = (nonce: string, onQueued: (requestId: string) => void) => Promise<TradeResult>;
+
+function withTimeout<T>(promise: Promise<T>): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => setTimeout(() => reject(new Error('timeout')), BALANCE_TIMEOUT_MS).unref()),
+  ]);
+}
+
+/** Balance of one token from the holdings API: 0 when not held, null when the lookup failed. */
+async function tokenBalance(session: GDEXSession, token: string, chainId: number): Promise<number | null> {
+  try {
+    const holdings = await withTimeout(getHoldings(session, chainId));
+    if (!Array.isArray(holdings)) return null;
+    const h = findHolding(holdings, token);
+    return h ? parseFloat(h.balance ?? h.amount ?? '0') || 0 : 0;
+  } catch {
+    return null;
+  }
+}
+
+/** Native per token right before sending, for slippagePct — null when no quote came back in time. */
+async function fetchQuotedPrice(session: GDEXSession, token: string, chainId: number): Promise<number | null> {
+  try {
+    return (await withTimeout(getSpotQuote(session.sdk, token, chainId)))?.priceNative ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Add the on-chain fill (fills.ts) to a successful spot result. Best effort:
+ * the trade went through either way, so a failed lookup only sets fillError.
+ */
+async function withFill(
+  session: GDEXSession,
+  side: 'buy' | 'sell',
+  opts: BuyOptions | SellOptions,
+  chainId: number,
+  result: TradeResult,
+  quote: number | null,
+): Promise<TradeResult> {
+  if (!result.isSuccess || !result.hash) return result;
+  if (chainId !== session.chainId) {
+    return { ...result, fillError: `Session is for chain ${session.chainId} — no wallet address for chain ${chainId}` };
+  }
+  try {
+    const fill = await getTradeFill({
+      chainId, hash: result.hash, owner: session.custodialAddress, token: opts.tokenAddress, side, quotedPrice: quote,
+    });
+    return { ...result, ...fill };
+  } catch (err: any) {
+    return { ...result, fillError: err?.message ?? String(err) };
+  }
+}
+
+/** What a repeat of a filled or pending client order returns — nothing is sent. */
+function settledResult(order: ClientOrder): TradeResult {
+  if (order.status === 'filled') {
+    return {
+      isSuccess: true, hash: order.hash ?? undefined, clientOrderId: order.id, duplicate: true,
+      message: `Order ${order.id} already filled — not sent again`,
+    };
+  }
+  return {
+    isSuccess: false, pending: true, clientOrderId: order.id,
+    message: `Order ${order.id} is still pending${order.message ? ` (${order.message})` : ''} — not sent again until reconciled`,
+  };
+}
+
+/**
+ * Settle a pending client order: ask /trade-status when the API queued it,
+ * then compare the token balance with the one recorded before sending. A
+ * balance that moved the order's way → filled. An order the API still reports
+ * as queued stays pending until PENDING_EXPIRY_MS after its last update. Any
+ * other one is failed RECONCILE_GRACE_MS after it only when both balances were
+ * read and show no fill — an EVM resend is a new order, so an unknown outcome
+ * (no balance before, or none now) stays pending until /trade-status or
+ * `gdex orders fail <id>` settles it. Returns the order as it stands.
+ */
+export async function reconcileClientOrder(session: GDEXSession, orderOrId: ClientOrder | string): Promise<ClientOrder> {
+  const order = typeof orderOrId === 'string' ? getClientOrder(orderOrId) : orderOrId;
+  if (!order) throw new Error(`Unknown client order ${orderOrId}`);
+  if (order.status !== 'pending') return order;
+
+  let queued = false;
+  if (order.requestId) {
+    const s = await getTradeStatus(session.sdk.getConfig().baseURL, order.requestId);
+    if (s.status === 'success') {
+      return updateClientOrder(order.id, { status: 'filled', hash: s.hash ?? null, message: 'reconciled via trade-status' });
+    }
+    if (s.status === 'error') return updateClientOrder(order.id, { status: 'failed', message: s.error ?? null });
+    // Still queued — the API may yet land it, so give it the long expiry
+    queued = s.status === 'pending';
+  }
+
+  // Without a recorded balance the holdings can't tell a fill from a position held before
+  const before = order.balanceBefore;
+  const balance = before === null ? null : await tokenBalance(session, order.token, order.chainId);
+  if (before !== null && balance !== null && (order.side === 'buy' ? balance > before : balance < before)) {
+    return updateClientOrder(order.id, { status: 'filled', message: `reconciled via holdings (${before} → ${balance})` });
+  }
+  const age = Date.now() - Date.parse(order.updatedAt);
+  if (queued) {
+    if (age < PENDING_EXPIRY_MS) return order;
+    return updateClientOrder(order.id, { status: 'failed', message: `queued for ${PENDING_EXPIRY_MS / 3600_000}h — expired` });
+  }
+  // Only a before-and-after read proves no fill
+  if (before === null || balance === null || age < RECONCILE_GRACE_MS) return order;
+  return updateClientOrder(order.id, { status: 'failed', message: `not queued and holdings unchanged (${before}) — not landed` });
+}
+
+/** Reconcile every pending client order, or those on one chain. */
+export async function reconcilePendingOrders(session: GDEXSession, chainId?: number): Promise<ClientOrder[]> {
+  const settled: ClientOrder[] = [];
+  for (const order of listClientOrders('pending')) {
+    if (chainId === undefined || order.chainId === chainId) settled.push(await reconcileClientOrder(session, order));
+  }
+  return settled;
+}
+
+/**
+ * Send a spot order at most once per client order id (order-registry.ts).
+ * A filled id returns its original hash; a pending one is reconciled and only
+ * sent again once it is known to have failed. A buy is also held back while
+ * another buy of the same token is still pending. Successful results carry
+ * the on-chain fill.
+ */
+async function submitOnce(
+  session: GDEXSession,
+  side: 'buy' | 'sell',
+  opts: BuyOptions | SellOptions,
+  chainId: number,
+  send: SpotSender,
+): Promise<TradeResult> {
+  const clientOrderId = opts.clientOrderId ?? newClientOrderId(side);
+  let known = getClientOrder(clientOrderId);
+  if (known?.status === 'pending') known = await reconcileClientOrder(session, known);
+  if (known && known.status !== 'failed') return withFill(session, side, opts, chainId, settledResult(known), opts.quotedPrice ?? null);
+
+  if (side === 'buy') {
+    const others = listClientOrders('pending').filter((o) =>
+      o.id !== clientOrderId && o.side === 'buy' && o.chainId === chainId && o.token === opts.tokenAddress);
+    for (const other of others) {
+      if ((await reconcileClientOrder(session, other)).status === 'pending') {
+        return {
+          isSuccess: false, pending: true, clientOrderId,
+          message: `A buy of ${opts.tokenAddress} is still pending as ${other.id} — not sent`,
+        };
+      }
+    }
+  }
+
+  const refused = spotRiskCheck(side, opts.tokenAddress, opts.amount, chainId);
+  if (refused) return { ...refused, clientOrderId };
+
+  const [balanceBefore, quote] = await Promise.all([
+    tokenBalance(session, opts.tokenAddress, chainId),
+    opts.quotedPrice ?? fetchQuotedPrice(session, opts.tokenAddress, chainId),
+  ]);
+  const order = beginSubmission({
+    id: clientOrderId,
+    chainId,
+    token: opts.tokenAddress,
+    side,
+    amount: opts.amount,
+    nonce: CryptoUtils.generateUniqueNumber().toString(),
+    balanceBefore,
+  });
+  // Another process took it between the lookup and now
+  if (!order) return withFill(session, side, opts, chainId, settledResult(getClientOrder(clientOrderId)!), quote);
+
+  let result: TradeResult;
+  try {
+    result = await send(order.nonce, (requestId) => updateClientOrder(order.id, { requestId }));
+  } catch (err: any) {
+    const status = err?.response?.status;
+    // A 4xx is the API turning the order down; anything else may have reached it
+    if (status >= 400 && status < 500) updateClientOrder(order.id, { status: 'failed', message: err.message });
+    else updateClientOrder(order.id, { message: `outcome unknown: ${err?.message ?? err}` });
+    throw err;
+  }
+  if (result.isSuccess) updateClientOrder(order.id, { status: 'filled', hash: result.hash ?? null, message: null });
+  else if (result.pending) updateClientOrder(order.id, { message: result.message ?? null });
+  else updateClientOrder(order.id, { status: 'failed', message: result.message ?? null });
+  return withFill(session, side, opts, chainId, { ...result, clientOrderId }, quote);
+}
+
 // ---------------------------------------------------------------------------
 // Public trading functions
 // ---------------------------------------------------------------------------
@@ -196,46 +545,69 @@ async function sellTokenV2(session: GDEXSession, opts: SellOptions): Promise<Tra
  * Execute a market buy.
  * Solana: uses /purchase_v2 (handles Token2022 + Raydium LaunchLab, async+poll).
  * EVM: uses SDK trading.buy (synchronous).
+ * Paper sessions: simulated fill at the live quote (see paper-trading.ts).
+ * Refused without sending when the portfolio risk check says no (portfolio-risk.ts).
+ * Sent at most once per opts.clientOrderId; a confirmation timeout comes back
+ * with `pending` set instead of a plain failure (see submitOnce).
+ * A successful result carries the fill read from the confirmed transaction:
+ * executedPrice, tokenAmount, nativeAmount, fee, tip, slippagePct (fills.ts).
  */
 export async function buyToken(
   session: GDEXSession,
   opts: BuyOptions
 ): Promise<TradeResult> {
   const chainId = opts.chainId ?? session.chainId;
-  if (chainId === SOLANA) {
-    return buyTokenV2(session, opts);
+  if (session.paper) {
+    const refused = spotRiskCheck('buy', opts.tokenAddress, opts.amount, chainId);
+    if (refused) return refused;
+    return session.paper.buy(opts, chainId);
   }
-  const result = await session.sdk.trading.buy(
-    session.walletAddress,
-    opts.amount,
-    opts.tokenAddress,
-    chainId,
-    session.tradingPrivateKey
-  );
-  return result as TradeResult;
+  return submitOnce(session, 'buy', opts, chainId, async (nonce, onQueued) => {
+    if (chainId === SOLANA) {
+      return buyTokenV2(session, opts, nonce, onQueued);
+    }
+    const result = await session.sdk.trading.buy(
+      session.walletAddress,
+      opts.amount,
+      opts.tokenAddress,
+      chainId,
+      session.tradingPrivateKey
+    );
+    return result as TradeResult;
+  });
 }
 
 /**
  * Execute a market sell.
  * Solana: uses /sell_v2 (handles Token2022 + Raydium LaunchLab, async+poll).
  * EVM: uses SDK trading.sell (synchronous).
+ * Paper sessions: simulated fill at the live quote (see paper-trading.ts).
+ * Refused without sending when the portfolio risk check says no (portfolio-risk.ts).
+ * Sent at most once per opts.clientOrderId, and carries the fill, like buyToken.
  */
 export async function sellToken(
   session: GDEXSession,
   opts: SellOptions
 ): Promise<TradeResult> {
   const chainId = opts.chainId ?? session.chainId;
-  if (chainId === SOLANA) {
-    return sellTokenV2(session, opts);
+  if (session.paper) {
+    const refused = spotRiskCheck('sell', opts.tokenAddress, opts.amount, chainId);
+    if (refused) return refused;
+    return session.paper.sell(opts, chainId);
   }
-  const result = await session.sdk.trading.sell(
-    session.walletAddress,
-    opts.amount,
-    opts.tokenAddress,
-    chainId,
-    session.tradingPrivateKey
-  );
-  return result as TradeResult;
+  return submitOnce(session, 'sell', opts, chainId, async (nonce, onQueued) => {
+    if (chainId === SOLANA) {
+      return sellTokenV2(session, opts, nonce, onQueued);
+    }
+    const result = await session.sdk.trading.sell(
+      session.walletAddress,
+      opts.amount,
+      opts.tokenAddress,
+      chainId,
+      session.tradingPrivateKey
+    );
+    return result as TradeResult;
+  });
 }
 
 /**
@@ -247,6 +619,8 @@ export async function createLimitBuyOrder(
   opts: LimitBuyOrderOptions
 ): Promise<TradeResult> {
   const chainId = opts.chainId ?? session.chainId;
+  const refused = spotRiskCheck('buy', opts.tokenAddress, opts.amount, chainId);
+  if (refused) return refused;
   const result = await session.sdk.trading.createLimitBuy(
     session.walletAddress,
     opts.amount,
@@ -269,6 +643,8 @@ export async function createLimitSellOrder(
   opts: LimitOrderOptions
 ): Promise<TradeResult> {
   const chainId = opts.chainId ?? session.chainId;
+  const refused = spotRiskCheck('sell', opts.tokenAddress, opts.amount, chainId);
+  if (refused) return refused;
   const result = await session.sdk.trading.createLimitSell(
     session.walletAddress,
     opts.amount,
@@ -293,3 +669,295 @@ export async function getOrders(
     session.encryptedSessionKey
   );
 }
+
+// ---------------------------------------------------------------------------
+// HyperLiquid perp orders
+// ---------------------------------------------------------------------------
+
+const hlAddressCache = new WeakMap<GDEXSession, string>();
+
+/**
+ * HL account address for the session (the EVM custodial wallet GDEX trades
+ * from — not the control wallet). Cached per session.
+ */
+export async function getHlAddress(session: GDEXSession): Promise<string> {
+  const cached = hlAddressCache.get(session);
+  if (cached) return cached;
+  const ui = await session.sdk.user.getUserInfo(session.walletAddress, session.encryptedSessionKey, ARBITRUM);
+  const address: string | undefined = ui?.address?.toLowerCase();
+  if (!address?.startsWith('0x')) throw new Error('No HyperLiquid address in user info');
+  hlAddressCache.set(session, address);
+  if (session.paper) routeHlAccountToPaper(address, session.paper.hlAccount);
+  return address;
+}
+
+function perpError(coin: string, isLong: boolean, message: string, size = '0', limitPx = '0'): PerpOrderResult {
+  return { isSuccess: false, message, coin, isLong, size, limitPx };
+}
+
+/**
+ * Pull the order status out of a create_order response. GDEX passes HL's
+ * exchange response through, but the nesting differs between endpoints;
+ * paper fills report oid/avgPx/totalSz at the top level.
+ */
+function parseOrderStatus(raw: any): { orderId?: string; status?: 'filled' | 'resting'; avgPx?: number; filledSz?: number; error?: string } {
+  const statuses: any[] | undefined =
+    raw?.data?.response?.data?.statuses ?? raw?.response?.data?.statuses ??
+    raw?.data?.data?.statuses ?? raw?.data?.statuses ?? raw?.statuses;
+  const st = statuses?.[0];
+  if (st?.error) return { error: st.error };
+  if (st?.filled) {
+    return {
+      orderId: String(st.filled.oid),
+      status: 'filled',
+      avgPx: parseFloat(st.filled.avgPx),
+      filledSz: parseFloat(st.filled.totalSz),
+    };
+  }
+  if (st?.resting) return { orderId: String(st.resting.oid), status: 'resting' };
+  if (raw?.oid !== undefined) {
+    return {
+      orderId: String(raw.oid),
+      status: 'filled',
+      avgPx: raw.avgPx !== undefined ? parseFloat(raw.avgPx) : undefined,
+      filledSz: raw.totalSz !== undefined ? parseFloat(raw.totalSz) : undefined,
+    };
+  }
+  return {};
+}
+
+/** Find the oid of an order just placed when the response didn't carry one. */
+async function lookupOrderId(
+  session: GDEXSession,
+  coin: string,
+  isLong: boolean,
+  since: number,
+): Promise<Pick<PerpOrderResult, 'orderId' | 'status' | 'avgPx' | 'filledSz'>> {
+  try {
+    const address = await getHlAddress(session);
+    const resting = (await getOpenOrders(address))
+      .filter(o => o.coin === coin && o.isBuy === isLong && !o.triggerPx && o.timestamp >= since)
+      .sort((a, b) => b.timestamp - a.timestamp)[0];
+    if (resting) return { orderId: String(resting.oid), status: 'resting' };
+
+    const fills = (await getUserFills(address, since)).filter(f => f.coin === coin && f.isBuy === isLong);
+    if (fills.length === 0) return {};
+    const oid = fills[0].oid;
+    const mine = fills.filter(f => f.oid === oid);
+    const filledSz = mine.reduce((s, f) => s + f.sz, 0);
+    const avgPx = mine.reduce((s, f) => s + f.px * f.sz, 0) / (filledSz || 1);
+    return { orderId: String(oid), status: 'filled', avgPx, filledSz };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Place a HyperLiquid perp order.
+ * Market orders are sent as HL market orders with the limit capped at
+ * mark ± slippage; limit orders rest at `price`. Size may be given in USD or
+ * contracts and is rounded to the coin's lot size, prices to its tick size.
+ * Paper sessions get a simulated fill through the wrapped SDK.
+ * Every order passes the portfolio risk check (portfolio-risk.ts) first.
+ */
+export async function placePerpOrder(
+  session: GDEXSession,
+  opts: PerpOrderOptions
+): Promise<PerpOrderResult> {
+  const { coin, isLong } = opts;
+  const type = opts.type ?? 'market';
+  const reduceOnly = opts.reduceOnly ?? false;
+
+  const meta = await getAssetMeta(coin);
+  if (!meta) return perpError(coin, isLong, `Unknown HyperLiquid asset ${coin}`);
+
+  let refPx: number;
+  let limitPx: number;
+  if (type === 'limit') {
+    if (!(opts.price && opts.price > 0)) return perpError(coin, isLong, 'Limit orders need a positive price');
+    refPx = limitPx = opts.price;
+  } else {
+    const mark = (await getMids())[coin];
+    if (!mark) return perpError(coin, isLong, `No mark price for ${coin}`);
+    const slip = opts.slippage ?? DEFAULT_PERP_SLIPPAGE;
+    refPx = mark;
+    limitPx = mark * (isLong ? 1 + slip : 1 - slip);
+  }
+
+  let size: string;
+  if (opts.size !== undefined) size = formatSize(opts.size, meta.szDecimals, 'down');
+  else if (opts.usd !== undefined) size = formatSize(opts.usd / refPx, meta.szDecimals);
+  else return perpError(coin, isLong, 'Order needs a size or usd amount');
+
+  const px = formatPrice(limitPx, meta.szDecimals);
+  if (!(parseFloat(size) > 0)) return perpError(coin, isLong, `Size rounds to zero at ${meta.szDecimals} decimals`, size, px);
+
+  const notional = parseFloat(size) * refPx;
+  if (!reduceOnly && notional < HL_MIN_ORDER_USD) {
+    return perpError(coin, isLong, `Notional $${notional.toFixed(2)} is under the $${HL_MIN_ORDER_USD} HL minimum`, size, px);
+  }
+
+  const refused = riskCheck({ chain: 'hl', token: coin, side: isLong ? 'buy' : 'sell', reduceOnly, notional });
+  if (refused) return { ...perpError(coin, isLong, refused.message!, size, px), rejected: refused.rejected };
+
+  const tpPx = opts.tpPrice ? formatPrice(opts.tpPrice, meta.szDecimals) : '0';
+  const slPx = opts.slPrice ? formatPrice(opts.slPrice, meta.szDecimals) : '0';
+  const placedAt = Date.now();
+
+  let raw: any;
+  try {
+    raw = await session.sdk.hyperLiquid.hlCreateOrder(
+      session.walletAddress,
+      coin,
+      isLong,
+      px,
+      size,
+      tpPx,
+      slPx,
+      reduceOnly,
+      type === 'market',
+      session.tradingPrivateKey,
+    );
+  } catch (err: any) {
+    return perpError(coin, isLong, err.response?.data?.message ?? err.message, size, px);
+  }
+
+  const base = { ...(raw ?? {}), coin, isLong, size, limitPx: px };
+  if (!raw?.isSuccess) {
+    return { ...base, isSuccess: false, message: raw?.message ?? raw?.error ?? JSON.stringify(raw) };
+  }
+
+  const parsed = parseOrderStatus(raw);
+  if (parsed.error) return { ...base, isSuccess: false, message: parsed.error };
+  const found = parsed.orderId || session.paper ? parsed : await lookupOrderId(session, coin, isLong, placedAt - 5000);
+  return { ...base, isSuccess: true, ...found };
+}
+
+/**
+ * Close (or partly close) a perp position with a reduce-only market order
+ * sized from the live position. Only the given coin is touched — unlike
+ * hlCloseAll, other open positions stay as they are.
+ */
+export async function closePerpPosition(
+  session: GDEXSession,
+  coin: string,
+  opts: ClosePerpOptions = {}
+): Promise<PerpOrderResult> {
+  let szi: number;
+  if (session.paper) {
+    szi = session.paper.getState().perps[coin]?.szi ?? 0;
+  } else {
+    const { positions } = await getClearinghouseState(await getHlAddress(session));
+    szi = positions.find(p => p.coin === coin)?.szi ?? 0;
+  }
+  if (szi === 0) return perpError(coin, false, `No open ${coin} position`);
+
+  return placePerpOrder(session, {
+    coin,
+    isLong: szi < 0,
+    size: Math.min(opts.size ?? Math.abs(szi), Math.abs(szi)),
+    type: 'market',
+    slippage: opts.slippage,
+    reduceOnly: true,
+  });
+}
+
+/** Cancel one resting perp order by HL order id. */
+export async function cancelPerpOrder(
+  session: GDEXSession,
+  coin: string,
+  orderId: string | number
+): Promise<TradeResult> {
+  try {
+    const result = await session.sdk.hyperLiquid.hlCancelOrder(
+      session.walletAddress,
+      coin,
+      String(orderId),
+      session.tradingPrivateKey,
+    );
+    return (result ?? { isSuccess: false, message: 'Empty cancel response' }) as TradeResult;
+  } catch (err: any) {
+    return { isSuccess: false, message: err.response?.data?.message ?? err.message };
+  }
+}
+
+/**
+ * Cancel every resting perp order, or only those for `coin` when given
+ * (cancelled one by one since the API's cancel-all has no coin filter).
+ */
+export async function cancelAllPerpOrders(
+  session: GDEXSession,
+  coin?: string
+): Promise<TradeResult> {
+  if (session.paper) return { isSuccess: true, paper: true, message: 'Paper: no resting orders' };
+
+  if (!coin) {
+    try {
+      const result = await session.sdk.hyperLiquid.hlCancelAllOrders(session.walletAddress, session.tradingPrivateKey);
+      return (result ?? { isSuccess: false, message: 'Empty cancel response' }) as TradeResult;
+    } catch (err: any) {
+      return { isSuccess: false, message: err.response?.data?.message ?? err.message };
+    }
+  }
+
+  const orders = (await getOpenOrders(await getHlAddress(session))).filter(o => o.coin === coin);
+  const failed: string[] = [];
+  for (const o of orders) {
+    const r = await cancelPerpOrder(session, coin, o.oid);
+    if (!r.isSuccess) failed.push(`${o.oid}: ${r.message ?? 'failed'}`);
+  }
+  return failed.length === 0
+    ? { isSuccess: true, message: `Cancelled ${orders.length} ${coin} order(s)`, cancelled: orders.length }
+    : { isSuccess: false, message: failed.join('; '), cancelled: orders.length - failed.length };
+}
+
+/**
+ * Replace the take-profit (and optionally stop-loss) on an open position.
+ * GDEX only exposes TP/SL as triggers attached to an order, so the TP is a
+ * resting reduce-only limit for the full position at tpPrice, with slPrice
+ * attached to it. HL arms attached triggers when the parent fills, so an SL
+ * sent this way may not be live — `slArmed` reports whether a stop trigger
+ * actually shows up in the open orders. To guarantee an SL, attach it when
+ * opening (placePerpOrder slPrice). Existing reduce-only orders for the coin
+ * are cancelled first so levels are replaced rather than stacked.
+ */
+export async function setPerpTpSl(
+  session: GDEXSession,
+  coin: string,
+  opts: PerpTpSlOptions
+): Promise<PerpOrderResult & { slArmed?: boolean }> {
+  if (!opts.tpPrice) return perpError(coin, false, 'tpPrice is required — attach a lone SL when opening the position');
+  if (session.paper) return perpError(coin, false, 'TP/SL orders are not simulated in paper trading mode');
+
+  const address = await getHlAddress(session);
+  const { positions } = await getClearinghouseState(address);
+  const pos = positions.find(p => p.coin === coin);
+  if (!pos) return perpError(coin, false, `No open ${coin} position`);
+
+  const mark = (await getMids())[coin] ?? pos.entryPx;
+  const { tpPrice, slPrice } = opts;
+  const wrongSide = pos.isLong
+    ? tpPrice <= mark || (slPrice !== undefined && slPrice >= mark)
+    : tpPrice >= mark || (slPrice !== undefined && slPrice <= mark);
+  if (wrongSide) return perpError(coin, !pos.isLong, `TP/SL on the wrong side of mark $${mark} for a ${pos.isLong ? 'long' : 'short'}`);
+
+  const existing = (await getOpenOrders(address)).filter(o => o.coin === coin && o.reduceOnly);
+  for (const o of existing) {
+    const r = await cancelPerpOrder(session, coin, o.oid);
+    if (!r.isSuccess) return perpError(coin, !pos.isLong, `Could not cancel existing order ${o.oid}: ${r.message}`);
+  }
+
+  const result = await placePerpOrder(session, {
+    coin,
+    isLong: !pos.isLong,
+    size: pos.size,
+    type: 'limit',
+    price: tpPrice,
+    reduceOnly: true,
+    slPrice,
+  });
+  if (!result.isSuccess || slPrice === undefined) return result;
+
+  const slArmed = (await getOpenOrders(address)).some(o => o.coin === coin && o.reduceOnly && !!o.triggerPx);
+  return { ...result, slArmed };
+}
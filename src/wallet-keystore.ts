@@ -0,0 +1,171 @@
+/**
+ * wallet-keystore.ts — manage encrypted keystore wallets
+ *
+ * Keys are stored as scrypt + AES-GCM JSON keystores in .keystore/<name>.json
+ * (KEYSTORE_DIR overrides). Agents unlock them at startup with
+ * KEYSTORE_PASSWORD or KEYSTORE_PASSWORD_FILE, and pick a wallet with
+ * WALLET_NAME (default "default").
+ *
+ * Usage:
+ *   npm run wallet:keystore -- migrate [--name default] [--keep-env]
+ *                                               # move .env PRIVATE_KEY into the keystore
+ *   npm run wallet:keystore -- new --name bot2  # generate a fresh encrypted wallet
+ *   npm run wallet:keystore -- import --name hot # encrypt a key pasted at the prompt
+ *   npm run wallet:keystore -- list
+ *
+ * Non-interactive (CI/docker): set KEYSTORE_PASSWORD or KEYSTORE_PASSWORD_FILE
+ * and pass the key to `import` with --key-file <path>.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { Wallet } from 'ethers';
+import { parseArgs } from './args';
+import { loadConfig } from './config';
+import {
+  DEFAULT_WALLET_NAME,
+  getKeystoreDir,
+  hasKeystore,
+  listKeystores,
+  resolvePassphrase,
+  saveKeystore,
+  unlockKeystore,
+} from './keystore';
+
+const ENV_PATH = path.resolve(__dirname, '..', '.env');
+
+// ─── Args ────────────────────────────────────────────────────────────────────
+
+// Switches — never take the next token as their value (args.ts)
+const BOOLEAN_FLAGS = new Set(['keep-env']);
+
+// ─── Prompts ─────────────────────────────────────────────────────────────────
+
+/** Read a line from the TTY without echoing it. */
+function promptHidden(question: string): Promise<string> {
+  return new Promise((resolve) => {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: true });
+    const output = rl as unknown as { _writeToOutput: (s: string) => void };
+    let muted = false;
+    output._writeToOutput = (s: string) => {
+      if (!muted || s.includes('\n')) process.stdout.write(muted ? '\n' : s);
+    };
+    rl.question(question, (answer) => {
+      rl.close();
+      resolve(answer.trim());
+    });
+    muted = true;
+  });
+}
+
+/** Passphrase from the environment, else prompted (twice when creating). */
+async function getPassphrase(confirm: boolean): Promise<string> {
+  const fromEnv = resolvePassphrase();
+  if (fromEnv) return fromEnv;
+  if (!process.stdin.isTTY) {
+    throw new Error('No TTY for a passphrase prompt — set KEYSTORE_PASSWORD or KEYSTORE_PASSWORD_FILE');
+  }
+  const pass = await promptHidden('Keystore passphrase: ');
+  if (pass.length < 8) throw new Error('Passphrase must be at least 8 characters');
+  if (confirm && (await promptHidden('Repeat passphrase: ')) !== pass) {
+    throw new Error('Passphrases do not match');
+  }
+  return pass;
+}
+
+// ─── .env rewrite ────────────────────────────────────────────────────────────
+
+/** Drop PRIVATE_KEY from .env and record WALLET_NAME when it isn't the default. */
+function scrubEnv(name: string): void {
+  if (!fs.existsSync(ENV_PATH)) return;
+  let env = fs.readFileSync(ENV_PATH, 'utf-8');
+  env = env.replace(/^PRIVATE_KEY=.*$/m, 'PRIVATE_KEY=');
+  if (name !== DEFAULT_WALLET_NAME) {
+    env = /^WALLET_NAME=/m.test(env)
+      ? env.replace(/^WALLET_NAME=.*$/m, `WALLET_NAME=${name}`)
+      : env.trimEnd() + `\nWALLET_NAME=${name}\n`;
+  }
+  const tmp = ENV_PATH + '.tmp';
+  fs.writeFileSync(tmp, env, { mode: 0o600 });
+  fs.renameSync(tmp, ENV_PATH);
+}
+
+// ─── Commands ────────────────────────────────────────────────────────────────
+
+async function migrate(name: string, keepEnv: boolean) {
+  const config = loadConfig();
+  if (!config.privateKey) throw new Error('No PRIVATE_KEY in .env to migrate');
+  if (hasKeystore(name)) throw new Error(`Wallet "${name}" already exists — pick another --name`);
+
+  const pass = await getPassphrase(true);
+  const ks = saveKeystore(name, config.privateKey, pass);
+  // Prove the file round-trips before touching .env
+  unlockKeystore(name, pass);
+  console.log(`✅ Encrypted 0x${ks.address} → ${path.join(getKeystoreDir(), name + '.json')}`);
+
+  if (keepEnv) {
+    console.log('   --keep-env: PRIVATE_KEY left in .env — remove it once the keystore works for you.');
+  } else {
+    scrubEnv(name);
+    console.log('   PRIVATE_KEY removed from .env');
+  }
+}
+
+async function create(name: string) {
+  if (hasKeystore(name)) throw new Error(`Wallet "${name}" already exists`);
+  const pass = await getPassphrase(true);
+  const wallet = Wallet.createRandom();
+  saveKeystore(name, wallet.privateKey, pass);
+  console.log(`✅ New wallet "${name}": ${wallet.address}`);
+}
+
+async function importKey(name: string, keyFile?: string) {
+  if (hasKeystore(name)) throw new Error(`Wallet "${name}" already exists`);
+  let key: string;
+  if (keyFile) {
+    key = fs.readFileSync(path.resolve(keyFile), 'utf-8').trim();
+  } else {
+    if (!process.stdin.isTTY) throw new Error('No TTY for the key prompt — pass --key-file <path>');
+    key = await promptHidden('Private key (0x…): ');
+  }
+  if (!key.startsWith('0x')) key = '0x' + key;
+  const address = new Wallet(key).address;
+  const pass = await getPassphrase(true);
+  saveKeystore(name, key, pass);
+  console.log(`✅ Imported "${name}": ${address}`);
+}
+
+function list() {
+  const wallets = listKeystores();
+  if (wallets.length === 0) {
+    console.log(`No keystore wallets in ${getKeystoreDir()}`);
+    return;
+  }
+  const active = process.env.WALLET_NAME || DEFAULT_WALLET_NAME;
+  for (const w of wallets) {
+    console.log(`${w.name === active ? '*' : ' '} ${w.name.padEnd(16)} ${w.address}`);
+  }
+}
+
+// ─── Main ────────────────────────────────────────────────────────────────────
+
+async function main() {
+  const { flags, positional } = parseArgs(process.argv.slice(2), BOOLEAN_FLAGS);
+  const name = flags.name ?? process.env.WALLET_NAME ?? DEFAULT_WALLET_NAME;
+
+  switch (positional[0]) {
+    case 'migrate': return migrate(name, flags['keep-env'] === 'true');
+    case 'new':     return create(name);
+    case 'import':  return importKey(name, flags['key-file']);
+    case 'list':    return list();
+    default:
+      console.error('Usage: npm run wallet:keystore -- <migrate|new|import|list> [--name <wallet>] [--keep-env] [--key-file <path>]');
+      process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error(`❌ ${err.message}`);
+  process.exit(1);
+});